@@ -21,8 +21,17 @@ import { HealthModule } from './health/health.module';
 import { AdminModule } from './modules/admin/admin.module';
 import { ReviewModule } from './modules/review/review.module';
 import { MetricsModule } from './modules/metrics/metrics.module';
+import { TagModule } from './modules/tags/tag.module';
+import { CategoryModule } from './modules/categories/category.module';
+import { TaskModule } from './modules/tasks/task.module';
+import { ImportModule } from './modules/import/import.module';
+import { DataExportModule } from './modules/export/data-export.module';
 import { DatabaseInitService } from './database/database-init.service';
 import { RedisModule } from './shared/redis.module';
+import { LlmModule } from './modules/ai/llm/llm.module';
+import { FallbackHandlerModule } from './modules/ai/fallback-handler.module';
+import { AiBudgetModule } from './modules/ai/ai-budget.module';
+import { PromptRegistryModule } from './modules/ai/prompts/prompt-registry.module';
 
 @Module({
   imports: [
@@ -77,6 +86,11 @@ import { RedisModule } from './shared/redis.module';
     // Phase 8 modules
     AdminModule,
     ReviewModule,
+    TagModule,
+    CategoryModule,
+    TaskModule,
+    ImportModule,
+    DataExportModule,
     // Phase 9 modules
     ThrottlerModule.forRoot([
       {
@@ -97,6 +111,10 @@ import { RedisModule } from './shared/redis.module';
     ]),
     HealthModule,
     RedisModule,
+    LlmModule,
+    FallbackHandlerModule,
+    AiBudgetModule,
+    PromptRegistryModule,
   ],
   controllers: [AppController],
   providers: [
@@ -1,4 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
+import {
+  LLM_OPERATIONS,
+  type LlmOperation,
+  type LlmProviderName,
+} from '../modules/ai/llm/llm-provider.interface';
+import { UserPlan } from '../entities/user.entity';
 
 export interface ClaudeConfig {
   apiKey: string;
@@ -7,6 +13,53 @@ export interface ClaudeConfig {
   temperature: number;
 }
 
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * USD prices for one model or service. Token prices are per million
+ * tokens; `perUnit` is for services billed by something else (one image
+ * feature for Vision, one minute of audio for Speech).
+ */
+export interface AiPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perUnit?: number;
+}
+
+export interface AiUsageAmounts {
+  inputTokens?: number;
+  outputTokens?: number;
+  units?: number;
+}
+
+const DEFAULT_AI_PRICES: Record<string, AiPrice> = {
+  'claude-3-haiku-20240307': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
+  fixture: { inputPerMillion: 0, outputPerMillion: 0 },
+  'google-vision': { perUnit: 0.0015 },
+  'google-speech': { perUnit: 0.024 },
+  'google-speech-enhanced': { perUnit: 0.036 },
+};
+
+export interface AiBudgetConfig {
+  // Monthly hard limit in USD per plan; 0 means unlimited
+  planBudgetsUsd: Record<UserPlan, number>;
+  // Share of the hard limit where cheaper processing starts
+  softLimitPercent: number;
+}
+
 export interface GoogleCloudConfig {
   projectId: string;
   keyFilename?: string;
@@ -26,20 +79,34 @@ export interface VisionConfig extends GoogleCloudConfig {
 @Injectable()
 export class AIConfig {
   private readonly logger = new Logger(AIConfig.name);
+  private readonly aiPrices: Record<string, AiPrice>;
 
   constructor() {
     this.validateEnvironmentVariables();
+    this.aiPrices = this.loadAiPrices();
     this.logger.log('AI services configuration initialized');
   }
 
+  /**
+   * Warn about keys the configured providers need instead of failing at
+   * startup, so a deployment running only local models needs no Claude key
+   */
   private validateEnvironmentVariables(): void {
-    const required = ['CLAUDE_API_KEY', 'GOOGLE_CLOUD_PROJECT_ID'];
-
-    const missing = required.filter((key) => !process.env[key]);
+    const providers = new Set(
+      LLM_OPERATIONS.map((operation) => this.getLlmRoute(operation).provider),
+    );
 
-    if (missing.length > 0) {
+    if (providers.has('anthropic') && !process.env.CLAUDE_API_KEY) {
+      this.logger.warn('CLAUDE_API_KEY is not set; Claude calls will fail');
+    }
+    if (providers.has('fixture') && !process.env.LLM_FIXTURES_PATH) {
       throw new Error(
-        `Missing required environment variables: ${missing.join(', ')}`,
+        'LLM_FIXTURES_PATH is required when the fixture provider is used',
+      );
+    }
+    if (!process.env.GOOGLE_CLOUD_PROJECT_ID) {
+      this.logger.warn(
+        'GOOGLE_CLOUD_PROJECT_ID is not set; speech and vision will fail',
       );
     }
   }
@@ -47,12 +114,120 @@ export class AIConfig {
   getClaudeConfig(): ClaudeConfig {
     return {
       apiKey: process.env.CLAUDE_API_KEY!,
-      model: process.env.CLAUDE_MODEL || 'claude-3-sonnet-20240229',
+      model: process.env.CLAUDE_MODEL || 'claude-3-haiku-20240307',
       maxTokens: Number.parseInt(process.env.CLAUDE_MAX_TOKENS || '4000', 10),
       temperature: Number.parseFloat(process.env.CLAUDE_TEMPERATURE || '0.7'),
     };
   }
 
+  getOpenAiCompatibleConfig(): OpenAiCompatibleConfig {
+    return {
+      baseUrl:
+        process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY,
+      model: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1:8b',
+    };
+  }
+
+  getLlmFixturesPath(): string | undefined {
+    return process.env.LLM_FIXTURES_PATH;
+  }
+
+  /**
+   * Provider and model for an operation. LLM_PROVIDER sets the default;
+   * LLM_PROVIDER_<OPERATION> and LLM_MODEL_<OPERATION> override it, e.g.
+   * LLM_PROVIDER_TRANSLATION=openai to translate with a local model.
+   */
+  getLlmRoute(operation: LlmOperation): LlmRoute {
+    const suffix = operation.toUpperCase();
+    const provider = (
+      process.env[`LLM_PROVIDER_${suffix}`] ||
+      process.env.LLM_PROVIDER ||
+      'anthropic'
+    ).toLowerCase();
+
+    if (
+      provider !== 'anthropic' &&
+      provider !== 'openai' &&
+      provider !== 'fixture'
+    ) {
+      throw new Error(`Unknown LLM provider "${provider}" for ${operation}`);
+    }
+
+    const defaultModel =
+      provider === 'openai'
+        ? this.getOpenAiCompatibleConfig().model
+        : provider === 'fixture'
+          ? 'fixture'
+          : this.getClaudeConfig().model;
+
+    return {
+      provider,
+      model: process.env[`LLM_MODEL_${suffix}`] || defaultModel,
+    };
+  }
+
+  getAiPrice(model: string): AiPrice | undefined {
+    return this.aiPrices[model];
+  }
+
+  /**
+   * Cost in USD of one call, or null when the model has no price, so
+   * unpriced usage shows up in reports instead of counting as free
+   */
+  calculateAiCost(model: string, usage: AiUsageAmounts): number | null {
+    const price = this.getAiPrice(model);
+    if (!price) {
+      return null;
+    }
+
+    return (
+      ((usage.inputTokens || 0) * (price.inputPerMillion || 0) +
+        (usage.outputTokens || 0) * (price.outputPerMillion || 0)) /
+        1_000_000 +
+      (usage.units || 0) * (price.perUnit || 0)
+    );
+  }
+
+  getAiBudgetConfig(): AiBudgetConfig {
+    return {
+      planBudgetsUsd: {
+        [UserPlan.FREE]: Number.parseFloat(
+          process.env.AI_BUDGET_FREE_USD || '1',
+        ),
+        [UserPlan.PRO]: Number.parseFloat(
+          process.env.AI_BUDGET_PRO_USD || '10',
+        ),
+      },
+      softLimitPercent: Number.parseFloat(
+        process.env.AI_BUDGET_SOFT_LIMIT_PERCENT || '80',
+      ),
+    };
+  }
+
+  /**
+   * AI_PRICE_TABLE is a JSON object of model name to AiPrice, merged over
+   * the defaults, e.g. {"llama3.1:8b":{}} to count a local model as free
+   */
+  private loadAiPrices(): Record<string, AiPrice> {
+    if (!process.env.AI_PRICE_TABLE) {
+      return { ...DEFAULT_AI_PRICES };
+    }
+
+    try {
+      const overrides = JSON.parse(process.env.AI_PRICE_TABLE) as Record<
+        string,
+        AiPrice
+      >;
+      return { ...DEFAULT_AI_PRICES, ...overrides };
+    } catch (error) {
+      this.logger.warn(
+        `AI_PRICE_TABLE is not valid JSON, using default prices: ${(error as Error).message}`,
+      );
+      return { ...DEFAULT_AI_PRICES };
+    }
+  }
+
   getSpeechToTextConfig(): SpeechToTextConfig {
     return {
       projectId: process.env.GOOGLE_CLOUD_PROJECT_ID!,
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDumpProcessingQueue1766100000000
+  implements MigrationInterface
+{
+  name = 'CreateDumpProcessingQueue1766100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD COLUMN "processing_steps" jsonb NOT NULL DEFAULT '[]'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."dump_jobs_status_enum" AS ENUM('pending', 'running', 'completed', 'dead')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "dump_jobs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "dump_id" uuid NOT NULL, "status" "public"."dump_jobs_status_enum" NOT NULL DEFAULT 'pending', "step" character varying(50) NOT NULL, "attempts" integer NOT NULL DEFAULT '0', "run_at" TIMESTAMP NOT NULL, "last_error" text, "payload" jsonb, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_dump_jobs_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dump_jobs_status_run_at" ON "dump_jobs" ("status", "run_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dump_jobs_dump_id" ON "dump_jobs" ("dump_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_dump_jobs_dump_id"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_dump_jobs_status_run_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "dump_jobs"`);
+    await queryRunner.query(`DROP TYPE "public"."dump_jobs_status_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "dumps" DROP COLUMN "processing_steps"`,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDumpRevisions1766200000000 implements MigrationInterface {
+  name = 'CreateDumpRevisions1766200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."dump_revisions_author_type_enum" AS ENUM('user', 'admin', 'ai')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "dump_revisions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "dump_id" uuid NOT NULL, "revision_number" integer NOT NULL, "author_type" "public"."dump_revisions_author_type_enum" NOT NULL, "author_id" uuid, "snapshot" jsonb NOT NULL, "changed_fields" jsonb NOT NULL DEFAULT '[]', "reason" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_dump_revisions_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_dump_revisions_dump_id_revision_number" ON "dump_revisions" ("dump_id", "revision_number")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dump_revisions" ADD CONSTRAINT "FK_dump_revisions_dump_id" FOREIGN KEY ("dump_id") REFERENCES "dumps"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dump_revisions" DROP CONSTRAINT "FK_dump_revisions_dump_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_dump_revisions_dump_id_revision_number"`,
+    );
+    await queryRunner.query(`DROP TABLE "dump_revisions"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."dump_revisions_author_type_enum"`,
+    );
+  }
+}
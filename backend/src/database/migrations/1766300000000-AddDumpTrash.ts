@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpTrash1766300000000 implements MigrationInterface {
+  name = 'AddDumpTrash1766300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" ADD "deleted_at" TIMESTAMP`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dumps_deleted_at" ON "dumps" ("deleted_at") WHERE "deleted_at" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "trash_retention_days" integer NOT NULL DEFAULT 30`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "trash_retention_days"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_dumps_deleted_at"`);
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "deleted_at"`);
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpMerging1766400000000 implements MigrationInterface {
+  name = 'AddDumpMerging1766400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" ADD "merged_into_id" uuid`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dumps_merged_into_id" ON "dumps" ("merged_into_id") WHERE "merged_into_id" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD CONSTRAINT "FK_dumps_merged_into_id" FOREIGN KEY ("merged_into_id") REFERENCES "dumps"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" DROP CONSTRAINT "FK_dumps_merged_into_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_dumps_merged_into_id"`);
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "merged_into_id"`);
+  }
+}
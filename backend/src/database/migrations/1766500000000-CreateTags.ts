@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTags1766500000000 implements MigrationInterface {
+  name = 'CreateTags1766500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "tags" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "name" character varying(50) NOT NULL, "color" character varying(20), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_tags_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_tags_user_id_name" ON "tags" ("user_id", "name")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tags" ADD CONSTRAINT "FK_tags_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."dump_tags_source_enum" AS ENUM('user', 'ai')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "dump_tags" ("dump_id" uuid NOT NULL, "tag_id" uuid NOT NULL, "source" "public"."dump_tags_source_enum" NOT NULL DEFAULT 'user', "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_dump_tags" PRIMARY KEY ("dump_id", "tag_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dump_tags_tag_id" ON "dump_tags" ("tag_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dump_tags" ADD CONSTRAINT "FK_dump_tags_dump_id" FOREIGN KEY ("dump_id") REFERENCES "dumps"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dump_tags" ADD CONSTRAINT "FK_dump_tags_tag_id" FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dump_tags" DROP CONSTRAINT "FK_dump_tags_tag_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dump_tags" DROP CONSTRAINT "FK_dump_tags_dump_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_dump_tags_tag_id"`);
+    await queryRunner.query(`DROP TABLE "dump_tags"`);
+    await queryRunner.query(`DROP TYPE "public"."dump_tags_source_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "tags" DROP CONSTRAINT "FK_tags_user_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_tags_user_id_name"`);
+    await queryRunner.query(`DROP TABLE "tags"`);
+  }
+}
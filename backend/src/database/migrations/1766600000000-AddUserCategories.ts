@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserCategories1766600000000 implements MigrationInterface {
+  name = 'AddUserCategories1766600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "categories" ADD "user_id" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "categories" DROP CONSTRAINT "UQ_categories_name"`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_categories_user_id_name" ON "categories" ("user_id", "name")`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_categories_system_name" ON "categories" ("name") WHERE "user_id" IS NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "categories" ADD CONSTRAINT "FK_categories_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // User categories cannot keep their names once names are global again
+    await queryRunner.query(
+      `UPDATE "dumps" SET "category_id" = NULL WHERE "category_id" IN (SELECT "id" FROM "categories" WHERE "user_id" IS NOT NULL)`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "categories" WHERE "user_id" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "categories" DROP CONSTRAINT "FK_categories_user_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."UQ_categories_system_name"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_categories_user_id_name"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "categories" ADD CONSTRAINT "UQ_categories_name" UNIQUE ("name")`,
+    );
+    await queryRunner.query(`ALTER TABLE "categories" DROP COLUMN "user_id"`);
+  }
+}
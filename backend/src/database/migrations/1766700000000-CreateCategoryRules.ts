@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCategoryRules1766700000000 implements MigrationInterface {
+  name = 'CreateCategoryRules1766700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."category_rules_stage_enum" AS ENUM('before_ai', 'after_ai')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "category_rules" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "name" character varying(100) NOT NULL, "category_id" uuid NOT NULL, "conditions" jsonb NOT NULL, "stage" "public"."category_rules_stage_enum" NOT NULL DEFAULT 'before_ai', "priority" integer NOT NULL DEFAULT 0, "is_active" boolean NOT NULL DEFAULT true, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_category_rules_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_category_rules_user_id_stage_priority" ON "category_rules" ("user_id", "stage", "priority")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_rules" ADD CONSTRAINT "FK_category_rules_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_rules" ADD CONSTRAINT "FK_category_rules_category_id" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "category_rules" DROP CONSTRAINT "FK_category_rules_category_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_rules" DROP CONSTRAINT "FK_category_rules_user_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_category_rules_user_id_stage_priority"`,
+    );
+    await queryRunner.query(`DROP TABLE "category_rules"`);
+    await queryRunner.query(`DROP TYPE "public"."category_rules_stage_enum"`);
+  }
+}
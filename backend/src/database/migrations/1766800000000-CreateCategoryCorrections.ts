@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateCategoryCorrections1766800000000
+  implements MigrationInterface
+{
+  name = 'CreateCategoryCorrections1766800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."category_corrections_source_enum" AS ENUM('user', 'review', 'admin')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "category_corrections" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "dump_id" uuid, "content" text NOT NULL, "content_vector" vector(384), "previous_category" character varying(100), "category_id" uuid NOT NULL, "source" "public"."category_corrections_source_enum" NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_category_corrections_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_category_corrections_user_id" ON "category_corrections" ("user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_category_corrections_dump_id" ON "category_corrections" ("dump_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" ADD CONSTRAINT "FK_category_corrections_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" ADD CONSTRAINT "FK_category_corrections_dump_id" FOREIGN KEY ("dump_id") REFERENCES "dumps"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" ADD CONSTRAINT "FK_category_corrections_category_id" FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // ai_metrics may come from 001_create_metrics_tables.sql or from
+    // schema synchronization, which name the enum type differently
+    await queryRunner.query(
+      `DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_operation_type') THEN
+          ALTER TYPE "public"."ai_operation_type" ADD VALUE IF NOT EXISTS 'categorization_correction';
+        END IF;
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_metrics_operation_type_enum') THEN
+          ALTER TYPE "public"."ai_metrics_operation_type_enum" ADD VALUE IF NOT EXISTS 'categorization_correction';
+        END IF;
+      END $$`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values; categorization_correction stays
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" DROP CONSTRAINT "FK_category_corrections_category_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" DROP CONSTRAINT "FK_category_corrections_dump_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "category_corrections" DROP CONSTRAINT "FK_category_corrections_user_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_category_corrections_dump_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_category_corrections_user_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "category_corrections"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."category_corrections_source_enum"`,
+    );
+  }
+}
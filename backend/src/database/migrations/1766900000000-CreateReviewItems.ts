@@ -0,0 +1,113 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateReviewItems1766900000000 implements MigrationInterface {
+  name = 'CreateReviewItems1766900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const statuses = `'pending', 'in_progress', 'resolved', 'dismissed'`;
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_items_flag_enum" AS ENUM('incorrect_category', 'incorrect_summary', 'missing_entities', 'wrong_urgency', 'content_quality', 'processing_error', 'false_positive', 'spam', 'other')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_items_priority_enum" AS ENUM('low', 'medium', 'high', 'critical')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_items_status_enum" AS ENUM(${statuses})`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_items_reported_by_enum" AS ENUM('user', 'system', 'confidence_check')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "review_items" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "dump_id" uuid NOT NULL, "user_id" uuid NOT NULL, "flag" "public"."review_items_flag_enum" NOT NULL, "priority" "public"."review_items_priority_enum" NOT NULL, "status" "public"."review_items_status_enum" NOT NULL DEFAULT 'pending', "description" text, "suggested_category" character varying(100), "suggested_summary" text, "reported_by" "public"."review_items_reported_by_enum" NOT NULL, "assigned_to" uuid, "resolved_by" uuid, "resolution" text, "resolved_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_review_items_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_review_items_status_priority_created_at" ON "review_items" ("status", "priority", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_review_items_dump_id" ON "review_items" ("dump_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_review_items_assigned_to" ON "review_items" ("assigned_to")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" ADD CONSTRAINT "FK_review_items_dump_id" FOREIGN KEY ("dump_id") REFERENCES "dumps"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" ADD CONSTRAINT "FK_review_items_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" ADD CONSTRAINT "FK_review_items_assigned_to" FOREIGN KEY ("assigned_to") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_status_changes_from_status_enum" AS ENUM(${statuses})`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."review_status_changes_to_status_enum" AS ENUM(${statuses})`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "review_status_changes" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "review_item_id" uuid NOT NULL, "from_status" "public"."review_status_changes_from_status_enum", "to_status" "public"."review_status_changes_to_status_enum" NOT NULL, "assigned_to" uuid, "changed_by" uuid, "note" text, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_review_status_changes_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_review_status_changes_review_item_id" ON "review_status_changes" ("review_item_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_status_changes" ADD CONSTRAINT "FK_review_status_changes_review_item_id" FOREIGN KEY ("review_item_id") REFERENCES "review_items"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // The flagged-content page used to list low-confidence dumps directly;
+    // queue those so the page keeps showing them
+    await queryRunner.query(
+      `INSERT INTO "review_items" ("dump_id", "user_id", "flag", "priority", "description", "reported_by", "created_at")
+       SELECT "id", "user_id", 'content_quality',
+         (CASE WHEN "ai_confidence" < 30 THEN 'critical' WHEN "ai_confidence" < 50 THEN 'high' WHEN "ai_confidence" < 60 THEN 'medium' ELSE 'low' END)::"public"."review_items_priority_enum",
+         'Low AI confidence score: ' || "ai_confidence" || '%', 'confidence_check', "created_at"
+       FROM "dumps"
+       WHERE "ai_confidence" < 70 AND "deleted_at" IS NULL`,
+    );
+    await queryRunner.query(
+      `INSERT INTO "review_status_changes" ("review_item_id", "to_status", "note", "created_at")
+       SELECT "id", 'pending', 'Queued from existing low-confidence dumps', "created_at" FROM "review_items"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "review_status_changes" DROP CONSTRAINT "FK_review_status_changes_review_item_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_review_status_changes_review_item_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "review_status_changes"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."review_status_changes_to_status_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."review_status_changes_from_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" DROP CONSTRAINT "FK_review_items_assigned_to"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" DROP CONSTRAINT "FK_review_items_user_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "review_items" DROP CONSTRAINT "FK_review_items_dump_id"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_review_items_assigned_to"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_review_items_dump_id"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_review_items_status_priority_created_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "review_items"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."review_items_reported_by_enum"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."review_items_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."review_items_priority_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."review_items_flag_enum"`);
+  }
+}
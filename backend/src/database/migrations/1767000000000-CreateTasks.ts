@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateTasks1767000000000 implements MigrationInterface {
+  name = 'CreateTasks1767000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."tasks_status_enum" AS ENUM('pending', 'in_progress', 'completed', 'cancelled')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."tasks_priority_enum" AS ENUM('low', 'medium', 'high')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."tasks_source_enum" AS ENUM('action_item', 'manual')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "tasks" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "dump_id" uuid, "title" character varying(500) NOT NULL, "notes" text, "due_date" TIMESTAMP, "estimated_minutes" integer, "status" "public"."tasks_status_enum" NOT NULL DEFAULT 'pending', "priority" "public"."tasks_priority_enum" NOT NULL DEFAULT 'medium', "sort_order" integer NOT NULL DEFAULT 0, "source" "public"."tasks_source_enum" NOT NULL DEFAULT 'manual', "completed_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_tasks_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tasks_user_id_status_due_date" ON "tasks" ("user_id", "status", "due_date")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tasks_dump_id" ON "tasks" ("dump_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_dump_id" FOREIGN KEY ("dump_id") REFERENCES "dumps"("id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+
+    // Action items extracted so far only live in extracted_entities; turn the
+    // ones of live dumps into open tasks, keeping their order
+    await queryRunner.query(
+      `INSERT INTO "tasks" ("user_id", "dump_id", "title", "sort_order", "source", "created_at")
+       SELECT d."user_id", d."id", LEFT(item.value, 500), (item.ordinality - 1)::integer, 'action_item', d."created_at"
+       FROM "dumps" d
+       CROSS JOIN LATERAL jsonb_array_elements_text(d."extracted_entities"->'actionItems') WITH ORDINALITY AS item(value, ordinality)
+       WHERE d."deleted_at" IS NULL
+         AND jsonb_typeof(d."extracted_entities"->'actionItems') = 'array'
+         AND btrim(item.value) <> ''`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_dump_id"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_user_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_dump_id"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_tasks_user_id_status_due_date"`,
+    );
+    await queryRunner.query(`DROP TABLE "tasks"`);
+    await queryRunner.query(`DROP TYPE "public"."tasks_source_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."tasks_priority_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."tasks_status_enum"`);
+  }
+}
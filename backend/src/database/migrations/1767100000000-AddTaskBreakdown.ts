@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTaskBreakdown1767100000000 implements MigrationInterface {
+  name = 'AddTaskBreakdown1767100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."tasks_source_enum" ADD VALUE IF NOT EXISTS 'breakdown'`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" ADD "parent_task_id" uuid`);
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD "needs_breakdown" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_tasks_parent_task_id" ON "tasks" ("parent_task_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" ADD CONSTRAINT "FK_tasks_parent_task_id" FOREIGN KEY ("parent_task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+
+    // ai_metrics may come from 001_create_metrics_tables.sql or from
+    // schema synchronization, which name the enum type differently
+    await queryRunner.query(
+      `DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_operation_type') THEN
+          ALTER TYPE "public"."ai_operation_type" ADD VALUE IF NOT EXISTS 'task_breakdown';
+        END IF;
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_metrics_operation_type_enum') THEN
+          ALTER TYPE "public"."ai_metrics_operation_type_enum" ADD VALUE IF NOT EXISTS 'task_breakdown';
+        END IF;
+      END $$`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values; breakdown and task_breakdown stay
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP CONSTRAINT "FK_tasks_parent_task_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_tasks_parent_task_id"`);
+    await queryRunner.query(
+      `DELETE FROM "tasks" WHERE "parent_task_id" IS NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "tasks" DROP COLUMN "needs_breakdown"`,
+    );
+    await queryRunner.query(`ALTER TABLE "tasks" DROP COLUMN "parent_task_id"`);
+  }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpIngestionKey1767200000000 implements MigrationInterface {
+  name = 'AddDumpIngestionKey1767200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "ingestion_key" character varying(500)`,
+    );
+
+    // Key existing channel dumps the way DumpIdempotencyService.buildKey
+    // does. Dumps saved before albums and attachment positions were recorded
+    // get keys no redelivery builds any more, which only means they are not
+    // deduplicated. Earlier redeliveries already produced duplicates; only
+    // the oldest one gets the key.
+    await queryRunner.query(`
+      WITH keyed AS (
+        SELECT "id", "created_at", LEFT(
+          CONCAT_WS(':',
+            "extracted_entities"->'metadata'->>'source',
+            COALESCE(NULLIF("extracted_entities"->'metadata'->>'chatId', ''), "user_id"::text),
+            CASE
+              WHEN COALESCE("extracted_entities"->'metadata'->>'mediaGroupId', '') <> ''
+                THEN 'album-' || ("extracted_entities"->'metadata'->>'mediaGroupId')
+              ELSE "extracted_entities"->'metadata'->>'messageId'
+            END,
+            CASE
+              WHEN "extracted_entities"->'metadata'->>'attachmentIndex' IS NOT NULL
+                THEN ("extracted_entities"->'metadata'->>'attachmentIndex') || '-' || COALESCE("extracted_entities"->'metadata'->>'fileName', '')
+              ELSE NULLIF("extracted_entities"->'metadata'->>'fileName', '')
+            END
+          ), 500) AS "key"
+        FROM "dumps"
+        WHERE "extracted_entities"->'metadata'->>'source' IN ('telegram', 'whatsapp', 'email')
+          AND COALESCE("extracted_entities"->'metadata'->>'messageId', '') <> ''
+      ),
+      ranked AS (
+        SELECT "id", "key",
+          ROW_NUMBER() OVER (PARTITION BY "key" ORDER BY "created_at", "id") AS "rank"
+        FROM keyed
+      )
+      UPDATE "dumps" SET "ingestion_key" = ranked."key"
+      FROM ranked
+      WHERE "dumps"."id" = ranked."id" AND ranked."rank" = 1
+    `);
+
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_dumps_ingestion_key" ON "dumps" ("ingestion_key") WHERE "ingestion_key" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."UQ_dumps_ingestion_key"`);
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "ingestion_key"`);
+  }
+}
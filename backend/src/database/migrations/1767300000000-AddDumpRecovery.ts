@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpRecovery1767300000000 implements MigrationInterface {
+  name = 'AddDumpRecovery1767300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "pipeline_step" character varying(20)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "processing_started_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "recovery_attempts" integer NOT NULL DEFAULT 0`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "last_recovery_at" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" DROP COLUMN "last_recovery_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" DROP COLUMN "recovery_attempts"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" DROP COLUMN "processing_started_at"`,
+    );
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "pipeline_step"`);
+  }
+}
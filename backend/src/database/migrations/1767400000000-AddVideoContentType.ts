@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVideoContentType1767400000000 implements MigrationInterface {
+  name = 'AddVideoContentType1767400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The initial migration and schema synchronization name the enum type differently
+    await queryRunner.query(
+      `DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'content_type_enum') THEN
+          ALTER TYPE "public"."content_type_enum" ADD VALUE IF NOT EXISTS 'video';
+        END IF;
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'dumps_content_type_enum') THEN
+          ALTER TYPE "public"."dumps_content_type_enum" ADD VALUE IF NOT EXISTS 'video';
+        END IF;
+      END $$`,
+    );
+  }
+
+  public async down(): Promise<void> {
+    // Postgres cannot drop enum values; video stays
+  }
+}
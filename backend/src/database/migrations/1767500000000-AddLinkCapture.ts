@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLinkCapture1767500000000 implements MigrationInterface {
+  name = 'AddLinkCapture1767500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'content_type_enum') THEN
+          ALTER TYPE "public"."content_type_enum" ADD VALUE IF NOT EXISTS 'url';
+        END IF;
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'dumps_content_type_enum') THEN
+          ALTER TYPE "public"."dumps_content_type_enum" ADD VALUE IF NOT EXISTS 'url';
+        END IF;
+      END $$`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "read_later" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dumps_user_id_read_later" ON "dumps" ("user_id") WHERE "read_later" = true`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values; url stays
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_dumps_user_id_read_later"`,
+    );
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "read_later"`);
+  }
+}
@@ -0,0 +1,13 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpMediaPages1767600000000 implements MigrationInterface {
+  name = 'AddDumpMediaPages1767600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" ADD "media_pages" jsonb`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "media_pages"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateImportJobs1767700000000 implements MigrationInterface {
+  name = 'CreateImportJobs1767700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."import_jobs_source_enum" AS ENUM('google_keep', 'evernote', 'markdown', 'whatsapp', 'telegram')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."import_jobs_status_enum" AS ENUM('processing', 'completed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "import_jobs" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "source" "public"."import_jobs_source_enum" NOT NULL, "file_name" character varying(255), "status" "public"."import_jobs_status_enum" NOT NULL DEFAULT 'processing', "total_items" integer NOT NULL DEFAULT 0, "skipped_items" integer NOT NULL DEFAULT 0, "processed_items" integer NOT NULL DEFAULT 0, "failed_items" integer NOT NULL DEFAULT 0, "completed_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_import_jobs_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_import_jobs_user_id_created_at" ON "import_jobs" ("user_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_import_jobs_status" ON "import_jobs" ("status")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "import_jobs" ADD CONSTRAINT "FK_import_jobs_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(`ALTER TABLE "dumps" ADD "import_job_id" uuid`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dumps_import_job_id" ON "dumps" ("import_job_id") WHERE "import_job_id" IS NOT NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_dumps_import_job_id"`);
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "import_job_id"`);
+    await queryRunner.query(
+      `ALTER TABLE "import_jobs" DROP CONSTRAINT "FK_import_jobs_user_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_import_jobs_status"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_import_jobs_user_id_created_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "import_jobs"`);
+    await queryRunner.query(`DROP TYPE "public"."import_jobs_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."import_jobs_source_enum"`);
+  }
+}
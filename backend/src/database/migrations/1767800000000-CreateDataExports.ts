@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDataExports1767800000000 implements MigrationInterface {
+  name = 'CreateDataExports1767800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."data_exports_status_enum" AS ENUM('pending', 'processing', 'completed', 'failed', 'expired')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "data_exports" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "user_id" uuid NOT NULL, "status" "public"."data_exports_status_enum" NOT NULL DEFAULT 'pending', "file_key" character varying(500), "file_size" integer, "download_token_hash" character varying(64), "expires_at" TIMESTAMP, "error" text, "completed_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_data_exports_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_data_exports_user_id_created_at" ON "data_exports" ("user_id", "created_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_data_exports_status" ON "data_exports" ("status")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "data_exports" ADD CONSTRAINT "FK_data_exports_user_id" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "data_exports" DROP CONSTRAINT "FK_data_exports_user_id"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_data_exports_status"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_data_exports_user_id_created_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "data_exports"`);
+    await queryRunner.query(`DROP TYPE "public"."data_exports_status_enum"`);
+  }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAiUsageCosts1767900000000 implements MigrationInterface {
+  name = 'AddAiUsageCosts1767900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "model" character varying(100)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "input_tokens" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "output_tokens" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "billable_units" numeric(12,4)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "cost_usd" numeric(12,6)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ai_metrics_user_id_timestamp" ON "ai_metrics" ("user_id", "timestamp")`,
+    );
+
+    // ai_metrics may come from 001_create_metrics_tables.sql or from
+    // schema synchronization, which name the enum type differently
+    for (const value of [
+      'summary',
+      'translation',
+      'proactive',
+      'query_enhancement',
+      'general',
+    ]) {
+      await queryRunner.query(
+        `DO $$
+        BEGIN
+          IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_operation_type') THEN
+            ALTER TYPE "public"."ai_operation_type" ADD VALUE IF NOT EXISTS '${value}';
+          END IF;
+          IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_metrics_operation_type_enum') THEN
+            ALTER TYPE "public"."ai_metrics_operation_type_enum" ADD VALUE IF NOT EXISTS '${value}';
+          END IF;
+        END $$`,
+      );
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values; the new operation types stay
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ai_metrics_user_id_timestamp"`,
+    );
+    await queryRunner.query(`ALTER TABLE "ai_metrics" DROP COLUMN "cost_usd"`);
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" DROP COLUMN "billable_units"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" DROP COLUMN "output_tokens"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" DROP COLUMN "input_tokens"`,
+    );
+    await queryRunner.query(`ALTER TABLE "ai_metrics" DROP COLUMN "model"`);
+  }
+}
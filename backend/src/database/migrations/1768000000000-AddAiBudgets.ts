@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAiBudgets1768000000000 implements MigrationInterface {
+  name = 'AddAiBudgets1768000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_plan_enum" AS ENUM('free', 'pro')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "plan" "public"."users_plan_enum" NOT NULL DEFAULT 'free'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "ai_monthly_budget_usd" numeric(10,2)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "ai_budget_notice" character varying(20)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "ai_budget_notice"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "ai_monthly_budget_usd"`,
+    );
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "plan"`);
+    await queryRunner.query(`DROP TYPE "public"."users_plan_enum"`);
+  }
+}
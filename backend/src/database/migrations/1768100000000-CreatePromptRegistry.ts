@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreatePromptRegistry1768100000000 implements MigrationInterface {
+  name = 'CreatePromptRegistry1768100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "prompt_versions" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "key" character varying(50) NOT NULL, "version" integer NOT NULL, "template" text NOT NULL, "description" character varying(255), "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_prompt_versions_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_prompt_versions_key_version" ON "prompt_versions" ("key", "version")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "prompt_experiments" ("id" uuid NOT NULL DEFAULT uuid_generate_v4(), "key" character varying(50) NOT NULL, "name" character varying(100) NOT NULL, "variants" jsonb NOT NULL, "started_at" TIMESTAMP NOT NULL DEFAULT now(), "ended_at" TIMESTAMP, CONSTRAINT "PK_prompt_experiments_id" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_prompt_experiments_key_ended_at" ON "prompt_experiments" ("key", "ended_at")`,
+    );
+
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "prompt_key" character varying(50)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" ADD "prompt_version" integer`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ai_metrics_prompt_key_version" ON "ai_metrics" ("prompt_key", "prompt_version")`,
+    );
+
+    // ai_metrics may come from 001_create_metrics_tables.sql or from
+    // schema synchronization, which name the enum type differently
+    await queryRunner.query(
+      `DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_operation_type') THEN
+          ALTER TYPE "public"."ai_operation_type" ADD VALUE IF NOT EXISTS 'parse_failure';
+        END IF;
+        IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'ai_metrics_operation_type_enum') THEN
+          ALTER TYPE "public"."ai_metrics_operation_type_enum" ADD VALUE IF NOT EXISTS 'parse_failure';
+        END IF;
+      END $$`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Postgres cannot drop enum values; parse_failure stays
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ai_metrics_prompt_key_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" DROP COLUMN "prompt_version"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ai_metrics" DROP COLUMN "prompt_key"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_prompt_experiments_key_ended_at"`,
+    );
+    await queryRunner.query(`DROP TABLE "prompt_experiments"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_prompt_versions_key_version"`,
+    );
+    await queryRunner.query(`DROP TABLE "prompt_versions"`);
+  }
+}
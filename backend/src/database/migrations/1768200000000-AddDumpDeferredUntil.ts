@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpDeferredUntil1768200000000 implements MigrationInterface {
+  name = 'AddDumpDeferredUntil1768200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "dumps" ADD "deferred_until" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "deferred_until"`);
+  }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddDumpQueuedAt1768300000000 implements MigrationInterface {
+  name = 'AddDumpQueuedAt1768300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" ADD "queued_at" TIMESTAMP`);
+    // Only jobs in the Postgres queue are known here; a dump waiting in Redis
+    // during the upgrade may be recovered once more
+    await queryRunner.query(
+      `UPDATE "dumps" SET "queued_at" = now() WHERE "id" IN (SELECT "dump_id" FROM "dump_jobs" WHERE "status" IN ('pending', 'running'))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "dumps" DROP COLUMN "queued_at"`);
+  }
+}
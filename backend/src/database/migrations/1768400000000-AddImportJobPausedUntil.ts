@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddImportJobPausedUntil1768400000000
+  implements MigrationInterface
+{
+  name = 'AddImportJobPausedUntil1768400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "import_jobs" ADD "paused_until" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "import_jobs" DROP COLUMN "paused_until"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserTrashRetentionCheck1768500000000
+  implements MigrationInterface
+{
+  name = 'AddUserTrashRetentionCheck1768500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A retention below a day would purge the whole trash
+    await queryRunner.query(
+      `UPDATE "users" SET "trash_retention_days" = 30 WHERE "trash_retention_days" < 1 OR "trash_retention_days" > 365`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD CONSTRAINT "CHK_users_trash_retention_days" CHECK ("trash_retention_days" >= 1 AND "trash_retention_days" <= 365)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP CONSTRAINT "CHK_users_trash_retention_days"`,
+    );
+  }
+}
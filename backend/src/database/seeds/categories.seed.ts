@@ -1,4 +1,4 @@
-import { DataSource } from 'typeorm';
+import { DataSource, IsNull } from 'typeorm';
 import { Category } from '../../entities/category.entity';
 
 export class CategoriesSeed {
@@ -94,8 +94,10 @@ export class CategoriesSeed {
       },
     ];
 
-    // Check if categories already exist
-    const existingCount = await categoryRepository.count();
+    // Check if system categories already exist
+    const existingCount = await categoryRepository.count({
+      where: { user_id: IsNull() },
+    });
     if (existingCount > 0) {
       console.log('Categories already seeded, skipping...');
       return;
@@ -14,8 +14,22 @@ export enum AIOperationType {
   CONTENT_ANALYSIS = 'content_analysis',
   VISION = 'vision',
   SPEECH = 'speech',
+  CATEGORIZATION_CORRECTION = 'categorization_correction', // A categorized dump was recategorized
+  TASK_BREAKDOWN = 'task_breakdown',
+  SUMMARY = 'summary',
+  TRANSLATION = 'translation',
+  PROACTIVE = 'proactive',
+  QUERY_ENHANCEMENT = 'query_enhancement',
+  GENERAL = 'general',
+  PARSE_FAILURE = 'parse_failure', // A model answer did not have the expected structure
 }
 
+// Postgres returns numeric columns as strings
+const numericTransformer = {
+  to: (value: number | null) => value,
+  from: (value: string | null) => (value === null ? null : Number(value)),
+};
+
 /**
  * AIMetric Entity
  * Tracks all AI operations for performance monitoring and analytics
@@ -25,6 +39,8 @@ export enum AIOperationType {
 @Index(['user_id'])
 @Index(['dump_id'])
 @Index(['operation_type'])
+@Index('IDX_ai_metrics_user_id_timestamp', ['user_id', 'timestamp'])
+@Index('IDX_ai_metrics_prompt_key_version', ['prompt_key', 'prompt_version'])
 export class AIMetric {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -53,11 +69,53 @@ export class AIMetric {
   @Column({ type: 'integer', nullable: true })
   confidence_score: number | null; // 0-100
 
+  // Set on rows recording a single billable call to a model or API
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  model: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  input_tokens: number | null;
+
+  @Column({ type: 'integer', nullable: true })
+  output_tokens: number | null;
+
+  // Image features for Vision, minutes of audio for Speech
+  @Column({
+    type: 'numeric',
+    precision: 12,
+    scale: 4,
+    nullable: true,
+    transformer: numericTransformer,
+  })
+  billable_units: number | null;
+
+  // Null when the model is missing from the price table
+  @Column({
+    type: 'numeric',
+    precision: 12,
+    scale: 6,
+    nullable: true,
+    transformer: numericTransformer,
+  })
+  cost_usd: number | null;
+
+  // Registry prompt the call or result came from (prompt-templates.ts)
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  prompt_key: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  prompt_version: number | null;
+
   @Column({ type: 'jsonb', nullable: true })
   metadata: {
     model?: string;
     error?: string;
     tokensUsed?: number;
     categoryAssigned?: string;
+    previousCategory?: string | null;
+    correctedCategory?: string;
+    correctionSource?: string;
+    fewShotExamples?: number;
+    subtaskCount?: number;
   } | null;
 }
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Dump } from './dump.entity';
+import { Category } from './category.entity';
+
+export enum CorrectionSource {
+  USER = 'user', // The user recategorized the dump
+  REVIEW = 'review', // A review was resolved with a suggested category
+  ADMIN = 'admin', // An admin changed the category when approving
+}
+
+/**
+ * CategoryCorrection Entity
+ * A dump whose category was corrected, kept as a labeled example for
+ * the user's future categorizations
+ */
+@Entity('category_corrections')
+@Index('IDX_category_corrections_user_id', ['user_id'])
+@Index('IDX_category_corrections_dump_id', ['dump_id'])
+export class CategoryCorrection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  // Kept when the dump is deleted; the example stays useful
+  @Column({ type: 'uuid', nullable: true })
+  dump_id: string | null;
+
+  // The text that was categorized (summary, or raw content without one)
+  @Column({ type: 'text' })
+  content: string;
+
+  @Column({ type: 'vector', nullable: true })
+  content_vector: number[] | null;
+
+  // Name rather than id: the wrong category may since have been deleted
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  previous_category: string | null;
+
+  @Column({ type: 'uuid' })
+  category_id: string;
+
+  @Column({ type: 'enum', enum: CorrectionSource })
+  source: CorrectionSource;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Dump, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'dump_id' })
+  dump: Dump | null;
+
+  @ManyToOne(() => Category, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'category_id' })
+  category: Category;
+}
@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Category } from './category.entity';
+
+export enum CategoryRuleStage {
+  BEFORE_AI = 'before_ai', // Decides the category; the AI step is skipped
+  AFTER_AI = 'after_ai', // Overrides the category suggested by the AI
+}
+
+/**
+ * Conditions of a rule. Every condition that is set must match.
+ */
+export interface CategoryRuleConditions {
+  contentPattern?: string; // Case-insensitive regular expression
+  sources?: ('telegram' | 'whatsapp' | 'email' | 'api')[];
+  senderEmail?: string; // Full address, or a domain such as edp.pt
+  contentTypes?: ('text' | 'voice' | 'image' | 'document' | 'video')[];
+  organizations?: string[]; // Matched against extracted organizations
+  aiCategories?: string[]; // AI-suggested category names, after_ai rules only
+}
+
+/**
+ * CategoryRule Entity
+ * User-defined rule assigning a category to dumps matching its conditions
+ */
+@Entity('category_rules')
+@Index('IDX_category_rules_user_id_stage_priority', [
+  'user_id',
+  'stage',
+  'priority',
+])
+export class CategoryRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'uuid' })
+  category_id: string;
+
+  @Column({ type: 'jsonb' })
+  conditions: CategoryRuleConditions;
+
+  @Column({
+    type: 'enum',
+    enum: CategoryRuleStage,
+    default: CategoryRuleStage.BEFORE_AI,
+  })
+  stage: CategoryRuleStage;
+
+  // Lower runs first within a stage
+  @Column({ type: 'integer', default: 0 })
+  priority: number;
+
+  @Column({ type: 'boolean', default: true })
+  is_active: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Category, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'category_id' })
+  category: Category;
+}
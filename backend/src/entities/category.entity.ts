@@ -3,16 +3,33 @@ import {
   PrimaryGeneratedColumn,
   Column,
   CreateDateColumn,
+  ManyToOne,
   OneToMany,
+  JoinColumn,
+  Index,
 } from 'typeorm';
 import { Dump } from './dump.entity';
+import { User } from './user.entity';
 
+/**
+ * Category Entity
+ * System defaults have no owner; user categories are visible only to their owner
+ */
 @Entity('categories')
+@Index('IDX_categories_user_id_name', ['user_id', 'name'], { unique: true })
+@Index('UQ_categories_system_name', ['name'], {
+  unique: true,
+  where: '"user_id" IS NULL',
+})
 export class Category {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'varchar', length: 100, unique: true })
+  // NULL for system categories
+  @Column({ type: 'uuid', nullable: true })
+  user_id: string | null;
+
+  @Column({ type: 'varchar', length: 100 })
   name: string;
 
   @Column({ type: 'text', nullable: true })
@@ -24,6 +41,7 @@ export class Category {
   @Column({ type: 'varchar', length: 50, nullable: true })
   icon: string;
 
+  // false once archived: hidden from listings and categorization
   @Column({ type: 'boolean', default: true })
   is_active: boolean;
 
@@ -34,6 +52,10 @@ export class Category {
   created_at: Date;
 
   // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'user_id' })
+  user: User | null;
+
   @OneToMany(() => Dump, (dump) => dump.category)
   dumps: Dump[];
 }
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired', // Download link lapsed and the archive was deleted
+}
+
+/**
+ * DataExport Entity
+ * A request for a copy of everything stored for a user. The archive is
+ * built in the background, kept in media storage and handed out through a
+ * download link that stops working at expires_at.
+ */
+@Entity('data_exports')
+@Index('IDX_data_exports_user_id_created_at', ['user_id', 'created_at'])
+@Index('IDX_data_exports_status', ['status'])
+export class DataExport {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: DataExportStatus,
+    default: DataExportStatus.PENDING,
+  })
+  status: DataExportStatus;
+
+  // Storage key of the zip archive
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  file_key: string | null;
+
+  @Column({ type: 'integer', nullable: true })
+  file_size: number | null;
+
+  // SHA-256 of the token in the download link; the token itself is only sent to the user
+  @Column({ type: 'varchar', length: 64, nullable: true, select: false })
+  download_token_hash: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expires_at: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
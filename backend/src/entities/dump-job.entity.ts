@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum DumpJobStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  DEAD = 'dead',
+}
+
+/**
+ * Data a job carries besides its dump and step
+ */
+export interface DumpJobPayload {
+  // Only set when the media could not be persisted to storage
+  mediaBase64?: string;
+  // Later pages of a multi-page dump, carried for the same reason
+  extraPagesBase64?: string[];
+  // Re-processing an edited dump; no bot reply is sent
+  reprocess?: boolean;
+  // Re-queued by the recovery job, with the state the dump was stuck in
+  recoveredFrom?: 'stuck' | 'failed';
+}
+
+/**
+ * DumpJob Entity
+ * Postgres fallback store for the dump processing queue, used when Redis is unavailable
+ */
+@Entity('dump_jobs')
+@Index(['status', 'run_at'])
+@Index(['dump_id'])
+export class DumpJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  dump_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: DumpJobStatus,
+    default: DumpJobStatus.PENDING,
+  })
+  status: DumpJobStatus;
+
+  @Column({ type: 'varchar', length: 50 })
+  step: string;
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp' })
+  run_at: Date;
+
+  @Column({ type: 'text', nullable: true })
+  last_error: string | null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  payload: DumpJobPayload | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Dump, ExtractedEntitiesData } from './dump.entity';
+
+export enum RevisionAuthorType {
+  USER = 'user',
+  ADMIN = 'admin',
+  AI = 'ai',
+}
+
+/**
+ * Editable state of a dump captured by a revision
+ */
+export interface DumpRevisionSnapshot {
+  raw_content: string;
+  ai_summary: string | null;
+  category_id: string | null;
+  urgency_level: number | null;
+  ai_confidence: number | null;
+  extracted_entities: ExtractedEntitiesData;
+}
+
+/**
+ * DumpRevision Entity
+ * One row per change to a dump, holding the state after the change and who made it
+ */
+@Entity('dump_revisions')
+@Index(['dump_id', 'revision_number'], { unique: true })
+export class DumpRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  dump_id: string;
+
+  @Column({ type: 'integer' })
+  revision_number: number;
+
+  @Column({
+    type: 'enum',
+    enum: RevisionAuthorType,
+  })
+  author_type: RevisionAuthorType;
+
+  @Column({ type: 'uuid', nullable: true })
+  author_id: string | null;
+
+  @Column({ type: 'jsonb' })
+  snapshot: DumpRevisionSnapshot;
+
+  @Column({ type: 'jsonb', default: '[]' })
+  changed_fields: string[];
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reason: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  // Relations
+  @ManyToOne(() => Dump, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'dump_id' })
+  dump: Dump;
+}
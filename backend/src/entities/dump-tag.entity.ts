@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Dump } from './dump.entity';
+import { Tag } from './tag.entity';
+
+export enum TagSource {
+  USER = 'user', // Added by the user, via the API or a #hashtag
+  AI = 'ai', // Suggested by the content analysis
+}
+
+/**
+ * DumpTag Entity
+ * Join between dumps and tags, recording how the tag was applied
+ */
+@Entity('dump_tags')
+export class DumpTag {
+  @PrimaryColumn({ type: 'uuid' })
+  dump_id: string;
+
+  @PrimaryColumn({ type: 'uuid' })
+  tag_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: TagSource,
+    default: TagSource.USER,
+  })
+  source: TagSource;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  // Relations
+  @ManyToOne(() => Dump, (dump) => dump.dump_tags, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'dump_id' })
+  dump: Dump;
+
+  @ManyToOne(() => Tag, (tag) => tag.dump_tags, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tag_id' })
+  tag: Tag;
+}
@@ -3,19 +3,24 @@ import {
   PrimaryGeneratedColumn,
   Column,
   CreateDateColumn,
+  DeleteDateColumn,
   ManyToOne,
   OneToMany,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { User } from './user.entity';
 import { Category } from './category.entity';
 import { Reminder } from './reminder.entity';
+import { DumpTag } from './dump-tag.entity';
 
 export enum ContentType {
   TEXT = 'text',
   VOICE = 'voice',
   IMAGE = 'image',
   EMAIL = 'email',
+  VIDEO = 'video',
+  URL = 'url',
 }
 
 export enum ProcessingStatus {
@@ -25,6 +30,19 @@ export enum ProcessingStatus {
   FAILED = 'failed',
 }
 
+export interface LinkMetadata {
+  url: string;
+  // Where the link redirected to, when different
+  finalUrl?: string;
+  title: string | null;
+  siteName: string | null;
+  publishedAt: string | null;
+  excerpt: string | null;
+  wordCount: number;
+  readingMinutes: number | null;
+  fetchError?: string;
+}
+
 export interface ExtractedEntitiesData {
   // Entity extraction data from EntityExtractionService
   entities?: {
@@ -61,11 +79,25 @@ export interface ExtractedEntitiesData {
   categoryReasoning?: string;
   alternativeCategories?: string[];
   autoApplied?: boolean;
+  // AI tag suggestions not matching any existing tag of the user
+  suggestedTags?: string[];
+  // Page behind a shared link, from LinkCaptureService
+  link?: LinkMetadata;
   // Metadata
   metadata?: Record<string, any>;
 }
 
 @Entity('dumps')
+@Index('UQ_dumps_ingestion_key', ['ingestion_key'], {
+  unique: true,
+  where: '"ingestion_key" IS NOT NULL',
+})
+@Index('IDX_dumps_user_id_read_later', ['user_id'], {
+  where: '"read_later" = true',
+})
+@Index('IDX_dumps_import_job_id', ['import_job_id'], {
+  where: '"import_job_id" IS NOT NULL',
+})
 export class Dump {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -85,6 +117,10 @@ export class Dump {
   @Column({ type: 'varchar', length: 500, nullable: true })
   media_url: string;
 
+  // Storage keys of the pages after the first in a multi-page dump (a Telegram album), in order
+  @Column({ type: 'jsonb', nullable: true })
+  media_pages: string[] | null;
+
   @Column({ type: 'text', nullable: true })
   ai_summary: string;
 
@@ -107,6 +143,9 @@ export class Dump {
   @Column({ type: 'jsonb', default: '{}' })
   extracted_entities: ExtractedEntitiesData;
 
+  @Column({ type: 'jsonb', default: '[]' })
+  processing_steps: string[];
+
   @Column({ type: 'vector', nullable: true })
   content_vector: number[];
 
@@ -116,6 +155,52 @@ export class Dump {
   @Column({ type: 'timestamp', nullable: true })
   processed_at: Date;
 
+  // Last pipeline step that completed; recovery resumes after it
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  pipeline_step: string | null;
+
+  // When the current processing attempt started, to spot crashed workers
+  @Column({ type: 'timestamp', nullable: true })
+  processing_started_at: Date | null;
+
+  // Times the recovery job re-queued the dump
+  @Column({ type: 'integer', default: 0 })
+  recovery_attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  last_recovery_at: Date | null;
+
+  // Processing was put off until then (AI outage or monthly budget); its job
+  // waits in the queue, so recovery leaves the dump alone until it is due
+  @Column({ type: 'timestamp', nullable: true })
+  deferred_until: Date | null;
+
+  // Set while a queue job for the dump waits or runs, in Redis or Postgres;
+  // recovery leaves queued dumps to their job
+  @Column({ type: 'timestamp', nullable: true })
+  queued_at: Date | null;
+
+  // Shared link the user wants to read later; listed in the digest until cleared
+  @Column({ type: 'boolean', default: false })
+  read_later: boolean;
+
+  // Set on a dump that was absorbed into another one by a merge
+  @Column({ type: 'uuid', nullable: true })
+  merged_into_id: string | null;
+
+  // Channel message the dump came from (source:chatId:messageId), so a
+  // redelivered webhook does not create the dump twice
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  ingestion_key: string | null;
+
+  // Bulk import the dump came from; created_at then holds the note's original date
+  @Column({ type: 'uuid', nullable: true })
+  import_job_id: string | null;
+
+  // Set when the dump is moved to the trash; purged after the user's retention period
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deleted_at: Date | null;
+
   // Relations
   @ManyToOne(() => User, (user) => user.dumps)
   @JoinColumn({ name: 'user_id' })
@@ -127,4 +212,7 @@ export class Dump {
 
   @OneToMany(() => Reminder, (reminder) => reminder.dump)
   reminders: Reminder[];
+
+  @OneToMany(() => DumpTag, (dumpTag) => dumpTag.dump)
+  dump_tags: DumpTag[];
 }
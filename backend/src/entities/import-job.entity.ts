@@ -0,0 +1,89 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum ImportSource {
+  GOOGLE_KEEP = 'google_keep',
+  EVERNOTE = 'evernote',
+  MARKDOWN = 'markdown',
+  WHATSAPP = 'whatsapp',
+  TELEGRAM = 'telegram',
+}
+
+export enum ImportJobStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+/**
+ * ImportJob Entity
+ * One upload of notes exported from another tool. Its items are saved as
+ * dumps right away and run through the pipeline in the background, a few
+ * at a time.
+ */
+@Entity('import_jobs')
+@Index('IDX_import_jobs_user_id_created_at', ['user_id', 'created_at'])
+@Index('IDX_import_jobs_status', ['status'])
+export class ImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  @Column({
+    type: 'enum',
+    enum: ImportSource,
+  })
+  source: ImportSource;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  file_name: string | null;
+
+  @Column({
+    type: 'enum',
+    enum: ImportJobStatus,
+    default: ImportJobStatus.PROCESSING,
+  })
+  status: ImportJobStatus;
+
+  // Items found in the export
+  @Column({ type: 'integer', default: 0 })
+  total_items: number;
+
+  // Items already imported by an earlier upload of the same export
+  @Column({ type: 'integer', default: 0 })
+  skipped_items: number;
+
+  @Column({ type: 'integer', default: 0 })
+  processed_items: number;
+
+  @Column({ type: 'integer', default: 0 })
+  failed_items: number;
+
+  // Set while an AI outage or the user's used-up budget holds the import
+  @Column({ type: 'timestamp', nullable: true })
+  paused_until: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export interface PromptExperimentVariant {
+  version: number;
+  // Relative share of users, e.g. 50/50 or 90/10
+  weight: number;
+}
+
+/**
+ * PromptExperiment Entity
+ * Splits users between versions of one prompt. At most one experiment per
+ * key runs at a time (ended_at is null); the first variant is the control
+ * and also serves calls that have no user.
+ */
+@Entity('prompt_experiments')
+@Index('IDX_prompt_experiments_key_ended_at', ['key', 'ended_at'])
+export class PromptExperiment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  key: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'jsonb' })
+  variants: PromptExperimentVariant[];
+
+  @CreateDateColumn()
+  started_at: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  ended_at: Date | null;
+}
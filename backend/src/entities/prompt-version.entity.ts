@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * PromptVersion Entity
+ * A version of a registry prompt added by an admin. Version 1 of every key
+ * is built in (prompt-templates.ts), so stored versions start at 2.
+ */
+@Entity('prompt_versions')
+@Index('IDX_prompt_versions_key_version', ['key', 'version'], { unique: true })
+export class PromptVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  key: string;
+
+  @Column({ type: 'integer' })
+  version: number;
+
+  // Text with {{variable}} placeholders
+  @Column({ type: 'text' })
+  template: string;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  description: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,125 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Dump } from './dump.entity';
+import { User } from './user.entity';
+
+export enum ReviewFlag {
+  INCORRECT_CATEGORY = 'incorrect_category',
+  INCORRECT_SUMMARY = 'incorrect_summary',
+  MISSING_ENTITIES = 'missing_entities',
+  WRONG_URGENCY = 'wrong_urgency',
+  CONTENT_QUALITY = 'content_quality',
+  PROCESSING_ERROR = 'processing_error',
+  FALSE_POSITIVE = 'false_positive',
+  SPAM = 'spam',
+  OTHER = 'other',
+}
+
+export enum ReviewPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+  CRITICAL = 'critical',
+}
+
+export enum ReviewStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  RESOLVED = 'resolved',
+  DISMISSED = 'dismissed',
+}
+
+export enum ReviewReporter {
+  USER = 'user',
+  SYSTEM = 'system',
+  CONFIDENCE_CHECK = 'confidence_check',
+}
+
+/**
+ * ReviewItem Entity
+ * A dump flagged for manual review, by its owner or automatically
+ */
+@Entity('review_items')
+@Index('IDX_review_items_status_priority_created_at', [
+  'status',
+  'priority',
+  'created_at',
+])
+@Index('IDX_review_items_dump_id', ['dump_id'])
+@Index('IDX_review_items_assigned_to', ['assigned_to'])
+export class ReviewItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  dump_id: string;
+
+  // Owner of the dump
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  @Column({ type: 'enum', enum: ReviewFlag })
+  flag: ReviewFlag;
+
+  @Column({ type: 'enum', enum: ReviewPriority })
+  priority: ReviewPriority;
+
+  @Column({
+    type: 'enum',
+    enum: ReviewStatus,
+    default: ReviewStatus.PENDING,
+  })
+  status: ReviewStatus;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  suggested_category: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  suggested_summary: string | null;
+
+  @Column({ type: 'enum', enum: ReviewReporter })
+  reported_by: ReviewReporter;
+
+  // Admin reviewer working on the item
+  @Column({ type: 'uuid', nullable: true })
+  assigned_to: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  resolved_by: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  resolution: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  resolved_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  // Relations
+  @ManyToOne(() => Dump, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'dump_id' })
+  dump: Dump;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'assigned_to' })
+  assignee: User | null;
+}
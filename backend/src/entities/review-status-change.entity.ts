@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ReviewItem, ReviewStatus } from './review-item.entity';
+
+/**
+ * ReviewStatusChange Entity
+ * Audit trail of a review item: one row per status change or reassignment
+ */
+@Entity('review_status_changes')
+@Index('IDX_review_status_changes_review_item_id', ['review_item_id'])
+export class ReviewStatusChange {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  review_item_id: string;
+
+  // Null when the item is created
+  @Column({ type: 'enum', enum: ReviewStatus, nullable: true })
+  from_status: ReviewStatus | null;
+
+  @Column({ type: 'enum', enum: ReviewStatus })
+  to_status: ReviewStatus;
+
+  // Assignee after the change
+  @Column({ type: 'uuid', nullable: true })
+  assigned_to: string | null;
+
+  // Null for automatic changes
+  @Column({ type: 'uuid', nullable: true })
+  changed_by: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  // Relations
+  @ManyToOne(() => ReviewItem, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'review_item_id' })
+  review_item: ReviewItem;
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { DumpTag } from './dump-tag.entity';
+
+/**
+ * Tag Entity
+ * User-scoped label that cuts across categories (e.g. house-renovation)
+ */
+@Entity('tags')
+@Index(['user_id', 'name'], { unique: true })
+export class Tag {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  // Normalized: lowercase, no leading '#', words joined with '-'
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  color: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @OneToMany(() => DumpTag, (dumpTag) => dumpTag.tag)
+  dump_tags: DumpTag[];
+}
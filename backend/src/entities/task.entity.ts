@@ -0,0 +1,119 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from './user.entity';
+import { Dump } from './dump.entity';
+
+export enum TaskStatus {
+  PENDING = 'pending',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum TaskPriority {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+export enum TaskSource {
+  ACTION_ITEM = 'action_item',
+  MANUAL = 'manual',
+  BREAKDOWN = 'breakdown', // Subtask generated by the task decomposer
+}
+
+/**
+ * Task Entity
+ * A to-do item extracted from a dump's action items or created by the user.
+ * Broken-down tasks own their ordered steps through parent_task_id.
+ */
+@Entity('tasks')
+@Index('IDX_tasks_user_id_status_due_date', ['user_id', 'status', 'due_date'])
+@Index('IDX_tasks_dump_id', ['dump_id'])
+@Index('IDX_tasks_parent_task_id', ['parent_task_id'])
+export class Task {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  user_id: string;
+
+  // Dump the task was extracted from
+  @Column({ type: 'uuid', nullable: true })
+  dump_id: string | null;
+
+  // Set on the steps of a broken-down task
+  @Column({ type: 'uuid', nullable: true })
+  parent_task_id: string | null;
+
+  @Column({ type: 'varchar', length: 500 })
+  title: string;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  due_date: Date | null;
+
+  @Column({ type: 'integer', nullable: true })
+  estimated_minutes: number | null;
+
+  @Column({
+    type: 'enum',
+    enum: TaskStatus,
+    default: TaskStatus.PENDING,
+  })
+  status: TaskStatus;
+
+  @Column({
+    type: 'enum',
+    enum: TaskPriority,
+    default: TaskPriority.MEDIUM,
+  })
+  priority: TaskPriority;
+
+  // Position within the user's list, lowest first
+  @Column({ type: 'integer', default: 0 })
+  sort_order: number;
+
+  @Column({
+    type: 'enum',
+    enum: TaskSource,
+    default: TaskSource.MANUAL,
+  })
+  source: TaskSource;
+
+  // Large or vague task that should be split into smaller steps
+  @Column({ type: 'boolean', default: false })
+  needs_breakdown: boolean;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  // Relations
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Dump, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'dump_id' })
+  dump: Dump | null;
+
+  @ManyToOne(() => Task, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_task_id' })
+  parent: Task | null;
+}
@@ -14,6 +14,11 @@ export enum UserRole {
   USER = 'USER',
 }
 
+export enum UserPlan {
+  FREE = 'free',
+  PRO = 'pro',
+}
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn('uuid')
@@ -61,6 +66,35 @@ export class User {
   @Column({ type: 'jsonb', default: '{}' })
   notification_preferences: Record<string, any>;
 
+  // Days a trashed dump is kept before it is permanently deleted
+  @Column({ type: 'integer', default: 30 })
+  trash_retention_days: number;
+
+  // Sets the default monthly AI budget (see AIConfig.getAiBudgetConfig)
+  @Column({
+    type: 'enum',
+    enum: UserPlan,
+    default: UserPlan.FREE,
+  })
+  plan: UserPlan;
+
+  // Overrides the plan's monthly AI budget; 0 means unlimited
+  @Column({
+    type: 'numeric',
+    precision: 10,
+    scale: 2,
+    nullable: true,
+    transformer: {
+      to: (value: number | null) => value,
+      from: (value: string | null) => (value === null ? null : Number(value)),
+    },
+  })
+  ai_monthly_budget_usd: number | null;
+
+  // Last budget limit the user was told about, as YYYY-MM:level
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  ai_budget_notice: string | null;
+
   @CreateDateColumn()
   created_at: Date;
 
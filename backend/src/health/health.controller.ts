@@ -2,6 +2,7 @@ import { Controller, Get } from '@nestjs/common';
 import { InjectDataSource } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
 import { RedisService } from '../shared/redis.service';
+import { FallbackHandlerService } from '../modules/ai/fallback-handler.service';
 
 /**
  * Health Check Controller (T093)
@@ -11,6 +12,7 @@ import { RedisService } from '../shared/redis.service';
 export class HealthController {
   constructor(
     @InjectDataSource() private readonly dataSource: DataSource,
+    private readonly fallbackHandler: FallbackHandlerService,
     private readonly redisService?: RedisService,
   ) {}
 
@@ -49,7 +51,8 @@ export class HealthController {
   }
 
   /**
-   * Detailed system health
+   * Detailed system health, including the circuit breakers of the AI
+   * services. An open breaker reports the system as degraded.
    */
   @Get('detailed')
   async detailed() {
@@ -64,8 +67,13 @@ export class HealthController {
       dbStatus = 'disconnected';
     }
 
+    const aiServices = this.fallbackHandler.getStats();
+    const aiDegraded = Object.values(aiServices).some(
+      (service) => service.circuitBreakerState.state === 'OPEN',
+    );
+
     return {
-      status: 'ok',
+      status: aiDegraded ? 'degraded' : 'ok',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       memory: {
@@ -74,6 +82,7 @@ export class HealthController {
         rss: Math.round(memoryUsage.rss / 1024 / 1024) + ' MB',
       },
       database: dbStatus,
+      aiServices,
       environment: process.env.NODE_ENV || 'development',
     };
   }
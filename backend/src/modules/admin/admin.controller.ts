@@ -1,6 +1,134 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import { AdminService } from './admin.service';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+  ValidateNested,
+} from 'class-validator';
+import {
+  AdminService,
+  AI_COST_GROUPS,
+  type AICostGroupBy,
+} from './admin.service';
+import { DumpRecoveryService } from '../dumps/services/dump-recovery.service';
+import { UserPlan } from '../../entities/user.entity';
+import { PromptRegistryService } from '../ai/prompts/prompt-registry.service';
+
+export class RetryDumpsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  dumpIds: string[];
+}
+
+export class AICostQueryDto {
+  @IsOptional()
+  @IsIn(AI_COST_GROUPS)
+  groupBy?: AICostGroupBy;
+
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export class MonthlyCostQueryDto {
+  @IsOptional()
+  @Matches(/^\d{4}-(0[1-9]|1[0-2])$/, { message: 'month must be YYYY-MM' })
+  month?: string;
+
+  @IsOptional()
+  @IsUUID()
+  userId?: string;
+}
+
+export class UpdateAiBudgetDto {
+  @IsOptional()
+  @IsEnum(UserPlan)
+  plan?: UserPlan;
+
+  // null falls back to the plan's budget, 0 means unlimited
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  monthlyBudgetUsd?: number | null;
+}
+
+export class CreatePromptVersionDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(20000)
+  template: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class PromptVariantDto {
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  weight: number;
+}
+
+export class StartPromptExperimentDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(5)
+  @ValidateNested({ each: true })
+  @Type(() => PromptVariantDto)
+  variants: PromptVariantDto[];
+}
+
+export class PromptComparisonQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
 
 /**
  * Admin Controller
@@ -9,7 +137,11 @@ import { AdminService } from './admin.service';
 @Controller('admin')
 @UseGuards(AuthGuard('jwt')) // Require authentication for all admin endpoints
 export class AdminController {
-  constructor(private readonly adminService: AdminService) {}
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly dumpRecoveryService: DumpRecoveryService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   /**
    * Get system-wide analytics and metrics
@@ -53,6 +185,178 @@ export class AdminController {
     };
   }
 
+  /**
+   * Get weekly categorization accuracy, optionally for one user
+   */
+  @Get('analytics/categorization')
+  async getCategorizationAccuracy(
+    @Query('userId') userId?: string,
+    @Query('weeks') weeks: string = '12',
+  ) {
+    const accuracy = await this.adminService.getCategorizationAccuracy(
+      userId,
+      Number.parseInt(weeks, 10) || 12,
+    );
+
+    return {
+      success: true,
+      data: accuracy,
+    };
+  }
+
+  /**
+   * Get AI spend grouped by day, user, operation or model
+   */
+  @Get('analytics/costs')
+  async getAICosts(@Query(ValidationPipe) query: AICostQueryDto) {
+    const costs = await this.adminService.getAICosts(
+      query.groupBy,
+      query.from ? new Date(query.from) : undefined,
+      query.to ? new Date(query.to) : undefined,
+    );
+
+    return {
+      success: true,
+      data: costs,
+    };
+  }
+
+  /**
+   * Get each user's AI spend for one month
+   */
+  @Get('analytics/costs/monthly')
+  async getMonthlyCostReport(
+    @Query(ValidationPipe) query: MonthlyCostQueryDto,
+  ) {
+    const report = await this.adminService.getMonthlyCostReport(
+      query.month,
+      query.userId,
+    );
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
+  /**
+   * List registry prompts with their versions and running experiments
+   */
+  @Get('prompts')
+  async getPrompts() {
+    const prompts = await this.promptRegistry.listPrompts();
+
+    return {
+      success: true,
+      data: prompts,
+    };
+  }
+
+  /**
+   * Add a version of a prompt; it is used once an experiment includes it
+   */
+  @Post('prompts/:key/versions')
+  async createPromptVersion(
+    @Param('key') key: string,
+    @Body(ValidationPipe) createPromptVersionDto: CreatePromptVersionDto,
+  ) {
+    const version = await this.promptRegistry.createVersion(
+      key,
+      createPromptVersionDto.template,
+      createPromptVersionDto.description,
+    );
+
+    return {
+      success: true,
+      data: version,
+    };
+  }
+
+  /**
+   * Split users between versions of a prompt, replacing the running experiment
+   */
+  @Post('prompts/:key/experiments')
+  async startPromptExperiment(
+    @Param('key') key: string,
+    @Body(ValidationPipe) startPromptExperimentDto: StartPromptExperimentDto,
+  ) {
+    const experiment = await this.promptRegistry.startExperiment(
+      key,
+      startPromptExperimentDto.name,
+      startPromptExperimentDto.variants,
+    );
+
+    return {
+      success: true,
+      data: experiment,
+    };
+  }
+
+  /**
+   * End the running experiment of a prompt and go back to the built-in version
+   */
+  @Post('prompts/:key/experiments/stop')
+  async stopPromptExperiment(@Param('key') key: string) {
+    const experiment = await this.promptRegistry.stopExperiment(key);
+
+    return {
+      success: true,
+      data: experiment,
+    };
+  }
+
+  /**
+   * Compare confidence, parse failures, corrections and latency per version
+   */
+  @Get('prompts/:key/comparison')
+  async getPromptComparison(
+    @Param('key') key: string,
+    @Query(ValidationPipe) query: PromptComparisonQueryDto,
+  ) {
+    const comparison = await this.adminService.getPromptComparison(
+      key,
+      query.from ? new Date(query.from) : undefined,
+      query.to ? new Date(query.to) : undefined,
+    );
+
+    return {
+      success: true,
+      data: comparison,
+    };
+  }
+
+  /**
+   * Get a user's AI budget and spend this month
+   */
+  @Get('users/:id/ai-budget')
+  async getUserAiBudget(@Param('id', ParseUUIDPipe) id: string) {
+    const budget = await this.adminService.getUserAiBudget(id);
+
+    return {
+      success: true,
+      data: budget,
+    };
+  }
+
+  /**
+   * Change a user's plan or monthly AI budget override
+   */
+  @Put('users/:id/ai-budget')
+  async updateUserAiBudget(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(ValidationPipe) updateAiBudgetDto: UpdateAiBudgetDto,
+  ) {
+    const budget = await this.adminService.updateUserAiBudget(
+      id,
+      updateAiBudgetDto,
+    );
+
+    return {
+      success: true,
+      data: budget,
+    };
+  }
+
   /**
    * Get user statistics and activity metrics
    */
@@ -104,6 +408,37 @@ export class AdminController {
     };
   }
 
+  /**
+   * List dumps stuck in processing or failed, with their recovery state
+   */
+  @Get('dumps/stuck')
+  async getStuckDumps(@Query('limit') limit: string = '100') {
+    const dumps = await this.dumpRecoveryService.listStuckDumps(
+      Math.min(Number.parseInt(limit, 10) || 100, 500),
+    );
+
+    return {
+      success: true,
+      data: dumps,
+    };
+  }
+
+  /**
+   * Re-queue stuck dumps now, regardless of backoff and attempt limits
+   */
+  @Post('dumps/retry')
+  async retryDumps(@Body(ValidationPipe) retryDumpsDto: RetryDumpsDto) {
+    const result = await this.dumpRecoveryService.retryDumps(
+      retryDumpsDto.dumpIds,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `${result.queued.length} dumps re-queued`,
+    };
+  }
+
   /**
    * Get all categories
    * Used by: ReviewPage for category selection
@@ -12,6 +12,8 @@ import { AIMetric } from '../../entities/ai-metric.entity';
 import { FeatureUsage } from '../../entities/feature-usage.entity';
 import { TrackableItem } from '../../entities/trackable-item.entity';
 import { AuthModule } from '../auth/auth.module';
+import { DumpModule } from '../dumps/dump.module';
+import { CategoryModule } from '../categories/category.module';
 
 @Module({
   imports: [
@@ -27,6 +29,8 @@ import { AuthModule } from '../auth/auth.module';
     ]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     AuthModule, // Import AuthModule to use JwtAuthGuard and JwtStrategy
+    DumpModule, // Revision history for reviewed dumps
+    CategoryModule, // Category corrections from approvals
   ],
   controllers: [AdminController],
   providers: [AdminService],
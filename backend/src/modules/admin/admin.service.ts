@@ -1,14 +1,64 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, IsNull, Not, Repository, SelectQueryBuilder } from 'typeorm';
 import { Dump } from '../../entities/dump.entity';
-import { User } from '../../entities/user.entity';
+import { User, UserPlan } from '../../entities/user.entity';
 import { Reminder } from '../../entities/reminder.entity';
 import { Category } from '../../entities/category.entity';
 import { SearchMetric } from '../../entities/search-metric.entity';
 import { AIMetric, AIOperationType } from '../../entities/ai-metric.entity';
 import { FeatureUsage, FeatureType } from '../../entities/feature-usage.entity';
 import { TrackableItem } from '../../entities/trackable-item.entity';
+import { RevisionAuthorType } from '../../entities/dump-revision.entity';
+import { DumpRevisionService } from '../dumps/services/dump-revision.service';
+import { CorrectionSource } from '../../entities/category-correction.entity';
+import { CategoryCorrectionService } from '../categories/category-correction.service';
+import { ReviewFilters, ReviewService } from '../dumps/services/review.service';
+import { FallbackHandlerService } from '../ai/fallback-handler.service';
+import { AiBudgetService } from '../ai/ai-budget.service';
+import { PROMPT_KEYS } from '../ai/prompts/prompt-templates';
+
+export const AI_COST_GROUPS = ['day', 'user', 'operation', 'model'] as const;
+export type AICostGroupBy = (typeof AI_COST_GROUPS)[number];
+
+const AI_COST_GROUP_COLUMNS: Record<AICostGroupBy, string> = {
+  day: "TO_CHAR(metric.timestamp, 'YYYY-MM-DD')",
+  user: 'metric.user_id',
+  operation: 'metric.operation_type',
+  model: 'metric.model',
+};
+
+export interface AICostTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  billableUnits: number;
+  costUsd: number;
+  // Calls to models missing from the price table, not included in costUsd
+  unpricedCalls: number;
+}
+
+// Row of aiCostQuery; Postgres returns counts and sums as strings
+interface AICostRow {
+  calls: string;
+  inputTokens: string;
+  outputTokens: string;
+  billableUnits: string;
+  costUsd: string;
+  unpricedCalls: string;
+}
+
+// Row of the prompt comparison, one per version; averages are null for a
+// version without calls
+interface PromptVersionRow {
+  version: number;
+  calls: string;
+  avgLatencyMs: string | null;
+  avgConfidence: string | null;
+  parseFailures: string;
+  dumps: string;
+  correctedDumps: string;
+}
 
 /**
  * Admin Service (UPDATED)
@@ -33,6 +83,11 @@ export class AdminService {
     private readonly featureUsageRepo: Repository<FeatureUsage>,
     @InjectRepository(TrackableItem)
     private readonly trackableItemRepo: Repository<TrackableItem>,
+    private readonly dumpRevisionService: DumpRevisionService,
+    private readonly categoryCorrectionService: CategoryCorrectionService,
+    private readonly reviewService: ReviewService,
+    private readonly fallbackHandler: FallbackHandlerService,
+    private readonly aiBudgetService: AiBudgetService,
   ) {}
 
   /**
@@ -63,13 +118,15 @@ export class AdminService {
     const processingSuccessRate =
       totalDumps > 0 ? (categorizedDumps / totalDumps) * 100 : 0;
 
-    // REAL PROCESSING TIME (from AI metrics)
+    // REAL PROCESSING TIME (from AI metrics); rows with a model record the
+    // single LLM calls of the step, not the step itself
     const avgProcessingTime = await this.aiMetricRepo
       .createQueryBuilder('metric')
       .select('AVG(metric.latency_ms)', 'avg')
       .where('metric.operation_type = :type', {
         type: AIOperationType.CONTENT_ANALYSIS,
       })
+      .andWhere('metric.model IS NULL')
       .andWhere('metric.success = true')
       .getRawOne();
 
@@ -167,57 +224,39 @@ export class AdminService {
   }
 
   /**
-   * Get flagged content for review
+   * Get flagged content for review, from the persistent review queue
    */
-  async getFlaggedContent(
-    status?: string,
-    priority?: string,
-    limit: number = 50,
-    userId?: string,
-  ) {
-    const queryBuilder = this.dumpRepository
-      .createQueryBuilder('dump')
-      .leftJoinAndSelect('dump.category', 'category')
-      .leftJoinAndSelect('dump.user', 'user')
-      .where('dump.ai_confidence < :threshold', { threshold: 70 })
-      .orderBy('dump.ai_confidence', 'ASC')
-      .limit(limit);
-
-    // Filter by userId if provided
-    if (userId) {
-      queryBuilder.andWhere('dump.user_id = :userId', { userId });
-    }
+  async getFlaggedContent(filters: ReviewFilters = {}) {
+    const { items, total } = await this.reviewService.listReviews(filters);
 
-    const flaggedDumps = await queryBuilder.getMany();
-
-    return flaggedDumps.map((dump) => ({
-      id: dump.id,
-      dump: {
-        id: dump.id,
-        rawContent: dump.raw_content,
-        category: dump.category ? { name: dump.category.name } : null,
-        aiConfidence: dump.ai_confidence,
-      },
-      priority: this.calculatePriority(dump.ai_confidence || 0),
-      status: 'pending', // Would need a review_status table in production
-      flaggedAt: dump.created_at,
-      user: {
-        id: dump.user?.id,
-        phoneNumber: dump.user?.phone_number,
-      },
-    }));
-  }
-
-  /**
-   * Calculate priority based on confidence score (0-100 scale)
-   */
-  private calculatePriority(
-    confidence: number,
-  ): 'low' | 'medium' | 'high' | 'critical' {
-    if (confidence < 30) return 'critical';
-    if (confidence < 50) return 'high';
-    if (confidence < 60) return 'medium';
-    return 'low';
+    return {
+      total,
+      items: items.map((review) => ({
+        id: review.dump_id,
+        reviewId: review.id,
+        dump: {
+          id: review.dump_id,
+          rawContent: review.dump?.raw_content,
+          category: review.dump?.category
+            ? { name: review.dump.category.name }
+            : null,
+          aiConfidence: review.dump?.ai_confidence,
+        },
+        flag: review.flag,
+        description: review.description,
+        suggestedCategory: review.suggested_category,
+        suggestedSummary: review.suggested_summary,
+        reportedBy: review.reported_by,
+        priority: review.priority,
+        status: review.status,
+        assignedTo: review.assigned_to,
+        flaggedAt: review.created_at,
+        user: {
+          id: review.user?.id,
+          phoneNumber: review.user?.phone_number,
+        },
+      })),
+    };
   }
 
   /**
@@ -231,6 +270,7 @@ export class AdminService {
       category?: string; // Category name
       notes?: string;
     },
+    adminId?: string,
   ) {
     const dump = await this.dumpRepository.findOne({
       where: { id: dumpId },
@@ -241,6 +281,8 @@ export class AdminService {
       throw new Error('Dump not found');
     }
 
+    await this.dumpRevisionService.ensureBaseline(dump);
+
     // Set confidence to 100 to mark as reviewed and approved
     dump.ai_confidence = 100;
 
@@ -249,21 +291,40 @@ export class AdminService {
       dump.raw_content = updates.raw_content;
     }
 
-    // Update category if provided
+    // Update category if provided (the dump owner's category or a system one)
     if (updates?.category) {
-      const categoryRepository =
-        this.dumpRepository.manager.getRepository('Category');
-      const category = (await categoryRepository.findOne({
-        where: { name: updates.category },
-      })) as any;
+      const category = await this.categoryRepository.findOne({
+        where: [
+          { name: updates.category, user_id: dump.user_id },
+          { name: updates.category, user_id: IsNull() },
+        ],
+        order: { user_id: { direction: 'ASC', nulls: 'LAST' } },
+      });
 
-      if (category) {
+      if (category && category.id !== dump.category_id) {
+        // Recorded while the dump still holds its previous category
+        await this.categoryCorrectionService.recordCorrection(
+          dump,
+          category,
+          CorrectionSource.ADMIN,
+        );
         dump.category_id = category.id;
+        dump.category = category;
       }
     }
 
     // Save the updated dump
     await this.dumpRepository.save(dump);
+    await this.dumpRevisionService.recordRevision(
+      dump,
+      { type: RevisionAuthorType.ADMIN, id: adminId },
+      updates?.notes || 'Approved in review',
+    );
+    await this.reviewService.resolveOpenReviewsForDump(
+      dumpId,
+      updates?.notes || 'Approved in review',
+      adminId,
+    );
 
     return {
       success: true,
@@ -357,12 +418,12 @@ export class AdminService {
   }
 
   /**
-   * Get all categories
+   * Get all system categories
    * Used by: ReviewPage for category selection dropdown
    */
   async getAllCategories() {
     const categories = await this.categoryRepository.find({
-      where: { is_active: true },
+      where: { is_active: true, user_id: IsNull() },
       order: { name: 'ASC' },
     });
 
@@ -465,11 +526,24 @@ export class AdminService {
    * Get AI processing metrics (REAL DATA)
    */
   async getAIMetrics() {
-    const totalProcessed = await this.aiMetricRepo.count();
+    // Corrections are user feedback and parse failures are reported on
+    // their own; neither is an AI operation. Single model calls are counted
+    // by the cost report.
+    const notOperations = [
+      AIOperationType.CATEGORIZATION_CORRECTION,
+      AIOperationType.PARSE_FAILURE,
+    ];
+    const totalProcessed = await this.aiMetricRepo.count({
+      where: { operation_type: Not(In(notOperations)), model: IsNull() },
+    });
 
     const successfullyProcessed = await this.aiMetricRepo
       .createQueryBuilder('metric')
       .where('metric.success = true')
+      .andWhere('metric.operation_type NOT IN (:...notOperations)', {
+        notOperations,
+      })
+      .andWhere('metric.model IS NULL')
       .getCount();
 
     const processingSuccessRate =
@@ -532,6 +606,26 @@ export class AdminService {
       .where('metric.confidence_score < :threshold', { threshold: 70 })
       .getCount();
 
+    // Answers that did not match their schema, and how many the repair
+    // retry fixed
+    const parseFailureStats = await this.aiMetricRepo
+      .createQueryBuilder('metric')
+      .select("metric.metadata->>'operation'", 'operation')
+      .addSelect('COUNT(*)', 'failures')
+      .addSelect('COUNT(*) FILTER (WHERE metric.success = true)', 'repaired')
+      .where('metric.operation_type = :parseFailure', {
+        parseFailure: AIOperationType.PARSE_FAILURE,
+      })
+      .groupBy("metric.metadata->>'operation'")
+      .orderBy('failures', 'DESC')
+      .getRawMany();
+
+    const parseFailures = parseFailureStats.map((item) => ({
+      operation: item.operation,
+      failures: Number.parseInt(item.failures, 10),
+      repaired: Number.parseInt(item.repaired, 10),
+    }));
+
     return {
       totalProcessed,
       successfullyProcessed,
@@ -541,6 +635,328 @@ export class AdminService {
       categoryBreakdown: categoryStats,
       lowConfidenceCount,
       needsReview: lowConfidenceCount,
+      parseFailures,
+      // Live state of this instance's breakers, not historical
+      circuitBreakers: this.fallbackHandler.getStats(),
+    };
+  }
+
+  /**
+   * Categorization accuracy per week: of the dumps categorized that week,
+   * how many were later corrected. Optionally limited to one user.
+   */
+  async getCategorizationAccuracy(userId?: string, weeks: number = 12) {
+    const since = new Date();
+    since.setDate(since.getDate() - weeks * 7);
+
+    const query = this.aiMetricRepo
+      .createQueryBuilder('metric')
+      .leftJoin(
+        AIMetric,
+        'correction',
+        'correction.dump_id = metric.dump_id AND correction.operation_type = :correctionType AND correction.timestamp >= metric.timestamp',
+        { correctionType: AIOperationType.CATEGORIZATION_CORRECTION },
+      )
+      .select("DATE_TRUNC('week', metric.timestamp)", 'week')
+      .addSelect('COUNT(DISTINCT metric.dump_id)', 'categorized')
+      .addSelect('COUNT(DISTINCT correction.dump_id)', 'corrected')
+      .addSelect(
+        "COUNT(DISTINCT metric.dump_id) FILTER (WHERE (metric.metadata->>'fewShotExamples')::int > 0)",
+        'withExamples',
+      )
+      .where('metric.operation_type = :type', {
+        type: AIOperationType.CATEGORIZATION,
+      })
+      // The categorization of the dump, not the LLM calls behind it
+      .andWhere('metric.model IS NULL')
+      .andWhere('metric.dump_id IS NOT NULL')
+      .andWhere('metric.timestamp >= :since', { since });
+
+    if (userId) {
+      query.andWhere('metric.user_id = :userId', { userId });
+    }
+
+    const rows = await query
+      .groupBy("DATE_TRUNC('week', metric.timestamp)")
+      .orderBy('week', 'ASC')
+      .getRawMany();
+
+    const weekly = rows.map((row) => {
+      const categorized = Number.parseInt(row.categorized, 10);
+      const corrected = Number.parseInt(row.corrected, 10);
+      return {
+        week: row.week,
+        categorized,
+        corrected,
+        withExamples: Number.parseInt(row.withExamples, 10),
+        accuracy:
+          categorized > 0
+            ? Math.round(((categorized - corrected) / categorized) * 100)
+            : null,
+      };
+    });
+
+    const categorized = weekly.reduce((sum, week) => sum + week.categorized, 0);
+    const corrected = weekly.reduce((sum, week) => sum + week.corrected, 0);
+
+    return {
+      userId: userId || null,
+      categorized,
+      corrected,
+      accuracy:
+        categorized > 0
+          ? Math.round(((categorized - corrected) / categorized) * 100)
+          : null,
+      weekly,
+    };
+  }
+
+  /**
+   * AI spend between from and to (default: the last 30 days), grouped by
+   * day, user, operation or model. Calls nobody can be billed for, such as
+   * bot reply translations, have a null user.
+   */
+  async getAICosts(groupBy: AICostGroupBy = 'day', from?: Date, to?: Date) {
+    const until = to || new Date();
+    const since = from || new Date(until.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const column = AI_COST_GROUP_COLUMNS[groupBy];
+
+    const totals = await this.aiCostQuery(since, until).getRawOne<AICostRow>();
+    const rows = await this.aiCostQuery(since, until)
+      .addSelect(column, 'key')
+      .groupBy(column)
+      .orderBy(column, 'ASC')
+      .getRawMany<AICostRow & { key: string | null }>();
+
+    const breakdown = rows.map((row) => ({
+      key: row.key,
+      ...this.toCostTotals(row),
+    }));
+    // Days read best in order, everything else most expensive first
+    if (groupBy !== 'day') {
+      breakdown.sort((a, b) => b.costUsd - a.costUsd);
+    }
+
+    return {
+      from: since,
+      to: until,
+      groupBy,
+      totals: this.toCostTotals(totals),
+      breakdown,
+    };
+  }
+
+  /**
+   * Every user's AI spend in a month (YYYY-MM, default: the current one),
+   * most expensive first, with the share of each operation
+   */
+  async getMonthlyCostReport(month?: string, userId?: string) {
+    const [year, monthIndex] = (month || new Date().toISOString().slice(0, 7))
+      .split('-')
+      .map((part) => Number.parseInt(part, 10));
+    const since = new Date(Date.UTC(year, monthIndex - 1, 1));
+    const until = new Date(Date.UTC(year, monthIndex, 1));
+
+    const query = this.aiCostQuery(since, until)
+      .addSelect('metric.user_id', 'userId')
+      .addSelect('metric.operation_type', 'operation')
+      .groupBy('metric.user_id')
+      .addGroupBy('metric.operation_type');
+    if (userId) {
+      query.andWhere('metric.user_id = :userId', { userId });
+    }
+    const rows = await query.getRawMany<
+      AICostRow & { userId: string | null; operation: string }
+    >();
+
+    const users = new Map<
+      string | null,
+      AICostTotals & { byOperation: Record<string, number> }
+    >();
+    for (const row of rows) {
+      const key = row.userId || null;
+      const operation = this.toCostTotals(row);
+      const user = users.get(key) || {
+        calls: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        billableUnits: 0,
+        costUsd: 0,
+        unpricedCalls: 0,
+        byOperation: {},
+      };
+      user.calls += operation.calls;
+      user.inputTokens += operation.inputTokens;
+      user.outputTokens += operation.outputTokens;
+      user.billableUnits += operation.billableUnits;
+      user.costUsd += operation.costUsd;
+      user.unpricedCalls += operation.unpricedCalls;
+      user.byOperation[row.operation] = operation.costUsd;
+      users.set(key, user);
+    }
+
+    const report = [...users.entries()]
+      .map(([key, totals]) => ({ userId: key, ...totals }))
+      .sort((a, b) => b.costUsd - a.costUsd);
+
+    return {
+      month: since.toISOString().slice(0, 7),
+      totalCostUsd: report.reduce((sum, user) => sum + user.costUsd, 0),
+      users: report,
+    };
+  }
+
+  /**
+   * Compare the versions of a registry prompt over a period, by default
+   * the last 30 days. Confidence comes from the analysis and categorization
+   * results, corrections from dumps recategorized after a call.
+   */
+  async getPromptComparison(key: string, from?: Date, to?: Date) {
+    if (!(PROMPT_KEYS as readonly string[]).includes(key)) {
+      throw new NotFoundException(`Unknown prompt ${key}`);
+    }
+
+    const until = to || new Date();
+    const since = from || new Date(until.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const rows = await this.aiMetricRepo
+      .createQueryBuilder('metric')
+      .select('metric.prompt_version', 'version')
+      .addSelect('COUNT(*) FILTER (WHERE metric.model IS NOT NULL)', 'calls')
+      .addSelect(
+        'AVG(metric.latency_ms) FILTER (WHERE metric.model IS NOT NULL)',
+        'avgLatencyMs',
+      )
+      .addSelect('AVG(metric.confidence_score)', 'avgConfidence')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE metric.operation_type = :parseFailure)',
+        'parseFailures',
+      )
+      .addSelect('COUNT(DISTINCT metric.dump_id)', 'dumps')
+      .addSelect(
+        `COUNT(DISTINCT metric.dump_id) FILTER (WHERE EXISTS (
+          SELECT 1 FROM ai_metrics correction
+          WHERE correction.dump_id = metric.dump_id
+            AND correction.operation_type = :correction
+        ))`,
+        'correctedDumps',
+      )
+      .where('metric.prompt_key = :key', { key })
+      .andWhere('metric.timestamp >= :since', { since })
+      .andWhere('metric.timestamp < :until', { until })
+      .setParameters({
+        parseFailure: AIOperationType.PARSE_FAILURE,
+        correction: AIOperationType.CATEGORIZATION_CORRECTION,
+      })
+      .groupBy('metric.prompt_version')
+      .orderBy('metric.prompt_version', 'ASC')
+      .getRawMany<PromptVersionRow>();
+
+    return {
+      key,
+      from: since,
+      to: until,
+      versions: rows.map((row) => {
+        const calls = Number.parseInt(row.calls, 10);
+        const parseFailures = Number.parseInt(row.parseFailures, 10);
+        const dumps = Number.parseInt(row.dumps, 10);
+        const correctedDumps = Number.parseInt(row.correctedDumps, 10);
+
+        return {
+          version: row.version,
+          calls,
+          avgLatencyMs:
+            row.avgLatencyMs === null
+              ? null
+              : Math.round(Number.parseFloat(row.avgLatencyMs)),
+          // 0-1, like the confidence of the results
+          avgConfidence:
+            row.avgConfidence === null
+              ? null
+              : Number.parseFloat(row.avgConfidence) / 100,
+          parseFailures,
+          parseFailureRate: calls > 0 ? parseFailures / calls : null,
+          dumps,
+          correctedDumps,
+          correctionRate: dumps > 0 ? correctedDumps / dumps : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Get a user's plan, budget override and AI spend this month
+   */
+  async getUserAiBudget(userId: string) {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const status = await this.aiBudgetService.getStatus(userId);
+
+    return {
+      userId,
+      plan: user.plan,
+      monthlyBudgetUsd: user.ai_monthly_budget_usd,
+      ...status,
+    };
+  }
+
+  /**
+   * Change a user's plan or budget override; a null override falls back to
+   * the plan's budget and 0 removes the limit
+   */
+  async updateUserAiBudget(
+    userId: string,
+    changes: { plan?: UserPlan; monthlyBudgetUsd?: number | null },
+  ) {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (changes.plan !== undefined) {
+      user.plan = changes.plan;
+    }
+    if (changes.monthlyBudgetUsd !== undefined) {
+      user.ai_monthly_budget_usd = changes.monthlyBudgetUsd;
+    }
+    await this.userRepository.save(user);
+    this.aiBudgetService.invalidate(userId);
+
+    return this.getUserAiBudget(userId);
+  }
+
+  /**
+   * Sums over the rows of individual model and API calls; rows without a
+   * model record whole pipeline steps and would count a call twice
+   */
+  private aiCostQuery(since: Date, until: Date): SelectQueryBuilder<AIMetric> {
+    return this.aiMetricRepo
+      .createQueryBuilder('metric')
+      .select('COUNT(*)', 'calls')
+      .addSelect('COALESCE(SUM(metric.input_tokens), 0)', 'inputTokens')
+      .addSelect('COALESCE(SUM(metric.output_tokens), 0)', 'outputTokens')
+      .addSelect('COALESCE(SUM(metric.billable_units), 0)', 'billableUnits')
+      .addSelect('COALESCE(SUM(metric.cost_usd), 0)', 'costUsd')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE metric.cost_usd IS NULL)',
+        'unpricedCalls',
+      )
+      .where('metric.model IS NOT NULL')
+      .andWhere('metric.timestamp >= :since', { since })
+      .andWhere('metric.timestamp < :until', { until });
+  }
+
+  private toCostTotals(row: AICostRow | undefined): AICostTotals {
+    return {
+      calls: Number.parseInt(row?.calls || '0', 10),
+      inputTokens: Number.parseInt(row?.inputTokens || '0', 10),
+      outputTokens: Number.parseInt(row?.outputTokens || '0', 10),
+      billableUnits: Number.parseFloat(row?.billableUnits || '0'),
+      costUsd: Number.parseFloat(row?.costUsd || '0'),
+      unpricedCalls: Number.parseInt(row?.unpricedCalls || '0', 10),
     };
   }
 
@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AIMetric } from '../../entities/ai-metric.entity';
+import { User } from '../../entities/user.entity';
+import { AiBudgetService } from './ai-budget.service';
+
+/**
+ * Global so the dump pipeline, extraction, translation and proactive
+ * analysis share one budget cache
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([AIMetric, User])],
+  providers: [AiBudgetService],
+  exports: [AiBudgetService],
+})
+export class AiBudgetModule {}
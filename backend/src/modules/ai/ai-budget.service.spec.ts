@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { AIConfig } from '../../config/ai.config';
+import { AIMetric } from '../../entities/ai-metric.entity';
+import { User, UserPlan } from '../../entities/user.entity';
+import { AiBudgetService } from './ai-budget.service';
+
+describe('AiBudgetService', () => {
+  let service: AiBudgetService;
+  let user: Partial<User>;
+  let spent: string;
+  let userRepo: { findOne: jest.Mock; update: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  beforeEach(async () => {
+    user = {
+      id: 'user-1',
+      plan: UserPlan.FREE,
+      ai_monthly_budget_usd: null,
+      ai_budget_notice: null,
+    };
+    spent = '0';
+    userRepo = {
+      findOne: jest.fn(async () => user),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    eventEmitter = { emit: jest.fn() };
+
+    const queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getRawOne: jest.fn(async () => ({ spent })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiBudgetService,
+        {
+          provide: getRepositoryToken(AIMetric),
+          useValue: { createQueryBuilder: jest.fn(() => queryBuilder) },
+        },
+        { provide: getRepositoryToken(User), useValue: userRepo },
+        {
+          provide: AIConfig,
+          useValue: {
+            getAiBudgetConfig: () => ({
+              planBudgetsUsd: { [UserPlan.FREE]: 1, [UserPlan.PRO]: 10 },
+              softLimitPercent: 80,
+            }),
+          },
+        },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<AiBudgetService>(AiBudgetService);
+  });
+
+  it('should compare spend with the plan budget', async () => {
+    spent = '0.5';
+    expect((await service.getStatus('user-1')).level).toBe('ok');
+
+    service.invalidate('user-1');
+    spent = '0.85';
+    const status = await service.getStatus('user-1');
+    expect(status.level).toBe('soft');
+    expect(status.softLimitUsd).toBeCloseTo(0.8);
+    expect(status.hardLimitUsd).toBe(1);
+    expect(status.resetsAt.getUTCDate()).toBe(1);
+
+    service.invalidate('user-1');
+    spent = '1.2';
+    expect((await service.getStatus('user-1')).level).toBe('hard');
+  });
+
+  it('should let the user override replace the plan budget, 0 meaning unlimited', async () => {
+    spent = '5';
+    user.ai_monthly_budget_usd = 20;
+    expect((await service.getStatus('user-1')).level).toBe('ok');
+
+    service.invalidate('user-1');
+    user.ai_monthly_budget_usd = 0;
+    const status = await service.getStatus('user-1');
+    expect(status.level).toBe('ok');
+    expect(status.hardLimitUsd).toBeNull();
+  });
+
+  it('should notify each limit once a month and never soft after hard', async () => {
+    spent = '0.9';
+    await service.getStatus('user-1');
+    service.invalidate('user-1');
+    await service.getStatus('user-1');
+
+    expect(eventEmitter.emit).toHaveBeenCalledTimes(1);
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'ai.budget.reached',
+      expect.objectContaining({ userId: 'user-1', level: 'soft' }),
+    );
+
+    service.invalidate('user-1');
+    spent = '1.5';
+    await service.getStatus('user-1');
+    expect(eventEmitter.emit).toHaveBeenLastCalledWith(
+      'ai.budget.reached',
+      expect.objectContaining({ level: 'hard' }),
+    );
+
+    service.invalidate('user-1');
+    spent = '0.9';
+    await service.getStatus('user-1');
+    expect(eventEmitter.emit).toHaveBeenCalledTimes(2);
+  });
+
+  it('should treat lookup errors as within budget', async () => {
+    userRepo.findOne.mockRejectedValue(new Error('connection lost'));
+
+    await expect(service.isOverSoftLimit('user-1')).resolves.toBe(false);
+    await expect(service.isOverSoftLimit(undefined)).resolves.toBe(false);
+  });
+});
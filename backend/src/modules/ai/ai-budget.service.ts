@@ -0,0 +1,177 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Repository } from 'typeorm';
+import { AIConfig } from '../../config/ai.config';
+import { AIMetric } from '../../entities/ai-metric.entity';
+import { User, UserPlan } from '../../entities/user.entity';
+import { AiServiceUnavailableError } from './fallback-handler.service';
+
+export type AiBudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface AiBudgetStatus {
+  level: AiBudgetLevel;
+  spentUsd: number;
+  // null when the user has no limit
+  softLimitUsd: number | null;
+  hardLimitUsd: number | null;
+  // Start of the next month (UTC), when spending starts again from zero
+  resetsAt: Date;
+}
+
+export interface AiBudgetReachedEvent {
+  userId: string;
+  level: Exclude<AiBudgetLevel, 'ok'>;
+  resetsAt: Date;
+}
+
+/**
+ * The user's monthly AI budget is used up. Extends the outage error so the
+ * dump pipeline defers work until resetsAt the same way it waits for a
+ * service to recover.
+ */
+export class AiBudgetExceededError extends AiServiceUnavailableError {
+  constructor(
+    public readonly userId: string,
+    resetsAt: Date,
+  ) {
+    super('ai-budget', resetsAt);
+    this.message = `Monthly AI budget of user ${userId} is used up until ${resetsAt.toISOString()}`;
+    this.name = 'AiBudgetExceededError';
+  }
+}
+
+// Spending is re-read at most this often per user
+const STATUS_CACHE_MS = 60_000;
+
+/**
+ * AiBudgetService
+ * Compares a user's AI spend this month (cost_usd in ai_metrics) with the
+ * budget of their plan or their own override. Past the soft limit callers
+ * switch to cheaper paths; past the hard limit dumps wait for the reset.
+ * Emits 'ai.budget.reached' the first time a user passes each limit in a
+ * month.
+ */
+@Injectable()
+export class AiBudgetService {
+  private readonly logger = new Logger(AiBudgetService.name);
+  private readonly statusCache = new Map<
+    string,
+    { status: AiBudgetStatus; expiresAt: number }
+  >();
+
+  constructor(
+    @InjectRepository(AIMetric)
+    private readonly aiMetricRepo: Repository<AIMetric>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly aiConfig: AIConfig,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async getStatus(userId: string): Promise<AiBudgetStatus> {
+    const cached = this.statusCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.status;
+    }
+
+    const user = await this.userRepo.findOne({ where: { id: userId } });
+    const now = new Date();
+    const monthStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+    );
+    const resetsAt = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+    );
+
+    const { planBudgetsUsd, softLimitPercent } =
+      this.aiConfig.getAiBudgetConfig();
+    const budget =
+      user?.ai_monthly_budget_usd ??
+      planBudgetsUsd[user?.plan || UserPlan.FREE];
+    const hardLimitUsd = budget > 0 ? budget : null;
+    const softLimitUsd =
+      hardLimitUsd === null ? null : (hardLimitUsd * softLimitPercent) / 100;
+
+    const row = await this.aiMetricRepo
+      .createQueryBuilder('metric')
+      .select('COALESCE(SUM(metric.cost_usd), 0)', 'spent')
+      .where('metric.user_id = :userId', { userId })
+      .andWhere('metric.timestamp >= :monthStart', { monthStart })
+      .getRawOne();
+    const spentUsd = Number.parseFloat(row?.spent || '0');
+
+    let level: AiBudgetLevel = 'ok';
+    if (hardLimitUsd !== null && spentUsd >= hardLimitUsd) {
+      level = 'hard';
+    } else if (softLimitUsd !== null && spentUsd >= softLimitUsd) {
+      level = 'soft';
+    }
+
+    const status = { level, spentUsd, softLimitUsd, hardLimitUsd, resetsAt };
+    this.statusCache.set(userId, {
+      status,
+      expiresAt: Date.now() + STATUS_CACHE_MS,
+    });
+
+    if (user && level !== 'ok') {
+      await this.noticeOnce(user, level, resetsAt, monthStart);
+    }
+
+    return status;
+  }
+
+  /**
+   * Whether the user should get the cheaper processing paths. Unknown
+   * users and lookup errors count as within budget.
+   */
+  async isOverSoftLimit(userId?: string): Promise<boolean> {
+    return (await this.getLevel(userId)) !== 'ok';
+  }
+
+  /**
+   * Drop the cached status, e.g. after the user's plan or budget changed
+   */
+  invalidate(userId: string): void {
+    this.statusCache.delete(userId);
+  }
+
+  private async getLevel(userId?: string): Promise<AiBudgetLevel> {
+    if (!userId) {
+      return 'ok';
+    }
+
+    try {
+      return (await this.getStatus(userId)).level;
+    } catch (error) {
+      this.logger.warn(
+        `Could not check the AI budget of user ${userId}: ${(error as Error).message}`,
+      );
+      return 'ok';
+    }
+  }
+
+  private async noticeOnce(
+    user: User,
+    level: Exclude<AiBudgetLevel, 'ok'>,
+    resetsAt: Date,
+    monthStart: Date,
+  ): Promise<void> {
+    const month = monthStart.toISOString().slice(0, 7);
+    const notice = `${month}:${level}`;
+    // The hard limit notice replaces the soft one, never the other way round
+    if (
+      user.ai_budget_notice === notice ||
+      user.ai_budget_notice === `${month}:hard`
+    ) {
+      return;
+    }
+
+    await this.userRepo.update(user.id, { ai_budget_notice: notice });
+    user.ai_budget_notice = notice;
+    this.logger.log(`User ${user.id} passed the ${level} AI budget limit`);
+
+    const event: AiBudgetReachedEvent = { userId: user.id, level, resetsAt };
+    this.eventEmitter.emit('ai.budget.reached', event);
+  }
+}
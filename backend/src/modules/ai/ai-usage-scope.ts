@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Who the AI calls made inside a scope are billed to. Set where work for a
+ * user starts (dump processing, proactive analysis, search) so Claude,
+ * Vision and Speech calls deep in the call chain are attributed without
+ * passing ids through every signature.
+ */
+export interface AiUsageScope {
+  userId?: string;
+  dumpId?: string;
+}
+
+const storage = new AsyncLocalStorage<AiUsageScope>();
+
+/**
+ * Run fn with the scope merged over the enclosing one
+ */
+export function runWithAiUsageScope<T>(scope: AiUsageScope, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...scope }, fn);
+}
+
+export function getAiUsageScope(): AiUsageScope {
+  return storage.getStore() || {};
+}
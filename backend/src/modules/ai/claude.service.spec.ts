@@ -0,0 +1,278 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AIConfig } from '../../config/ai.config';
+import { AIOperationType } from '../../entities/ai-metric.entity';
+import { MetricsService } from '../metrics/metrics.service';
+import { runWithAiUsageScope } from './ai-usage-scope';
+import { AiOutputValidationError, ClaudeService } from './claude.service';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from './fallback-handler.service';
+import { LlmService } from './llm/llm.service';
+import { PromptRegistryService } from './prompts/prompt-registry.service';
+import { TASK_STEPS_SCHEMA } from './schemas/ai-output.schemas';
+
+// test/setup.ts mocks ClaudeService for every other spec
+jest.unmock('./claude.service');
+
+describe('ClaudeService', () => {
+  let service: ClaudeService;
+  let llmService: { getRoute: jest.Mock; complete: jest.Mock };
+  let fallbackHandler: { executeAiCall: jest.Mock };
+  let metricsService: { trackAI: jest.Mock; fireAndForget: jest.Mock };
+  let promptRegistry: { render: jest.Mock };
+
+  beforeEach(async () => {
+    llmService = {
+      getRoute: jest.fn().mockReturnValue({
+        provider: 'anthropic',
+        model: 'claude-3-haiku-20240307',
+      }),
+      complete: jest.fn().mockResolvedValue({
+        text: 'Olá',
+        model: 'claude-3-haiku-20240307',
+        provider: 'anthropic',
+        usage: { inputTokens: 120, outputTokens: 8 },
+      }),
+    };
+    fallbackHandler = {
+      executeAiCall: jest.fn((_name: string, fn: () => Promise<unknown>) =>
+        fn(),
+      ),
+    };
+    metricsService = {
+      trackAI: jest.fn().mockResolvedValue(undefined),
+      fireAndForget: jest.fn((fn: () => Promise<void>) => void fn()),
+    };
+    promptRegistry = {
+      render: jest.fn(async (key: string) => ({
+        key,
+        version: 2,
+        text: `${key} prompt`,
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ClaudeService,
+        { provide: LlmService, useValue: llmService },
+        { provide: FallbackHandlerService, useValue: fallbackHandler },
+        { provide: MetricsService, useValue: metricsService },
+        { provide: PromptRegistryService, useValue: promptRegistry },
+      ],
+    }).compile();
+
+    service = module.get<ClaudeService>(ClaudeService);
+  });
+
+  describe('usage tracking', () => {
+    it('should record tokens and model for the user in scope', async () => {
+      await runWithAiUsageScope({ userId: 'user-1', dumpId: 'dump-1' }, () =>
+        service.queryWithCustomPrompt('Translate: Hello', 'translation'),
+      );
+
+      expect(metricsService.trackAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationType: AIOperationType.TRANSLATION,
+          success: true,
+          userId: 'user-1',
+          dumpId: 'dump-1',
+          usage: {
+            model: 'claude-3-haiku-20240307',
+            inputTokens: 120,
+            outputTokens: 8,
+          },
+        }),
+      );
+    });
+
+    it('should record failed calls without tokens', async () => {
+      llmService.complete.mockRejectedValue(new Error('Claude API error: 400'));
+
+      await expect(
+        service.queryWithCustomPrompt('Hello', 'proactive'),
+      ).rejects.toThrow('Claude API error: 400');
+
+      expect(metricsService.trackAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationType: AIOperationType.PROACTIVE,
+          success: false,
+          usage: { model: 'claude-3-haiku-20240307' },
+        }),
+      );
+    });
+
+    it('should not record calls the circuit breaker refused', async () => {
+      fallbackHandler.executeAiCall.mockRejectedValue(
+        new AiServiceUnavailableError('llm-anthropic', new Date()),
+      );
+
+      await expect(
+        service.queryWithCustomPrompt('Hello', 'general'),
+      ).rejects.toBeInstanceOf(AiServiceUnavailableError);
+
+      expect(metricsService.trackAI).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('prompt versions', () => {
+    it('should record the registry prompt version with the call and result', async () => {
+      llmService.complete.mockResolvedValue({
+        text: '{"summary":"Dentist","category":"Health","categoryConfidence":0.9,"extractedEntities":{},"confidence":0.8}',
+        model: 'claude-3-haiku-20240307',
+        provider: 'anthropic',
+        usage: { inputTokens: 500, outputTokens: 40 },
+      });
+
+      const analysis = await service.analyzeContent({
+        content: 'Dentist on Friday',
+        contentType: 'text',
+      });
+
+      expect(llmService.complete).toHaveBeenCalledWith(
+        'analysis',
+        expect.objectContaining({ system: 'analysis prompt' }),
+      );
+      expect(analysis.prompt).toEqual({ key: 'analysis', version: 2 });
+      expect(metricsService.trackAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationType: AIOperationType.CONTENT_ANALYSIS,
+          prompt: { key: 'analysis', version: 2 },
+        }),
+      );
+    });
+
+    it('should record answers that are not JSON as parse failures', async () => {
+      llmService.complete.mockResolvedValue({
+        text: 'Sure! This looks like a dentist appointment.',
+        model: 'claude-3-haiku-20240307',
+        provider: 'anthropic',
+        usage: { inputTokens: 500, outputTokens: 12 },
+      });
+
+      const analysis = await service.analyzeContent({
+        content: 'Dentist on Friday',
+        contentType: 'text',
+        operation: 'categorization',
+        prompt: { key: 'categorization', version: 3 },
+      });
+
+      expect(analysis.fallback).toBe(true);
+      expect(metricsService.trackAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationType: AIOperationType.PARSE_FAILURE,
+          success: false,
+          prompt: { key: 'categorization', version: 3 },
+          metadata: expect.objectContaining({
+            operation: 'categorization',
+            repaired: false,
+          }),
+        }),
+      );
+    });
+  });
+
+  describe('structured output', () => {
+    const answer = (text: string) => ({
+      text,
+      model: 'claude-3-haiku-20240307',
+      provider: 'anthropic',
+      usage: { inputTokens: 500, outputTokens: 60 },
+    });
+
+    it('should send validation errors back once and use the repaired answer', async () => {
+      llmService.complete
+        .mockResolvedValueOnce(
+          answer(
+            '{"summary":"Dentist","category":"Health","categoryConfidence":0.9,"extractedEntities":{},' +
+              '"tasks":[{"title":"Go to the dentist","dueDate":"next Friday"}],"urgency":"urgent","confidence":0.8}',
+          ),
+        )
+        .mockResolvedValueOnce(
+          answer(
+            '{"summary":"Dentist","category":"Health","categoryConfidence":0.9,"extractedEntities":{},' +
+              '"tasks":[{"title":"Go to the dentist","dueDate":null}],"urgency":"high","confidence":0.8}',
+          ),
+        );
+
+      const analysis = await service.analyzeContent({
+        content: 'Dentist next Friday',
+        contentType: 'text',
+      });
+
+      expect(analysis.urgency).toBe('high');
+      expect(analysis.tasks).toEqual([
+        { title: 'Go to the dentist', dueDate: null },
+      ]);
+      const repairRequest = llmService.complete.mock.calls[1][1];
+      expect(repairRequest.messages[1].role).toBe('assistant');
+      expect(repairRequest.messages[2].content).toContain(
+        '$.tasks[0].dueDate: must be an ISO 8601 date, got "next Friday"',
+      );
+      expect(repairRequest.messages[2].content).toContain(
+        '$.urgency: must be one of "low", "medium", "high"',
+      );
+      expect(metricsService.trackAI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operationType: AIOperationType.PARSE_FAILURE,
+          success: true,
+          metadata: expect.objectContaining({ repaired: true }),
+        }),
+      );
+    });
+
+    it('should throw when the repaired answer is still invalid', async () => {
+      llmService.complete.mockResolvedValue(
+        answer('[{"title":"Step one","estimatedMinutes":"ten"}]'),
+      );
+
+      const query = service.queryStructured(
+        'Break this down',
+        'task_breakdown',
+        TASK_STEPS_SCHEMA,
+      );
+
+      await expect(query).rejects.toBeInstanceOf(AiOutputValidationError);
+      await expect(query).rejects.toThrow(
+        '$[0].estimatedMinutes: expected integer or null, got string',
+      );
+      expect(llmService.complete).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('AIConfig.calculateAiCost', () => {
+    const originalEnv = process.env;
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should price tokens per million and units per unit', () => {
+      const aiConfig = new AIConfig();
+
+      expect(
+        aiConfig.calculateAiCost('claude-3-haiku-20240307', {
+          inputTokens: 1_000_000,
+          outputTokens: 200_000,
+        }),
+      ).toBeCloseTo(0.5);
+      expect(
+        aiConfig.calculateAiCost('google-vision', { units: 2 }),
+      ).toBeCloseTo(0.003);
+    });
+
+    it('should leave unknown models unpriced unless AI_PRICE_TABLE adds them', () => {
+      expect(
+        new AIConfig().calculateAiCost('llama3.1:8b', { inputTokens: 10 }),
+      ).toBeNull();
+
+      process.env = {
+        ...originalEnv,
+        AI_PRICE_TABLE: '{"llama3.1:8b":{}}',
+      };
+      expect(
+        new AIConfig().calculateAiCost('llama3.1:8b', { inputTokens: 10 }),
+      ).toBe(0);
+    });
+  });
+});
@@ -1,5 +1,53 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { LlmService, type LlmCallOptions } from './llm/llm.service';
+import type { LlmOperation } from './llm/llm-provider.interface';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from './fallback-handler.service';
+import { getAiUsageScope } from './ai-usage-scope';
+import {
+  PromptRegistryService,
+  type PromptVersionRef,
+  type RenderedPrompt,
+} from './prompts/prompt-registry.service';
+import { MetricsService, type AIUsage } from '../metrics/metrics.service';
+import { AIOperationType } from '../../entities/ai-metric.entity';
+import { parseJsonOutput, type JsonSchema } from './schemas/json-schema';
+import {
+  CONTENT_ANALYSIS_SCHEMA,
+  EXTRACTED_ENTITIES_SCHEMA,
+} from './schemas/ai-output.schemas';
+
+// ai_metrics operation type each LLM call is recorded under
+const OPERATION_METRIC_TYPES: Record<LlmOperation, AIOperationType> = {
+  analysis: AIOperationType.CONTENT_ANALYSIS,
+  categorization: AIOperationType.CATEGORIZATION,
+  extraction: AIOperationType.EXTRACTION,
+  summary: AIOperationType.SUMMARY,
+  translation: AIOperationType.TRANSLATION,
+  proactive: AIOperationType.PROACTIVE,
+  query_enhancement: AIOperationType.QUERY_ENHANCEMENT,
+  task_breakdown: AIOperationType.TASK_BREAKDOWN,
+  general: AIOperationType.GENERAL,
+};
+
+// Validation errors quoted back to the model in a repair request
+const MAX_REPAIR_ERRORS = 10;
+
+/**
+ * Thrown when an answer still does not match its schema after the repair
+ * retry
+ */
+export class AiOutputValidationError extends Error {
+  constructor(
+    public readonly operation: LlmOperation,
+    public readonly errors: string[],
+  ) {
+    super(`Invalid ${operation} response: ${errors.join('; ')}`);
+    this.name = 'AiOutputValidationError';
+  }
+}
 
 export interface ContentAnalysisRequest {
   content: string;
@@ -10,6 +58,11 @@ export interface ContentAnalysisRequest {
     timestamp: Date;
   };
   customSystemPrompt?: string;
+  // Routes the call to the provider configured for this operation
+  operation?: LlmOperation;
+  // Registry prompt the content was built from, recorded instead of the
+  // analysis prompt
+  prompt?: PromptVersionRef;
 }
 
 export interface ContentAnalysisResponse {
@@ -26,58 +79,44 @@ export interface ContentAnalysisResponse {
     tags?: string[];
   };
   actionItems?: string[];
+  // Action items with scheduling details, used to create tasks
+  tasks?: ExtractedTask[];
+  // Large or vague goal that should be split into smaller steps
+  needsBreakdown?: boolean;
   sentiment?: 'positive' | 'neutral' | 'negative';
   urgency?: 'low' | 'medium' | 'high';
   confidence: number;
+  // Prompt version that produced the answer, for metrics on the result
+  prompt?: PromptVersionRef;
+  // Set when no usable answer came back and the analysis is a placeholder
+  fallback?: boolean;
 }
 
-export interface ClaudeMessage {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
-export interface ClaudeRequest {
-  model: string;
-  max_tokens: number;
-  messages: ClaudeMessage[];
-  system?: string;
-  temperature?: number;
-}
-
-export interface ClaudeResponse {
-  id: string;
-  type: 'message';
-  role: 'assistant';
-  content: Array<{
-    type: 'text';
-    text: string;
-  }>;
-  model: string;
-  stop_reason: string;
-  stop_sequence: null;
-  usage: {
-    input_tokens: number;
-    output_tokens: number;
-  };
+export interface ExtractedTask {
+  title: string;
+  dueDate?: string | null;
+  estimatedMinutes?: number | null;
+  priority?: 'low' | 'medium' | 'high';
 }
 
+/**
+ * ClaudeService
+ * Content analysis prompts. Despite the name, calls go through LlmService,
+ * which picks the provider and model configured for each operation, and
+ * through the circuit breaker of that provider. Every call is recorded in
+ * ai_metrics with its tokens, cost and registry prompt version. Structured
+ * answers are validated against the schemas in schemas/ai-output.schemas.ts.
+ */
 @Injectable()
 export class ClaudeService {
   private readonly logger = new Logger(ClaudeService.name);
-  private readonly apiKey: string;
-  private readonly apiUrl = 'https://api.anthropic.com/v1/messages';
-  private readonly model: string;
-
-  constructor(private readonly configService: ConfigService) {
-    this.apiKey = this.configService.get<string>('CLAUDE_API_KEY') || '';
-    this.model =
-      this.configService.get<string>('CLAUDE_MODEL') ||
-      'claude-3-haiku-20240307';
-
-    if (!this.apiKey) {
-      this.logger.warn('Claude API key not configured');
-    }
-  }
+
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly fallbackHandler: FallbackHandlerService,
+    private readonly metricsService: MetricsService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   async analyzeContent(
     request: ContentAnalysisRequest,
@@ -87,32 +126,47 @@ export class ClaudeService {
     );
 
     try {
-      // Use custom system prompt if provided, otherwise use default
-      const systemPrompt =
-        request.customSystemPrompt || this.buildSystemPrompt();
+      const operation = request.operation || 'analysis';
+      // Use custom system prompt if provided, otherwise the registry's
+      const systemPrompt = request.customSystemPrompt
+        ? null
+        : await this.promptRegistry.render('analysis');
+      const prompt: PromptVersionRef | undefined =
+        request.prompt ||
+        (systemPrompt
+          ? { key: systemPrompt.key, version: systemPrompt.version }
+          : undefined);
       const userPrompt = this.buildUserPrompt(request);
 
-      const response = await this.callClaude({
-        model: this.model,
-        max_tokens: 1000,
-        temperature: 0.3,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-      });
+      const response = await this.completeStructured<ContentAnalysisResponse>(
+        operation,
+        {
+          maxTokens: 1000,
+          temperature: 0.3,
+          system: systemPrompt?.text || request.customSystemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: userPrompt,
+            },
+          ],
+        },
+        CONTENT_ANALYSIS_SCHEMA,
+        prompt,
+      );
 
-      const analysis = this.parseAnalysisResponse(response.content[0].text);
+      const analysis = this.withAnalysisDefaults(response, prompt);
 
       this.logger.log(
         `Analysis completed with confidence: ${analysis.confidence}`,
       );
       return analysis;
     } catch (error) {
-      this.logger.error('Error analyzing content with Claude:', error);
+      // Callers put the work off rather than store a placeholder analysis
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
+      this.logger.error('Error analyzing content:', error);
 
       // Return fallback analysis
       return this.getFallbackAnalysis(request.content);
@@ -126,9 +180,8 @@ export class ClaudeService {
     this.logger.log('Generating content summary');
 
     try {
-      const response = await this.callClaude({
-        model: this.model,
-        max_tokens: 200,
+      const response = await this.complete('summary', {
+        maxTokens: 200,
         temperature: 0.2,
         system: 'You are a helpful assistant that creates concise summaries.',
         messages: [
@@ -139,7 +192,7 @@ export class ClaudeService {
         ],
       });
 
-      const summary = response.content[0].text.trim();
+      const summary = response.trim();
       return summary.length > maxLength
         ? `${summary.substring(0, maxLength - 3)}...`
         : summary;
@@ -173,9 +226,8 @@ export class ClaudeService {
 
 Respond with only the category name and confidence (0-1) in this format: "CATEGORY|CONFIDENCE"`;
 
-      const response = await this.callClaude({
-        model: this.model,
-        max_tokens: 50,
+      const response = await this.complete('categorization', {
+        maxTokens: 50,
         temperature: 0.1,
         system: systemPrompt,
         messages: [
@@ -186,7 +238,7 @@ Respond with only the category name and confidence (0-1) in this format: "CATEGO
         ],
       });
 
-      const result = response.content[0].text.trim();
+      const result = response.trim();
       const [category, confidenceStr] = result.split('|');
 
       return {
@@ -218,25 +270,23 @@ Respond with only the category name and confidence (0-1) in this format: "CATEGO
 
 Return empty arrays for categories with no matches. Be conservative and only include clear matches.`;
 
-      const response = await this.callClaude({
-        model: this.model,
-        max_tokens: 300,
-        temperature: 0.1,
-        system: systemPrompt,
-        messages: [
-          {
-            role: 'user',
-            content: content,
-          },
-        ],
-      });
-
-      const jsonText = response.content[0].text.trim();
-      const entities = JSON.parse(
-        jsonText,
-      ) as ContentAnalysisResponse['extractedEntities'];
-
-      return entities;
+      return await this.completeStructured<
+        ContentAnalysisResponse['extractedEntities']
+      >(
+        'extraction',
+        {
+          maxTokens: 300,
+          temperature: 0.1,
+          system: systemPrompt,
+          messages: [
+            {
+              role: 'user',
+              content: content,
+            },
+          ],
+        },
+        EXTRACTED_ENTITIES_SCHEMA,
+      );
     } catch (error) {
       this.logger.error('Error extracting entities:', error);
       return {};
@@ -244,88 +294,210 @@ Return empty arrays for categories with no matches. Be conservative and only inc
   }
 
   /**
-   * Send a custom prompt to Claude and get raw response
+   * Send a custom prompt and get the raw response. A rendered registry
+   * prompt has its version recorded with the call.
    */
-  async queryWithCustomPrompt(prompt: string): Promise<string> {
+  async queryWithCustomPrompt(
+    prompt: string | RenderedPrompt,
+    operation: LlmOperation = 'general',
+  ): Promise<string> {
+    const text = typeof prompt === 'string' ? prompt : prompt.text;
     this.logger.log(
-      `Sending custom prompt to Claude: ${prompt.substring(0, 100)}...`,
+      `Sending custom ${operation} prompt: ${text.substring(0, 100)}...`,
     );
 
     try {
-      const response = await this.callClaude({
-        model: this.model,
-        max_tokens: 500,
-        temperature: 0.3,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
+      const result = await this.complete(
+        operation,
+        this.customPromptOptions(text),
+        this.toVersionRef(prompt),
+      );
 
-      const result = response.content[0].text;
-      this.logger.log(`Claude custom response: ${result}`);
+      this.logger.log(`Custom ${operation} response: ${result}`);
       return result;
     } catch (error) {
-      this.logger.error('Error in custom Claude query:', error);
+      this.logger.error(`Error in custom ${operation} query:`, error);
       throw error;
     }
   }
 
-  private async callClaude(request: ClaudeRequest): Promise<ClaudeResponse> {
-    if (!this.apiKey) {
-      throw new Error('Claude API key not configured');
+  /**
+   * Send a custom prompt whose answer must be JSON matching the schema, and
+   * get the validated value. Throws AiOutputValidationError when the answer
+   * is still invalid after the repair retry.
+   */
+  async queryStructured<T>(
+    prompt: string | RenderedPrompt,
+    operation: LlmOperation,
+    schema: JsonSchema,
+  ): Promise<T> {
+    const text = typeof prompt === 'string' ? prompt : prompt.text;
+    this.logger.log(
+      `Sending structured ${operation} prompt: ${text.substring(0, 100)}...`,
+    );
+
+    return this.completeStructured<T>(
+      operation,
+      this.customPromptOptions(text),
+      schema,
+      this.toVersionRef(prompt),
+    );
+  }
+
+  /**
+   * Record an answer that did not have the structure the prompt asked for.
+   * `repaired` tells whether the repair retry produced a valid answer.
+   */
+  recordParseFailure(
+    operation: LlmOperation,
+    prompt: PromptVersionRef | undefined,
+    reason: string,
+    repaired: boolean = false,
+  ): void {
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.PARSE_FAILURE,
+        latencyMs: 0,
+        success: repaired,
+        ...getAiUsageScope(),
+        prompt,
+        metadata: { operation, error: reason, repaired },
+      }),
+    );
+  }
+
+  /**
+   * Complete and validate the answer against the schema. An invalid answer
+   * is sent back once with its validation errors for the model to fix; the
+   * failure is recorded either way.
+   */
+  private async completeStructured<T>(
+    operation: LlmOperation,
+    options: LlmCallOptions,
+    schema: JsonSchema,
+    prompt?: PromptVersionRef,
+  ): Promise<T> {
+    const answer = await this.complete(operation, options, prompt);
+    const first = parseJsonOutput(answer, schema);
+    if (first.errors.length === 0) {
+      return first.value as T;
     }
 
-    const response = await fetch(this.apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01',
+    this.logger.warn(
+      `Invalid ${operation} response, asking for a repair: ${first.errors.join('; ')}`,
+    );
+    const repairAnswer = await this.complete(
+      operation,
+      {
+        ...options,
+        messages: [
+          ...options.messages,
+          { role: 'assistant', content: answer },
+          {
+            role: 'user',
+            content: this.buildRepairPrompt(first.errors, schema),
+          },
+        ],
       },
-      body: JSON.stringify(request),
-    });
+      prompt,
+    );
+    const repaired = parseJsonOutput(repairAnswer, schema);
+    const isRepaired = repaired.errors.length === 0;
+    this.recordParseFailure(
+      operation,
+      prompt,
+      first.errors.join('; '),
+      isRepaired,
+    );
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Claude API error: ${response.status} ${error}`);
+    if (!isRepaired) {
+      throw new AiOutputValidationError(operation, repaired.errors);
     }
+    return repaired.value as T;
+  }
+
+  private buildRepairPrompt(errors: string[], schema: JsonSchema): string {
+    const listed = errors
+      .slice(0, MAX_REPAIR_ERRORS)
+      .map((error) => `- ${error}`)
+      .join('\n');
+
+    return `Your response did not match the required JSON schema:
+${listed}
+
+Schema:
+${JSON.stringify(schema)}
 
-    return response.json() as Promise<ClaudeResponse>;
+Respond with ONLY the corrected JSON, no other text.`;
   }
 
-  private buildSystemPrompt(): string {
-    return `You are an AI assistant that analyzes content for a personal life management system. Your job is to:
+  private customPromptOptions(text: string): LlmCallOptions {
+    return {
+      maxTokens: 500,
+      temperature: 0.3,
+      messages: [
+        {
+          role: 'user',
+          content: text,
+        },
+      ],
+    };
+  }
 
-1. Categorize content into one of: Personal, Work, Shopping, Health, Finance, Travel, Education, Entertainment, Home, Relationships, Goals, General
-2. Extract key information (dates, times, people, places, amounts, etc.)
-3. Identify action items or next steps
-4. Assess urgency and sentiment
-5. Provide a brief summary
+  private toVersionRef(
+    prompt: string | RenderedPrompt,
+  ): PromptVersionRef | undefined {
+    return typeof prompt === 'string'
+      ? undefined
+      : { key: prompt.key, version: prompt.version };
+  }
 
-Respond with a JSON object in this exact format:
-{
-  "summary": "Brief summary of the content",
-  "category": "One of the predefined categories",
-  "categoryConfidence": 0.95,
-  "extractedEntities": {
-    "dates": ["any dates found"],
-    "times": ["any times found"],
-    "locations": ["any locations"],
-    "people": ["any people mentioned"],
-    "organizations": ["any organizations"],
-    "amounts": ["any monetary amounts"],
-    "tags": ["relevant keywords"]
-  },
-  "actionItems": ["any action items or tasks"],
-  "sentiment": "positive/neutral/negative",
-  "urgency": "low/medium/high",
-  "confidence": 0.85
-}
+  private async complete(
+    operation: LlmOperation,
+    options: LlmCallOptions,
+    prompt?: PromptVersionRef,
+  ): Promise<string> {
+    const { provider, model } = this.llmService.getRoute(operation);
+    const startTime = performance.now();
+
+    try {
+      const completion = await this.fallbackHandler.executeAiCall(
+        `llm-${provider}`,
+        () => this.llmService.complete(operation, options),
+      );
+      this.trackCall(operation, startTime, prompt, {
+        model: completion.model,
+        inputTokens: completion.usage.inputTokens,
+        outputTokens: completion.usage.outputTokens,
+      });
+      return completion.text;
+    } catch (error) {
+      // An open breaker means no request was sent
+      if (!(error instanceof AiServiceUnavailableError)) {
+        this.trackCall(operation, startTime, prompt, { model }, error as Error);
+      }
+      throw error;
+    }
+  }
 
-Be conservative with confidence scores. Use "General" category if unsure.`;
+  private trackCall(
+    operation: LlmOperation,
+    startTime: number,
+    prompt: PromptVersionRef | undefined,
+    usage: AIUsage,
+    error?: Error,
+  ): void {
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: OPERATION_METRIC_TYPES[operation],
+        latencyMs: performance.now() - startTime,
+        success: !error,
+        ...getAiUsageScope(),
+        usage,
+        prompt,
+        metadata: error ? { error: error.message } : undefined,
+      }),
+    );
   }
 
   private buildUserPrompt(request: ContentAnalysisRequest): string {
@@ -340,43 +512,22 @@ Be conservative with confidence scores. Use "General" category if unsure.`;
     return prompt;
   }
 
-  private parseAnalysisResponse(responseText: string): ContentAnalysisResponse {
-    try {
-      // Try to parse as JSON
-      const parsed = JSON.parse(responseText) as ContentAnalysisResponse;
-
-      // Validate required fields
-      return {
-        summary: parsed.summary || 'Content processed',
-        category: parsed.category || 'General',
-        categoryConfidence: Math.min(
-          Math.max(parsed.categoryConfidence || 0.5, 0),
-          1,
-        ),
-        extractedEntities: parsed.extractedEntities || {},
-        actionItems: parsed.actionItems || [],
-        sentiment: parsed.sentiment || 'neutral',
-        urgency: parsed.urgency || 'low',
-        confidence: Math.min(Math.max(parsed.confidence || 0.5, 0), 1),
-      };
-    } catch (parseError) {
-      this.logger.warn(
-        'Failed to parse Claude response as JSON, using fallback:',
-        parseError,
-      );
-
-      // Extract what we can from plain text
-      return {
-        summary: responseText.substring(0, 200),
-        category: 'General',
-        categoryConfidence: 0.3,
-        extractedEntities: {},
-        actionItems: [],
-        sentiment: 'neutral',
-        urgency: 'low',
-        confidence: 0.3,
-      };
-    }
+  /**
+   * Fill the optional fields of a validated analysis
+   */
+  private withAnalysisDefaults(
+    analysis: ContentAnalysisResponse,
+    prompt?: PromptVersionRef,
+  ): ContentAnalysisResponse {
+    return {
+      ...analysis,
+      actionItems: analysis.actionItems ?? [],
+      tasks: analysis.tasks ?? [],
+      needsBreakdown: analysis.needsBreakdown === true,
+      sentiment: analysis.sentiment ?? 'neutral',
+      urgency: analysis.urgency ?? 'low',
+      prompt,
+    };
   }
 
   private getFallbackAnalysis(content: string): ContentAnalysisResponse {
@@ -394,6 +545,7 @@ Be conservative with confidence scores. Use "General" category if unsure.`;
       sentiment: 'neutral',
       urgency: 'low',
       confidence: 0.2,
+      fallback: true,
     };
   }
 }
@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ClaudeService, type ContentAnalysisResponse } from './claude.service';
+import { AiBudgetService } from './ai-budget.service';
 import * as chrono from 'chrono-node';
 
 export interface ExtractedEntity {
@@ -70,7 +71,10 @@ export class EntityExtractionService {
     time: /\b(?:1[0-2]|0?[1-9]):(?:[0-5][0-9])\s*(?:am|pm|AM|PM)\b|\b(?:2[0-3]|[01]?[0-9]):(?:[0-5][0-9])\b/g,
   };
 
-  constructor(private readonly claudeService: ClaudeService) {}
+  constructor(
+    private readonly claudeService: ClaudeService,
+    private readonly aiBudgetService: AiBudgetService,
+  ) {}
 
   async extractEntities(
     request: EntityExtractionRequest,
@@ -85,7 +89,12 @@ export class EntityExtractionService {
     try {
       // Combine pattern-based and AI-based extraction
       const patternEntities = this.extractWithPatterns(request.content);
-      const aiEntities = await this.extractWithAI(request);
+      // Past the soft AI budget limit only the regex patterns run
+      const aiEntities = (await this.aiBudgetService.isOverSoftLimit(
+        request.context?.userId,
+      ))
+        ? []
+        : await this.extractWithAI(request);
 
       // Merge and deduplicate entities
       const mergedEntities = this.mergeEntities(patternEntities, aiEntities);
@@ -258,6 +267,7 @@ export class EntityExtractionService {
           userId: request.context?.userId || 'unknown',
           timestamp: request.context?.timestamp || new Date(),
         },
+        operation: 'extraction',
       });
 
       // Parse AI response to extract entities
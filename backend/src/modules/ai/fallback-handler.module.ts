@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { FallbackHandlerService } from './fallback-handler.service';
+
+/**
+ * One FallbackHandlerService for the whole app, so every module calling an
+ * AI service sees the same circuit breakers
+ */
+@Global()
+@Module({
+  providers: [FallbackHandlerService],
+  exports: [FallbackHandlerService],
+})
+export class FallbackHandlerModule {}
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from './fallback-handler.service';
+
+describe('FallbackHandlerService', () => {
+  let service: FallbackHandlerService;
+  let configValues: Record<string, string>;
+
+  beforeEach(async () => {
+    configValues = {
+      AI_TEST_SERVICE_MAX_RETRIES: '0',
+      AI_TEST_SERVICE_BREAKER_THRESHOLD: '2',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FallbackHandlerService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => configValues[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FallbackHandlerService>(FallbackHandlerService);
+  });
+
+  const failing = () =>
+    jest.fn().mockRejectedValue(new Error('Claude API error: 503 overloaded'));
+
+  describe('executeAiCall', () => {
+    it('should return the result of a successful call', async () => {
+      const result = await service.executeAiCall('test-service', () =>
+        Promise.resolve('ok'),
+      );
+
+      expect(result).toBe('ok');
+      expect(service.getCircuitBreakerState('test-service').state).toBe(
+        'CLOSED',
+      );
+    });
+
+    it('should throw the original error while the breaker is closed', async () => {
+      await expect(
+        service.executeAiCall('test-service', failing()),
+      ).rejects.toThrow('Claude API error: 503 overloaded');
+    });
+
+    it('should stop calling the service once the breaker opens', async () => {
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+
+      // The second failure reaches the threshold
+      await expect(
+        service.executeAiCall('test-service', failing()),
+      ).rejects.toBeInstanceOf(AiServiceUnavailableError);
+
+      const call = jest.fn();
+      await expect(
+        service.executeAiCall('test-service', call),
+      ).rejects.toBeInstanceOf(AiServiceUnavailableError);
+      expect(call).not.toHaveBeenCalled();
+      expect(service.getStats()['test-service'].retryAt).toBeInstanceOf(Date);
+    });
+
+    it('should close the breaker after a successful half-open call', async () => {
+      configValues.AI_TEST_SERVICE_BREAKER_RESET_MS = '0';
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+      expect(service.getCircuitBreakerState('test-service').state).toBe('OPEN');
+
+      await service.executeAiCall('test-service', () => Promise.resolve('ok'));
+
+      expect(service.getCircuitBreakerState('test-service')).toEqual(
+        expect.objectContaining({ state: 'CLOSED', failureCount: 0 }),
+      );
+    });
+
+    it('should reopen the breaker when the half-open call fails', async () => {
+      configValues.AI_TEST_SERVICE_BREAKER_RESET_MS = '0';
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+
+      await service.executeAiCall('test-service', failing()).catch(() => null);
+
+      expect(service.getCircuitBreakerState('test-service').state).toBe('OPEN');
+    });
+
+    it('should retry server errors but not client errors', async () => {
+      configValues.AI_TEST_SERVICE_MAX_RETRIES = '2';
+      configValues.AI_TEST_SERVICE_BREAKER_THRESHOLD = '10';
+      const serverError = failing();
+      const clientError = jest
+        .fn()
+        .mockRejectedValue(new Error('Google Vision API error: 400 bad image'));
+
+      await service
+        .executeAiCall('test-service', serverError, { delayMs: 1 })
+        .catch(() => null);
+      await service
+        .executeAiCall('test-service', clientError, { delayMs: 1 })
+        .catch(() => null);
+
+      expect(serverError).toHaveBeenCalledTimes(3);
+      expect(clientError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should list the known AI services before they are called', () => {
+    const stats = service.getStats();
+
+    expect(Object.keys(stats)).toEqual(
+      expect.arrayContaining([
+        'llm-anthropic',
+        'google-vision',
+        'google-speech',
+        'embeddings',
+      ]),
+    );
+    expect(stats['google-vision'].isHealthy).toBe(true);
+  });
+});
@@ -25,6 +25,42 @@ export interface CircuitBreakerState {
   lastSuccessTime?: Date;
 }
 
+export interface AiServiceStats {
+  circuitBreakerState: CircuitBreakerState;
+  isHealthy: boolean;
+  // When an open breaker lets the next request through
+  retryAt?: Date;
+}
+
+/**
+ * External AI services with their own breaker. Each LLM provider gets one
+ * (llm-anthropic, llm-openai), so a local model going down does not stop
+ * calls routed to Claude.
+ */
+const SERVICE_CONFIGS: Record<string, Partial<FallbackConfig>> = {
+  'llm-anthropic': { maxRetries: 2, timeoutMs: 45000 },
+  // Local models answer slowly and do not get better by retrying
+  'llm-openai': { maxRetries: 1, timeoutMs: 120000 },
+  'google-vision': { maxRetries: 2, timeoutMs: 30000 },
+  'google-speech': { maxRetries: 2, timeoutMs: 60000 },
+  // In-process model: failures are not transient
+  embeddings: { maxRetries: 0, timeoutMs: 15000, circuitBreakerThreshold: 3 },
+};
+
+/**
+ * Thrown instead of calling a service whose circuit breaker is open, so
+ * callers can put the work off rather than store a degraded result
+ */
+export class AiServiceUnavailableError extends Error {
+  constructor(
+    public readonly serviceName: string,
+    public readonly retryAt: Date,
+  ) {
+    super(`${serviceName} is unavailable until ${retryAt.toISOString()}`);
+    this.name = 'AiServiceUnavailableError';
+  }
+}
+
 export interface FallbackResult<T> {
   success: boolean;
   data?: T;
@@ -39,6 +75,7 @@ export interface FallbackResult<T> {
 export class FallbackHandlerService {
   private readonly logger = new Logger(FallbackHandlerService.name);
   private readonly circuitBreakers = new Map<string, CircuitBreakerState>();
+  private readonly serviceConfigs = new Map<string, FallbackConfig>();
 
   private readonly defaultConfig: FallbackConfig = {
     maxRetries: 3,
@@ -209,6 +246,34 @@ export class FallbackHandlerService {
     return this.executeWithFallback(fn, fallbackFn, serviceName, options);
   }
 
+  /**
+   * Run an AI call through the service's retries and circuit breaker and
+   * return its result. Throws AiServiceUnavailableError while the breaker
+   * is open (including when this call opened it) and the last error once
+   * the retries are used up.
+   */
+  async executeAiCall<T>(
+    serviceName: string,
+    fn: () => Promise<T>,
+    options: RetryOptions = {},
+  ): Promise<T> {
+    const result = await this.executeWithRetry(fn, serviceName, options);
+    if (result.success) {
+      return result.data as T;
+    }
+
+    if (
+      result.circuitBreakerTriggered ||
+      this.getCircuitBreakerState(serviceName).state === 'OPEN'
+    ) {
+      throw new AiServiceUnavailableError(
+        serviceName,
+        this.getRetryAt(serviceName),
+      );
+    }
+    throw result.error ?? new Error(`${serviceName} call failed`);
+  }
+
   /**
    * Get circuit breaker state for a service
    */
@@ -234,39 +299,58 @@ export class FallbackHandlerService {
   }
 
   /**
-   * Get fallback statistics for monitoring
+   * Get fallback statistics for monitoring, for every known AI service
+   * and any other service that has been called
    */
-  getStats(): Record<
-    string,
-    {
-      circuitBreakerState: CircuitBreakerState;
-      isHealthy: boolean;
-    }
-  > {
-    const stats: Record<string, any> = {};
-
-    for (const [serviceName, state] of this.circuitBreakers.entries()) {
+  getStats(): Record<string, AiServiceStats> {
+    const stats: Record<string, AiServiceStats> = {};
+    const serviceNames = new Set([
+      ...Object.keys(SERVICE_CONFIGS),
+      ...this.circuitBreakers.keys(),
+    ]);
+
+    for (const serviceName of serviceNames) {
+      const state = this.getCircuitBreakerState(serviceName);
       stats[serviceName] = {
         circuitBreakerState: state,
         isHealthy: state.state === 'CLOSED' && state.failureCount < 3,
+        retryAt:
+          state.state === 'OPEN' ? this.getRetryAt(serviceName) : undefined,
       };
     }
 
     return stats;
   }
 
+  /**
+   * When an open breaker lets the next request through
+   */
+  getRetryAt(serviceName: string): Date {
+    const state = this.getCircuitBreakerState(serviceName);
+    const config = this.getConfigForService(serviceName);
+    return new Date(
+      (state.lastFailureTime?.getTime() ?? Date.now()) +
+        config.circuitBreakerResetTimeMs,
+    );
+  }
+
   private async executeWithTimeout<T>(
     fn: () => Promise<T>,
     timeoutMs: number,
   ): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(
+      timer = setTimeout(
         () => reject(new Error(`Operation timed out after ${timeoutMs}ms`)),
         timeoutMs,
       );
     });
 
-    return Promise.race([fn(), timeoutPromise]);
+    try {
+      return await Promise.race([fn(), timeoutPromise]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private shouldRetry(
@@ -302,14 +386,15 @@ export class FallbackHandlerService {
       errorMessage.includes(retryableError),
     );
 
-    // Also retry on 5xx HTTP errors
-    if (error.message.includes('status code')) {
-      const statusRegex = /status code (\d+)/;
-      const statusMatch = statusRegex.exec(error.message);
-      if (statusMatch) {
-        const statusCode = Number.parseInt(statusMatch[1], 10);
-        return statusCode >= 500 && statusCode < 600;
-      }
+    // Also retry on 429 and 5xx HTTP errors
+    const statusMatch = /(?:status code|API error:) (\d{3})\b/.exec(
+      error.message,
+    );
+    const statusCode =
+      (error as Error & { status?: number }).status ??
+      (statusMatch ? Number.parseInt(statusMatch[1], 10) : undefined);
+    if (statusCode) {
+      return statusCode === 429 || (statusCode >= 500 && statusCode < 600);
     }
 
     return isRetryable;
@@ -339,15 +424,15 @@ export class FallbackHandlerService {
     const state = this.getCircuitBreakerState(serviceName);
 
     if (state.state === 'HALF_OPEN') {
-      // Transition back to CLOSED
-      this.setCircuitBreakerState(serviceName, 'CLOSED');
       this.logger.log(
         `Circuit breaker CLOSED for ${serviceName} after successful request`,
       );
     }
 
+    // Transition back to CLOSED
     this.circuitBreakers.set(serviceName, {
       ...state,
+      state: 'CLOSED',
       failureCount: 0,
       lastSuccessTime: new Date(),
     });
@@ -366,7 +451,7 @@ export class FallbackHandlerService {
 
     if (state.state === 'HALF_OPEN') {
       // Transition back to OPEN
-      this.setCircuitBreakerState(serviceName, 'OPEN');
+      newState.state = 'OPEN';
       this.logger.warn(
         `Circuit breaker OPEN for ${serviceName} after failed half-open attempt`,
       );
@@ -395,9 +480,41 @@ export class FallbackHandlerService {
     });
   }
 
+  /**
+   * Defaults for the service, overridable per service through the
+   * environment: AI_<SERVICE>_MAX_RETRIES, AI_<SERVICE>_TIMEOUT_MS,
+   * AI_<SERVICE>_BREAKER_THRESHOLD and AI_<SERVICE>_BREAKER_RESET_MS,
+   * e.g. AI_GOOGLE_SPEECH_TIMEOUT_MS
+   */
   private getConfigForService(serviceName: string): FallbackConfig {
-    // In a real implementation, you might have service-specific configurations
-    return this.defaultConfig;
+    const cached = this.serviceConfigs.get(serviceName);
+    if (cached) {
+      return cached;
+    }
+
+    const base = { ...this.defaultConfig, ...SERVICE_CONFIGS[serviceName] };
+    const prefix = `AI_${serviceName.toUpperCase().replaceAll('-', '_')}`;
+    const read = (key: string, fallback: number): number => {
+      const raw = this.configService.get<string>(`${prefix}_${key}`);
+      const value = Number(raw);
+      return raw && Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+
+    const config: FallbackConfig = {
+      ...base,
+      maxRetries: read('MAX_RETRIES', base.maxRetries),
+      timeoutMs: read('TIMEOUT_MS', base.timeoutMs),
+      circuitBreakerThreshold: read(
+        'BREAKER_THRESHOLD',
+        base.circuitBreakerThreshold,
+      ),
+      circuitBreakerResetTimeMs: read(
+        'BREAKER_RESET_MS',
+        base.circuitBreakerResetTimeMs,
+      ),
+    };
+    this.serviceConfigs.set(serviceName, config);
+    return config;
   }
 
   private async delay(ms: number): Promise<void> {
@@ -4,6 +4,7 @@ import { Repository } from 'typeorm';
 import { ContentAnalysisResponse } from './claude.service';
 import { EntityExtractionResult } from './extraction.service';
 import { TranslationService } from './translation.service';
+import { AiBudgetService } from './ai-budget.service';
 import { User } from '../../entities/user.entity';
 
 export interface FormattingOptions {
@@ -34,6 +35,7 @@ export class ResponseFormatterService {
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
     private readonly translationService: TranslationService,
+    private readonly aiBudgetService: AiBudgetService,
   ) {}
 
   // Platform-specific constraints
@@ -111,6 +113,11 @@ export class ResponseFormatterService {
     // Translate analysis content if not English
     const translatedAnalysis = await this.translateAnalysis(analysis, language);
 
+    // Past the soft AI budget limit the labels stay in English
+    const labelLanguage = (await this.aiBudgetService.isOverSoftLimit(userId))
+      ? 'en'
+      : language;
+
     const constraints = this.constraints[options.platform];
     let formattedText = '';
 
@@ -121,7 +128,7 @@ export class ResponseFormatterService {
             translatedAnalysis,
             entities,
             options,
-            language,
+            labelLanguage,
           );
           break;
         case 'detailed':
@@ -129,7 +136,7 @@ export class ResponseFormatterService {
             translatedAnalysis,
             entities,
             options,
-            language,
+            labelLanguage,
           );
           break;
         case 'summary':
@@ -138,7 +145,7 @@ export class ResponseFormatterService {
             translatedAnalysis,
             entities,
             options,
-            language,
+            labelLanguage,
           );
           break;
       }
@@ -171,7 +178,7 @@ export class ResponseFormatterService {
           translatedAnalysis,
           entities,
           options,
-          language,
+          labelLanguage,
         );
       }
 
@@ -181,7 +188,7 @@ export class ResponseFormatterService {
           translatedAnalysis,
           entities,
           options,
-          language,
+          labelLanguage,
         );
       }
 
@@ -194,7 +201,7 @@ export class ResponseFormatterService {
       const fallbackText = await this.createFallbackResponse(
         translatedAnalysis,
         entities,
-        language,
+        labelLanguage,
       );
       return {
         text: fallbackText,
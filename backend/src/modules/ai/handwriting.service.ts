@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { VisionService } from './vision.service';
+import { AiServiceUnavailableError } from './fallback-handler.service';
 
 // Define handwriting detection confidence levels
 export enum HandwritingConfidence {
@@ -146,6 +147,9 @@ export class HandwritingService {
 
       return result;
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error(
         `Handwriting recognition failed: ${error.message}`,
         error.stack,
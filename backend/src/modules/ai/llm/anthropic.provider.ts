@@ -0,0 +1,71 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmProviderError,
+} from './llm-provider.interface';
+
+interface AnthropicMessagesResponse {
+  content: Array<{ type: 'text'; text: string }>;
+  model: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Claude through the Anthropic Messages API
+ */
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  private readonly apiUrl = 'https://api.anthropic.com/v1/messages';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly timeoutMs: number,
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.apiKey) {
+      throw new LlmProviderError(this.name, 'Claude API key not configured');
+    }
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: request.system,
+        messages: request.messages,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new LlmProviderError(
+        this.name,
+        `Claude API error: ${response.status} ${error}`,
+        response.status,
+      );
+    }
+
+    const body = (await response.json()) as AnthropicMessagesResponse;
+    return {
+      text: body.content.find((block) => block.type === 'text')?.text || '',
+      model: body.model,
+      provider: this.name,
+      usage: {
+        inputTokens: body.usage?.input_tokens || 0,
+        outputTokens: body.usage?.output_tokens || 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import * as fs from 'node:fs';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmOperation,
+  LlmProvider,
+  LlmProviderError,
+} from './llm-provider.interface';
+
+/**
+ * One recorded answer. `operation` is an LlmOperation or '*'; `match`, when
+ * set, must appear in the system prompt or one of the messages.
+ */
+export interface LlmFixture {
+  operation: LlmOperation | '*';
+  match?: string;
+  response: string;
+}
+
+/**
+ * Replays recorded answers instead of calling a model, so tests and demos
+ * run offline and always get the same output. The first fixture matching
+ * the request wins; a request nothing matches is an error rather than a
+ * made-up answer.
+ */
+export class FixtureReplayProvider implements LlmProvider {
+  readonly name = 'fixture' as const;
+
+  constructor(private readonly fixtures: LlmFixture[]) {}
+
+  static fromFile(filePath: string): FixtureReplayProvider {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf8')) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new LlmProviderError(
+        'fixture',
+        `LLM fixtures file ${filePath} must contain an array`,
+      );
+    }
+    return new FixtureReplayProvider(parsed as LlmFixture[]);
+  }
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const prompt = [
+      request.system || '',
+      ...request.messages.map((message) => message.content),
+    ].join('\n');
+
+    const fixture = this.fixtures.find(
+      (candidate) =>
+        (candidate.operation === '*' ||
+          candidate.operation === request.operation) &&
+        (!candidate.match || prompt.includes(candidate.match)),
+    );
+    if (!fixture) {
+      return Promise.reject(
+        new LlmProviderError(
+          this.name,
+          `No LLM fixture for ${request.operation}: ${prompt.substring(0, 80)}`,
+        ),
+      );
+    }
+
+    return Promise.resolve({
+      text: fixture.response,
+      model: request.model,
+      provider: this.name,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Kind of work an LLM call does. Each operation can be routed to its own
+ * provider and model through ai.config.ts.
+ */
+export type LlmOperation =
+  | 'analysis'
+  | 'categorization'
+  | 'extraction'
+  | 'summary'
+  | 'translation'
+  | 'proactive'
+  | 'query_enhancement'
+  | 'task_breakdown'
+  | 'general';
+
+export const LLM_OPERATIONS: LlmOperation[] = [
+  'analysis',
+  'categorization',
+  'extraction',
+  'summary',
+  'translation',
+  'proactive',
+  'query_enhancement',
+  'task_breakdown',
+  'general',
+];
+
+export type LlmProviderName = 'anthropic' | 'openai' | 'fixture';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  operation: LlmOperation;
+  model: string;
+  messages: LlmMessage[];
+  system?: string;
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  provider: LlmProviderName;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    readonly provider: LlmProviderName,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
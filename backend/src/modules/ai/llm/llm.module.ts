@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { AIConfig } from '../../../config/ai.config';
+import { LlmService } from './llm.service';
+
+@Global()
+@Module({
+  providers: [AIConfig, LlmService],
+  exports: [AIConfig, LlmService],
+})
+export class LlmModule {}
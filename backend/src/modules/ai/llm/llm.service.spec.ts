@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AIConfig } from '../../../config/ai.config';
+import { FixtureReplayProvider } from './fixture-replay.provider';
+import { LlmProviderError } from './llm-provider.interface';
+import { LlmService } from './llm.service';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+
+describe('LlmService', () => {
+  const originalEnv = process.env;
+  const fetchMock = jest.fn();
+
+  const createService = async (): Promise<LlmService> => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AIConfig, LlmService],
+    }).compile();
+    return module.get<LlmService>(LlmService);
+  };
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      CLAUDE_API_KEY: 'test-key',
+      GOOGLE_CLOUD_PROJECT_ID: 'test-project',
+    };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith('LLM_') || key.startsWith('OPENAI_COMPATIBLE_')) {
+        delete process.env[key];
+      }
+    }
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('routing', () => {
+    it('should send every operation to Claude by default', async () => {
+      const service = await createService();
+
+      expect(service.getRoute('analysis')).toEqual({
+        provider: 'anthropic',
+        model: 'claude-3-haiku-20240307',
+      });
+      expect(service.getRoute('translation').provider).toBe('anthropic');
+    });
+
+    it('should apply per-operation provider and model overrides', async () => {
+      process.env.LLM_PROVIDER_TRANSLATION = 'openai';
+      process.env.LLM_MODEL_TRANSLATION = 'qwen2.5:7b';
+      const service = await createService();
+
+      expect(service.getRoute('translation')).toEqual({
+        provider: 'openai',
+        model: 'qwen2.5:7b',
+      });
+      expect(service.getRoute('analysis').provider).toBe('anthropic');
+    });
+
+    it('should reject an unknown provider at startup', async () => {
+      process.env.LLM_PROVIDER = 'gemini';
+
+      await expect(createService()).rejects.toThrow(
+        'Unknown LLM provider "gemini"',
+      );
+    });
+
+    it('should call the Anthropic Messages API for Claude routes', async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            content: [{ type: 'text', text: 'Work' }],
+            model: 'claude-3-haiku-20240307',
+            usage: { input_tokens: 12, output_tokens: 1 },
+          }),
+      });
+      const service = await createService();
+
+      const result = await service.complete('categorization', {
+        maxTokens: 50,
+        system: 'Categorize',
+        messages: [{ role: 'user', content: 'Quarterly report' }],
+      });
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.anthropic.com/v1/messages',
+        expect.objectContaining({ method: 'POST' }),
+      );
+      expect(result).toEqual({
+        text: 'Work',
+        model: 'claude-3-haiku-20240307',
+        provider: 'anthropic',
+        usage: { inputTokens: 12, outputTokens: 1 },
+      });
+    });
+  });
+
+  describe('OpenAiCompatibleProvider', () => {
+    it('should send the system prompt as a system message', async () => {
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'llama3.1:8b',
+            choices: [{ message: { content: 'Olá' } }],
+            usage: { prompt_tokens: 20, completion_tokens: 2 },
+          }),
+      });
+      const provider = new OpenAiCompatibleProvider(
+        'http://localhost:11434/v1/',
+        undefined,
+        1000,
+      );
+
+      const result = await provider.complete({
+        operation: 'translation',
+        model: 'llama3.1:8b',
+        maxTokens: 100,
+        system: 'Translate to Portuguese',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers).not.toHaveProperty('Authorization');
+      expect(JSON.parse(init.body as string)).toEqual(
+        expect.objectContaining({
+          model: 'llama3.1:8b',
+          messages: [
+            { role: 'system', content: 'Translate to Portuguese' },
+            { role: 'user', content: 'Hello' },
+          ],
+        }),
+      );
+      expect(result.text).toBe('Olá');
+      expect(result.usage).toEqual({ inputTokens: 20, outputTokens: 2 });
+    });
+  });
+
+  describe('FixtureReplayProvider', () => {
+    const provider = new FixtureReplayProvider([
+      { operation: 'translation', match: 'Daily Digest', response: 'Resumo' },
+      { operation: 'translation', response: 'Tradução' },
+      { operation: '*', match: 'garage', response: '[]' },
+    ]);
+
+    it('should replay the first matching fixture', async () => {
+      const request = {
+        model: 'fixture',
+        maxTokens: 100,
+        messages: [{ role: 'user' as const, content: 'Daily Digest' }],
+      };
+
+      await expect(
+        provider.complete({ ...request, operation: 'translation' }),
+      ).resolves.toEqual(expect.objectContaining({ text: 'Resumo' }));
+      await expect(
+        provider.complete({
+          ...request,
+          operation: 'task_breakdown',
+          messages: [{ role: 'user', content: 'Clean the garage' }],
+        }),
+      ).resolves.toEqual(expect.objectContaining({ text: '[]' }));
+    });
+
+    it('should fail when no fixture matches', async () => {
+      await expect(
+        provider.complete({
+          operation: 'analysis',
+          model: 'fixture',
+          maxTokens: 100,
+          messages: [{ role: 'user', content: 'Buy milk' }],
+        }),
+      ).rejects.toBeInstanceOf(LlmProviderError);
+    });
+  });
+});
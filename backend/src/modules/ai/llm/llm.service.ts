@@ -0,0 +1,78 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AIConfig, LlmRoute } from '../../../config/ai.config';
+import { AnthropicProvider } from './anthropic.provider';
+import { FixtureReplayProvider } from './fixture-replay.provider';
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmOperation,
+  LlmProvider,
+  LlmProviderName,
+} from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+
+export type LlmCallOptions = Omit<LlmCompletionRequest, 'operation' | 'model'>;
+
+/**
+ * LlmService
+ * Sends a completion to the provider and model ai.config.ts routes the
+ * operation to. Providers are created on first use.
+ */
+@Injectable()
+export class LlmService {
+  private readonly logger = new Logger(LlmService.name);
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+
+  constructor(private readonly aiConfig: AIConfig) {}
+
+  async complete(
+    operation: LlmOperation,
+    options: LlmCallOptions,
+  ): Promise<LlmCompletion> {
+    const route = this.getRoute(operation);
+    this.logger.debug(`${operation} via ${route.provider}/${route.model}`);
+
+    return this.getProvider(route.provider).complete({
+      ...options,
+      operation,
+      model: route.model,
+    });
+  }
+
+  getRoute(operation: LlmOperation): LlmRoute {
+    return this.aiConfig.getLlmRoute(operation);
+  }
+
+  private getProvider(name: LlmProviderName): LlmProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      provider = this.createProvider(name);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  private createProvider(name: LlmProviderName): LlmProvider {
+    const { timeoutMs } = this.aiConfig.getProcessingConfig();
+
+    switch (name) {
+      case 'anthropic':
+        return new AnthropicProvider(
+          this.aiConfig.getClaudeConfig().apiKey || '',
+          timeoutMs,
+        );
+      case 'openai': {
+        const config = this.aiConfig.getOpenAiCompatibleConfig();
+        return new OpenAiCompatibleProvider(
+          config.baseUrl,
+          config.apiKey,
+          timeoutMs,
+        );
+      }
+      case 'fixture':
+        return FixtureReplayProvider.fromFile(
+          this.aiConfig.getLlmFixturesPath() || '',
+        );
+    }
+  }
+}
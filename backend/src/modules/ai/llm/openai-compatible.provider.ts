@@ -0,0 +1,87 @@
+import {
+  LlmCompletion,
+  LlmCompletionRequest,
+  LlmProvider,
+  LlmProviderError,
+} from './llm-provider.interface';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: Array<{ message?: { content?: string | null } }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local Ollama (http://localhost:11434/v1) or llama.cpp server
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai' as const;
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly timeoutMs: number,
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const messages = request.system
+      ? [{ role: 'system', content: request.system }, ...request.messages]
+      : request.messages;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    // Local servers usually run without a key
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages,
+        stream: false,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new LlmProviderError(
+        this.name,
+        `OpenAI-compatible API error: ${response.status} ${error}`,
+        response.status,
+      );
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    const text = body.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LlmProviderError(
+        this.name,
+        'OpenAI-compatible API returned no message',
+      );
+    }
+
+    return {
+      text,
+      model: body.model || request.model,
+      provider: this.name,
+      usage: {
+        inputTokens: body.usage?.prompt_tokens || 0,
+        outputTokens: body.usage?.completion_tokens || 0,
+      },
+    };
+  }
+}
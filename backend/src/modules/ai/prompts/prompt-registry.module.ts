@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PromptVersion } from '../../../entities/prompt-version.entity';
+import { PromptExperiment } from '../../../entities/prompt-experiment.entity';
+import { PromptRegistryService } from './prompt-registry.service';
+
+/**
+ * Global so every service that builds a prompt shares one registry cache
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([PromptVersion, PromptExperiment])],
+  providers: [PromptRegistryService],
+  exports: [PromptRegistryService],
+})
+export class PromptRegistryModule {}
@@ -0,0 +1,140 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PromptVersion } from '../../../entities/prompt-version.entity';
+import { PromptExperiment } from '../../../entities/prompt-experiment.entity';
+import { runWithAiUsageScope } from '../ai-usage-scope';
+import { PromptRegistryService } from './prompt-registry.service';
+
+describe('PromptRegistryService', () => {
+  let service: PromptRegistryService;
+  let versions: Partial<PromptVersion>[];
+  let experiment: Partial<PromptExperiment> | null;
+  let versionRepo: {
+    find: jest.Mock;
+    findOne: jest.Mock;
+    create: jest.Mock;
+    save: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    versions = [
+      {
+        key: 'translation',
+        version: 2,
+        template: 'To {{targetLanguage}}: {{text}}',
+      },
+    ];
+    experiment = null;
+    versionRepo = {
+      find: jest.fn(async () => versions),
+      findOne: jest.fn(async () => versions[versions.length - 1] || null),
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => data),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromptRegistryService,
+        { provide: getRepositoryToken(PromptVersion), useValue: versionRepo },
+        {
+          provide: getRepositoryToken(PromptExperiment),
+          useValue: {
+            find: jest.fn(async () => (experiment ? [experiment] : [])),
+            findOne: jest.fn(async () => experiment),
+            create: jest.fn((data) => data),
+            save: jest.fn(async (data) => data),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PromptRegistryService>(PromptRegistryService);
+  });
+
+  it('should render the built-in version when no experiment runs', async () => {
+    const prompt = await service.render('translation', {
+      sourceLanguage: 'en',
+      targetLanguage: 'pt',
+      context: '',
+      text: 'Daily Digest',
+    });
+
+    expect(prompt.version).toBe(1);
+    expect(prompt.text).toContain(
+      'Translate the following text from en to pt.\n\nIMPORTANT:',
+    );
+    expect(prompt.text).toContain('Text to translate:\nDaily Digest');
+  });
+
+  it('should pin each user to one variant of the running experiment', async () => {
+    experiment = {
+      id: 'experiment-1',
+      key: 'translation',
+      variants: [
+        { version: 1, weight: 50 },
+        { version: 2, weight: 50 },
+      ],
+    };
+    const variables = { targetLanguage: 'pt', text: 'Hello' };
+
+    const picked = new Set<number>();
+    for (let user = 0; user < 20; user++) {
+      const first = await service.render('translation', variables, `u${user}`);
+      const second = await service.render('translation', variables, `u${user}`);
+      expect(second.version).toBe(first.version);
+      picked.add(first.version);
+    }
+    expect([...picked].sort()).toEqual([1, 2]);
+
+    const scoped = await runWithAiUsageScope({ userId: 'u3' }, () =>
+      service.render('translation', variables),
+    );
+    const explicit = await service.render('translation', variables, 'u3');
+    expect(scoped.version).toBe(explicit.version);
+  });
+
+  it('should give calls without a user the first variant', async () => {
+    experiment = {
+      id: 'experiment-1',
+      key: 'translation',
+      variants: [
+        { version: 2, weight: 10 },
+        { version: 1, weight: 90 },
+      ],
+    };
+
+    const prompt = await service.render('translation', {
+      targetLanguage: 'pt',
+      text: 'Hello',
+    });
+
+    expect(prompt).toEqual({
+      key: 'translation',
+      version: 2,
+      text: 'To pt: Hello',
+    });
+  });
+
+  it('should fall back to the built-in version when the registry cannot be read', async () => {
+    versionRepo.find.mockRejectedValue(new Error('relation does not exist'));
+
+    const prompt = await service.render('analysis', {}, 'user-1');
+
+    expect(prompt.version).toBe(1);
+    expect(prompt.text).toContain('Respond with a JSON object');
+  });
+
+  it('should number new versions and reject unknown variables', async () => {
+    await expect(
+      service.createVersion('translation', 'Translate {{phrase}}'),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    const version = await service.createVersion(
+      'translation',
+      'Translate to {{targetLanguage}}, keep it short: {{text}}',
+      'Shorter',
+    );
+    expect(version.version).toBe(3);
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash } from 'node:crypto';
+import { IsNull, Repository } from 'typeorm';
+import { PromptVersion } from '../../../entities/prompt-version.entity';
+import {
+  PromptExperiment,
+  type PromptExperimentVariant,
+} from '../../../entities/prompt-experiment.entity';
+import { getAiUsageScope } from '../ai-usage-scope';
+import {
+  BUILT_IN_PROMPT_VERSION,
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  findUnknownPromptVariables,
+  renderPromptTemplate,
+  type PromptKey,
+} from './prompt-templates';
+
+export interface PromptVersionRef {
+  key: PromptKey;
+  version: number;
+}
+
+export interface RenderedPrompt extends PromptVersionRef {
+  text: string;
+}
+
+// Stored versions and the running experiment are re-read at most this often per key
+const PROMPT_CACHE_MS = 60_000;
+
+interface CachedPrompt {
+  templates: Map<number, string>;
+  experiment: PromptExperiment | null;
+  expiresAt: number;
+}
+
+/**
+ * PromptRegistryService
+ * Renders the prompts of prompt-templates.ts and the versions admins add
+ * on top of them. While an experiment runs for a key, each user is pinned
+ * to one of its versions by a hash of the experiment and user id; without
+ * an experiment the built-in version is used. Callers pass the returned
+ * version on to ClaudeService so ai_metrics rows can be compared per
+ * version.
+ */
+@Injectable()
+export class PromptRegistryService {
+  private readonly logger = new Logger(PromptRegistryService.name);
+  private readonly cache = new Map<PromptKey, CachedPrompt>();
+
+  constructor(
+    @InjectRepository(PromptVersion)
+    private readonly versionRepo: Repository<PromptVersion>,
+    @InjectRepository(PromptExperiment)
+    private readonly experimentRepo: Repository<PromptExperiment>,
+  ) {}
+
+  /**
+   * Fill the version of a prompt picked for the user (by default the user
+   * of the current AI usage scope). Falls back to the built-in version when
+   * the registry tables cannot be read.
+   */
+  async render(
+    key: PromptKey,
+    variables: Record<string, string | number> = {},
+    userId: string | undefined = getAiUsageScope().userId,
+  ): Promise<RenderedPrompt> {
+    let version = BUILT_IN_PROMPT_VERSION;
+    let template = PROMPT_DEFINITIONS[key].template;
+
+    try {
+      const cached = await this.load(key);
+      const picked = this.pickVersion(cached.experiment, userId);
+      const stored = cached.templates.get(picked);
+      if (stored !== undefined) {
+        version = picked;
+        template = stored;
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Prompt registry unavailable for ${key}, using the built-in prompt: ${(error as Error).message}`,
+      );
+    }
+
+    return { key, version, text: renderPromptTemplate(template, variables) };
+  }
+
+  /**
+   * Every prompt with its versions and running experiment
+   */
+  async listPrompts() {
+    const [versions, experiments] = await Promise.all([
+      this.versionRepo.find({ order: { key: 'ASC', version: 'ASC' } }),
+      this.experimentRepo.find({ where: { ended_at: IsNull() } }),
+    ]);
+
+    return PROMPT_KEYS.map((key) => ({
+      key,
+      description: PROMPT_DEFINITIONS[key].description,
+      variables: PROMPT_DEFINITIONS[key].variables,
+      versions: [
+        {
+          version: BUILT_IN_PROMPT_VERSION,
+          description: 'Built-in',
+          template: PROMPT_DEFINITIONS[key].template,
+          builtIn: true,
+          createdAt: null,
+        },
+        ...versions
+          .filter((version) => version.key === key)
+          .map((version) => ({
+            version: version.version,
+            description: version.description,
+            template: version.template,
+            builtIn: false,
+            createdAt: version.created_at,
+          })),
+      ],
+      experiment:
+        experiments.find((experiment) => experiment.key === key) || null,
+    }));
+  }
+
+  /**
+   * Store a template as the next version of a prompt. New versions are not
+   * used until an experiment includes them.
+   */
+  async createVersion(
+    key: string,
+    template: string,
+    description?: string,
+  ): Promise<PromptVersion> {
+    const promptKey = this.assertKey(key);
+    const unknown = findUnknownPromptVariables(promptKey, template);
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown variables for ${key}: ${unknown.join(', ')}. Available: ${PROMPT_DEFINITIONS[promptKey].variables.join(', ') || 'none'}`,
+      );
+    }
+
+    const latest = await this.versionRepo.findOne({
+      where: { key },
+      order: { version: 'DESC' },
+    });
+    const version = await this.versionRepo.save(
+      this.versionRepo.create({
+        key,
+        version: (latest?.version ?? BUILT_IN_PROMPT_VERSION) + 1,
+        template,
+        description: description || null,
+      }),
+    );
+
+    this.logger.log(`Added version ${version.version} of prompt ${key}`);
+    return version;
+  }
+
+  /**
+   * Split users between versions of a prompt, ending the experiment that
+   * was running for it. A single variant rolls that version out to everyone.
+   */
+  async startExperiment(
+    key: string,
+    name: string,
+    variants: PromptExperimentVariant[],
+  ): Promise<PromptExperiment> {
+    const promptKey = this.assertKey(key);
+    const versions = new Set([
+      BUILT_IN_PROMPT_VERSION,
+      ...(await this.versionRepo.find({ where: { key } })).map(
+        (version) => version.version,
+      ),
+    ]);
+    const missing = variants.filter(
+      (variant) => !versions.has(variant.version),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Prompt ${key} has no version ${missing.map((variant) => variant.version).join(', ')}`,
+      );
+    }
+
+    await this.endRunningExperiment(promptKey);
+    const experiment = await this.experimentRepo.save(
+      this.experimentRepo.create({ key, name, variants, ended_at: null }),
+    );
+    this.cache.delete(promptKey);
+
+    this.logger.log(
+      `Started prompt experiment "${name}" for ${key}: ${variants.map((variant) => `v${variant.version}=${variant.weight}`).join(', ')}`,
+    );
+    return experiment;
+  }
+
+  /**
+   * End the running experiment of a prompt; the built-in version is used again
+   */
+  async stopExperiment(key: string): Promise<PromptExperiment> {
+    const promptKey = this.assertKey(key);
+    const experiment = await this.endRunningExperiment(promptKey);
+    if (!experiment) {
+      throw new NotFoundException(`No experiment is running for ${key}`);
+    }
+
+    this.cache.delete(promptKey);
+    return experiment;
+  }
+
+  private async endRunningExperiment(
+    key: PromptKey,
+  ): Promise<PromptExperiment | null> {
+    const running = await this.experimentRepo.findOne({
+      where: { key, ended_at: IsNull() },
+    });
+    if (!running) {
+      return null;
+    }
+
+    running.ended_at = new Date();
+    await this.experimentRepo.save(running);
+    this.logger.log(`Ended prompt experiment "${running.name}" for ${key}`);
+    return running;
+  }
+
+  private pickVersion(
+    experiment: PromptExperiment | null,
+    userId?: string,
+  ): number {
+    if (!experiment || experiment.variants.length === 0) {
+      return BUILT_IN_PROMPT_VERSION;
+    }
+    if (!userId) {
+      return experiment.variants[0].version;
+    }
+
+    const totalWeight = experiment.variants.reduce(
+      (sum, variant) => sum + variant.weight,
+      0,
+    );
+    const bucket =
+      createHash('sha256')
+        .update(`${experiment.id}:${userId}`)
+        .digest()
+        .readUInt32BE(0) % totalWeight;
+
+    let upperBound = 0;
+    for (const variant of experiment.variants) {
+      upperBound += variant.weight;
+      if (bucket < upperBound) {
+        return variant.version;
+      }
+    }
+    return experiment.variants[0].version;
+  }
+
+  private async load(key: PromptKey): Promise<CachedPrompt> {
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    const [versions, experiment] = await Promise.all([
+      this.versionRepo.find({ where: { key } }),
+      this.experimentRepo.findOne({ where: { key, ended_at: IsNull() } }),
+    ]);
+
+    const templates = new Map<number, string>([
+      [BUILT_IN_PROMPT_VERSION, PROMPT_DEFINITIONS[key].template],
+    ]);
+    for (const version of versions) {
+      templates.set(version.version, version.template);
+    }
+
+    const entry = {
+      templates,
+      experiment,
+      expiresAt: Date.now() + PROMPT_CACHE_MS,
+    };
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private assertKey(key: string): PromptKey {
+    if (!(PROMPT_KEYS as readonly string[]).includes(key)) {
+      throw new NotFoundException(`Unknown prompt ${key}`);
+    }
+    return key as PromptKey;
+  }
+}
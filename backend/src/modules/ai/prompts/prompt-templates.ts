@@ -0,0 +1,236 @@
+/**
+ * Built-in prompts. Each one is version 1 of its key in the prompt
+ * registry; later versions are added by admins and stored in
+ * prompt_versions. Templates fill `{{variable}}` placeholders, and a new
+ * version may only use the variables its key declares.
+ */
+export const PROMPT_KEYS = [
+  'analysis',
+  'categorization',
+  'proactive_insights',
+  'query_enhancement',
+  'translation',
+  'translation_batch',
+] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+export interface PromptDefinition {
+  description: string;
+  variables: readonly string[];
+  template: string;
+}
+
+export const BUILT_IN_PROMPT_VERSION = 1;
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  analysis: {
+    description: 'System prompt for dump content analysis',
+    variables: [],
+    template: `You are an AI assistant that analyzes content for a personal life management system. Your job is to:
+
+1. Categorize content into one of: Personal, Work, Shopping, Health, Finance, Travel, Education, Entertainment, Home, Relationships, Goals, General
+2. Extract key information (dates, times, people, places, amounts, etc.)
+3. Identify action items or next steps
+4. Assess urgency and sentiment
+5. Provide a brief summary
+
+Respond with a JSON object in this exact format:
+{
+  "summary": "Brief summary of the content",
+  "category": "One of the predefined categories",
+  "categoryConfidence": 0.95,
+  "extractedEntities": {
+    "dates": ["any dates found"],
+    "times": ["any times found"],
+    "locations": ["any locations"],
+    "people": ["any people mentioned"],
+    "organizations": ["any organizations"],
+    "amounts": ["any monetary amounts"],
+    "tags": ["short topic tags, lowercase with hyphens (e.g. house-renovation)"]
+  },
+  "actionItems": ["any action items or tasks"],
+  "tasks": [{"title": "one entry per action item", "dueDate": "ISO 8601 date if a deadline is stated, otherwise null", "estimatedMinutes": 30, "priority": "low/medium/high"}],
+  "needsBreakdown": false,
+  "sentiment": "positive/neutral/negative",
+  "urgency": "low/medium/high",
+  "confidence": 0.85
+}
+
+Set "needsBreakdown" to true only when the content is a large or vague goal that takes several sittings and has no obvious first step (e.g. "organize the garage", "do my taxes", "plan the birthday party").
+
+Be conservative with confidence scores. Use "General" category if unsure.`,
+  },
+
+  categorization: {
+    description: "Content sent for categorization into the user's categories",
+    variables: [
+      'content',
+      'contentType',
+      'source',
+      'categories',
+      'corrections',
+    ],
+    template: `
+      Content to categorize: "{{content}}"
+      Content type: {{contentType}}
+      Source: {{source}}
+
+      User's categories: {{categories}}
+      {{corrections}}
+      Please categorize this content using one of the user's categories.
+      Only suggest a new category name if none of them fits.
+      Consider the content type and context when categorizing.
+    `,
+  },
+
+  proactive_insights: {
+    description: 'Reminder opportunities in the recent dumps of a user',
+    variables: ['now', 'content'],
+    template: `You are a proactive assistant analyzing user content to identify opportunities for helpful reminders.
+
+CRITICAL: You must respond with ONLY a valid JSON array, no other text before or after.
+
+Your task is to identify:
+1. **Follow-ups**: Tasks with specific dates/times that need action (e.g., "Call X tomorrow morning")
+2. **Deadlines**: Projects, bills, appointments with due dates
+3. **Expiration dates**: Passports, licenses, subscriptions, warranties
+4. **Recurring tasks**: Regular activities mentioned multiple times
+5. **Preparation needs**: Events requiring advance preparation
+
+IMPORTANT: Pay special attention to action items with dates and times. These should ALWAYS generate follow-up reminders.
+The current datetime is {{now}}, use this to interpret relative dates like "next week" or "in 3 days", if a 'suggestedDate' is in the past then set it to tomorrow at 11:00.
+
+For each insight, provide:
+- type: One of [follow-up, deadline, expiration, recurring-task, preparation]
+- title: Short, actionable reminder title (e.g., "Call Gilson about car repair")
+- description: Context and details (e.g., "Scheduled for 2025-12-04 at 09:00")
+- suggestedDate: When to remind in ISO format (e.g., "2025-12-04T09:00:00Z")
+- confidence: high (clear date/time), medium (implied timing), or low (vague)
+- relatedDumpIds: Array of FULL dump IDs from the "ID:" field (e.g., ["3b9384f5-abc1-4567-89ef-0123456789ab"])
+- reasoning: Why this reminder would be helpful (e.g., "Action item with specific date and time")
+
+Example response (ONLY THIS, NO OTHER TEXT):
+[
+  {
+    "type": "follow-up",
+    "title": "Call Gilson about car repair",
+    "description": "Scheduled call tomorrow morning at 09:00",
+    "suggestedDate": "2025-12-04T09:00:00Z",
+    "confidence": "high",
+    "relatedDumpIds": ["3b9384f5-abc1-4567-89ef-0123456789ab"],
+    "reasoning": "Action item with specific date and time extracted from entities"
+  }
+]
+
+If no opportunities found, return empty array: []
+
+Analyze this user content and suggest proactive reminders.
+
+{{content}}
+
+CRITICAL: Respond with ONLY a JSON array, no other text. Look especially for action items with dates and times in the entities.`,
+  },
+
+  query_enhancement: {
+    description: 'Search query expansion with synonyms and translations',
+    variables: ['query', 'context'],
+    template: `You are enhancing search queries for a multilingual personal life inbox system. Users store content in multiple languages (English, Portuguese, Spanish, French, etc.).
+
+Original Query: "{{query}}"
+{{context}}
+
+Your task: Expand this query with synonyms and translations to improve multilingual search coverage.
+
+Instructions:
+1. Keep the original query terms
+2. Add relevant synonyms in the same language
+3. Add key English translations if query is in another language
+4. Add conceptually related terms
+5. Focus on searchable keywords, not full sentences
+
+Examples:
+- "contas de luz" → "contas de luz conta fatura boleto electricity bill power energy"
+- "electricity bill" → "electricity bill electric power energy utility invoice receipt"
+- "rendez-vous médecin" → "rendez-vous médecin appointment doctor medical consultation"
+
+Respond in JSON format:
+{
+  "enhanced": "original query plus expanded synonyms and translations",
+  "intents": ["primary_intent", "secondary_intent"],
+  "filters": {
+    "contentTypes": ["text", "voice", "image", "email"],
+    "dateRange": {"from": "YYYY-MM-DD", "to": "YYYY-MM-DD"},
+    "categories": ["category_name"]
+  },
+  "confidence": 0.95
+}
+
+Keep the enhanced query concise but comprehensive for better semantic search performance.`,
+  },
+
+  translation: {
+    description: 'Translation of one user-facing text',
+    variables: ['sourceLanguage', 'targetLanguage', 'context', 'text'],
+    template: `Translate the following text from {{sourceLanguage}} to {{targetLanguage}}.{{context}}
+
+IMPORTANT:
+- Provide ONLY the translation, no explanations or additional text
+- Maintain the original tone and style
+- Preserve any emojis, formatting, or special characters
+- Keep technical terms accurate
+- Use natural, native-speaker language
+
+Text to translate:
+{{text}}
+
+Translation:`,
+  },
+
+  translation_batch: {
+    description: 'Translation of numbered texts, one per line',
+    variables: ['count', 'sourceLanguage', 'targetLanguage', 'texts'],
+    template: `Translate the following {{count}} texts from {{sourceLanguage}} to {{targetLanguage}}.
+
+IMPORTANT:
+- Provide ONLY the translations, one per line
+- Number each translation to match the input (1., 2., 3., etc.)
+- Maintain the original tone and style
+- Preserve any emojis, formatting, or special characters
+- Keep technical terms accurate
+- Use natural, native-speaker language
+
+Texts to translate:
+{{texts}}
+
+Translations:`,
+  },
+};
+
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Fill a template's placeholders; missing variables become empty
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<string, string | number>,
+): string {
+  return template.replace(VARIABLE_PATTERN, (_match, name: string) =>
+    variables[name] === undefined ? '' : String(variables[name]),
+  );
+}
+
+/**
+ * Placeholders in a template that its key does not declare
+ */
+export function findUnknownPromptVariables(
+  key: PromptKey,
+  template: string,
+): string[] {
+  const known = new Set(PROMPT_DEFINITIONS[key].variables);
+  const used = [...template.matchAll(VARIABLE_PATTERN)].map(
+    (match) => match[1],
+  );
+  return [...new Set(used.filter((name) => !known.has(name)))];
+}
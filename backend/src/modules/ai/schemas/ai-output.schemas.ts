@@ -0,0 +1,157 @@
+import type { JsonSchema } from './json-schema';
+
+/**
+ * Schemas of the structured answers the prompts ask for. Answers are
+ * validated against them before they are used (see
+ * ClaudeService.completeStructured), so the typed results callers get
+ * match these shapes exactly.
+ */
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const LEVEL: JsonSchema = { type: 'string', enum: ['low', 'medium', 'high'] };
+
+const CONFIDENCE_SCORE: JsonSchema = {
+  type: 'number',
+  minimum: 0,
+  maximum: 1,
+};
+
+export const EXTRACTED_ENTITIES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    dates: STRING_LIST,
+    times: STRING_LIST,
+    locations: STRING_LIST,
+    people: STRING_LIST,
+    organizations: STRING_LIST,
+    amounts: STRING_LIST,
+    tags: STRING_LIST,
+  },
+  additionalProperties: false,
+};
+
+export const CONTENT_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', minLength: 1 },
+    category: { type: 'string', minLength: 1 },
+    categoryConfidence: CONFIDENCE_SCORE,
+    extractedEntities: EXTRACTED_ENTITIES_SCHEMA,
+    actionItems: STRING_LIST,
+    tasks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          dueDate: { type: ['string', 'null'], format: 'date' },
+          estimatedMinutes: { type: ['integer', 'null'], minimum: 0 },
+          priority: LEVEL,
+        },
+        required: ['title'],
+        additionalProperties: false,
+      },
+    },
+    needsBreakdown: { type: 'boolean' },
+    sentiment: {
+      type: 'string',
+      enum: ['positive', 'neutral', 'negative'],
+    },
+    urgency: LEVEL,
+    confidence: CONFIDENCE_SCORE,
+  },
+  required: [
+    'summary',
+    'category',
+    'categoryConfidence',
+    'extractedEntities',
+    'confidence',
+  ],
+  additionalProperties: false,
+};
+
+export const QUERY_ENHANCEMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    enhanced: { type: 'string', minLength: 1 },
+    intents: STRING_LIST,
+    filters: {
+      type: 'object',
+      properties: {
+        contentTypes: STRING_LIST,
+        dateRange: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date' },
+            to: { type: 'string', format: 'date' },
+          },
+          additionalProperties: false,
+        },
+        categories: STRING_LIST,
+      },
+      additionalProperties: false,
+    },
+    confidence: CONFIDENCE_SCORE,
+  },
+  required: ['enhanced'],
+  additionalProperties: false,
+};
+
+export const PROACTIVE_INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: [
+          'follow-up',
+          'deadline',
+          'expiration',
+          'recurring-task',
+          'preparation',
+        ],
+      },
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      suggestedDate: { type: 'string', format: 'date' },
+      confidence: LEVEL,
+      relatedDumpIds: STRING_LIST,
+      reasoning: { type: 'string' },
+    },
+    required: ['type', 'title', 'suggestedDate', 'confidence'],
+    additionalProperties: false,
+  },
+};
+
+export const TRACKING_INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      // Synonyms such as "shipment" are mapped to tracking types afterwards
+      type: { type: 'string', minLength: 1 },
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      trackingNumber: { type: ['string', 'null'] },
+      expectedDate: { type: ['string', 'null'], format: 'date' },
+      confidence: LEVEL,
+    },
+    required: ['type', 'title'],
+    additionalProperties: false,
+  },
+};
+
+export const TASK_STEPS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      estimatedMinutes: { type: ['integer', 'null'], minimum: 0 },
+    },
+    required: ['title'],
+    additionalProperties: false,
+  },
+};
@@ -0,0 +1,51 @@
+import { CONTENT_ANALYSIS_SCHEMA } from './ai-output.schemas';
+import { parseJsonOutput, validateJsonSchema } from './json-schema';
+
+describe('JSON schema validation', () => {
+  const analysis = {
+    summary: 'Pay the electricity bill',
+    category: 'Finance',
+    categoryConfidence: 0.9,
+    extractedEntities: { amounts: ['$120'], dates: ['Friday'] },
+    tasks: [{ title: 'Pay the bill', dueDate: '2026-03-06', priority: 'high' }],
+    urgency: 'high',
+    confidence: 0.85,
+  };
+
+  it('should accept an answer matching the schema', () => {
+    expect(validateJsonSchema(analysis, CONTENT_ANALYSIS_SCHEMA)).toEqual([]);
+  });
+
+  it('should report every problem with its path', () => {
+    const errors = validateJsonSchema(
+      {
+        ...analysis,
+        categoryConfidence: 1.5,
+        extractedEntities: { amounts: [120], emails: [] },
+        tasks: [{ title: 'Pay the bill', dueDate: '2026-13-45T25:00' }],
+        summary: undefined,
+      },
+      CONTENT_ANALYSIS_SCHEMA,
+    );
+
+    expect(errors).toEqual([
+      '$.summary: is required',
+      '$.categoryConfidence: must be at most 1',
+      '$.extractedEntities.amounts[0]: expected string, got integer',
+      '$.extractedEntities.emails: is not an allowed property',
+      '$.tasks[0].dueDate: must be an ISO 8601 date, got "2026-13-45T25:00"',
+    ]);
+  });
+
+  it('should read JSON wrapped in prose or a code fence', () => {
+    const result = parseJsonOutput(
+      `Here is the analysis:\n\`\`\`json\n${JSON.stringify(analysis)}\n\`\`\``,
+      CONTENT_ANALYSIS_SCHEMA,
+    );
+    expect(result).toEqual({ value: analysis, errors: [] });
+
+    expect(
+      parseJsonOutput('Nothing to report', CONTENT_ANALYSIS_SCHEMA).errors,
+    ).toEqual(['$: no JSON object in the response']);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * The part of JSON Schema the AI output schemas use. Schemas are plain
+ * objects so they can be shown to the model as they are.
+ */
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+export interface JsonSchema {
+  type: JsonSchemaType | readonly JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean | null)[];
+  // 'date' accepts an ISO 8601 date with an optional time, which is what
+  // the prompts ask for
+  format?: 'date';
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Every way a value breaks a schema, as "path: problem" messages. An empty
+ * list means the value is valid.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = '$',
+): string[] {
+  const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+  const actual = typeOf(value);
+  if (
+    !types.includes(actual) &&
+    !(actual === 'integer' && types.includes('number'))
+  ) {
+    return [`${path}: expected ${types.join(' or ')}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [
+      `${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`,
+    ];
+  }
+
+  switch (actual) {
+    case 'object':
+      return validateObject(value as Record<string, unknown>, schema, path);
+    case 'array':
+      return validateArray(value as unknown[], schema, path);
+    case 'string':
+      return validateString(value as string, schema, path);
+    case 'number':
+    case 'integer':
+      return validateNumber(value as number, schema, path);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Read the JSON value out of a model answer, which may wrap it in prose or
+ * a code fence, and validate it against the schema
+ */
+export function parseJsonOutput(
+  text: string,
+  schema: JsonSchema,
+): { value: unknown; errors: string[] } {
+  const expected = schema.type === 'array' ? 'array' : 'object';
+  const [open, close] = expected === 'array' ? ['[', ']'] : ['{', '}'];
+  const start = text.indexOf(open);
+  const end = text.lastIndexOf(close);
+  if (start === -1 || end < start) {
+    return {
+      value: undefined,
+      errors: [`$: no JSON ${expected} in the response`],
+    };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.substring(start, end + 1));
+  } catch (error) {
+    return {
+      value: undefined,
+      errors: [`$: invalid JSON (${(error as Error).message})`],
+    };
+  }
+
+  return { value, errors: validateJsonSchema(value, schema) };
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+  const properties = schema.properties || {};
+
+  for (const name of schema.required || []) {
+    if (value[name] === undefined) {
+      errors.push(`${path}.${name}: is required`);
+    }
+  }
+
+  for (const [name, property] of Object.entries(value)) {
+    const propertySchema = properties[name];
+    if (property === undefined) {
+      continue;
+    }
+    if (!propertySchema) {
+      if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not an allowed property`);
+      }
+      continue;
+    }
+    errors.push(
+      ...validateJsonSchema(property, propertySchema, `${path}.${name}`),
+    );
+  }
+
+  return errors;
+}
+
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+  const items = schema.items;
+  if (items) {
+    value.forEach((item, index) =>
+      errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)),
+    );
+  }
+
+  return errors;
+}
+
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+  if (
+    schema.format === 'date' &&
+    (!ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value)))
+  ) {
+    errors.push(`${path}: must be an ISO 8601 date, got "${value}"`);
+  }
+
+  return errors;
+}
+
+function validateNumber(
+  value: number,
+  schema: JsonSchema,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path}: must be at least ${schema.minimum}`);
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+
+  return errors;
+}
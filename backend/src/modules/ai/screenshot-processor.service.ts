@@ -1,5 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { VisionService } from './vision.service';
+import { AiServiceUnavailableError } from './fallback-handler.service';
 
 // Define interfaces for screenshot processing
 interface ScreenshotMetadata {
@@ -92,6 +93,9 @@ export class ScreenshotProcessorService {
       );
       return result;
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error(
         `Failed to process screenshot: ${error.message}`,
         error.stack,
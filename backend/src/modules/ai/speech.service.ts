@@ -1,6 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { GoogleAuthService } from './google-auth.service';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from './fallback-handler.service';
+import { getAiUsageScope } from './ai-usage-scope';
+import { MetricsService } from '../metrics/metrics.service';
+import { AIOperationType } from '../../entities/ai-metric.entity';
 
 export interface SpeechTranscriptionRequest {
   audioBuffer: Buffer;
@@ -56,6 +63,7 @@ export interface GoogleSpeechResponse {
     }>;
     languageCode?: string;
   }>;
+  totalBilledTime?: string; // e.g. "15s"
 }
 
 @Injectable()
@@ -66,6 +74,8 @@ export class SpeechService {
   constructor(
     private readonly configService: ConfigService,
     private readonly googleAuthService: GoogleAuthService,
+    private readonly fallbackHandler: FallbackHandlerService,
+    private readonly metricsService: MetricsService,
   ) {
     if (!this.googleAuthService.isAuthenticated()) {
       this.logger.warn(
@@ -173,9 +183,33 @@ export class SpeechService {
         },
       };
 
-      const response = await this.callGoogleSpeechAPI(googleRequest);
+      const model = config.useEnhanced
+        ? 'google-speech-enhanced'
+        : 'google-speech';
+      const startTime = performance.now();
+      let response: GoogleSpeechResponse;
+      try {
+        response = await this.fallbackHandler.executeAiCall(
+          'google-speech',
+          () => this.callGoogleSpeechAPI(googleRequest),
+        );
+      } catch (error) {
+        if (!(error instanceof AiServiceUnavailableError)) {
+          this.trackCall(model, startTime, 0, error as Error);
+        }
+        throw error;
+      }
+      this.trackCall(
+        model,
+        startTime,
+        this.getBilledMinutes(response, request.audioBuffer),
+      );
+
       return this.parseTranscriptionResponse(response);
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error('Error transcribing audio:', error);
       throw new Error(
         `Speech transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -216,6 +250,10 @@ export class SpeechService {
           break;
         }
       } catch (error) {
+        // Other languages would fail the same way
+        if (error instanceof AiServiceUnavailableError) {
+          throw error;
+        }
         this.logger.warn(
           `Failed to transcribe with language ${languageCode}:`,
           error,
@@ -262,6 +300,38 @@ export class SpeechService {
     }
   }
 
+  private trackCall(
+    model: string,
+    startTime: number,
+    minutes: number,
+    error?: Error,
+  ): void {
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.SPEECH,
+        latencyMs: performance.now() - startTime,
+        success: !error,
+        ...getAiUsageScope(),
+        usage: { model, units: minutes },
+        metadata: error ? { error: error.message } : undefined,
+      }),
+    );
+  }
+
+  /**
+   * Minutes Google billed for the request, estimated from the file size
+   * when the response does not say
+   */
+  private getBilledMinutes(
+    response: GoogleSpeechResponse,
+    audioBuffer: Buffer,
+  ): number {
+    const billedSeconds = Number.parseFloat(response.totalBilledTime || '');
+    return Number.isNaN(billedSeconds)
+      ? this.estimateAudioDuration(audioBuffer)
+      : billedSeconds / 60;
+  }
+
   private async callGoogleSpeechAPI(
     request: GoogleSpeechRequest,
   ): Promise<GoogleSpeechResponse> {
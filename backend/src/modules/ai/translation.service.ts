@@ -1,5 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ClaudeService } from './claude.service';
+import {
+  PromptRegistryService,
+  type RenderedPrompt,
+} from './prompts/prompt-registry.service';
 
 export interface TranslationRequest {
   text: string;
@@ -24,7 +28,10 @@ export class TranslationService {
   // Cache translations to avoid redundant API calls
   private translationCache = new Map<string, string>();
 
-  constructor(private readonly claudeService: ClaudeService) {}
+  constructor(
+    private readonly claudeService: ClaudeService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   /**
    * Translate text to target language
@@ -57,15 +64,17 @@ export class TranslationService {
     try {
       this.logger.debug(`Translating text to ${targetLanguage}`);
 
-      const prompt = this.buildTranslationPrompt(
+      const prompt = await this.buildTranslationPrompt(
         text,
         targetLanguage,
         sourceLanguage,
         context,
       );
 
-      const translatedText =
-        await this.claudeService.queryWithCustomPrompt(prompt);
+      const translatedText = await this.claudeService.queryWithCustomPrompt(
+        prompt,
+        'translation',
+      );
 
       // Cache the translation
       this.translationCache.set(cacheKey, translatedText);
@@ -113,13 +122,16 @@ export class TranslationService {
         `Batch translating ${texts.length} texts to ${targetLanguage}`,
       );
 
-      const prompt = this.buildBatchTranslationPrompt(
+      const prompt = await this.buildBatchTranslationPrompt(
         texts,
         targetLanguage,
         sourceLanguage,
       );
 
-      const response = await this.claudeService.queryWithCustomPrompt(prompt);
+      const response = await this.claudeService.queryWithCustomPrompt(
+        prompt,
+        'translation',
+      );
 
       // Parse response - expect one translation per line
       const translations = response
@@ -132,6 +144,11 @@ export class TranslationService {
         this.logger.warn(
           `Translation count mismatch: expected ${texts.length}, got ${translations.length}`,
         );
+        this.claudeService.recordParseFailure(
+          'translation',
+          prompt,
+          `Expected ${texts.length} translations, got ${translations.length}`,
+        );
         return texts; // Fallback to original texts
       }
 
@@ -176,51 +193,30 @@ export class TranslationService {
     targetLanguage: string,
     sourceLanguage: string,
     context?: string,
-  ): string {
-    let prompt = `Translate the following text from ${sourceLanguage} to ${targetLanguage}.`;
-
-    if (context) {
-      prompt += `\n\nContext: ${context}`;
-    }
-
-    prompt += `\n\nIMPORTANT:
-- Provide ONLY the translation, no explanations or additional text
-- Maintain the original tone and style
-- Preserve any emojis, formatting, or special characters
-- Keep technical terms accurate
-- Use natural, native-speaker language
-
-Text to translate:
-${text}
-
-Translation:`;
-
-    return prompt;
+  ): Promise<RenderedPrompt> {
+    return this.promptRegistry.render('translation', {
+      sourceLanguage,
+      targetLanguage,
+      context: context ? `\n\nContext: ${context}` : '',
+      text,
+    });
   }
 
   private buildBatchTranslationPrompt(
     texts: string[],
     targetLanguage: string,
     sourceLanguage: string,
-  ): string {
+  ): Promise<RenderedPrompt> {
     const numberedTexts = texts
       .map((text, index) => `${index + 1}. ${text}`)
       .join('\n');
 
-    return `Translate the following ${texts.length} texts from ${sourceLanguage} to ${targetLanguage}.
-
-IMPORTANT:
-- Provide ONLY the translations, one per line
-- Number each translation to match the input (1., 2., 3., etc.)
-- Maintain the original tone and style
-- Preserve any emojis, formatting, or special characters
-- Keep technical terms accurate
-- Use natural, native-speaker language
-
-Texts to translate:
-${numberedTexts}
-
-Translations:`;
+    return this.promptRegistry.render('translation_batch', {
+      count: texts.length,
+      sourceLanguage,
+      targetLanguage,
+      texts: numberedTexts,
+    });
   }
 
   /**
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { execFile } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
+import { VideoProcessorService } from './video-processor.service';
+import { SpeechService } from './speech.service';
+import { VisionService } from './vision.service';
+
+jest.mock('node:child_process', () => ({ execFile: jest.fn() }));
+
+describe('VideoProcessorService', () => {
+  let service: VideoProcessorService;
+  const execFileMock = execFile as unknown as jest.Mock;
+
+  const mockSpeechService = {
+    transcribeWithLanguageDetection: jest.fn(),
+  };
+
+  const mockVisionService = {
+    analyzeImage: jest.fn(),
+  };
+
+  // ffprobe prints the probe; ffmpeg writes its output file (the last argument)
+  const mockBinaries = (probe: object) => {
+    execFileMock.mockImplementation(
+      (command: string, args: string[], _options, callback) => {
+        if (command === 'ffprobe') {
+          callback(null, JSON.stringify(probe), '');
+          return;
+        }
+        writeFileSync(args.at(-1)!, Buffer.from('media'));
+        callback(null, '', '');
+      },
+    );
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VideoProcessorService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: SpeechService, useValue: mockSpeechService },
+        { provide: VisionService, useValue: mockVisionService },
+      ],
+    }).compile();
+
+    service = module.get<VideoProcessorService>(VideoProcessorService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should combine the transcript with the text read from keyframes', async () => {
+    mockBinaries({
+      format: { duration: '8.0' },
+      streams: [{ codec_type: 'video' }, { codec_type: 'audio' }],
+    });
+    mockSpeechService.transcribeWithLanguageDetection.mockResolvedValue({
+      transcript: 'Parked on level 3 near the elevator',
+      confidence: 0.9,
+      detectedLanguage: 'en-US',
+    });
+    mockVisionService.analyzeImage
+      .mockResolvedValueOnce({ extractedText: 'P3 - B12', textConfidence: 0.8 })
+      // The same sign in the next frame is kept once
+      .mockResolvedValueOnce({ extractedText: 'P3 - B12', textConfidence: 0.8 })
+      .mockResolvedValueOnce({
+        extractedText: '',
+        textConfidence: 0,
+        labels: [
+          { description: 'Car', confidence: 0.9 },
+          { description: 'Parking', confidence: 0.8 },
+          { description: 'Tire', confidence: 0.4 },
+        ],
+      });
+
+    const result = await service.processVideo(
+      Buffer.from('video'),
+      'video/mp4',
+    );
+
+    expect(result.extractedText).toBe(
+      'Parked on level 3 near the elevator\n\n' +
+        'Text seen in the video:\nP3 - B12\n\n' +
+        'The video shows: Car, Parking',
+    );
+    expect(result.detectedLanguage).toBe('en-US');
+    expect(result.frames.map((frame) => frame.timestamp)).toEqual([2, 6]);
+    expect(
+      mockSpeechService.transcribeWithLanguageDetection,
+    ).toHaveBeenCalledWith(expect.any(Buffer), 'audio/ogg');
+    expect(mockVisionService.analyzeImage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should skip transcription for videos without an audio track', async () => {
+    mockBinaries({
+      format: { duration: '4.0' },
+      streams: [{ codec_type: 'video' }],
+    });
+    mockVisionService.analyzeImage.mockResolvedValue({
+      extractedText: 'Sprint goals',
+      textConfidence: 0.7,
+    });
+
+    const result = await service.processVideo(
+      Buffer.from('video'),
+      'video/mp4',
+    );
+
+    expect(result.hasAudio).toBe(false);
+    expect(result.transcript).toBe('');
+    expect(result.extractedText).toBe('Text seen in the video:\nSprint goals');
+    expect(
+      mockSpeechService.transcribeWithLanguageDetection,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should fail clearly when ffmpeg is not installed', async () => {
+    execFileMock.mockImplementation((_command, _args, _options, callback) => {
+      callback(
+        Object.assign(new Error('spawn ffprobe ENOENT'), { code: 'ENOENT' }),
+        '',
+        '',
+      );
+    });
+
+    await expect(
+      service.processVideo(Buffer.from('video'), 'video/mp4'),
+    ).rejects.toThrow('ffprobe is not installed');
+  });
+});
@@ -0,0 +1,356 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SpeechService } from './speech.service';
+import { VisionService } from './vision.service';
+import { AiServiceUnavailableError } from './fallback-handler.service';
+
+export interface VideoFrameResult {
+  timestamp: number;
+  text: string;
+  source: 'ocr' | 'labels';
+  confidence: number;
+}
+
+export interface ProcessedVideo {
+  extractedText: string;
+  transcript: string;
+  detectedLanguage?: string;
+  frames: VideoFrameResult[];
+  confidence: number;
+  durationSeconds?: number;
+  hasAudio: boolean;
+  processingDuration: number;
+}
+
+interface VideoProbe {
+  durationSeconds?: number;
+  hasAudio: boolean;
+}
+
+// speech:recognize only accepts up to a minute of audio
+const MAX_TRANSCRIBED_SECONDS = 59;
+const MIN_LABEL_CONFIDENCE = 0.7;
+
+/**
+ * VideoProcessorService
+ * Turns a video into text: the audio track is transcribed and a few
+ * keyframes are OCR'd, or described by their labels when they hold no text.
+ *
+ * Decoding is done by the ffmpeg and ffprobe binaries, which must be on the
+ * PATH (or set through FFMPEG_PATH / FFPROBE_PATH).
+ */
+@Injectable()
+export class VideoProcessorService {
+  private readonly logger = new Logger(VideoProcessorService.name);
+  private readonly ffmpegPath: string;
+  private readonly ffprobePath: string;
+  private readonly keyframeCount: number;
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly speechService: SpeechService,
+    private readonly visionService: VisionService,
+  ) {
+    this.ffmpegPath = this.configService.get<string>('FFMPEG_PATH') || 'ffmpeg';
+    this.ffprobePath =
+      this.configService.get<string>('FFPROBE_PATH') || 'ffprobe';
+    this.keyframeCount = Number(
+      this.configService.get<string>('VIDEO_KEYFRAME_COUNT') || 3,
+    );
+    this.timeoutMs =
+      Number(
+        this.configService.get<string>('VIDEO_PROCESSING_TIMEOUT_SECONDS') ||
+          60,
+      ) * 1000;
+  }
+
+  /**
+   * Transcribe the audio track and read the keyframes of a video
+   */
+  async processVideo(
+    videoBuffer: Buffer,
+    mimeType: string,
+  ): Promise<ProcessedVideo> {
+    const startTime = Date.now();
+    this.logger.log(
+      `Processing video: ${mimeType}, ${videoBuffer.length} bytes`,
+    );
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dump-video-'));
+    try {
+      const inputPath = path.join(workDir, 'input');
+      await fs.writeFile(inputPath, videoBuffer);
+
+      const probe = await this.probe(inputPath);
+
+      const transcription = probe.hasAudio
+        ? await this.transcribeAudio(inputPath, workDir)
+        : null;
+      const frames = await this.describeKeyframes(
+        inputPath,
+        workDir,
+        probe.durationSeconds,
+      );
+
+      const transcript = transcription?.transcript?.trim() || '';
+      const confidences = [
+        ...(transcript ? [transcription!.confidence] : []),
+        ...frames.map((frame) => frame.confidence),
+      ];
+
+      const result: ProcessedVideo = {
+        extractedText: this.combineText(transcript, frames),
+        transcript,
+        detectedLanguage: transcription?.detectedLanguage,
+        frames,
+        confidence: confidences.length
+          ? confidences.reduce((sum, value) => sum + value, 0) /
+            confidences.length
+          : 0,
+        durationSeconds: probe.durationSeconds,
+        hasAudio: probe.hasAudio,
+        processingDuration: Date.now() - startTime,
+      };
+
+      this.logger.log(
+        `Video processed: ${transcript.length} transcript chars, ${frames.length} frames read (${result.processingDuration}ms)`,
+      );
+      return result;
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {
+        this.logger.warn(`Failed to clean up ${workDir}`);
+      });
+    }
+  }
+
+  private async probe(inputPath: string): Promise<VideoProbe> {
+    const output = await this.run(this.ffprobePath, [
+      '-v',
+      'error',
+      '-show_entries',
+      'format=duration:stream=codec_type',
+      '-of',
+      'json',
+      inputPath,
+    ]);
+
+    const parsed = JSON.parse(output || '{}') as {
+      format?: { duration?: string };
+      streams?: Array<{ codec_type?: string }>;
+    };
+    const duration = Number(parsed.format?.duration);
+
+    return {
+      durationSeconds:
+        Number.isFinite(duration) && duration > 0 ? duration : undefined,
+      hasAudio: (parsed.streams || []).some(
+        (stream) => stream.codec_type === 'audio',
+      ),
+    };
+  }
+
+  /**
+   * Extract the first minute of audio as 16 kHz mono Opus and transcribe it.
+   * A failed transcription leaves the frames to carry the dump.
+   */
+  private async transcribeAudio(
+    inputPath: string,
+    workDir: string,
+  ): Promise<{
+    transcript: string;
+    confidence: number;
+    detectedLanguage?: string;
+  } | null> {
+    const audioPath = path.join(workDir, 'audio.ogg');
+    try {
+      await this.run(this.ffmpegPath, [
+        '-v',
+        'error',
+        '-i',
+        inputPath,
+        '-vn',
+        '-t',
+        String(MAX_TRANSCRIBED_SECONDS),
+        '-ac',
+        '1',
+        '-ar',
+        '16000',
+        '-c:a',
+        'libopus',
+        audioPath,
+      ]);
+
+      const audioBuffer = await fs.readFile(audioPath);
+      return await this.speechService.transcribeWithLanguageDetection(
+        audioBuffer,
+        'audio/ogg',
+      );
+    } catch (error) {
+      // An outage is not silence; the dump waits for the service instead
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
+      this.logger.warn(
+        `Video audio transcription failed: ${error instanceof Error ? error.message : error}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Grab evenly spaced frames and read them. Frames showing the same text
+   * (a whiteboard filmed for a few seconds) are kept once.
+   */
+  private async describeKeyframes(
+    inputPath: string,
+    workDir: string,
+    durationSeconds?: number,
+  ): Promise<VideoFrameResult[]> {
+    const timestamps = durationSeconds
+      ? Array.from(
+          { length: this.keyframeCount },
+          (_, index) =>
+            Math.round(
+              ((durationSeconds * (index + 1)) / (this.keyframeCount + 1)) * 10,
+            ) / 10,
+        )
+      : [0];
+
+    const frames: VideoFrameResult[] = [];
+    for (const [index, timestamp] of timestamps.entries()) {
+      const framePath = path.join(workDir, `frame-${index}.jpg`);
+      try {
+        await this.run(this.ffmpegPath, [
+          '-v',
+          'error',
+          '-ss',
+          String(timestamp),
+          '-i',
+          inputPath,
+          '-frames:v',
+          '1',
+          '-vf',
+          "scale='min(1280,iw)':-2",
+          '-q:v',
+          '3',
+          framePath,
+        ]);
+
+        const frame = await this.describeFrame(
+          await fs.readFile(framePath),
+          timestamp,
+        );
+        if (frame && !frames.some((existing) => existing.text === frame.text)) {
+          frames.push(frame);
+        }
+      } catch (error) {
+        if (error instanceof AiServiceUnavailableError) {
+          throw error;
+        }
+        this.logger.warn(
+          `Failed to read video frame at ${timestamp}s: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    return frames;
+  }
+
+  private async describeFrame(
+    imageBuffer: Buffer,
+    timestamp: number,
+  ): Promise<VideoFrameResult | null> {
+    const analysis = await this.visionService.analyzeImage({
+      imageBuffer,
+      mimeType: 'image/jpeg',
+      features: { textDetection: true, labelDetection: true },
+      maxResults: 5,
+    });
+
+    const text = analysis.extractedText?.trim();
+    if (text) {
+      return {
+        timestamp,
+        text,
+        source: 'ocr',
+        confidence: analysis.textConfidence,
+      };
+    }
+
+    const labels = (analysis.labels || []).filter(
+      (label) => label.confidence >= MIN_LABEL_CONFIDENCE,
+    );
+    if (!labels.length) {
+      return null;
+    }
+
+    return {
+      timestamp,
+      text: labels.map((label) => label.description).join(', '),
+      source: 'labels',
+      confidence:
+        labels.reduce((sum, label) => sum + label.confidence, 0) /
+        labels.length,
+    };
+  }
+
+  private combineText(transcript: string, frames: VideoFrameResult[]): string {
+    const sections: string[] = [];
+
+    if (transcript) {
+      sections.push(transcript);
+    }
+
+    const onScreen = frames.filter((frame) => frame.source === 'ocr');
+    if (onScreen.length) {
+      sections.push(
+        `Text seen in the video:\n${onScreen.map((frame) => frame.text).join('\n')}`,
+      );
+    }
+
+    const scenes = frames.filter((frame) => frame.source === 'labels');
+    if (scenes.length) {
+      sections.push(
+        `The video shows: ${scenes.map((frame) => frame.text).join('; ')}`,
+      );
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private run(command: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        command,
+        args,
+        { timeout: this.timeoutMs, maxBuffer: 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (!error) {
+            resolve(stdout);
+            return;
+          }
+
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            reject(
+              new Error(
+                `${command} is not installed; video dumps need ffmpeg and ffprobe`,
+              ),
+            );
+            return;
+          }
+
+          reject(
+            new Error(
+              `${path.basename(command)} failed: ${stderr?.trim() || error.message}`,
+            ),
+          );
+        },
+      );
+    });
+  }
+}
@@ -1,6 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { GoogleAuthService } from './google-auth.service';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from './fallback-handler.service';
+import { getAiUsageScope } from './ai-usage-scope';
+import { MetricsService } from '../metrics/metrics.service';
+import { AIOperationType } from '../../entities/ai-metric.entity';
 
 export interface ImageAnalysisRequest {
   imageBuffer: Buffer;
@@ -114,6 +121,8 @@ export class VisionService {
   constructor(
     private readonly configService: ConfigService,
     private readonly googleAuthService: GoogleAuthService,
+    private readonly fallbackHandler: FallbackHandlerService,
+    private readonly metricsService: MetricsService,
   ) {
     if (!this.googleAuthService.isAuthenticated()) {
       this.logger.warn('Google Cloud service account not configured for Vision API');
@@ -150,6 +159,9 @@ export class VisionService {
         confidence: result.textConfidence,
       };
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error('Error extracting text from image:', error);
       throw new Error(
         `OCR failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -198,9 +210,27 @@ export class VisionService {
         ],
       };
 
-      const response = await this.callGoogleVisionAPI(googleRequest);
+      const startTime = performance.now();
+      let response: GoogleVisionResponse;
+      try {
+        response = await this.fallbackHandler.executeAiCall(
+          'google-vision',
+          () => this.callGoogleVisionAPI(googleRequest),
+        );
+      } catch (error) {
+        if (!(error instanceof AiServiceUnavailableError)) {
+          this.trackCall(startTime, 0, error as Error);
+        }
+        throw error;
+      }
+      // Vision bills every requested feature of an image as one unit
+      this.trackCall(startTime, features.length);
+
       return this.parseAnalysisResponse(response, request.imageBuffer);
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error('Error analyzing image:', error);
       throw new Error(
         `Image analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -268,6 +298,19 @@ export class VisionService {
     }
   }
 
+  private trackCall(startTime: number, units: number, error?: Error): void {
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.VISION,
+        latencyMs: performance.now() - startTime,
+        success: !error,
+        ...getAiUsageScope(),
+        usage: { model: 'google-vision', units },
+        metadata: error ? { error: error.message } : undefined,
+      }),
+    );
+  }
+
   private async callGoogleVisionAPI(
     request: GoogleVisionRequest,
   ): Promise<GoogleVisionResponse> {
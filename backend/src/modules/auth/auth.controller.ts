@@ -8,6 +8,14 @@ import {
   Request,
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
+import {
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
 import type { LoginDto, SendCodeDto, AuthResponse } from './auth.service';
 import { AuthService } from './auth.service';
 import { User } from '../../entities/user.entity';
@@ -16,11 +24,29 @@ interface AuthRequest extends Request {
   user: User;
 }
 
-interface UpdateProfileDto {
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString()
   timezone?: string;
+
+  @IsOptional()
+  @IsString()
   language?: string;
+
+  @IsOptional()
+  @IsString()
   digest_time?: string;
+
+  @IsOptional()
+  @IsObject()
   notification_preferences?: Record<string, any>;
+
+  // At least a day: the purge deletes whatever has been in the trash longer
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  trash_retention_days?: number;
 }
 
 interface LinkChatDto {
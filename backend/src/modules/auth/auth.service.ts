@@ -107,7 +107,11 @@ export class AuthService {
     updates: Partial<
       Pick<
         User,
-        'timezone' | 'language' | 'digest_time' | 'notification_preferences'
+        | 'timezone'
+        | 'language'
+        | 'digest_time'
+        | 'notification_preferences'
+        | 'trash_retention_days'
       >
     >,
   ): Promise<User> {
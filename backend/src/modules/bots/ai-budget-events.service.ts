@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from '../../entities/user.entity';
+import { TelegramService } from './telegram.service';
+import { WhatsAppService } from './whatsapp.service';
+import type { AiBudgetReachedEvent } from '../ai/ai-budget.service';
+
+/**
+ * Service to tell users on their bots when they pass a monthly AI budget
+ * limit, once per limit and month (AiBudgetService decides when)
+ */
+@Injectable()
+export class AiBudgetEventsService {
+  private readonly logger = new Logger(AiBudgetEventsService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly telegramService: TelegramService,
+    private readonly whatsappService: WhatsAppService,
+  ) {}
+
+  @OnEvent('ai.budget.reached', { async: true })
+  async handleBudgetReached(event: AiBudgetReachedEvent): Promise<void> {
+    try {
+      const user = await this.userRepository.findOne({
+        where: { id: event.userId },
+      });
+      if (!user) {
+        return;
+      }
+
+      const message = this.buildMessage(event);
+
+      if (user.chat_id_telegram) {
+        await this.telegramService.sendTextMessage(
+          Number(user.chat_id_telegram),
+          message,
+        );
+      }
+
+      if (user.chat_id_whatsapp) {
+        if (this.isWhatsAppTestMode()) {
+          this.logger.log('TEST MODE: Would send AI budget notice');
+          return;
+        }
+        await this.whatsappService.sendTextMessage(
+          user.chat_id_whatsapp,
+          message,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send AI budget notice to user ${event.userId}:`,
+        error,
+      );
+    }
+  }
+
+  private buildMessage(event: AiBudgetReachedEvent): string {
+    const resetDate = event.resetsAt.toISOString().slice(0, 10);
+
+    if (event.level === 'hard') {
+      return (
+        `⏸️ You have used this month's AI allowance. I will keep saving everything you send, ` +
+        `and analyze it automatically when the allowance resets on ${resetDate}.`
+      );
+    }
+
+    return (
+      `ℹ️ You are close to this month's AI allowance, so I am using lighter processing until ${resetDate}. ` +
+      `Everything you send is still saved and organized.`
+    );
+  }
+
+  private isWhatsAppTestMode(): boolean {
+    return (
+      process.env.NODE_ENV === 'development' ||
+      process.env.WHATSAPP_TEST_MODE === 'true'
+    );
+  }
+}
@@ -11,6 +11,10 @@ import { TrackCommand } from './commands/track.command';
 import { ReportCommand } from './commands/report.command';
 import { SearchCommand } from './commands/search.command';
 import { MoreCommand } from './commands/more.command';
+import { TrashCommand } from './commands/trash.command';
+import { MergeCommand } from './commands/merge.command';
+import { TaskCommand } from './commands/task.command';
+import { BreakdownCommand } from './commands/breakdown.command';
 import { SearchResultFormatter } from './formatters/search-result.formatter';
 import { UserModule } from '../users/user.module';
 import { DumpModule } from '../dumps/dump.module';
@@ -19,11 +23,14 @@ import { FeedbackModule } from '../feedback/feedback.module';
 import { ReminderModule } from '../reminders/reminder.module';
 import { TrackingModule } from '../tracking/tracking.module';
 import { MetricsModule } from '../metrics/metrics.module';
+import { TaskModule } from '../tasks/task.module';
 import { ResponseFormatterService } from '../ai/formatter.service';
 import { TranslationService } from '../ai/translation.service';
 import { ClaudeService } from '../ai/claude.service';
 import { User } from '../../entities/user.entity';
 import { TemplateService } from './template.service';
+import { DumpEventsService } from './dump-events.service';
+import { AiBudgetEventsService } from './ai-budget-events.service';
 
 @Module({
   imports: [
@@ -35,12 +42,15 @@ import { TemplateService } from './template.service';
     ReminderModule,
     TrackingModule,
     MetricsModule,
+    TaskModule,
   ],
   controllers: [TelegramWebhookController, WhatsAppWebhookController],
   providers: [
     TelegramService,
     WhatsAppService,
     TemplateService,
+    DumpEventsService,
+    AiBudgetEventsService,
     HelpCommand,
     RecentCommand,
     UpcomingCommand,
@@ -48,6 +58,10 @@ import { TemplateService } from './template.service';
     ReportCommand,
     SearchCommand,
     MoreCommand,
+    TrashCommand,
+    MergeCommand,
+    TaskCommand,
+    BreakdownCommand,
     SearchResultFormatter,
     ResponseFormatterService,
     TranslationService,
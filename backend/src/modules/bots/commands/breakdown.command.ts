@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TaskService } from '../../tasks/task.service';
+import {
+  TaskDecomposerService,
+  TaskBreakdown,
+} from '../../tasks/task-decomposer.service';
+import { User } from '../../../entities/user.entity';
+import { Task, TaskStatus } from '../../../entities/task.entity';
+
+export const BREAKDOWN_CALLBACK_PREFIX = 'breakdown:';
+
+@Injectable()
+export class BreakdownCommand {
+  private readonly logger = new Logger(BreakdownCommand.name);
+
+  constructor(
+    private readonly taskService: TaskService,
+    private readonly taskDecomposerService: TaskDecomposerService,
+  ) {}
+
+  /**
+   * Follow-up sent after a processed dump that looks like a big or vague task.
+   * Telegram shows it with a "break this down" button (see buildButton).
+   */
+  buildPrompt(platform: 'telegram' | 'whatsapp' = 'telegram'): string {
+    if (platform === 'whatsapp') {
+      return (
+        '🧩 *That sounds like a big one.*\n\n' +
+        'Send /breakdown and I will split it into small steps.'
+      );
+    }
+
+    return (
+      '🧩 <b>That sounds like a big one.</b>\n\n' +
+      'Want me to split it into small steps?'
+    );
+  }
+
+  /**
+   * Inline button for the Telegram follow-up
+   */
+  buildButton(dumpId: string): { text: string; callback_data: string } {
+    return {
+      text: '✂️ Break this down',
+      callback_data: `${BREAKDOWN_CALLBACK_PREFIX}${dumpId}`,
+    };
+  }
+
+  /**
+   * /breakdown [number|id] - break down a task from /tasks, or the latest
+   * task flagged as too big when no argument is given
+   */
+  async execute(
+    user: User,
+    args: string[],
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      let task: Task | null | undefined;
+      if (args.length > 0) {
+        const tasks = await this.taskService.getOpenTasks(user.id);
+        task = this.resolveTask(tasks, args[0]);
+        if (!task) {
+          return platform === 'whatsapp'
+            ? `❌ No open task *${args[0]}* found.`
+            : `❌ No open task <b>${this.escapeHTML(args[0])}</b> found.`;
+        }
+      } else {
+        task = await this.taskDecomposerService.findLatestFlaggedTask(user.id);
+        if (!task) {
+          return platform === 'whatsapp'
+            ? '🧩 *Breakdown*\n\nUsage: /breakdown <number>\n_Use /tasks to see the numbers_'
+            : '🧩 <b>Breakdown</b>\n\nUsage: /breakdown &lt;number&gt;\n<i>Use /tasks to see the numbers</i>';
+        }
+      }
+
+      const breakdown = await this.taskDecomposerService.breakDownTask(
+        user.id,
+        task.id,
+      );
+      return this.formatBreakdown(user, breakdown, platform);
+    } catch (error) {
+      this.logger.error(
+        `Error executing breakdown command: ${error.message}`,
+        error.stack,
+      );
+      return this.errorMessage(platform);
+    }
+  }
+
+  /**
+   * "Break this down" button on a processed dump
+   */
+  async breakDownDump(
+    user: User,
+    dumpId: string,
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      const breakdown = await this.taskDecomposerService.breakDownDump(
+        user.id,
+        dumpId,
+      );
+      return this.formatBreakdown(user, breakdown, platform);
+    } catch (error) {
+      this.logger.error(
+        `Error breaking down dump ${dumpId}: ${error.message}`,
+        error.stack,
+      );
+      return this.errorMessage(platform);
+    }
+  }
+
+  private async formatBreakdown(
+    user: User,
+    breakdown: TaskBreakdown,
+    platform: 'telegram' | 'whatsapp',
+  ): Promise<string> {
+    const escape = (text: string) =>
+      platform === 'whatsapp' ? text : this.escapeHTML(text);
+
+    let response =
+      platform === 'whatsapp'
+        ? `🧩 *${breakdown.task.title}*\n\n`
+        : `🧩 <b>${escape(breakdown.task.title)}</b>\n\n`;
+
+    breakdown.subtasks.forEach((step, index) => {
+      const check = step.status === TaskStatus.COMPLETED ? '✅' : '▫️';
+      const minutes = step.estimated_minutes
+        ? ` (~${step.estimated_minutes} min)`
+        : '';
+      response += `${check} ${index + 1}. ${escape(step.title)}${minutes}\n`;
+    });
+
+    const next = breakdown.subtasks.find(
+      (step) => step.status !== TaskStatus.COMPLETED,
+    );
+    if (next) {
+      // /done on the task checks off its next step
+      const openTasks = await this.taskService.getOpenTasks(user.id);
+      const number =
+        openTasks.findIndex((task) => task.id === breakdown.task.id) + 1;
+
+      response +=
+        platform === 'whatsapp'
+          ? `\n👉 *Start with:* ${next.title}`
+          : `\n👉 <b>Start with:</b> ${escape(next.title)}`;
+      if (number > 0) {
+        response +=
+          platform === 'whatsapp'
+            ? `\n_Send /done ${number} when you finish a step_`
+            : `\n<i>Send /done ${number} when you finish a step</i>`;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Match a list number (as shown by /tasks) or the start of a task id
+   */
+  private resolveTask(tasks: Task[], ref: string): Task | undefined {
+    if (/^\d+$/.test(ref)) {
+      const index = Number.parseInt(ref, 10) - 1;
+      if (index >= 0 && index < tasks.length) {
+        return tasks[index];
+      }
+    }
+
+    const prefix = ref.toLowerCase();
+    return tasks.find((task) => task.id.startsWith(prefix));
+  }
+
+  private errorMessage(platform: 'telegram' | 'whatsapp'): string {
+    return platform === 'whatsapp'
+      ? '❌ *Error*\n\nFailed to break the task down. Please try again.'
+      : '❌ <b>Error</b>\n\nFailed to break the task down. Please try again.';
+  }
+
+  /**
+   * Escape HTML for Telegram
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
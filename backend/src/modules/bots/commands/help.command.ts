@@ -12,15 +12,23 @@ export class HelpCommand {
         '/upcoming - Show upcoming reminders (next 24h)\n' +
         '/track [number] - Track a package or list tracked items\n' +
         '/search [query] - Search your content\n' +
+        '/trash - Show deleted items\n' +
+        '/restore [number] - Restore a deleted item\n' +
+        '/tasks - Show your open tasks\n' +
+        '/done [number] - Check a task off\n' +
+        '/breakdown [number] - Split a big task into small steps\n' +
+        '/merge - Merge a duplicate into the original item\n' +
         '/report [issue] - Report a problem or feedback\n\n' +
         '📝 *What you can send me:*\n' +
         '• Text messages (notes, reminders, ideas)\n' +
         "• Voice messages (I'll transcribe them)\n" +
         "• Photos (I'll extract text and information)\n" +
+        "• Videos and video notes (I'll transcribe and read them)\n" +
         '• Documents (bills, receipts, etc.)\n\n' +
         '🤖 *What I do:*\n' +
         '• Categorize your content automatically\n' +
         '• Extract important information (dates, amounts, etc.)\n' +
+        '• Turn action items into tasks you can check off\n' +
         '• Track packages and time-sensitive items\n' +
         '• Make it searchable with natural language\n' +
         '• Help you find things when you need them\n\n' +
@@ -37,15 +45,23 @@ export class HelpCommand {
       '/upcoming - Show upcoming reminders (next 24h)\n' +
       '/track [number] - Track a package or list tracked items\n' +
       '/search [query] - Search your content\n' +
+      '/trash - Show deleted items\n' +
+      '/restore [number] - Restore a deleted item\n' +
+      '/tasks - Show your open tasks\n' +
+      '/done [number] - Check a task off\n' +
+      '/breakdown [number] - Split a big task into small steps\n' +
+      '/merge - Merge a duplicate into the original item\n' +
       '/report [issue] - Report a problem or feedback\n\n' +
       '📝 <b>What you can send me:</b>\n' +
       '• Text messages (notes, reminders, ideas)\n' +
       "• Voice messages (I'll transcribe them)\n" +
       "• Photos (I'll extract text and information)\n" +
+      "• Videos and video notes (I'll transcribe and read them)\n" +
       '• Documents (bills, receipts, etc.)\n\n' +
       '🤖 <b>What I do:</b>\n' +
       '• Categorize your content automatically\n' +
       '• Extract important information (dates, amounts, etc.)\n' +
+      '• Turn action items into tasks you can check off\n' +
       '• Track packages and time-sensitive items\n' +
       '• Make it searchable with natural language\n' +
       '• Help you find things when you need them\n\n' +
@@ -0,0 +1,96 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  DumpDuplicateService,
+  DuplicateCandidate,
+} from '../../dumps/services/dump-duplicate.service';
+import { User } from '../../../entities/user.entity';
+import { RevisionAuthorType } from '../../../entities/dump-revision.entity';
+
+@Injectable()
+export class MergeCommand {
+  private readonly logger = new Logger(MergeCommand.name);
+
+  constructor(private readonly dumpDuplicateService: DumpDuplicateService) {}
+
+  /**
+   * Follow-up sent after a processed dump that looks like a duplicate
+   */
+  buildPrompt(
+    candidate: DuplicateCandidate,
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): string {
+    const summary =
+      candidate.summary.length > 80
+        ? `${candidate.summary.substring(0, 80)}…`
+        : candidate.summary;
+    const similarity = Math.round(candidate.similarity * 100);
+
+    if (platform === 'whatsapp') {
+      return (
+        `🔁 *Looks like a duplicate* (${similarity}% similar) of:\n` +
+        `_${summary}_\n\n` +
+        'Send /merge to combine them into one item, or ignore this to keep both.'
+      );
+    }
+
+    return (
+      `🔁 <b>Looks like a duplicate</b> (${similarity}% similar) of:\n` +
+      `<i>${this.escapeHTML(summary)}</i>\n\n` +
+      'Send /merge to combine them into one item, or ignore this to keep both.'
+    );
+  }
+
+  /**
+   * /merge - merge the latest flagged duplicate into the dump it duplicates
+   */
+  async execute(
+    user: User,
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      const duplicate = await this.dumpDuplicateService.findPendingDuplicate(
+        user.id,
+      );
+      const targetId = duplicate?.extracted_entities?.metadata?.duplicateOf
+        ?.dumpId as string | undefined;
+
+      if (!duplicate || !targetId) {
+        return platform === 'whatsapp'
+          ? '🔁 *Merge*\n\nThere is no recent duplicate to merge.'
+          : '🔁 <b>Merge</b>\n\nThere is no recent duplicate to merge.';
+      }
+
+      const result = await this.dumpDuplicateService.mergeDumps(
+        targetId,
+        [duplicate.id],
+        { type: RevisionAuthorType.USER, id: user.id },
+      );
+
+      const details =
+        result.movedReminders > 0
+          ? `\n${result.movedReminders} reminder${result.movedReminders === 1 ? '' : 's'} moved to the original item.`
+          : '';
+      return platform === 'whatsapp'
+        ? `🔗 *Merged*\n\nThe duplicate was combined with the original item.${details}`
+        : `🔗 <b>Merged</b>\n\nThe duplicate was combined with the original item.${details}`;
+    } catch (error) {
+      this.logger.error(
+        `Error executing merge command: ${error.message}`,
+        error.stack,
+      );
+      return platform === 'whatsapp'
+        ? '❌ *Error*\n\nFailed to merge the duplicate.'
+        : '❌ <b>Error</b>\n\nFailed to merge the duplicate.';
+    }
+  }
+
+  /**
+   * Escape HTML for Telegram
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
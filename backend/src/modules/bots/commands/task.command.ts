@@ -0,0 +1,211 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { TaskService, TaskProgress } from '../../tasks/task.service';
+import { User } from '../../../entities/user.entity';
+import { Task, TaskPriority } from '../../../entities/task.entity';
+
+@Injectable()
+export class TaskCommand {
+  private readonly logger = new Logger(TaskCommand.name);
+  private readonly maxListed = 15;
+
+  constructor(private readonly taskService: TaskService) {}
+
+  /**
+   * /tasks - list the user's open tasks
+   */
+  async execute(
+    user: User,
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      const tasks = await this.taskService.getOpenTasks(user.id);
+
+      if (tasks.length === 0) {
+        return platform === 'whatsapp'
+          ? '✅ *Tasks*\n\nNothing left to do!'
+          : '✅ <b>Tasks</b>\n\nNothing left to do!';
+      }
+
+      let response =
+        platform === 'whatsapp'
+          ? `✅ *Tasks (${tasks.length} open)*\n\n`
+          : `✅ <b>Tasks (${tasks.length} open)</b>\n\n`;
+
+      const listed = tasks.slice(0, this.maxListed);
+      const progress = await this.taskService.getProgress(
+        user.id,
+        listed.map((task) => task.id),
+      );
+
+      listed.forEach((task, index) => {
+        const title =
+          platform === 'whatsapp' ? task.title : this.escapeHTML(task.title);
+        const icon = task.priority === TaskPriority.HIGH ? '🔴 ' : '';
+
+        response += `${index + 1}. ${icon}${title}\n`;
+        const details = this.getDetails(task);
+        if (details) {
+          response += `   ${details}\n`;
+        }
+
+        // Broken-down tasks only show the step to do next
+        const steps = progress.get(task.id);
+        if (steps?.nextStep) {
+          const step =
+            platform === 'whatsapp'
+              ? steps.nextStep.title
+              : this.escapeHTML(steps.nextStep.title);
+          response += `   ➡️ ${step} (${steps.completed}/${steps.total})\n`;
+        }
+      });
+
+      if (tasks.length > this.maxListed) {
+        response += `\n…and ${tasks.length - this.maxListed} more\n`;
+      }
+
+      response +=
+        platform === 'whatsapp'
+          ? '\n_Use /done <number> to check a task off_'
+          : '\n<i>Use /done &lt;number&gt; to check a task off</i>';
+      return response;
+    } catch (error) {
+      this.logger.error(
+        `Error executing tasks command: ${error.message}`,
+        error.stack,
+      );
+      return platform === 'whatsapp'
+        ? '❌ *Error*\n\nFailed to load your tasks.'
+        : '❌ <b>Error</b>\n\nFailed to load your tasks.';
+    }
+  }
+
+  /**
+   * /done <number|id> - complete a task by its list number or id prefix.
+   * On a broken-down task this checks off its next step instead.
+   */
+  async done(
+    user: User,
+    args: string[],
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      if (args.length === 0) {
+        return platform === 'whatsapp'
+          ? '✅ *Done*\n\nUsage: /done <number>\n_Use /tasks to see the numbers_'
+          : '✅ <b>Done</b>\n\nUsage: /done &lt;number&gt;\n<i>Use /tasks to see the numbers</i>';
+      }
+
+      const tasks = await this.taskService.getOpenTasks(user.id);
+      const task = this.resolveTask(tasks, args[0]);
+
+      if (!task) {
+        return platform === 'whatsapp'
+          ? `❌ No open task *${args[0]}* found.`
+          : `❌ No open task <b>${this.escapeHTML(args[0])}</b> found.`;
+      }
+
+      const progress = await this.taskService.getProgress(user.id, [task.id]);
+      const steps = progress.get(task.id);
+      if (steps?.nextStep) {
+        return this.completeStep(task, steps, platform);
+      }
+
+      await this.taskService.completeTask(user.id, task.id);
+
+      const remaining = tasks.length - 1;
+      const title =
+        platform === 'whatsapp' ? task.title : this.escapeHTML(task.title);
+      const footer =
+        remaining > 0
+          ? `${remaining} task${remaining === 1 ? '' : 's'} left`
+          : 'All tasks done 🎉';
+
+      return platform === 'whatsapp'
+        ? `✅ *Done*\n\n~${title}~\n\n_${footer}_`
+        : `✅ <b>Done</b>\n\n<s>${title}</s>\n\n<i>${footer}</i>`;
+    } catch (error) {
+      this.logger.error(
+        `Error executing done command: ${error.message}`,
+        error.stack,
+      );
+      return platform === 'whatsapp'
+        ? '❌ *Error*\n\nFailed to complete the task.'
+        : '❌ <b>Error</b>\n\nFailed to complete the task.';
+    }
+  }
+
+  private async completeStep(
+    task: Task,
+    steps: TaskProgress,
+    platform: 'telegram' | 'whatsapp',
+  ): Promise<string> {
+    const step = steps.nextStep as Task;
+    // Completing the last step also completes the task
+    await this.taskService.completeTask(task.user_id, step.id);
+
+    const escape = (text: string) =>
+      platform === 'whatsapp' ? text : this.escapeHTML(text);
+    const completed = steps.completed + 1;
+
+    let footer: string;
+    if (completed >= steps.total) {
+      footer = `All steps done - ${escape(task.title)} is complete 🎉`;
+    } else {
+      const progress = await this.taskService.getProgress(task.user_id, [
+        task.id,
+      ]);
+      const nextStep = progress.get(task.id)?.nextStep;
+      footer = `${completed}/${steps.total} steps done`;
+      if (nextStep) {
+        footer += ` · Next: ${escape(nextStep.title)}`;
+      }
+    }
+
+    return platform === 'whatsapp'
+      ? `✅ *Step done*\n\n~${step.title}~\n\n_${footer}_`
+      : `✅ <b>Step done</b>\n\n<s>${escape(step.title)}</s>\n\n<i>${footer}</i>`;
+  }
+
+  /**
+   * Match a list number (as shown by /tasks) or the start of a task id
+   */
+  private resolveTask(tasks: Task[], ref: string): Task | undefined {
+    if (/^\d+$/.test(ref)) {
+      const index = Number.parseInt(ref, 10) - 1;
+      if (index >= 0 && index < tasks.length) {
+        return tasks[index];
+      }
+    }
+
+    const prefix = ref.toLowerCase();
+    return tasks.find((task) => task.id.startsWith(prefix));
+  }
+
+  private getDetails(task: Task): string {
+    const details: string[] = [];
+
+    if (task.due_date) {
+      const dueDate = new Date(task.due_date);
+      details.push(
+        dueDate.getTime() < Date.now()
+          ? `⚠️ overdue since ${dueDate.toLocaleDateString()}`
+          : `📅 ${dueDate.toLocaleDateString()}`,
+      );
+    }
+    if (task.estimated_minutes) {
+      details.push(`⏱️ ~${task.estimated_minutes} min`);
+    }
+
+    return details.join(' · ');
+  }
+
+  /**
+   * Escape HTML for Telegram
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
@@ -0,0 +1,142 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { DumpTrashService } from '../../dumps/services/dump-trash.service';
+import { User } from '../../../entities/user.entity';
+import { Dump } from '../../../entities/dump.entity';
+
+@Injectable()
+export class TrashCommand {
+  private readonly logger = new Logger(TrashCommand.name);
+  private readonly maxListed = 10;
+
+  constructor(private readonly dumpTrashService: DumpTrashService) {}
+
+  /**
+   * /trash - list the user's trashed items
+   */
+  async execute(
+    user: User,
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      const dumps = await this.dumpTrashService.listTrash(user.id);
+
+      if (dumps.length === 0) {
+        return platform === 'whatsapp'
+          ? '🗑️ *Trash*\n\nYour trash is empty.'
+          : '🗑️ <b>Trash</b>\n\nYour trash is empty.';
+      }
+
+      let response =
+        platform === 'whatsapp'
+          ? `🗑️ *Trash (${dumps.length} items)*\n\n`
+          : `🗑️ <b>Trash (${dumps.length} items)</b>\n\n`;
+
+      dumps.slice(0, this.maxListed).forEach((dump, index) => {
+        const preview = this.getPreview(dump);
+        const daysLeft = this.getDaysUntilPurge(dump, user);
+
+        response += `${index + 1}. ${platform === 'whatsapp' ? preview : this.escapeHTML(preview)}\n`;
+        response += `   🆔 ${dump.id.substring(0, 8)} · deleted permanently in ${daysLeft} day${daysLeft === 1 ? '' : 's'}\n\n`;
+      });
+
+      if (dumps.length > this.maxListed) {
+        response += `…and ${dumps.length - this.maxListed} more\n\n`;
+      }
+
+      response +=
+        platform === 'whatsapp'
+          ? '_Use /restore <number> to bring an item back_'
+          : '<i>Use /restore &lt;number&gt; to bring an item back</i>';
+      return response;
+    } catch (error) {
+      this.logger.error(
+        `Error executing trash command: ${error.message}`,
+        error.stack,
+      );
+      return platform === 'whatsapp'
+        ? '❌ *Error*\n\nFailed to load your trash.'
+        : '❌ <b>Error</b>\n\nFailed to load your trash.';
+    }
+  }
+
+  /**
+   * /restore <number|id> - restore a trashed item by its list number or id prefix
+   */
+  async restore(
+    user: User,
+    args: string[],
+    platform: 'telegram' | 'whatsapp' = 'telegram',
+  ): Promise<string> {
+    try {
+      if (args.length === 0) {
+        return platform === 'whatsapp'
+          ? '♻️ *Restore*\n\nUsage: /restore <number>\n_Use /trash to see the numbers_'
+          : '♻️ <b>Restore</b>\n\nUsage: /restore &lt;number&gt;\n<i>Use /trash to see the numbers</i>';
+      }
+
+      const dumps = await this.dumpTrashService.listTrash(user.id);
+      const dump = this.resolveDump(dumps, args[0]);
+
+      if (!dump) {
+        return platform === 'whatsapp'
+          ? `❌ No item *${args[0]}* found in your trash.`
+          : `❌ No item <b>${this.escapeHTML(args[0])}</b> found in your trash.`;
+      }
+
+      await this.dumpTrashService.restoreFromTrash(dump.id);
+
+      const preview = this.getPreview(dump);
+      return platform === 'whatsapp'
+        ? `♻️ *Restored*\n\n${preview}`
+        : `♻️ <b>Restored</b>\n\n${this.escapeHTML(preview)}`;
+    } catch (error) {
+      this.logger.error(
+        `Error executing restore command: ${error.message}`,
+        error.stack,
+      );
+      return platform === 'whatsapp'
+        ? '❌ *Error*\n\nFailed to restore the item.'
+        : '❌ <b>Error</b>\n\nFailed to restore the item.';
+    }
+  }
+
+  /**
+   * Match a list number (as shown by /trash) or the start of a dump id
+   */
+  private resolveDump(dumps: Dump[], ref: string): Dump | undefined {
+    if (/^\d+$/.test(ref)) {
+      const index = Number.parseInt(ref, 10) - 1;
+      if (index >= 0 && index < dumps.length) {
+        return dumps[index];
+      }
+    }
+
+    const prefix = ref.toLowerCase();
+    return dumps.find((dump) => dump.id.startsWith(prefix));
+  }
+
+  private getPreview(dump: Dump): string {
+    const text = (dump.ai_summary || dump.raw_content || '').trim();
+    return text.length > 60 ? `${text.substring(0, 60)}…` : text;
+  }
+
+  private getDaysUntilPurge(dump: Dump, user: User): number {
+    const retentionDays = user.trash_retention_days ?? 30;
+    const deletedAt = new Date(dump.deleted_at as Date).getTime();
+    const purgeAt = deletedAt + retentionDays * 24 * 60 * 60 * 1000;
+    return Math.max(
+      0,
+      Math.ceil((purgeAt - Date.now()) / (24 * 60 * 60 * 1000)),
+    );
+  }
+
+  /**
+   * Escape HTML for Telegram
+   */
+  private escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
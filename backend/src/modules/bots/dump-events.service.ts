@@ -0,0 +1,168 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { TelegramService } from './telegram.service';
+import { WhatsAppService } from './whatsapp.service';
+import { UserService } from '../users/user.service';
+import { MergeCommand } from './commands/merge.command';
+import { BreakdownCommand } from './commands/breakdown.command';
+import type {
+  DumpProcessedEvent,
+  DumpFailedEvent,
+} from '../dumps/services/dump-processor.service';
+
+const RECOVERED_NOTICE =
+  '✅ Good news: a message I could not process earlier went through after all.';
+
+/**
+ * Service to reply on the originating bot once a queued dump is processed
+ * Dumps are acknowledged on receipt; the formatted summary is sent from here
+ */
+@Injectable()
+export class DumpEventsService {
+  private readonly logger = new Logger(DumpEventsService.name);
+
+  constructor(
+    private readonly telegramService: TelegramService,
+    private readonly whatsappService: WhatsAppService,
+    private readonly userService: UserService,
+    private readonly mergeCommand: MergeCommand,
+    private readonly breakdownCommand: BreakdownCommand,
+  ) {}
+
+  @OnEvent('dump.processed', { async: true })
+  async handleDumpProcessed(event: DumpProcessedEvent): Promise<void> {
+    if (!event.chatId) {
+      return;
+    }
+
+    try {
+      switch (event.source) {
+        case 'telegram': {
+          const user = await this.userService.findOne(event.userId);
+          if (!user) {
+            return;
+          }
+          if (event.recovered) {
+            await this.telegramService.sendTextMessage(
+              Number(event.chatId),
+              RECOVERED_NOTICE,
+            );
+          }
+          await this.telegramService.sendFormattedResponse(
+            user,
+            event.result,
+            event.messageId ? Number(event.messageId) : undefined,
+          );
+          if (event.result.duplicateOf) {
+            await this.telegramService.sendTextMessage(
+              Number(event.chatId),
+              this.mergeCommand.buildPrompt(
+                event.result.duplicateOf,
+                'telegram',
+              ),
+            );
+          } else if (event.result.analysis?.needsBreakdown) {
+            await this.telegramService.sendMessage({
+              chat_id: Number(event.chatId),
+              text: this.breakdownCommand.buildPrompt('telegram'),
+              parse_mode: 'HTML',
+              reply_markup: {
+                inline_keyboard: [
+                  [this.breakdownCommand.buildButton(event.result.dump.id)],
+                ],
+              },
+            });
+          }
+          break;
+        }
+
+        case 'whatsapp':
+          if (this.isWhatsAppTestMode()) {
+            this.logger.log(
+              'TEST MODE: Would send formatted response - simulating success',
+            );
+            return;
+          }
+          if (event.recovered) {
+            await this.whatsappService.sendTextMessage(
+              event.chatId,
+              RECOVERED_NOTICE,
+            );
+          }
+          await this.whatsappService.sendFormattedResponse(
+            event.userId,
+            event.chatId,
+            event.result,
+          );
+          if (event.result.duplicateOf) {
+            await this.whatsappService.sendTextMessage(
+              event.chatId,
+              this.mergeCommand.buildPrompt(
+                event.result.duplicateOf,
+                'whatsapp',
+              ),
+            );
+          } else if (event.result.analysis?.needsBreakdown) {
+            await this.whatsappService.sendTextMessage(
+              event.chatId,
+              this.breakdownCommand.buildPrompt('whatsapp'),
+            );
+          }
+          break;
+
+        default:
+          // Email and API dumps have no chat to reply to
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send processing reply for dump ${event.result.dump.id}:`,
+        error,
+      );
+    }
+  }
+
+  @OnEvent('dump.failed', { async: true })
+  async handleDumpFailed(event: DumpFailedEvent): Promise<void> {
+    if (!event.chatId) {
+      return;
+    }
+
+    const message =
+      '❌ Sorry, something went wrong while processing your message. Please try again later.';
+
+    try {
+      switch (event.source) {
+        case 'telegram':
+          await this.telegramService.sendTextMessage(
+            Number(event.chatId),
+            message,
+            event.messageId ? Number(event.messageId) : undefined,
+          );
+          break;
+
+        case 'whatsapp':
+          if (this.isWhatsAppTestMode()) {
+            return;
+          }
+          await this.whatsappService.sendTextMessage(event.chatId, message);
+          break;
+
+        default:
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to send failure notice for dump ${event.dump.id}:`,
+        error,
+      );
+    }
+  }
+
+  private isWhatsAppTestMode(): boolean {
+    return (
+      process.env.NODE_ENV === 'development' ||
+      process.env.WHATSAPP_TEST_MODE === 'true'
+    );
+  }
+}
@@ -0,0 +1,58 @@
+// Telegram albums hold at most 10 items
+const MAX_GROUP_SIZE = 10;
+
+interface PendingGroup<T> {
+  items: T[];
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Collects the updates of a Telegram album (messages sharing a
+ * media_group_id), which arrive as separate webhooks, and hands them over
+ * together once none has arrived for waitMs or the album is full.
+ *
+ * Groups live in memory, so an album is only merged on the instance that
+ * received it.
+ */
+export class MediaGroupBuffer<T> {
+  private readonly groups = new Map<string, PendingGroup<T>>();
+
+  constructor(
+    private readonly waitMs: number,
+    private readonly onFlush: (items: T[]) => Promise<void>,
+  ) {}
+
+  add(groupKey: string, item: T): void {
+    const group = this.groups.get(groupKey);
+    if (group) {
+      clearTimeout(group.timer);
+      group.items.push(item);
+    }
+
+    const items = group?.items || [item];
+    if (items.length >= MAX_GROUP_SIZE) {
+      this.groups.delete(groupKey);
+      void this.onFlush(items);
+      return;
+    }
+
+    const timer = setTimeout(() => this.flush(groupKey), this.waitMs);
+    // Pending albums must not keep the process alive on shutdown
+    timer.unref();
+    this.groups.set(groupKey, { items, timer });
+  }
+
+  get pendingGroups(): number {
+    return this.groups.size;
+  }
+
+  private flush(groupKey: string): void {
+    const group = this.groups.get(groupKey);
+    if (!group) {
+      return;
+    }
+
+    this.groups.delete(groupKey);
+    void this.onFlush(group.items);
+  }
+}
@@ -45,6 +45,7 @@ export class MessageFormatterHelper {
       if (actionItems.length > 3) {
         content += `... and ${actionItems.length - 3} more\n`;
       }
+      content += 'Saved to /tasks - check them off with /done\n';
       content += '\n';
     }
 
@@ -51,12 +51,38 @@ interface TelegramWebhookMessage {
     file_unique_id: string;
     file_size?: number;
   };
+  video?: {
+    duration: number;
+    width: number;
+    height: number;
+    file_name?: string;
+    mime_type?: string;
+    file_id: string;
+    file_unique_id: string;
+    file_size?: number;
+  };
+  video_note?: {
+    duration: number;
+    length: number;
+    file_id: string;
+    file_unique_id: string;
+    file_size?: number;
+  };
   caption?: string;
+  media_group_id?: string;
+}
+
+interface TelegramWebhookCallbackQuery {
+  id: string;
+  from: TelegramWebhookMessage['from'];
+  message?: TelegramWebhookMessage;
+  data?: string;
 }
 
 interface TelegramWebhookUpdate {
   update_id: number;
   message?: TelegramWebhookMessage;
+  callback_query?: TelegramWebhookCallbackQuery;
   edited_message?: TelegramWebhookMessage;
   channel_post?: TelegramWebhookMessage;
   edited_channel_post?: TelegramWebhookMessage;
@@ -68,6 +94,7 @@ interface TelegramWebhookRequest {
   update_id?: number;
   message?: TelegramWebhookMessage;
   edited_message?: TelegramWebhookMessage;
+  callback_query?: TelegramWebhookCallbackQuery;
 }
 
 @Controller('api/webhooks/telegram')
@@ -96,11 +123,15 @@ export class TelegramWebhookController {
 
       if (body.updates && Array.isArray(body.updates)) {
         updates.push(...body.updates);
-      } else if (body.update_id && (body.message || body.edited_message)) {
+      } else if (
+        body.update_id &&
+        (body.message || body.edited_message || body.callback_query)
+      ) {
         updates.push({
           update_id: body.update_id,
           message: body.message,
           edited_message: body.edited_message,
+          callback_query: body.callback_query,
         });
       }
 
@@ -122,6 +153,22 @@ export class TelegramWebhookController {
   }
 
   private async processUpdate(update: TelegramWebhookUpdate): Promise<void> {
+    if (update.callback_query) {
+      // Button presses only come from linked chats; TelegramService resolves the user
+      try {
+        await this.telegramService.processUpdate({
+          update_id: update.update_id,
+          callback_query: update.callback_query,
+        });
+      } catch (error) {
+        this.logger.error(
+          `Error processing callback query ${update.callback_query.id}:`,
+          error,
+        );
+      }
+      return;
+    }
+
     const message = update.message || update.edited_message;
 
     if (!message) {
@@ -177,7 +224,10 @@ export class TelegramWebhookController {
           voice: message.voice,
           photo: message.photo,
           document: message.document,
+          video: message.video,
+          video_note: message.video_note,
           caption: message.caption,
+          media_group_id: message.media_group_id,
         },
       });
 
@@ -12,9 +12,17 @@ import { UpcomingCommand } from './commands/upcoming.command';
 import { TrackCommand } from './commands/track.command';
 import { SearchCommand } from './commands/search.command';
 import { ReportCommand } from './commands/report.command';
+import { TrashCommand } from './commands/trash.command';
+import { MergeCommand } from './commands/merge.command';
+import { TaskCommand } from './commands/task.command';
+import {
+  BreakdownCommand,
+  BREAKDOWN_CALLBACK_PREFIX,
+} from './commands/breakdown.command';
 import { MetricsService } from '../metrics/metrics.service';
 import { FeatureType } from '../../entities/feature-usage.entity';
 import { MessageFormatterHelper } from './helpers/message-formatter.helper';
+import { MediaGroupBuffer } from './helpers/media-group-buffer.helper';
 import { ResponseFormatterService } from '../ai/formatter.service';
 import { EntityExtractionResult } from '../ai/extraction.service';
 import { ContentAnalysisResponse } from '../ai/claude.service';
@@ -35,6 +43,8 @@ export interface TelegramMessage {
   date: number;
   text?: string;
   caption?: string;
+  // Shared by the messages of an album
+  media_group_id?: string;
   voice?: {
     file_id: string;
     duration: number;
@@ -53,11 +63,32 @@ export interface TelegramMessage {
     mime_type?: string;
     file_size?: number;
   };
+  video?: {
+    file_id: string;
+    duration: number;
+    file_name?: string;
+    mime_type?: string;
+    file_size?: number;
+  };
+  video_note?: {
+    file_id: string;
+    duration: number;
+    length: number;
+    file_size?: number;
+  };
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramMessage['from'];
+  message?: TelegramMessage;
+  data?: string;
 }
 
 export interface TelegramUpdate {
   update_id: number;
   message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
 }
 
 export interface TelegramSendMessageOptions {
@@ -88,6 +119,10 @@ export class TelegramService {
   private readonly logger = new Logger(TelegramService.name);
   private readonly botToken: string;
   private readonly apiUrl: string;
+  private readonly mediaGroups: MediaGroupBuffer<{
+    message: TelegramMessage;
+    user: User;
+  }>;
 
   constructor(
     private readonly configService: ConfigService,
@@ -98,12 +133,22 @@ export class TelegramService {
     private readonly upcomingCommand: UpcomingCommand,
     private readonly trackCommand: TrackCommand,
     private readonly reportCommand: ReportCommand,
+    private readonly trashCommand: TrashCommand,
+    private readonly mergeCommand: MergeCommand,
+    private readonly taskCommand: TaskCommand,
+    private readonly breakdownCommand: BreakdownCommand,
     private readonly searchCommand: SearchCommand,
     private readonly responseFormatterService: ResponseFormatterService,
     private readonly metricsService: MetricsService,
   ) {
     this.botToken = this.configService.get<string>('TELEGRAM_BOT_TOKEN') || '';
     this.apiUrl = `https://api.telegram.org/bot${this.botToken}`;
+    this.mediaGroups = new MediaGroupBuffer(
+      Number(
+        this.configService.get<string>('TELEGRAM_MEDIA_GROUP_WAIT_MS') || 1500,
+      ),
+      (entries) => this.handleMediaGroup(entries),
+    );
 
     if (!this.botToken) {
       this.logger.warn('Telegram bot token not configured');
@@ -315,6 +360,11 @@ export class TelegramService {
 
   async processUpdate(update: TelegramUpdate): Promise<void> {
     try {
+      if (update.callback_query) {
+        await this.handleCallbackQuery(update.callback_query);
+        return;
+      }
+
       if (!update.message) {
         this.logger.warn('Received update without message');
         return;
@@ -361,14 +411,22 @@ export class TelegramService {
         await this.handleTextMessageWithUser(message, user);
       } else if (message.voice) {
         await this.handleVoiceMessage(message, user);
+      } else if (message.photo && message.media_group_id) {
+        // Album photos arrive one by one; they become a single dump
+        this.mediaGroups.add(`${chatId}:${message.media_group_id}`, {
+          message,
+          user,
+        });
       } else if (message.photo) {
         await this.handlePhotoMessage(message, user);
       } else if (message.document) {
         await this.handleDocumentMessage(message, user);
+      } else if (message.video || message.video_note) {
+        await this.handleVideoMessage(message, user);
       } else {
         await this.sendTextMessage(
           chatId,
-          "⚠️ Sorry, I don't support this message type yet. Please send text, voice, photos, or documents.",
+          "⚠️ Sorry, I don't support this message type yet. Please send text, voice, photos, videos, or documents.",
         );
       }
     } catch (error) {
@@ -475,15 +533,8 @@ export class TelegramService {
         },
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(
-        user,
-        result,
-        message.message_id,
-      );
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error processing text message:', error);
       await this.sendTextMessage(
@@ -521,15 +572,8 @@ export class TelegramService {
         mediaBuffer: voiceBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(
-        user,
-        result,
-        message.message_id,
-      );
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling voice message:', error);
       await this.sendTextMessage(chatId, '❌ Failed to process voice message.');
@@ -541,14 +585,7 @@ export class TelegramService {
     user: User,
   ): Promise<void> {
     const chatId = message.chat.id;
-    const photos = message.photo!;
-
-    // Get the largest photo
-    const largestPhoto = photos.reduce(
-      (prev, current) =>
-        (prev.file_size || 0) > (current.file_size || 0) ? prev : current,
-      photos[0],
-    );
+    const largestPhoto = this.getLargestPhoto(message.photo!);
 
     this.logger.log(`Handling photo message: ${largestPhoto.file_id}`);
 
@@ -572,21 +609,80 @@ export class TelegramService {
         mediaBuffer: photoBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(
-        user,
-        result,
-        message.message_id,
-      );
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling photo message:', error);
       await this.sendTextMessage(chatId, '❌ Failed to process image.');
     }
   }
 
+  /**
+   * Turn the photos of an album into one multi-page dump, pages in the
+   * order they were sent
+   */
+  private async handleMediaGroup(
+    entries: Array<{ message: TelegramMessage; user: User }>,
+  ): Promise<void> {
+    const messages = entries
+      .map((entry) => entry.message)
+      .sort((a, b) => a.message_id - b.message_id);
+    const first = messages[0];
+    const chatId = first.chat.id;
+    // Telegram puts the album caption on one of its messages
+    const caption = messages.find((message) => message.caption)?.caption;
+
+    this.logger.log(
+      `Handling album ${first.media_group_id} with ${messages.length} photos`,
+    );
+
+    try {
+      const photos = messages.map((message) =>
+        this.getLargestPhoto(message.photo!),
+      );
+      const pages: Buffer[] = [];
+      for (const photo of photos) {
+        pages.push(await this.downloadFile(photo.file_id));
+      }
+
+      const dumpRequest: CreateDumpRequest = {
+        userId: entries[0].user.id,
+        content: caption || `Album (${pages.length} photos)`,
+        contentType: 'image',
+        originalText: caption,
+        metadata: {
+          source: 'telegram',
+          messageId: first.message_id.toString(),
+          chatId: chatId.toString(),
+          mimeType: 'image/jpeg',
+          fileSize: photos.reduce(
+            (total, photo) => total + (photo.file_size || 0),
+            0,
+          ),
+          mediaGroupId: first.media_group_id,
+        },
+        mediaBuffer: pages[0],
+        extraPages: pages.slice(1),
+      };
+
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
+    } catch (error) {
+      this.logger.error('Error handling album:', error);
+      await this.sendTextMessage(chatId, '❌ Failed to process album.');
+    }
+  }
+
+  private getLargestPhoto(
+    photos: NonNullable<TelegramMessage['photo']>,
+  ): NonNullable<TelegramMessage['photo']>[number] {
+    return photos.reduce(
+      (prev, current) =>
+        (prev.file_size || 0) > (current.file_size || 0) ? prev : current,
+      photos[0],
+    );
+  }
+
   private async handleDocumentMessage(
     message: TelegramMessage,
     user: User,
@@ -617,21 +713,53 @@ export class TelegramService {
         mediaBuffer: documentBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(
-        user,
-        result,
-        message.message_id,
-      );
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling document message:', error);
       await this.sendTextMessage(chatId, '❌ Failed to process document.');
     }
   }
 
+  private async handleVideoMessage(
+    message: TelegramMessage,
+    user: User,
+  ): Promise<void> {
+    const chatId = message.chat.id;
+    // Round video notes are always MP4 and carry no file name or caption
+    const video = message.video || message.video_note!;
+
+    this.logger.log(`Handling video message: ${video.file_id}`);
+
+    try {
+      // Download the video file
+      const videoBuffer = await this.downloadFile(video.file_id);
+
+      // Create dump request for enhanced video processing
+      const dumpRequest: CreateDumpRequest = {
+        userId: user.id,
+        content: message.caption || 'Video message',
+        contentType: 'video',
+        originalText: message.caption,
+        metadata: {
+          source: 'telegram',
+          messageId: message.message_id.toString(),
+          chatId: chatId.toString(),
+          fileName: message.video?.file_name,
+          mimeType: message.video?.mime_type || 'video/mp4',
+          fileSize: video.file_size,
+        },
+        mediaBuffer: videoBuffer,
+      };
+
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
+    } catch (error) {
+      this.logger.error('Error handling video message:', error);
+      await this.sendTextMessage(chatId, '❌ Failed to process video.');
+    }
+  }
+
   private trackBotCommand(command: string, userId: string): void {
     this.metricsService.fireAndForget(() =>
       this.metricsService.trackFeature({
@@ -676,6 +804,7 @@ export class TelegramService {
               '📝 Text messages\n' +
               '🎤 Voice messages\n' +
               '📷 Photos\n' +
+              '🎥 Videos\n' +
               '📄 Documents\n\n' +
               'Use /help for more commands.',
           );
@@ -746,6 +875,66 @@ export class TelegramService {
           break;
         }
 
+        case '/trash': {
+          const trashMessage = await this.trashCommand.execute(
+            user,
+            'telegram',
+          );
+          await this.sendTextMessage(chatId, trashMessage);
+          break;
+        }
+
+        case '/restore': {
+          // Parse restore command: /restore <number|id>
+          const parts = command.split(' ').filter((p) => p.trim());
+          const restoreMessage = await this.trashCommand.restore(
+            user,
+            parts.slice(1),
+            'telegram',
+          );
+          await this.sendTextMessage(chatId, restoreMessage);
+          break;
+        }
+
+        case '/tasks': {
+          const tasksMessage = await this.taskCommand.execute(user, 'telegram');
+          await this.sendTextMessage(chatId, tasksMessage);
+          break;
+        }
+
+        case '/done': {
+          // Parse done command: /done <number|id>
+          const parts = command.split(' ').filter((p) => p.trim());
+          const doneMessage = await this.taskCommand.done(
+            user,
+            parts.slice(1),
+            'telegram',
+          );
+          await this.sendTextMessage(chatId, doneMessage);
+          break;
+        }
+
+        case '/breakdown': {
+          // Parse breakdown command: /breakdown [number|id]
+          const parts = command.split(' ').filter((p) => p.trim());
+          const breakdownMessage = await this.breakdownCommand.execute(
+            user,
+            parts.slice(1),
+            'telegram',
+          );
+          await this.sendTextMessage(chatId, breakdownMessage);
+          break;
+        }
+
+        case '/merge': {
+          const mergeMessage = await this.mergeCommand.execute(
+            user,
+            'telegram',
+          );
+          await this.sendTextMessage(chatId, mergeMessage);
+          break;
+        }
+
         default: {
           await this.sendTextMessage(
             chatId,
@@ -762,6 +951,67 @@ export class TelegramService {
     }
   }
 
+  /**
+   * Handle inline keyboard button presses
+   */
+  private async handleCallbackQuery(
+    query: TelegramCallbackQuery,
+  ): Promise<void> {
+    const chatId = query.message?.chat.id;
+    if (!chatId || !query.data) {
+      await this.answerCallbackQuery(query.id);
+      return;
+    }
+
+    const user = await this.userService.findByChatId(
+      chatId.toString(),
+      'telegram',
+    );
+    if (!user) {
+      await this.answerCallbackQuery(
+        query.id,
+        'Please link your account first',
+      );
+      return;
+    }
+
+    if (query.data.startsWith(BREAKDOWN_CALLBACK_PREFIX)) {
+      const dumpId = query.data.slice(BREAKDOWN_CALLBACK_PREFIX.length);
+      this.trackBotCommand('/breakdown', user.id);
+
+      // Acknowledge right away, the breakdown takes a few seconds
+      await this.answerCallbackQuery(query.id, 'Breaking it down...');
+      const breakdownMessage = await this.breakdownCommand.breakDownDump(
+        user,
+        dumpId,
+        'telegram',
+      );
+      await this.sendTextMessage(chatId, breakdownMessage);
+      return;
+    }
+
+    this.logger.warn(`Unknown callback data: ${query.data}`);
+    await this.answerCallbackQuery(query.id);
+  }
+
+  async answerCallbackQuery(
+    callbackQueryId: string,
+    text?: string,
+  ): Promise<void> {
+    const response = await fetch(`${this.apiUrl}/answerCallbackQuery`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ callback_query_id: callbackQueryId, text }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      this.logger.warn(`Failed to answer callback query: ${error}`);
+    }
+  }
+
   async setWebhook(url: string): Promise<void> {
     this.logger.log(`Setting webhook to ${url}`);
 
@@ -772,7 +1022,7 @@ export class TelegramService {
       },
       body: JSON.stringify({
         url,
-        allowed_updates: ['message'],
+        allowed_updates: ['message', 'callback_query'],
       }),
     });
 
@@ -12,6 +12,10 @@ import { UpcomingCommand } from './commands/upcoming.command';
 import { TrackCommand } from './commands/track.command';
 import { SearchCommand } from './commands/search.command';
 import { ReportCommand } from './commands/report.command';
+import { TrashCommand } from './commands/trash.command';
+import { MergeCommand } from './commands/merge.command';
+import { TaskCommand } from './commands/task.command';
+import { BreakdownCommand } from './commands/breakdown.command';
 import { ResponseFormatterService } from '../ai/formatter.service';
 import { TemplateService } from './template.service';
 import { MetricsService } from '../metrics/metrics.service';
@@ -58,6 +62,12 @@ export interface WhatsAppMessage {
     sha256: string;
     caption?: string;
   };
+  video?: {
+    id: string;
+    mime_type: string;
+    sha256: string;
+    caption?: string;
+  };
 }
 
 export interface WhatsAppContact {
@@ -140,6 +150,10 @@ export class WhatsAppService {
     private readonly trackCommand: TrackCommand,
     private readonly searchCommand: SearchCommand,
     private readonly reportCommand: ReportCommand,
+    private readonly trashCommand: TrashCommand,
+    private readonly mergeCommand: MergeCommand,
+    private readonly taskCommand: TaskCommand,
+    private readonly breakdownCommand: BreakdownCommand,
     private readonly responseFormatterService: ResponseFormatterService,
     private readonly metricsService: MetricsService,
     private readonly templateService: TemplateService,
@@ -498,10 +512,13 @@ export class WhatsAppService {
         case 'document':
           await this.handleDocumentMessage(message, user.id);
           break;
+        case 'video':
+          await this.handleVideoMessage(message, user.id);
+          break;
         default:
           await this.sendTextMessage(
             phoneNumber,
-            "⚠️ Sorry, I don't support this message type yet. Please send text, voice, photos, or documents.",
+            "⚠️ Sorry, I don't support this message type yet. Please send text, voice, photos, videos, or documents.",
           );
       }
     } catch (error) {
@@ -553,25 +570,9 @@ export class WhatsAppService {
         },
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      this.logger.log(
-        `✅ Message processed successfully: ${result.dump.ai_summary}`,
-      );
-      this.logger.log(
-        `📊 Analysis: Category=${result.dump.category?.name}, Confidence=${result.dump.ai_confidence}%`,
-      );
-
-      if (isTestMode) {
-        this.logger.log(
-          'TEST MODE: Would send formatted response - simulating success',
-        );
-        return;
-      }
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(userId, phoneNumber, result);
+      // Queue for processing; the reply is sent once the pipeline finishes
+      const dump = await this.dumpService.enqueueDump(dumpRequest);
+      this.logger.log(`✅ Message queued for processing: ${dump.id}`);
     } catch (error) {
       this.logger.error('Error processing text message:', error);
 
@@ -624,11 +625,8 @@ export class WhatsAppService {
         mediaBuffer: audioBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(userId, phoneNumber, result);
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling audio message:', error);
       await this.sendTextMessage(
@@ -671,11 +669,8 @@ export class WhatsAppService {
         mediaBuffer: imageBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(userId, phoneNumber, result);
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling image message:', error);
       await this.sendTextMessage(phoneNumber, '❌ Failed to process image.');
@@ -716,17 +711,55 @@ export class WhatsAppService {
         mediaBuffer: documentBuffer,
       };
 
-      // Process with enhanced ContentRouterService integration
-      const result = await this.dumpService.createDumpEnhanced(dumpRequest);
-
-      // Send success response with processing details
-      await this.sendFormattedResponse(userId, phoneNumber, result);
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
     } catch (error) {
       this.logger.error('Error handling document message:', error);
       await this.sendTextMessage(phoneNumber, '❌ Failed to process document.');
     }
   }
 
+  private async handleVideoMessage(
+    message: WhatsAppMessage,
+    userId: string,
+  ): Promise<void> {
+    const phoneNumber = message.from;
+    const video = message.video;
+
+    if (!video) {
+      await this.sendTextMessage(phoneNumber, '❌ Failed to process video.');
+      return;
+    }
+
+    this.logger.log(`Handling video message: ${video.id}`);
+
+    try {
+      // For Twilio, video.id is actually the media URL
+      const videoBuffer = await this.downloadMedia(video.id);
+
+      // Create dump request for enhanced video processing
+      const dumpRequest: CreateDumpRequest = {
+        userId,
+        content: video.caption || 'Video message',
+        contentType: 'video',
+        originalText: video.caption,
+        metadata: {
+          source: 'whatsapp',
+          messageId: message.id,
+          chatId: phoneNumber,
+          mimeType: video.mime_type || 'video/mp4',
+        },
+        mediaBuffer: videoBuffer,
+      };
+
+      // Queue for processing; the reply is sent once the pipeline finishes
+      await this.dumpService.enqueueDump(dumpRequest);
+    } catch (error) {
+      this.logger.error('Error handling video message:', error);
+      await this.sendTextMessage(phoneNumber, '❌ Failed to process video.');
+    }
+  }
+
   private trackBotCommand(command: string, userId: string): void {
     this.metricsService.fireAndForget(() =>
       this.metricsService.trackFeature({
@@ -779,6 +812,7 @@ export class WhatsAppService {
               '📝 Text messages\n' +
               '🎤 Voice messages\n' +
               '📷 Photos\n' +
+              '🎥 Videos\n' +
               '📄 Documents\n\n' +
               'Type "help" for more commands.',
           );
@@ -849,6 +883,66 @@ export class WhatsAppService {
           break;
         }
 
+        case 'trash': {
+          const trashMessage = await this.trashCommand.execute(
+            user,
+            'whatsapp',
+          );
+          await this.sendTextMessage(phoneNumber, trashMessage);
+          break;
+        }
+
+        case 'restore': {
+          // Parse restore command: restore <number|id>
+          const parts = command.split(' ').filter((p) => p.trim());
+          const restoreMessage = await this.trashCommand.restore(
+            user,
+            parts.slice(1),
+            'whatsapp',
+          );
+          await this.sendTextMessage(phoneNumber, restoreMessage);
+          break;
+        }
+
+        case 'tasks': {
+          const tasksMessage = await this.taskCommand.execute(user, 'whatsapp');
+          await this.sendTextMessage(phoneNumber, tasksMessage);
+          break;
+        }
+
+        case 'done': {
+          // Parse done command: done <number|id>
+          const parts = command.split(' ').filter((p) => p.trim());
+          const doneMessage = await this.taskCommand.done(
+            user,
+            parts.slice(1),
+            'whatsapp',
+          );
+          await this.sendTextMessage(phoneNumber, doneMessage);
+          break;
+        }
+
+        case 'breakdown': {
+          // Parse breakdown command: breakdown [number|id]
+          const parts = command.split(' ').filter((p) => p.trim());
+          const breakdownMessage = await this.breakdownCommand.execute(
+            user,
+            parts.slice(1),
+            'whatsapp',
+          );
+          await this.sendTextMessage(phoneNumber, breakdownMessage);
+          break;
+        }
+
+        case 'merge': {
+          const mergeMessage = await this.mergeCommand.execute(
+            user,
+            'whatsapp',
+          );
+          await this.sendTextMessage(phoneNumber, mergeMessage);
+          break;
+        }
+
         default: {
           await this.sendTextMessage(
             phoneNumber,
@@ -1057,6 +1151,12 @@ export class WhatsAppService {
         };
       } else if (mediaType.startsWith('video/')) {
         type = 'video';
+        processedMessage.video = {
+          id: mediaUrl,
+          mime_type: mediaType,
+          sha256: '',
+          caption: twilioBody.Body,
+        };
       } else {
         type = 'document';
         processedMessage.document = {
@@ -0,0 +1,123 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  CategoryCorrection,
+  CorrectionSource,
+} from '../../entities/category-correction.entity';
+import { Category } from '../../entities/category.entity';
+import { Dump } from '../../entities/dump.entity';
+import { AIOperationType } from '../../entities/ai-metric.entity';
+import { MetricsService } from '../metrics/metrics.service';
+
+export interface CorrectionExample {
+  content: string;
+  category: string;
+  previousCategory: string | null;
+  similarity: number; // Cosine similarity, 0-1
+}
+
+// Examples below this similarity are more likely to mislead than help
+const MIN_EXAMPLE_SIMILARITY = 0.5;
+const MAX_EXAMPLE_CONTENT_LENGTH = 300;
+
+/**
+ * CategoryCorrectionService
+ * Stores category corrections as labeled examples per user and retrieves
+ * the most similar ones for few-shot categorization prompts.
+ */
+@Injectable()
+export class CategoryCorrectionService {
+  private readonly logger = new Logger(CategoryCorrectionService.name);
+
+  constructor(
+    @InjectRepository(CategoryCorrection)
+    private readonly correctionRepository: Repository<CategoryCorrection>,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Record that a dump was moved to another category. Expects the dump as
+   * it was before the change, with its category relation loaded.
+   * Only the latest correction of a dump is kept as an example.
+   */
+  async recordCorrection(
+    dump: Dump,
+    category: Category,
+    source: CorrectionSource,
+  ): Promise<void> {
+    if (dump.category_id === category.id) {
+      return;
+    }
+
+    const previousCategory = dump.category?.name ?? null;
+
+    await this.correctionRepository.delete({ dump_id: dump.id });
+    // The dump's embedding is of the same text, so it is reused as is
+    await this.correctionRepository.query(
+      `INSERT INTO category_corrections (user_id, dump_id, content, content_vector, previous_category, category_id, source)
+       SELECT d.user_id, d.id, $2, d.content_vector, $3, $4, $5
+       FROM dumps d WHERE d.id = $1`,
+      [
+        dump.id,
+        dump.ai_summary || dump.raw_content,
+        previousCategory,
+        category.id,
+        source,
+      ],
+    );
+
+    this.logger.log(
+      `Recorded correction for dump ${dump.id}: ${previousCategory ?? 'none'} -> ${category.name}`,
+    );
+
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.CATEGORIZATION_CORRECTION,
+        latencyMs: 0,
+        success: true,
+        userId: dump.user_id,
+        dumpId: dump.id,
+        metadata: {
+          previousCategory,
+          correctedCategory: category.name,
+          correctionSource: source,
+        },
+      }),
+    );
+  }
+
+  /**
+   * The user's past corrections closest to an embedding, most similar first
+   */
+  async findSimilarCorrections(
+    userId: string,
+    embedding: number[],
+    limit = 3,
+  ): Promise<CorrectionExample[]> {
+    const rows: Array<{
+      content: string;
+      category: string;
+      previous_category: string | null;
+      similarity: string;
+    }> = await this.correctionRepository.query(
+      `SELECT c.content, cat.name AS category, c.previous_category,
+              1 - (c.content_vector <=> $2) AS similarity
+       FROM category_corrections c
+       JOIN categories cat ON cat.id = c.category_id AND cat.is_active = true
+       WHERE c.user_id = $1 AND c.content_vector IS NOT NULL
+       ORDER BY c.content_vector <=> $2
+       LIMIT $3`,
+      [userId, `[${embedding.join(',')}]`, limit],
+    );
+
+    return rows
+      .map((row) => ({
+        content: row.content.substring(0, MAX_EXAMPLE_CONTENT_LENGTH),
+        category: row.category,
+        previousCategory: row.previous_category,
+        similarity: Number.parseFloat(row.similarity),
+      }))
+      .filter((example) => example.similarity >= MIN_EXAMPLE_SIMILARITY);
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import {
+  CategoryRule,
+  CategoryRuleStage,
+} from '../../entities/category-rule.entity';
+import { CategoryRuleService, RuleTestResult } from './category-rule.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+const SOURCES = ['telegram', 'whatsapp', 'email', 'api'] as const;
+const CONTENT_TYPES = ['text', 'voice', 'image', 'document', 'video'] as const;
+
+export class RuleConditionsDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  contentPattern?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(SOURCES, { each: true })
+  sources?: (typeof SOURCES)[number][];
+
+  @IsOptional()
+  @IsString()
+  senderEmail?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(CONTENT_TYPES, { each: true })
+  contentTypes?: (typeof CONTENT_TYPES)[number][];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  organizations?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  aiCategories?: string[];
+}
+
+export class CreateCategoryRuleDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsUUID()
+  categoryId: string;
+
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions: RuleConditionsDto;
+
+  @IsOptional()
+  @IsEnum(CategoryRuleStage)
+  stage?: CategoryRuleStage;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateCategoryRuleDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => RuleConditionsDto)
+  conditions?: RuleConditionsDto;
+
+  @IsOptional()
+  @IsEnum(CategoryRuleStage)
+  stage?: CategoryRuleStage;
+
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class TestCategoryRulesDto {
+  @IsString()
+  content: string;
+
+  @IsOptional()
+  @IsIn(SOURCES)
+  source?: string;
+
+  @IsOptional()
+  @IsString()
+  senderEmail?: string;
+
+  @IsOptional()
+  @IsIn(CONTENT_TYPES)
+  contentType?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  organizations?: string[];
+
+  @IsOptional()
+  @IsString()
+  aiCategory?: string;
+}
+
+@Controller('api/categories/rules')
+@UseGuards(JwtAuthGuard)
+export class CategoryRuleController {
+  constructor(private readonly categoryRuleService: CategoryRuleService) {}
+
+  @Get()
+  async listRules(@GetUser() user: User): Promise<ApiResponse<CategoryRule[]>> {
+    const rules = await this.categoryRuleService.listRules(user.id);
+
+    return {
+      success: true,
+      data: rules,
+      message: `Found ${rules.length} rules`,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createRule(
+    @GetUser() user: User,
+    @Body(ValidationPipe) createRuleDto: CreateCategoryRuleDto,
+  ): Promise<ApiResponse<CategoryRule>> {
+    const rule = await this.categoryRuleService.createRule(
+      user.id,
+      createRuleDto,
+    );
+
+    return {
+      success: true,
+      data: rule,
+      message: `Rule "${rule.name}" created`,
+    };
+  }
+
+  @Post('test')
+  @HttpCode(HttpStatus.OK)
+  async testRules(
+    @GetUser() user: User,
+    @Body(ValidationPipe) testDto: TestCategoryRulesDto,
+  ): Promise<ApiResponse<RuleTestResult>> {
+    const result = await this.categoryRuleService.testRules(user.id, testDto);
+
+    return {
+      success: true,
+      data: result,
+      message: result.appliedRule
+        ? `Rule "${result.appliedRule.name}" would apply`
+        : 'No rule matches',
+    };
+  }
+
+  @Put(':id')
+  async updateRule(
+    @GetUser() user: User,
+    @Param('id') ruleId: string,
+    @Body(ValidationPipe) updateRuleDto: UpdateCategoryRuleDto,
+  ): Promise<ApiResponse<CategoryRule>> {
+    const rule = await this.categoryRuleService.updateRule(
+      user.id,
+      ruleId,
+      updateRuleDto,
+    );
+
+    return {
+      success: true,
+      data: rule,
+      message: 'Rule updated successfully',
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteRule(
+    @GetUser() user: User,
+    @Param('id') ruleId: string,
+  ): Promise<void> {
+    await this.categoryRuleService.deleteRule(user.id, ruleId);
+  }
+}
@@ -0,0 +1,340 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  CategoryRule,
+  CategoryRuleConditions,
+  CategoryRuleStage,
+} from '../../entities/category-rule.entity';
+import { CategoryService } from './category.service';
+
+export interface RuleMatchInput {
+  content: string;
+  source?: string;
+  senderEmail?: string;
+  contentType?: string;
+  organizations?: string[];
+  aiCategory?: string; // Only known to after_ai rules
+}
+
+export interface RuleMatch {
+  rule: CategoryRule;
+  reasons: string[]; // One entry per matched condition
+}
+
+export interface RuleTestResult {
+  matches: RuleMatch[];
+  // Rule that would decide the category, before_ai rules first
+  appliedRule: CategoryRule | null;
+}
+
+export interface CategoryRuleRequest {
+  name: string;
+  categoryId: string;
+  conditions: CategoryRuleConditions;
+  stage?: CategoryRuleStage;
+  priority?: number;
+  isActive?: boolean;
+}
+
+const MAX_PATTERN_LENGTH = 200;
+// Patterns are user supplied; only the start of long content is tested
+const MAX_MATCH_CONTENT_LENGTH = 5000;
+
+/**
+ * CategoryRuleService
+ * User-defined categorization rules and their evaluation.
+ *
+ * Precedence: before_ai rules decide the category and skip the AI step;
+ * otherwise the AI suggests a category and the first matching after_ai rule
+ * overrides it. Within a stage, rules run by ascending priority.
+ */
+@Injectable()
+export class CategoryRuleService {
+  private readonly logger = new Logger(CategoryRuleService.name);
+
+  constructor(
+    @InjectRepository(CategoryRule)
+    private readonly ruleRepository: Repository<CategoryRule>,
+    private readonly categoryService: CategoryService,
+  ) {}
+
+  async listRules(userId: string): Promise<CategoryRule[]> {
+    return this.ruleRepository.find({
+      where: { user_id: userId },
+      relations: ['category'],
+      order: { stage: 'ASC', priority: 'ASC', created_at: 'ASC' },
+    });
+  }
+
+  async createRule(
+    userId: string,
+    request: CategoryRuleRequest,
+  ): Promise<CategoryRule> {
+    this.validateConditions(request.conditions, request.stage);
+    const category = await this.categoryService.findVisibleCategory(
+      userId,
+      request.categoryId,
+    );
+
+    const rule = await this.ruleRepository.save(
+      this.ruleRepository.create({
+        user_id: userId,
+        name: request.name.trim(),
+        category_id: category.id,
+        conditions: request.conditions,
+        stage: request.stage ?? CategoryRuleStage.BEFORE_AI,
+        priority: request.priority ?? 0,
+        is_active: request.isActive ?? true,
+      }),
+    );
+    rule.category = category;
+
+    this.logger.log(`Created rule "${rule.name}" for user ${userId}`);
+    return rule;
+  }
+
+  async updateRule(
+    userId: string,
+    ruleId: string,
+    updates: Partial<CategoryRuleRequest>,
+  ): Promise<CategoryRule> {
+    const rule = await this.findUserRule(userId, ruleId);
+
+    if (updates.conditions !== undefined || updates.stage !== undefined) {
+      this.validateConditions(
+        updates.conditions ?? rule.conditions,
+        updates.stage ?? rule.stage,
+      );
+    }
+    if (updates.categoryId !== undefined) {
+      rule.category = await this.categoryService.findVisibleCategory(
+        userId,
+        updates.categoryId,
+      );
+      rule.category_id = rule.category.id;
+    }
+    if (updates.name !== undefined) {
+      rule.name = updates.name.trim();
+    }
+    if (updates.conditions !== undefined) {
+      rule.conditions = updates.conditions;
+    }
+    if (updates.stage !== undefined) {
+      rule.stage = updates.stage;
+    }
+    if (updates.priority !== undefined) {
+      rule.priority = updates.priority;
+    }
+    if (updates.isActive !== undefined) {
+      rule.is_active = updates.isActive;
+    }
+
+    return this.ruleRepository.save(rule);
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const rule = await this.findUserRule(userId, ruleId);
+    await this.ruleRepository.remove(rule);
+  }
+
+  /**
+   * Active rules of one stage matching the input, in precedence order
+   */
+  async matchRules(
+    userId: string,
+    stage: CategoryRuleStage,
+    input: RuleMatchInput,
+  ): Promise<RuleMatch[]> {
+    const rules = await this.ruleRepository.find({
+      where: { user_id: userId, stage, is_active: true },
+      relations: ['category'],
+      order: { priority: 'ASC', created_at: 'ASC' },
+    });
+
+    return this.evaluate(rules, input);
+  }
+
+  /**
+   * Dry run: which of the user's active rules would match this input
+   */
+  async testRules(
+    userId: string,
+    input: RuleMatchInput,
+  ): Promise<RuleTestResult> {
+    const before = await this.matchRules(
+      userId,
+      CategoryRuleStage.BEFORE_AI,
+      input,
+    );
+    const after = await this.matchRules(
+      userId,
+      CategoryRuleStage.AFTER_AI,
+      input,
+    );
+    const matches = [...before, ...after];
+
+    return { matches, appliedRule: matches[0]?.rule ?? null };
+  }
+
+  private evaluate(rules: CategoryRule[], input: RuleMatchInput): RuleMatch[] {
+    const matches: RuleMatch[] = [];
+
+    for (const rule of rules) {
+      try {
+        const reasons = this.matchConditions(rule.conditions, input);
+        if (reasons) {
+          matches.push({ rule, reasons });
+        }
+      } catch (error) {
+        this.logger.warn(`Skipping rule ${rule.id}: ${error.message}`);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Returns the matched conditions, or null when any set condition fails
+   */
+  private matchConditions(
+    conditions: CategoryRuleConditions,
+    input: RuleMatchInput,
+  ): string[] | null {
+    const reasons: string[] = [];
+
+    if (conditions.contentPattern) {
+      const pattern = new RegExp(conditions.contentPattern, 'i');
+      if (!pattern.test(input.content.substring(0, MAX_MATCH_CONTENT_LENGTH))) {
+        return null;
+      }
+      reasons.push(`content matches /${conditions.contentPattern}/`);
+    }
+
+    if (conditions.sources?.length) {
+      const sources: string[] = conditions.sources;
+      if (!input.source || !sources.includes(input.source)) {
+        return null;
+      }
+      reasons.push(`source is ${input.source}`);
+    }
+
+    if (conditions.senderEmail) {
+      if (!this.matchesSender(conditions.senderEmail, input.senderEmail)) {
+        return null;
+      }
+      reasons.push(`sender matches ${conditions.senderEmail}`);
+    }
+
+    if (conditions.contentTypes?.length) {
+      const contentTypes: string[] = conditions.contentTypes;
+      if (!input.contentType || !contentTypes.includes(input.contentType)) {
+        return null;
+      }
+      reasons.push(`content type is ${input.contentType}`);
+    }
+
+    if (conditions.organizations?.length) {
+      const wantedOrganizations = conditions.organizations;
+      const found = (input.organizations || []).find((organization) =>
+        wantedOrganizations.some((wanted) =>
+          organization.toLowerCase().includes(wanted.toLowerCase()),
+        ),
+      );
+      if (!found) {
+        return null;
+      }
+      reasons.push(`organization ${found}`);
+    }
+
+    if (conditions.aiCategories?.length) {
+      const aiCategory = input.aiCategory?.toLowerCase();
+      if (
+        !aiCategory ||
+        !conditions.aiCategories.some((c) => c.toLowerCase() === aiCategory)
+      ) {
+        return null;
+      }
+      reasons.push(`AI suggested ${input.aiCategory}`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * A full address must match exactly; a domain also matches its subdomains
+   */
+  private matchesSender(expected: string, senderEmail?: string): boolean {
+    if (!senderEmail) {
+      return false;
+    }
+
+    const sender = senderEmail.trim().toLowerCase();
+    const wanted = expected.trim().toLowerCase().replace(/^@/, '');
+    if (wanted.includes('@')) {
+      return sender === wanted;
+    }
+
+    const domain = sender.split('@').pop() || '';
+    return domain === wanted || domain.endsWith(`.${wanted}`);
+  }
+
+  private validateConditions(
+    conditions: CategoryRuleConditions,
+    stage: CategoryRuleStage = CategoryRuleStage.BEFORE_AI,
+  ): void {
+    const hasCondition =
+      !!conditions.contentPattern ||
+      !!conditions.senderEmail ||
+      !!conditions.sources?.length ||
+      !!conditions.contentTypes?.length ||
+      !!conditions.organizations?.length ||
+      !!conditions.aiCategories?.length;
+    if (!hasCondition) {
+      throw new BadRequestException('A rule needs at least one condition');
+    }
+
+    if (conditions.contentPattern) {
+      if (conditions.contentPattern.length > MAX_PATTERN_LENGTH) {
+        throw new BadRequestException(
+          `Content pattern must be at most ${MAX_PATTERN_LENGTH} characters`,
+        );
+      }
+      try {
+        new RegExp(conditions.contentPattern, 'i');
+      } catch {
+        throw new BadRequestException(
+          `Invalid content pattern: ${conditions.contentPattern}`,
+        );
+      }
+    }
+
+    if (
+      conditions.aiCategories?.length &&
+      stage !== CategoryRuleStage.AFTER_AI
+    ) {
+      throw new BadRequestException(
+        'AI category conditions are only available to after_ai rules',
+      );
+    }
+  }
+
+  private async findUserRule(
+    userId: string,
+    ruleId: string,
+  ): Promise<CategoryRule> {
+    const rule = await this.ruleRepository.findOne({
+      where: { id: ruleId, user_id: userId },
+      relations: ['category'],
+    });
+    if (!rule) {
+      throw new NotFoundException(`Rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+}
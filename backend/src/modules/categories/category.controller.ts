@@ -0,0 +1,227 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import { Category } from '../../entities/category.entity';
+import {
+  CategoryService,
+  CategoryWithCount,
+  CategoryMergeResult,
+} from './category.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+export class CreateCategoryDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  color?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  icon?: string;
+}
+
+export class UpdateCategoryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  color?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  icon?: string;
+}
+
+export class ReorderCategoriesDto {
+  @IsArray()
+  @IsUUID('all', { each: true })
+  categoryIds: string[]; // The user's categories in display order
+}
+
+export class MergeCategoryDto {
+  @IsUUID()
+  targetCategoryId: string;
+}
+
+@Controller('api/categories')
+@UseGuards(JwtAuthGuard)
+export class CategoryController {
+  constructor(private readonly categoryService: CategoryService) {}
+
+  @Get()
+  async listCategories(
+    @GetUser() user: User,
+    @Query('includeArchived') includeArchived?: string,
+  ): Promise<ApiResponse<CategoryWithCount[]>> {
+    const categories = await this.categoryService.listCategories(
+      user.id,
+      includeArchived === 'true',
+    );
+
+    return {
+      success: true,
+      data: categories,
+      message: `Found ${categories.length} categories`,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createCategory(
+    @GetUser() user: User,
+    @Body(ValidationPipe) createCategoryDto: CreateCategoryDto,
+  ): Promise<ApiResponse<Category>> {
+    const category = await this.categoryService.createCategory(
+      user.id,
+      createCategoryDto,
+    );
+
+    return {
+      success: true,
+      data: category,
+      message: `Category "${category.name}" created`,
+    };
+  }
+
+  @Put('order')
+  async reorderCategories(
+    @GetUser() user: User,
+    @Body(ValidationPipe) reorderDto: ReorderCategoriesDto,
+  ): Promise<ApiResponse<CategoryWithCount[]>> {
+    const categories = await this.categoryService.reorderCategories(
+      user.id,
+      reorderDto.categoryIds,
+    );
+
+    return {
+      success: true,
+      data: categories,
+      message: 'Categories reordered successfully',
+    };
+  }
+
+  @Put(':id')
+  async updateCategory(
+    @GetUser() user: User,
+    @Param('id') categoryId: string,
+    @Body(ValidationPipe) updateCategoryDto: UpdateCategoryDto,
+  ): Promise<ApiResponse<Category>> {
+    const category = await this.categoryService.updateCategory(
+      user.id,
+      categoryId,
+      updateCategoryDto,
+    );
+
+    return {
+      success: true,
+      data: category,
+      message: 'Category updated successfully',
+    };
+  }
+
+  @Post(':id/archive')
+  @HttpCode(HttpStatus.OK)
+  async archiveCategory(
+    @GetUser() user: User,
+    @Param('id') categoryId: string,
+  ): Promise<ApiResponse<Category>> {
+    const category = await this.categoryService.setArchived(
+      user.id,
+      categoryId,
+      true,
+    );
+
+    return {
+      success: true,
+      data: category,
+      message: 'Category archived successfully',
+    };
+  }
+
+  @Post(':id/unarchive')
+  @HttpCode(HttpStatus.OK)
+  async unarchiveCategory(
+    @GetUser() user: User,
+    @Param('id') categoryId: string,
+  ): Promise<ApiResponse<Category>> {
+    const category = await this.categoryService.setArchived(
+      user.id,
+      categoryId,
+      false,
+    );
+
+    return {
+      success: true,
+      data: category,
+      message: 'Category unarchived successfully',
+    };
+  }
+
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  async mergeCategory(
+    @GetUser() user: User,
+    @Param('id') categoryId: string,
+    @Body(ValidationPipe) mergeDto: MergeCategoryDto,
+  ): Promise<ApiResponse<CategoryMergeResult>> {
+    const result = await this.categoryService.mergeCategory(
+      user.id,
+      categoryId,
+      mergeDto.targetCategoryId,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `Moved ${result.reassignedDumps} dumps to "${result.category.name}"`,
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteCategory(
+    @GetUser() user: User,
+    @Param('id') categoryId: string,
+  ): Promise<void> {
+    await this.categoryService.deleteCategory(user.id, categoryId);
+  }
+}
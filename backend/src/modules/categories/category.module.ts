@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Category } from '../../entities/category.entity';
+import { CategoryRule } from '../../entities/category-rule.entity';
+import { CategoryCorrection } from '../../entities/category-correction.entity';
+import { Dump } from '../../entities/dump.entity';
+import { CategoryService } from './category.service';
+import { CategoryRuleService } from './category-rule.service';
+import { CategoryCorrectionService } from './category-correction.service';
+import { CategoryController } from './category.controller';
+import { CategoryRuleController } from './category-rule.controller';
+import { MetricsModule } from '../metrics/metrics.module';
+
+/**
+ * Module for user-owned categories
+ *
+ * Provides:
+ * - CategoryService: Category management (rename, reorder, archive, merge)
+ * - CategoryRuleService: User-defined categorization rules
+ * - CategoryCorrectionService: Category corrections kept as labeled examples
+ * - CategoryController, CategoryRuleController: REST API endpoints
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Category,
+      CategoryRule,
+      CategoryCorrection,
+      Dump,
+    ]),
+    MetricsModule,
+  ],
+  providers: [CategoryService, CategoryRuleService, CategoryCorrectionService],
+  // Rules first so /rules paths are not taken for category ids
+  controllers: [CategoryRuleController, CategoryController],
+  // Used by the categorization step and wherever dumps are recategorized
+  exports: [CategoryRuleService, CategoryCorrectionService],
+})
+export class CategoryModule {}
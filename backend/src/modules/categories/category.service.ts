@@ -0,0 +1,318 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { Category } from '../../entities/category.entity';
+import { Dump } from '../../entities/dump.entity';
+
+export interface CategoryWithCount {
+  id: string;
+  name: string;
+  description: string | null;
+  color: string | null;
+  icon: string | null;
+  is_active: boolean;
+  is_system: boolean;
+  sort_order: number;
+  created_at: Date;
+  dumpCount: number;
+}
+
+export interface CreateCategoryRequest {
+  name: string;
+  description?: string;
+  color?: string;
+  icon?: string;
+}
+
+export type UpdateCategoryRequest = Partial<CreateCategoryRequest>;
+
+export interface CategoryMergeResult {
+  category: Category;
+  reassignedDumps: number;
+}
+
+/**
+ * CategoryService
+ * Management of user-owned categories. System defaults (user_id NULL) are
+ * visible to every user but read-only.
+ */
+@Injectable()
+export class CategoryService {
+  private readonly logger = new Logger(CategoryService.name);
+
+  constructor(
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+  ) {}
+
+  /**
+   * System defaults and the user's own categories, with the user's dump counts
+   */
+  async listCategories(
+    userId: string,
+    includeArchived = false,
+  ): Promise<CategoryWithCount[]> {
+    const query = this.categoryRepository
+      .createQueryBuilder('category')
+      .leftJoin('category.dumps', 'dump', 'dump.user_id = :userId', {
+        userId,
+      })
+      .select([
+        'category.id AS id',
+        'category.name AS name',
+        'category.description AS description',
+        'category.color AS color',
+        'category.icon AS icon',
+        'category.is_active AS is_active',
+        'category.user_id IS NULL AS is_system',
+        'category.sort_order AS sort_order',
+        'category.created_at AS created_at',
+      ])
+      .addSelect('COUNT(dump.id)', 'dumpCount')
+      .where(
+        new Brackets((qb) =>
+          qb
+            .where('category.user_id = :userId', { userId })
+            .orWhere('category.user_id IS NULL'),
+        ),
+      );
+
+    if (!includeArchived) {
+      query.andWhere('category.is_active = :active', { active: true });
+    }
+
+    const rows = await query
+      .groupBy('category.id')
+      .orderBy('category.sort_order', 'ASC')
+      .addOrderBy('category.name', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      color: row.color,
+      icon: row.icon,
+      is_active: row.is_active,
+      is_system: row.is_system,
+      sort_order: row.sort_order,
+      created_at: row.created_at,
+      dumpCount: Number.parseInt(row.dumpCount, 10) || 0,
+    }));
+  }
+
+  async createCategory(
+    userId: string,
+    request: CreateCategoryRequest,
+  ): Promise<Category> {
+    const name = this.requireName(request.name);
+    await this.assertNameAvailable(userId, name);
+
+    const category = await this.categoryRepository.save(
+      this.categoryRepository.create({
+        user_id: userId,
+        name,
+        description: request.description,
+        color: request.color,
+        icon: request.icon,
+        is_active: true,
+        sort_order: await this.getNextSortOrder(userId),
+      }),
+    );
+
+    this.logger.log(`Created category "${name}" for user ${userId}`);
+    return category;
+  }
+
+  async updateCategory(
+    userId: string,
+    categoryId: string,
+    updates: UpdateCategoryRequest,
+  ): Promise<Category> {
+    const category = await this.findOwnedCategory(userId, categoryId);
+
+    if (updates.name !== undefined) {
+      const name = this.requireName(updates.name);
+      if (name.toLowerCase() !== category.name.toLowerCase()) {
+        await this.assertNameAvailable(userId, name);
+      }
+      category.name = name;
+    }
+    if (updates.description !== undefined) {
+      category.description = updates.description;
+    }
+    if (updates.color !== undefined) {
+      category.color = updates.color;
+    }
+    if (updates.icon !== undefined) {
+      category.icon = updates.icon;
+    }
+
+    return this.categoryRepository.save(category);
+  }
+
+  /**
+   * Set the order of the user's categories; sort_order follows the given list
+   */
+  async reorderCategories(
+    userId: string,
+    categoryIds: string[],
+  ): Promise<CategoryWithCount[]> {
+    const owned = await this.categoryRepository.find({
+      where: { user_id: userId },
+      select: ['id'],
+    });
+    const ownedIds = new Set(owned.map((category) => category.id));
+    const unknown = categoryIds.filter((id) => !ownedIds.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Only your own categories can be reordered: ${unknown.join(', ')}`,
+      );
+    }
+
+    await this.categoryRepository.manager.transaction(async (manager) => {
+      for (const [index, id] of categoryIds.entries()) {
+        await manager.update(Category, id, { sort_order: index + 1 });
+      }
+    });
+
+    return this.listCategories(userId, true);
+  }
+
+  /**
+   * Archived categories keep their dumps but are hidden from listings and
+   * are no longer offered to the categorization prompt
+   */
+  async setArchived(
+    userId: string,
+    categoryId: string,
+    archived: boolean,
+  ): Promise<Category> {
+    const category = await this.findOwnedCategory(userId, categoryId);
+    category.is_active = !archived;
+    await this.categoryRepository.save(category);
+
+    this.logger.log(
+      `${archived ? 'Archived' : 'Unarchived'} category ${categoryId}`,
+    );
+    return category;
+  }
+
+  /**
+   * Move the user's dumps from one of their categories into another
+   * category (their own or a system one) and delete the source
+   */
+  async mergeCategory(
+    userId: string,
+    sourceId: string,
+    targetId: string,
+  ): Promise<CategoryMergeResult> {
+    if (sourceId === targetId) {
+      throw new BadRequestException('Cannot merge a category into itself');
+    }
+
+    const source = await this.findOwnedCategory(userId, sourceId);
+    const target = await this.findVisibleCategory(userId, targetId);
+
+    let reassignedDumps = 0;
+    await this.dumpRepository.manager.transaction(async (manager) => {
+      const result = await manager
+        .createQueryBuilder()
+        .update(Dump)
+        .set({ category_id: target.id })
+        .where('category_id = :sourceId', { sourceId: source.id })
+        .andWhere('user_id = :userId', { userId })
+        .execute();
+      reassignedDumps = result.affected || 0;
+
+      await manager.delete(Category, source.id);
+    });
+
+    this.logger.log(
+      `Merged category ${source.id} into ${target.id} (${reassignedDumps} dumps reassigned)`,
+    );
+    return { category: target, reassignedDumps };
+  }
+
+  /**
+   * Delete one of the user's categories; its dumps become uncategorized
+   */
+  async deleteCategory(userId: string, categoryId: string): Promise<void> {
+    const category = await this.findOwnedCategory(userId, categoryId);
+    await this.categoryRepository.remove(category);
+  }
+
+  /**
+   * A system category or one owned by the user
+   */
+  async findVisibleCategory(
+    userId: string,
+    categoryId: string,
+  ): Promise<Category> {
+    const category = await this.categoryRepository.findOne({
+      where: { id: categoryId },
+    });
+    if (!category || (category.user_id && category.user_id !== userId)) {
+      throw new NotFoundException(`Category ${categoryId} not found`);
+    }
+    return category;
+  }
+
+  private requireName(name: string): string {
+    const trimmed = (name || '').trim();
+    if (!trimmed) {
+      throw new BadRequestException('Category name is required');
+    }
+    return trimmed;
+  }
+
+  /**
+   * Names are unique per user, case-insensitively, and may not shadow a
+   * system category
+   */
+  private async assertNameAvailable(
+    userId: string,
+    name: string,
+  ): Promise<void> {
+    const existing = await this.categoryRepository
+      .createQueryBuilder('category')
+      .where('LOWER(category.name) = LOWER(:name)', { name })
+      .andWhere('(category.user_id = :userId OR category.user_id IS NULL)', {
+        userId,
+      })
+      .getOne();
+
+    if (existing) {
+      throw new ConflictException(`Category "${name}" already exists`);
+    }
+  }
+
+  private async findOwnedCategory(
+    userId: string,
+    categoryId: string,
+  ): Promise<Category> {
+    const category = await this.findVisibleCategory(userId, categoryId);
+    if (category.user_id === null) {
+      throw new BadRequestException('System categories cannot be modified');
+    }
+    return category;
+  }
+
+  private async getNextSortOrder(userId: string): Promise<number> {
+    const result = await this.categoryRepository
+      .createQueryBuilder('category')
+      .select('MAX(category.sort_order)', 'maxOrder')
+      .where('category.user_id = :userId', { userId })
+      .getRawOne();
+
+    return (result?.maxOrder || 0) + 1;
+  }
+}
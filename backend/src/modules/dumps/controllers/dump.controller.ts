@@ -14,13 +14,32 @@ import {
   UploadedFile,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { IsString, IsOptional, IsIn, IsObject } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsObject,
+  IsBoolean,
+  IsArray,
+  IsUUID,
+} from 'class-validator';
 import {
   DumpService,
   CreateDumpRequest,
   DumpProcessingResult,
 } from '../services/dump.service';
+import { DumpRevisionService } from '../services/dump-revision.service';
+import { DumpTrashService } from '../services/dump-trash.service';
+import {
+  ReadingQueueService,
+  ReadingQueueItem,
+} from '../services/reading-queue.service';
+import {
+  DumpDuplicateService,
+  DumpMergeResult,
+} from '../services/dump-duplicate.service';
 import { Dump } from '../../../entities/dump.entity';
+import { RevisionAuthorType } from '../../../entities/dump-revision.entity';
 import type { ApiResponse } from '../../../common/interfaces/api-response.interface';
 
 export class CreateDumpDto {
@@ -79,11 +98,32 @@ export class UpdateDumpDto {
   @IsOptional()
   @IsObject()
   metadata?: any;
+
+  @IsOptional()
+  @IsBoolean()
+  reprocess?: boolean; // Re-run the AI pipeline when raw_content changes
+}
+
+export class MergeDumpsDto {
+  @IsArray()
+  @IsUUID('all', { each: true })
+  dumpIds: string[]; // Dumps to absorb into the target
+}
+
+export class ReadLaterDto {
+  @IsBoolean()
+  readLater: boolean;
 }
 
 @Controller('api/dumps')
 export class DumpController {
-  constructor(private readonly dumpService: DumpService) {}
+  constructor(
+    private readonly dumpService: DumpService,
+    private readonly dumpRevisionService: DumpRevisionService,
+    private readonly dumpTrashService: DumpTrashService,
+    private readonly dumpDuplicateService: DumpDuplicateService,
+    private readonly readingQueueService: ReadingQueueService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -133,7 +173,7 @@ export class DumpController {
   async uploadAndProcess(
     @UploadedFile() file: any,
     @Body('userId') userId: string,
-    @Body('contentType') contentType: 'voice' | 'image' | 'document',
+    @Body('contentType') contentType: 'voice' | 'image' | 'document' | 'video',
     @Body('metadata') metadataJson?: string,
   ): Promise<ApiResponse<DumpProcessingResult>> {
     const metadata = metadataJson ? JSON.parse(metadataJson) : {};
@@ -165,8 +205,12 @@ export class DumpController {
   @Get('user/:userId')
   async findByUser(
     @Param('userId') userId: string,
+    @Query('tags') tags?: string,
   ): Promise<ApiResponse<any>> {
-    const result = await this.dumpService.findByUserId(userId, undefined);
+    const result = await this.dumpService.findByUserId(
+      userId,
+      tags ? { tags: tags.split(',') } : undefined,
+    );
 
     return {
       success: true,
@@ -203,6 +247,36 @@ export class DumpController {
     };
   }
 
+  @Get('user/:userId/trash')
+  async getTrash(
+    @Param('userId') userId: string,
+  ): Promise<ApiResponse<Dump[]>> {
+    const dumps = await this.dumpTrashService.listTrash(userId);
+
+    return {
+      success: true,
+      data: dumps,
+      message: `Found ${dumps.length} dumps in trash`,
+    };
+  }
+
+  @Get('user/:userId/reading-queue')
+  async getReadingQueue(
+    @Param('userId') userId: string,
+    @Query('limit') limit: string = '20',
+  ): Promise<ApiResponse<ReadingQueueItem[]>> {
+    const items = await this.readingQueueService.getQueue(
+      userId,
+      Number.parseInt(limit, 10) || 20,
+    );
+
+    return {
+      success: true,
+      data: items,
+      message: `Found ${items.length} links to read`,
+    };
+  }
+
   @Get(':id')
   async findOne(@Param('id') id: string): Promise<ApiResponse<Dump | null>> {
     const dump = await this.dumpService.findById(id);
@@ -214,6 +288,36 @@ export class DumpController {
     };
   }
 
+  @Get(':id/media')
+  async getMedia(
+    @Param('id') id: string,
+    @Query('expiresIn') expiresIn?: string,
+    @Query('page') page?: string,
+  ): Promise<ApiResponse<any>> {
+    const media = await this.dumpService.getMediaUrl(
+      id,
+      expiresIn ? Number.parseInt(expiresIn, 10) : undefined,
+      page ? Number.parseInt(page, 10) : undefined,
+    );
+
+    return {
+      success: true,
+      data: media,
+      message: 'Media URL generated successfully',
+    };
+  }
+
+  @Get(':id/status')
+  async getStatus(@Param('id') id: string): Promise<ApiResponse<any>> {
+    const status = await this.dumpService.getProcessingStatus(id);
+
+    return {
+      success: true,
+      data: status,
+      message: `Dump is ${status.status}`,
+    };
+  }
+
   @Patch(':id')
   @HttpCode(HttpStatus.OK)
   async update(
@@ -268,7 +372,9 @@ export class DumpController {
       }
     }
 
-    const updatedDump = await this.dumpService.updateDump(id, updates);
+    const updatedDump = await this.dumpService.updateDump(id, updates, {
+      reprocess: updateDumpDto.reprocess,
+    });
 
     return {
       success: true,
@@ -277,10 +383,145 @@ export class DumpController {
     };
   }
 
+  @Get(':id/revisions')
+  async getRevisions(@Param('id') id: string): Promise<ApiResponse<any>> {
+    const revisions = await this.dumpRevisionService.listRevisions(id);
+
+    return {
+      success: true,
+      data: revisions,
+      message: `Found ${revisions.length} revisions`,
+    };
+  }
+
+  @Get(':id/revisions/diff')
+  async diffRevisions(
+    @Param('id') id: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+  ): Promise<ApiResponse<any>> {
+    const diff = await this.dumpRevisionService.diffRevisions(
+      id,
+      Number.parseInt(from, 10),
+      Number.parseInt(to, 10),
+    );
+
+    return {
+      success: true,
+      data: diff,
+      message: `${diff.changes.length} fields changed`,
+    };
+  }
+
+  @Post(':id/revisions/:revision/restore')
+  @HttpCode(HttpStatus.OK)
+  async restoreRevision(
+    @Param('id') id: string,
+    @Param('revision') revision: string,
+  ): Promise<ApiResponse<Dump>> {
+    const existingDump = await this.dumpService.findById(id);
+    if (!existingDump) {
+      return {
+        success: false,
+        message: 'Dump not found',
+        data: null as any,
+      };
+    }
+
+    const restoredDump = await this.dumpService.restoreRevision(
+      id,
+      Number.parseInt(revision, 10),
+      { type: RevisionAuthorType.USER, id: existingDump.user_id },
+    );
+
+    return {
+      success: true,
+      data: restoredDump,
+      message: `Dump restored to revision ${revision}`,
+    };
+  }
+
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @Param('id') id: string,
+    @Body(ValidationPipe) mergeDumpsDto: MergeDumpsDto,
+  ): Promise<ApiResponse<DumpMergeResult>> {
+    const existingDump = await this.dumpService.findById(id);
+    if (!existingDump) {
+      return {
+        success: false,
+        message: 'Dump not found',
+        data: null as any,
+      };
+    }
+
+    const result = await this.dumpDuplicateService.mergeDumps(
+      id,
+      mergeDumpsDto.dumpIds,
+      { type: RevisionAuthorType.USER, id: existingDump.user_id },
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: `Merged ${result.mergedDumpIds.length} dumps`,
+    };
+  }
+
+  @Patch(':id/read-later')
+  @HttpCode(HttpStatus.OK)
+  async setReadLater(
+    @Param('id') id: string,
+    @Body(ValidationPipe) body: ReadLaterDto,
+  ): Promise<ApiResponse<Dump>> {
+    const dump = await this.readingQueueService.setReadLater(
+      id,
+      body.readLater,
+    );
+
+    return {
+      success: true,
+      data: dump,
+      message: body.readLater
+        ? 'Dump added to the reading queue'
+        : 'Dump removed from the reading queue',
+    };
+  }
+
+  @Get(':id/merged')
+  async getMergedDumps(@Param('id') id: string): Promise<ApiResponse<Dump[]>> {
+    const dumps = await this.dumpDuplicateService.listMergedDumps(id);
+
+    return {
+      success: true,
+      data: dumps,
+      message: `Found ${dumps.length} merged dumps`,
+    };
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   async remove(@Param('id') id: string): Promise<void> {
-    await this.dumpService.deleteDump(id);
+    await this.dumpTrashService.moveToTrash(id);
+  }
+
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  async restoreFromTrash(@Param('id') id: string): Promise<ApiResponse<Dump>> {
+    const dump = await this.dumpTrashService.restoreFromTrash(id);
+
+    return {
+      success: true,
+      data: dump,
+      message: 'Dump restored from trash',
+    };
+  }
+
+  @Delete(':id/permanent')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removePermanently(@Param('id') id: string): Promise<void> {
+    await this.dumpTrashService.deletePermanently(id);
   }
 
   @Post('generate-vectors')
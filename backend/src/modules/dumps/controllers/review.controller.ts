@@ -10,12 +10,12 @@ import {
   HttpStatus,
   Logger,
 } from '@nestjs/common';
+import { ReviewService, ReviewRequest } from '../services/review.service';
 import {
-  ReviewService,
   ReviewFlag,
   ReviewPriority,
-  ReviewRequest,
-} from '../services/review.service';
+  ReviewReporter,
+} from '../../../entities/review-item.entity';
 
 export class FlagReviewDto {
   dumpId: string;
@@ -30,6 +30,10 @@ export class ResolveReviewDto {
   resolution: string;
 }
 
+export class DismissReviewDto {
+  resolution: string;
+}
+
 @Controller('reviews')
 export class ReviewController {
   private readonly logger = new Logger(ReviewController.name);
@@ -53,7 +57,7 @@ export class ReviewController {
       const reviewRequest: ReviewRequest = {
         ...flagReviewDto,
         userId,
-        reportedBy: 'user',
+        reportedBy: ReviewReporter.USER,
       };
 
       const reviewId = await this.reviewService.flagForReview(reviewRequest);
@@ -103,19 +107,35 @@ export class ReviewController {
   async getPendingReviews(
     @Query('limit') limit: string = '50',
     @Query('offset') offset: string = '0',
+    @Query('priority') priority?: ReviewPriority,
+    @Query('flag') flag?: ReviewFlag,
+    @Query('olderThanHours') olderThanHours?: string,
+    @Query('newerThanHours') newerThanHours?: string,
+    @Query('assignedTo') assignedTo?: string,
   ) {
     try {
       this.logger.log('Getting pending reviews');
 
-      const reviews = await this.reviewService.getPendingReviews();
       const limitNum = Number.parseInt(limit, 10);
       const offsetNum = Number.parseInt(offset, 10);
 
-      const paginatedReviews = reviews.slice(offsetNum, offsetNum + limitNum);
+      const { items, total } = await this.reviewService.listReviews({
+        priority,
+        flag,
+        assignedTo,
+        olderThanHours: olderThanHours
+          ? Number.parseFloat(olderThanHours)
+          : undefined,
+        newerThanHours: newerThanHours
+          ? Number.parseFloat(newerThanHours)
+          : undefined,
+        limit: limitNum,
+        offset: offsetNum,
+      });
 
       return {
-        reviews: paginatedReviews,
-        total: reviews.length,
+        reviews: items,
+        total,
         limit: limitNum,
         offset: offsetNum,
       };
@@ -160,6 +180,9 @@ export class ReviewController {
       if (error.message === 'Review item not found') {
         throw new HttpException('Review not found', HttpStatus.NOT_FOUND);
       }
+      if (error instanceof HttpException) {
+        throw error;
+      }
 
       throw new HttpException(
         'Internal server error',
@@ -168,6 +191,39 @@ export class ReviewController {
     }
   }
 
+  @Put(':reviewId/dismiss')
+  async dismissReview(
+    @Param('reviewId') reviewId: string,
+    @Body() dismissReviewDto: DismissReviewDto,
+    @Query('userId') userId?: string,
+  ): Promise<{ message: string }> {
+    if (!userId) {
+      throw new HttpException('User ID is required', HttpStatus.BAD_REQUEST);
+    }
+
+    this.logger.log(`Dismissing review ${reviewId} by user ${userId}`);
+
+    await this.reviewService.dismissReview(
+      reviewId,
+      dismissReviewDto.resolution,
+      userId,
+    );
+
+    return {
+      message: 'Review dismissed successfully',
+    };
+  }
+
+  @Get(':reviewId/history')
+  async getReviewHistory(@Param('reviewId') reviewId: string) {
+    const history = await this.reviewService.getReviewHistory(reviewId);
+
+    return {
+      history,
+      total: history.length,
+    };
+  }
+
   @Get('stats')
   async getReviewStats() {
     try {
@@ -6,6 +6,12 @@ import { Dump } from '../../entities/dump.entity';
 import { Category } from '../../entities/category.entity';
 import { Reminder } from '../../entities/reminder.entity';
 import { User } from '../../entities/user.entity';
+import { DumpJob } from '../../entities/dump-job.entity';
+import { DumpRevision } from '../../entities/dump-revision.entity';
+import { TrackableItem } from '../../entities/trackable-item.entity';
+import { Feedback } from '../../entities/feedback.entity';
+import { ReviewItem } from '../../entities/review-item.entity';
+import { ReviewStatusChange } from '../../entities/review-status-change.entity';
 
 // Import all AI services
 import { ClaudeService } from '../ai/claude.service';
@@ -21,12 +27,20 @@ import { ReviewController } from './controllers/review.controller';
 import { SpeechTestController } from '../ai/speech-test.controller';
 import { SpeechAdvancedTestController } from '../ai/speech-advanced-test.controller';
 import { ConfidenceService } from '../ai/confidence.service';
-import { FallbackHandlerService } from '../ai/fallback-handler.service';
 import { DocumentProcessorService } from '../ai/document-processor.service';
 import { ScreenshotProcessorService } from '../ai/screenshot-processor.service';
+import { VideoProcessorService } from '../ai/video-processor.service';
 import { ContentRouterService } from './content-router.service';
 import { HandwritingService } from '../ai/handwriting.service';
 import { CategorizationService } from './services/categorization.service';
+import { DumpQueueService } from './services/dump-queue.service';
+import { DumpProcessorService } from './services/dump-processor.service';
+import { DumpRevisionService } from './services/dump-revision.service';
+import { DumpTrashService } from './services/dump-trash.service';
+import { DumpDuplicateService } from './services/dump-duplicate.service';
+import { DumpIdempotencyService } from './services/dump-idempotency.service';
+import { ReadingQueueService } from './services/reading-queue.service';
+import { DumpRecoveryService } from './services/dump-recovery.service';
 
 // Import other modules
 import { UserModule } from '../users/user.module';
@@ -34,17 +48,55 @@ import { VectorService } from '../search/vector.service';
 import { DatabaseInitService } from '../../database/database-init.service';
 import { BotsModule } from '../bots/bots.module';
 import { MetricsModule } from '../metrics/metrics.module';
+import { StorageModule } from '../storage/storage.module';
+import { SearchModule } from '../search/search.module';
+import { TagModule } from '../tags/tag.module';
+import { CategoryModule } from '../categories/category.module';
+import { TaskModule } from '../tasks/task.module';
+import { LinksModule } from '../links/links.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Dump, Category, Reminder, User]),
+    TypeOrmModule.forFeature([
+      Dump,
+      Category,
+      Reminder,
+      User,
+      DumpJob,
+      DumpRevision,
+      TrackableItem,
+      Feedback,
+      ReviewItem,
+      ReviewStatusChange,
+    ]),
     UserModule, // Import UserModule to make UserService available
     forwardRef(() => BotsModule), // Use forwardRef to resolve circular dependency
     MetricsModule,
+    StorageModule,
+    SearchModule, // Similar dump lookup for duplicate detection
+    TagModule, // Hashtags and AI-suggested tags
+    CategoryModule, // User-defined categorization rules
+    TaskModule, // Tasks from extracted action items
+    LinksModule, // Article extraction for shared links
   ],
   controllers: [DumpController, ReviewController, SpeechTestController, SpeechAdvancedTestController],
   providers: [
     DumpService,
+    // Asynchronous processing queue and its worker
+    DumpQueueService,
+    DumpProcessorService,
+    // Re-queues dumps stuck in processing or failed
+    DumpRecoveryService,
+    // Revision history of edited dumps
+    DumpRevisionService,
+    // Trash, restore and retention purge
+    DumpTrashService,
+    // Near-duplicate detection and merging
+    DumpDuplicateService,
+    // Redelivered webhook detection
+    DumpIdempotencyService,
+    // Links saved to read later
+    ReadingQueueService,
     // AI Services
     GoogleAuthService, // Shared authentication service
     ClaudeService,
@@ -54,9 +106,9 @@ import { MetricsModule } from '../metrics/metrics.module';
     ResponseFormatterService,
     TranslationService,
     MediaProcessorService,
-    FallbackHandlerService,
     DocumentProcessorService,
     ScreenshotProcessorService,
+    VideoProcessorService,
     ContentRouterService,
     HandwritingService,
     CategorizationService,
@@ -71,6 +123,11 @@ import { MetricsModule } from '../metrics/metrics.module';
   ],
   exports: [
     DumpService,
+    DumpRevisionService,
+    DumpTrashService,
+    DumpDuplicateService,
+    DumpRecoveryService,
+    ReadingQueueService,
     ReviewService,
     ConfidenceService,
     DocumentProcessorService,
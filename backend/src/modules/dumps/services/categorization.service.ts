@@ -1,9 +1,25 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { IsNull, Repository } from 'typeorm';
 import { Category } from '../../../entities/category.entity';
 import { Dump } from '../../../entities/dump.entity';
 import { ClaudeService } from '../../ai/claude.service';
+import { AiServiceUnavailableError } from '../../ai/fallback-handler.service';
+import {
+  CategoryRuleService,
+  RuleMatch,
+} from '../../categories/category-rule.service';
+import { CategoryRuleStage } from '../../../entities/category-rule.entity';
+import {
+  CategoryCorrectionService,
+  CorrectionExample,
+} from '../../categories/category-correction.service';
+import { VectorService } from '../../search/vector.service';
+import {
+  PromptRegistryService,
+  type PromptVersionRef,
+  type RenderedPrompt,
+} from '../../ai/prompts/prompt-registry.service';
 
 export interface CategorySuggestion {
   name: string;
@@ -21,6 +37,8 @@ export interface CategorizationRequest {
     source: 'telegram' | 'whatsapp' | 'email' | 'api';
     timestamp: Date;
     previousCategories?: string[];
+    senderEmail?: string;
+    organizations?: string[];
   };
 }
 
@@ -30,6 +48,8 @@ export interface CategorizationResult {
   autoApplied: boolean;
   confidence: number;
   reasoning: string;
+  fewShotExamples?: number; // Past corrections included in the AI prompt
+  prompt?: PromptVersionRef; // Registry prompt behind an AI result
 }
 
 export interface CategoryAnalytics {
@@ -198,8 +218,16 @@ export class CategorizationService {
     @InjectRepository(Dump)
     private readonly dumpRepository: Repository<Dump>,
     private readonly claudeService: ClaudeService,
+    private readonly categoryRuleService: CategoryRuleService,
+    private readonly categoryCorrectionService: CategoryCorrectionService,
+    private readonly vectorService: VectorService,
+    private readonly promptRegistry: PromptRegistryService,
   ) {}
 
+  /**
+   * Categorize content. The user's before_ai rules are tried first and skip
+   * the AI when one matches; after_ai rules can override the AI result.
+   */
   async categorizeContent(
     request: CategorizationRequest,
   ): Promise<CategorizationResult> {
@@ -207,6 +235,29 @@ export class CategorizationService {
       `Categorizing content: ${request.content.substring(0, 100)}...`,
     );
 
+    const beforeMatches = await this.matchUserRules(
+      request,
+      CategoryRuleStage.BEFORE_AI,
+    );
+    if (beforeMatches.length > 0) {
+      return this.applyRules(beforeMatches);
+    }
+
+    const aiResult = await this.categorizeWithAi(request);
+
+    const afterMatches = await this.matchUserRules(
+      request,
+      CategoryRuleStage.AFTER_AI,
+      aiResult.primaryCategory.name,
+    );
+    return afterMatches.length > 0
+      ? this.applyRules(afterMatches, aiResult)
+      : aiResult;
+  }
+
+  private async categorizeWithAi(
+    request: CategorizationRequest,
+  ): Promise<CategorizationResult> {
     try {
       // Get existing categories for user context
       const existingCategories = await this.getUserCategories(request.userId);
@@ -235,6 +286,10 @@ export class CategorizationService {
         autoApplied,
       };
     } catch (error) {
+      // The caller defers the work instead of settling for keywords
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error('Error in categorization:', error);
 
       // Fallback to simple keyword-based categorization
@@ -242,30 +297,106 @@ export class CategorizationService {
     }
   }
 
+  private async matchUserRules(
+    request: CategorizationRequest,
+    stage: CategoryRuleStage,
+    aiCategory?: string,
+  ): Promise<RuleMatch[]> {
+    if (!request.userId) {
+      return [];
+    }
+
+    try {
+      return await this.categoryRuleService.matchRules(request.userId, stage, {
+        content: request.content,
+        source: request.context?.source,
+        senderEmail: request.context?.senderEmail,
+        contentType: request.contentType,
+        organizations: request.context?.organizations,
+        aiCategory,
+      });
+    } catch (error) {
+      this.logger.warn(`Categorization rules failed: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * The first match decides the category; every match is listed in the
+   * reasoning so users can see why their rules fired
+   */
+  private applyRules(
+    matches: RuleMatch[],
+    aiResult?: CategorizationResult,
+  ): CategorizationResult {
+    const [applied, ...others] = matches;
+    const category = applied.rule.category;
+
+    const reasoning = [
+      `Rule "${applied.rule.name}" (${applied.rule.stage}) assigned ${category.name}: ${applied.reasons.join(', ')}`,
+      ...others.map(
+        (match) =>
+          `Rule "${match.rule.name}" (${match.rule.stage}) also matched, lower precedence: ${match.reasons.join(', ')}`,
+      ),
+      ...(aiResult ? [`AI suggested ${aiResult.primaryCategory.name}`] : []),
+    ].join('; ');
+
+    this.logger.log(
+      `Rule "${applied.rule.name}" assigned category ${category.name}`,
+    );
+
+    return {
+      primaryCategory: {
+        name: category.name,
+        confidence: 1,
+        reasoning,
+        isExisting: true,
+        existingCategory: category,
+      },
+      alternativeCategories: aiResult
+        ? [aiResult.primaryCategory, ...aiResult.alternativeCategories]
+        : [],
+      autoApplied: true,
+      confidence: 1,
+      reasoning,
+    };
+  }
+
+  /**
+   * Resolve a category name for a user: their own category first, then a
+   * system default. Unknown names become a new category owned by the user.
+   */
   async findOrCreateCategory(
     categoryName: string,
-    userId?: string,
+    userId: string,
   ): Promise<Category> {
-    // Try to find existing category (case-insensitive)
-    let category = await this.categoryRepository.findOne({
-      where: { name: categoryName.toLowerCase() },
-    });
+    const name = categoryName.trim().toLowerCase();
+
+    let category = await this.categoryRepository
+      .createQueryBuilder('category')
+      .where('LOWER(category.name) = :name', { name })
+      .andWhere('(category.user_id = :userId OR category.user_id IS NULL)', {
+        userId,
+      })
+      .orderBy('category.user_id', 'ASC', 'NULLS LAST')
+      .getOne();
 
     if (!category) {
       // Create new category with smart defaults
-      const defaults = this.getCategoryDefaults(categoryName);
+      const defaults = this.getCategoryDefaults(name);
 
       category = this.categoryRepository.create({
-        name: categoryName.toLowerCase(),
+        user_id: userId,
+        name,
         description: defaults.description,
         color: defaults.color,
         icon: defaults.icon,
         is_active: true,
-        sort_order: await this.getNextSortOrder(),
+        sort_order: await this.getNextSortOrder(userId),
       });
 
       category = await this.categoryRepository.save(category);
-      this.logger.log(`Created new category: ${category.name}`);
+      this.logger.log(`Created category "${category.name}" for user ${userId}`);
     }
 
     return category;
@@ -352,7 +483,7 @@ export class CategorizationService {
       );
       if (matchScore > 0) {
         const existingCategory = await this.categoryRepository.findOne({
-          where: { name: sysCategory.name },
+          where: { name: sysCategory.name, user_id: IsNull() },
         });
 
         suggestions.push({
@@ -370,26 +501,27 @@ export class CategorizationService {
     return suggestions.slice(0, limit);
   }
 
+  /**
+   * Active categories offered to the AI: system defaults plus the user's own
+   */
   private async getUserCategories(userId?: string): Promise<Category[]> {
-    if (!userId) {
-      return this.categoryRepository.find({
-        where: { is_active: true },
-        order: { sort_order: 'ASC' },
-      });
+    const query = this.categoryRepository
+      .createQueryBuilder('category')
+      .where('category.is_active = :active', { active: true });
+
+    if (userId) {
+      query.andWhere(
+        '(category.user_id = :userId OR category.user_id IS NULL)',
+        { userId },
+      );
+    } else {
+      query.andWhere('category.user_id IS NULL');
     }
 
-    // Get categories used by this user's dumps
-    const categories = await this.categoryRepository
-      .createQueryBuilder('category')
-      .innerJoin('category.dumps', 'dump')
-      .where('dump.user_id = :userId', { userId })
-      .andWhere('category.is_active = :active', { active: true })
-      .groupBy('category.id')
-      .orderBy('COUNT(dump.id)', 'DESC')
-      .addOrderBy('category.sort_order', 'ASC')
+    return query
+      .orderBy('category.sort_order', 'ASC')
+      .addOrderBy('category.name', 'ASC')
       .getMany();
-
-    return categories;
   }
 
   private async getAiCategorization(
@@ -397,19 +529,30 @@ export class CategorizationService {
     existingCategories: Category[],
   ): Promise<Omit<CategorizationResult, 'autoApplied'>> {
     const categoryNames = existingCategories.map((c) => c.name);
+    const examples = await this.findCorrectionExamples(request);
 
     // Create enhanced prompt for AI categorization
-    const prompt = this.buildCategorizationPrompt(request, categoryNames);
+    const prompt = await this.buildCategorizationPrompt(
+      request,
+      categoryNames,
+      examples,
+    );
 
     const analysis = await this.claudeService.analyzeContent({
-      content: prompt,
+      content: prompt.text,
       contentType: 'text',
       context: {
         source: request.context?.source || 'telegram',
         userId: request.userId || 'unknown',
         timestamp: request.context?.timestamp || new Date(),
       },
+      operation: 'categorization',
+      prompt: { key: prompt.key, version: prompt.version },
     });
+    // A placeholder analysis would suggest "general"; keyword matching does better
+    if (analysis.fallback) {
+      throw new Error('AI analysis unavailable');
+    }
 
     // Parse AI response and create suggestions
     const primaryCategory = await this.parseAiCategory(
@@ -427,9 +570,36 @@ export class CategorizationService {
       alternativeCategories,
       confidence: analysis.confidence,
       reasoning: analysis.summary,
+      fewShotExamples: examples.length,
+      prompt: analysis.prompt,
     };
   }
 
+  /**
+   * The user's past corrections of similar content, used as few-shot
+   * examples. Categorization works without them, so failures are non-fatal.
+   */
+  private async findCorrectionExamples(
+    request: CategorizationRequest,
+  ): Promise<CorrectionExample[]> {
+    if (!request.userId) {
+      return [];
+    }
+
+    try {
+      const { embedding } = await this.vectorService.generateEmbedding({
+        text: request.content,
+      });
+      return await this.categoryCorrectionService.findSimilarCorrections(
+        request.userId,
+        embedding,
+      );
+    } catch (error) {
+      this.logger.warn(`Correction examples unavailable: ${error.message}`);
+      return [];
+    }
+  }
+
   private async enhanceWithRules(
     request: CategorizationRequest,
     aiResult: Omit<CategorizationResult, 'autoApplied'>,
@@ -450,6 +620,7 @@ export class CategorizationService {
           ],
           confidence: Math.max(topKeywordMatch.confidence, aiResult.confidence),
           reasoning: `Keyword-based override: ${topKeywordMatch.reasoning}`,
+          fewShotExamples: aiResult.fewShotExamples,
         };
       }
     }
@@ -506,18 +677,28 @@ export class CategorizationService {
   private buildCategorizationPrompt(
     request: CategorizationRequest,
     existingCategories: string[],
-  ): string {
-    return `
-      Content to categorize: "${request.content}"
-      Content type: ${request.contentType || 'unknown'}
-      Source: ${request.context?.source || 'unknown'}
-      
-      Existing categories: ${existingCategories.join(', ')}
-      
-      Please categorize this content. If it fits an existing category, use that. 
-      If not, suggest a new appropriate category name.
-      Consider the content type and context when categorizing.
-    `;
+    examples: CorrectionExample[] = [],
+  ): Promise<RenderedPrompt> {
+    const corrections = examples.map(
+      (example) =>
+        `      - "${example.content}" -> ${example.category}` +
+        (example.previousCategory ? ` (not ${example.previousCategory})` : ''),
+    );
+    const correctionSection = corrections.length
+      ? `
+      The user corrected the category of similar content before:
+${corrections.join('\n')}
+      Follow these corrections when the content is alike.
+      `
+      : '';
+
+    return this.promptRegistry.render('categorization', {
+      content: request.content,
+      contentType: request.contentType || 'unknown',
+      source: request.context?.source || 'unknown',
+      categories: existingCategories.join(', '),
+      corrections: correctionSection,
+    });
   }
 
   private async parseAiCategory(
@@ -687,10 +868,11 @@ export class CategorizationService {
     return colors[Math.floor(Math.random() * colors.length)];
   }
 
-  private async getNextSortOrder(): Promise<number> {
+  private async getNextSortOrder(userId: string): Promise<number> {
     const result = await this.categoryRepository
       .createQueryBuilder('category')
       .select('MAX(category.sort_order)', 'maxOrder')
+      .where('category.user_id = :userId', { userId })
       .getRawOne();
 
     return (result?.maxOrder || 0) + 1;
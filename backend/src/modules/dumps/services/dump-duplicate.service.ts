@@ -0,0 +1,320 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { Dump, ExtractedEntitiesData } from '../../../entities/dump.entity';
+import { Reminder } from '../../../entities/reminder.entity';
+import { TrackableItem } from '../../../entities/trackable-item.entity';
+import { Task } from '../../../entities/task.entity';
+import { SemanticSearchService } from '../../search/semantic-search.service';
+import { DumpRevisionService, RevisionAuthor } from './dump-revision.service';
+
+export interface DuplicateCandidate {
+  dumpId: string;
+  similarity: number;
+  summary: string;
+}
+
+export interface DumpMergeResult {
+  dump: Dump;
+  mergedDumpIds: string[];
+  movedReminders: number;
+  movedTrackableItems: number;
+  movedTasks: number;
+}
+
+type EntityListKey = Exclude<
+  keyof NonNullable<ExtractedEntitiesData['entities']>,
+  'contacts'
+>;
+
+const ENTITY_LIST_KEYS: EntityListKey[] = [
+  'dates',
+  'times',
+  'locations',
+  'people',
+  'organizations',
+  'amounts',
+];
+
+/**
+ * DumpDuplicateService
+ * Flags new dumps that look like a duplicate of a recent one and merges
+ * duplicates into a single dump.
+ *
+ * Absorbed dumps are soft-deleted with merged_into_id pointing at the dump
+ * that absorbed them, so the link survives the merge.
+ */
+@Injectable()
+export class DumpDuplicateService {
+  private readonly logger = new Logger(DumpDuplicateService.name);
+  private readonly similarityThreshold: number;
+  private readonly windowDays: number;
+
+  constructor(
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly semanticSearchService: SemanticSearchService,
+    private readonly dumpRevisionService: DumpRevisionService,
+    private readonly configService: ConfigService,
+  ) {
+    this.similarityThreshold = Number(
+      this.configService.get<string>('DUPLICATE_SIMILARITY_THRESHOLD') || 0.9,
+    );
+    this.windowDays = Number(
+      this.configService.get<string>('DUPLICATE_WINDOW_DAYS') || 14,
+    );
+  }
+
+  /**
+   * Score a freshly processed dump against the user's recent dumps and
+   * record the closest match in metadata.duplicateOf.
+   * Never throws: a failed check only means no duplicate prompt.
+   */
+  async detectDuplicate(dump: Dump): Promise<DuplicateCandidate | null> {
+    try {
+      const createdAfter = new Date(
+        Date.now() - this.windowDays * 24 * 60 * 60 * 1000,
+      );
+      const match = await this.semanticSearchService.findNearDuplicate(
+        dump.id,
+        dump.user_id,
+        { createdAfter, minSimilarity: this.similarityThreshold },
+      );
+      if (!match) {
+        return null;
+      }
+
+      const candidate: DuplicateCandidate = {
+        ...match,
+        similarity: Math.round(match.similarity * 100) / 100,
+      };
+
+      dump.extracted_entities = {
+        ...dump.extracted_entities,
+        metadata: {
+          ...dump.extracted_entities?.metadata,
+          duplicateOf: {
+            dumpId: candidate.dumpId,
+            similarity: candidate.similarity,
+          },
+        },
+      };
+      await this.dumpRepository.update(dump.id, {
+        extracted_entities: dump.extracted_entities,
+      } as QueryDeepPartialEntity<Dump>);
+
+      this.logger.log(
+        `Dump ${dump.id} looks like a duplicate of ${candidate.dumpId} (similarity ${candidate.similarity})`,
+      );
+      return candidate;
+    } catch (error) {
+      this.logger.warn(
+        `Duplicate check failed for dump ${dump.id}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Most recent dump of the user that was flagged as a duplicate in the last day
+   */
+  async findPendingDuplicate(userId: string): Promise<Dump | null> {
+    return this.dumpRepository
+      .createQueryBuilder('dump')
+      .where('dump.user_id = :userId', { userId })
+      .andWhere(
+        "dump.extracted_entities -> 'metadata' -> 'duplicateOf' IS NOT NULL",
+      )
+      .andWhere("dump.created_at >= NOW() - INTERVAL '1 day'")
+      .orderBy('dump.created_at', 'DESC')
+      .getOne();
+  }
+
+  /**
+   * Merge dumps into a target dump: entities are combined, reminders and
+   * tracked items move to the target, and the absorbed dumps are hidden
+   * behind a link to the target
+   */
+  async mergeDumps(
+    targetId: string,
+    sourceIds: string[],
+    author: RevisionAuthor,
+  ): Promise<DumpMergeResult> {
+    if (sourceIds.length === 0 || sourceIds.includes(targetId)) {
+      throw new BadRequestException(
+        'Provide at least one dump to merge, other than the target',
+      );
+    }
+
+    const target = await this.dumpRepository.findOne({
+      where: { id: targetId },
+    });
+    if (!target) {
+      throw new NotFoundException(`Dump with ID ${targetId} not found`);
+    }
+
+    const sources = await this.dumpRepository.find({
+      where: { id: In(sourceIds), user_id: target.user_id },
+    });
+    if (sources.length !== new Set(sourceIds).size) {
+      throw new NotFoundException('One or more dumps to merge were not found');
+    }
+
+    await this.dumpRevisionService.ensureBaseline(target);
+
+    const mergedIds = sources.map((source) => source.id);
+    target.extracted_entities = this.mergeEntities(target, sources);
+
+    let movedReminders = 0;
+    let movedTrackableItems = 0;
+    let movedTasks = 0;
+
+    await this.dumpRepository.manager.transaction(async (manager) => {
+      const reminders = await manager.update(
+        Reminder,
+        { dump_id: In(mergedIds) },
+        { dump_id: target.id },
+      );
+      const trackableItems = await manager.update(
+        TrackableItem,
+        { dump_id: In(mergedIds) },
+        { dump_id: target.id },
+      );
+      // Tasks of a deleted dump are hidden, so they must not stay behind
+      const tasks = await manager.update(
+        Task,
+        { dump_id: In(mergedIds) },
+        { dump_id: target.id },
+      );
+      movedReminders = reminders.affected || 0;
+      movedTrackableItems = trackableItems.affected || 0;
+      movedTasks = tasks.affected || 0;
+
+      await manager.update(Dump, target.id, {
+        extracted_entities: target.extracted_entities,
+      } as QueryDeepPartialEntity<Dump>);
+
+      // The merged dump keeps every tag of the dumps it absorbs
+      await manager.query(
+        `INSERT INTO dump_tags (dump_id, tag_id, source)
+         SELECT $1, tag_id, source FROM dump_tags WHERE dump_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [target.id, mergedIds],
+      );
+
+      // Dumps absorbed earlier by a source now point at the target
+      await manager
+        .createQueryBuilder()
+        .update(Dump)
+        .set({ merged_into_id: target.id })
+        .where('merged_into_id IN (:...mergedIds) OR id IN (:...mergedIds)', {
+          mergedIds,
+        })
+        .execute();
+      await manager.softDelete(Dump, { id: In(mergedIds) });
+    });
+
+    await this.dumpRevisionService.recordRevision(
+      target,
+      author,
+      `Merged ${mergedIds.length} duplicate dump${mergedIds.length === 1 ? '' : 's'}`,
+    );
+
+    this.logger.log(
+      `Merged dumps ${mergedIds.join(', ')} into ${target.id} (${movedReminders} reminders, ${movedTrackableItems} tracked items, ${movedTasks} tasks moved)`,
+    );
+
+    return {
+      dump: target,
+      mergedDumpIds: mergedIds,
+      movedReminders,
+      movedTrackableItems,
+      movedTasks,
+    };
+  }
+
+  async listMergedDumps(targetId: string): Promise<Dump[]> {
+    return this.dumpRepository.find({
+      where: { merged_into_id: targetId },
+      order: { created_at: 'ASC' },
+      withDeleted: true,
+    });
+  }
+
+  private mergeEntities(target: Dump, sources: Dump[]): ExtractedEntitiesData {
+    const merged: ExtractedEntitiesData = {
+      ...target.extracted_entities,
+    };
+    const all = [target, ...sources].map((d) => d.extracted_entities || {});
+
+    const entities = all
+      .map((e) => e.entities)
+      .filter((e): e is NonNullable<ExtractedEntitiesData['entities']> => !!e);
+    if (entities.length > 0) {
+      const unique = (values: string[][]) => [...new Set(values.flat())];
+      merged.entities = {
+        ...ENTITY_LIST_KEYS.reduce(
+          (acc, key) => ({
+            ...acc,
+            [key]: unique(entities.map((e) => e[key] || [])),
+          }),
+          {} as Record<EntityListKey, string[]>,
+        ),
+        contacts: {
+          phones: unique(entities.map((e) => e.contacts?.phones || [])),
+          emails: unique(entities.map((e) => e.contacts?.emails || [])),
+          urls: unique(entities.map((e) => e.contacts?.urls || [])),
+        },
+      };
+    }
+
+    const seenDetails = new Set<string>();
+    const entityDetails = all
+      .flatMap((e) => e.entityDetails || [])
+      .filter((detail) => {
+        const key = `${detail.type}:${String(detail.value).toLowerCase()}`;
+        if (seenDetails.has(key)) {
+          return false;
+        }
+        seenDetails.add(key);
+        return true;
+      });
+    if (entityDetails.length > 0) {
+      merged.entityDetails = entityDetails;
+    }
+
+    const actionItems = [...new Set(all.flatMap((e) => e.actionItems || []))];
+    if (actionItems.length > 0) {
+      merged.actionItems = actionItems;
+    }
+
+    // Keep the media and origin of every absorbed dump on the target
+    const metadata = { ...target.extracted_entities?.metadata };
+    if (
+      metadata.duplicateOf &&
+      sources.some((s) => s.id === metadata.duplicateOf.dumpId)
+    ) {
+      delete metadata.duplicateOf;
+    }
+    metadata.mergedFrom = [
+      ...(metadata.mergedFrom || []),
+      ...sources.map((source) => ({
+        dumpId: source.id,
+        contentType: source.content_type,
+        source: source.extracted_entities?.metadata?.source,
+        mediaUrl: source.media_url || null,
+        mergedAt: new Date().toISOString(),
+      })),
+    ];
+    merged.metadata = metadata;
+
+    return merged;
+  }
+}
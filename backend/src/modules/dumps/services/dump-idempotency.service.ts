@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { Dump } from '../../../entities/dump.entity';
+import { RedisService } from '../../../shared/redis.service';
+import type { CreateDumpRequest } from './dump.service';
+
+const KEY_PREFIX = 'dump-ingest:';
+// Telegram and Twilio give up retrying well within a day
+const KEY_TTL_SECONDS = 24 * 60 * 60;
+const UNIQUE_INDEX = 'UQ_dumps_ingestion_key';
+
+/**
+ * DumpIdempotencyService
+ * Recognizes webhook redeliveries so one channel message yields one dump.
+ *
+ * Dumps from the bots and email carry an ingestion key built from the
+ * channel's message id. A unique index on dumps.ingestion_key is the
+ * guarantee; Redis remembers recent keys so most retries skip the database.
+ */
+@Injectable()
+export class DumpIdempotencyService {
+  constructor(
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly redisService?: RedisService,
+  ) {}
+
+  /**
+   * Key for the message a request came from, or null when the channel gave
+   * no message id (API uploads)
+   */
+  buildKey(request: CreateDumpRequest): string | null {
+    const metadata = request.metadata;
+    if (!metadata?.messageId || metadata.source === 'api') {
+      return null;
+    }
+
+    const parts = [
+      metadata.source,
+      metadata.chatId || request.userId,
+      // A redelivered album photo must find the album's dump, not its own
+      metadata.mediaGroupId
+        ? `album-${metadata.mediaGroupId}`
+        : metadata.messageId,
+    ];
+    // An email becomes one dump per attachment, and a phone names every
+    // photo image.jpg, so the position tells them apart
+    if (metadata.attachmentIndex !== undefined) {
+      parts.push(`${metadata.attachmentIndex}-${metadata.fileName || ''}`);
+    } else if (metadata.fileName) {
+      parts.push(metadata.fileName);
+    }
+
+    return parts.join(':').substring(0, 500);
+  }
+
+  /**
+   * Dump already created for this key, trashed ones included
+   */
+  async findExisting(key: string): Promise<Dump | null> {
+    if (this.redisService && this.redisService.isAvailable()) {
+      const dumpId = await this.redisService.get(`${KEY_PREFIX}${key}`);
+      if (dumpId) {
+        const cached = await this.dumpRepository.findOne({
+          where: { id: dumpId },
+          relations: ['category'],
+          withDeleted: true,
+        });
+        if (cached) {
+          return cached;
+        }
+      }
+    }
+
+    const dump = await this.dumpRepository.findOne({
+      where: { ingestion_key: key },
+      relations: ['category'],
+      withDeleted: true,
+    });
+    if (dump) {
+      await this.remember(key, dump.id);
+    }
+    return dump;
+  }
+
+  async remember(key: string, dumpId: string): Promise<void> {
+    if (this.redisService && this.redisService.isAvailable()) {
+      await this.redisService.setEx(
+        `${KEY_PREFIX}${key}`,
+        KEY_TTL_SECONDS,
+        dumpId,
+      );
+    }
+  }
+
+  /**
+   * Whether a failed insert lost the race against a concurrent delivery
+   */
+  isDuplicateKeyError(error: unknown): boolean {
+    if (!(error instanceof QueryFailedError)) {
+      return false;
+    }
+
+    const driverError = error.driverError as {
+      code?: string;
+      constraint?: string;
+    };
+    return (
+      driverError?.code === '23505' && driverError.constraint === UNIQUE_INDEX
+    );
+  }
+}
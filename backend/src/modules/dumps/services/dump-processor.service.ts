@@ -0,0 +1,166 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  DumpService,
+  DumpPipelineError,
+  type DumpProcessingResult,
+} from './dump.service';
+import { DumpQueueService, QueuedDumpJob } from './dump-queue.service';
+import { Dump } from '../../../entities/dump.entity';
+import type { DumpJobPayload } from '../../../entities/dump-job.entity';
+
+export interface DumpProcessedEvent {
+  result: DumpProcessingResult;
+  userId: string;
+  source?: 'telegram' | 'whatsapp' | 'email' | 'api';
+  chatId?: string;
+  messageId?: string;
+  // The dump had failed before and the recovery job got it through
+  recovered?: boolean;
+}
+
+export interface DumpFailedEvent {
+  dump: Dump;
+  error: string;
+  userId: string;
+  source?: 'telegram' | 'whatsapp' | 'email' | 'api';
+  chatId?: string;
+  messageId?: string;
+}
+
+/**
+ * DumpProcessorService
+ * Worker that drains the dump queue and runs the processing pipeline.
+ *
+ * Emits 'dump.processed' when a dump completes and 'dump.failed' when it is
+ * dead-lettered, so the ingestion channel can reply to the user. Jobs stopped
+ * by an open AI circuit breaker are postponed until it lets calls through.
+ */
+@Injectable()
+export class DumpProcessorService {
+  private readonly logger = new Logger(DumpProcessorService.name);
+  private readonly batchSize = 5;
+  private isRunning = false;
+
+  constructor(
+    private readonly dumpService: DumpService,
+    private readonly dumpQueueService: DumpQueueService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  @Interval('dump-queue-worker', 2000)
+  async drainQueue(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      for (let i = 0; i < this.batchSize; i++) {
+        const job = await this.dumpQueueService.claimNext();
+        if (!job) {
+          break;
+        }
+        await this.processJob(job);
+      }
+    } catch (error) {
+      this.logger.error('Dump queue worker failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async processJob(job: QueuedDumpJob): Promise<void> {
+    this.logger.log(
+      `Processing dump ${job.dumpId} from step ${job.step} (attempt ${job.attempts + 1})`,
+    );
+
+    const payload: DumpJobPayload = job.payload || {};
+
+    try {
+      const result = await this.dumpService.processDump(job.dumpId, {
+        fromStep: job.step,
+        mediaBuffer: payload.mediaBase64
+          ? Buffer.from(payload.mediaBase64, 'base64')
+          : undefined,
+        extraPages: payload.extraPagesBase64?.map((page) =>
+          Buffer.from(page, 'base64'),
+        ),
+        reprocess: payload.reprocess,
+      });
+
+      await this.dumpQueueService.complete(job);
+      if (payload.reprocess || result.skipped) {
+        return;
+      }
+
+      const metadata = result.dump.extracted_entities?.metadata || {};
+      const event: DumpProcessedEvent = {
+        result,
+        userId: result.dump.user_id,
+        source: metadata.source,
+        chatId: metadata.chatId,
+        messageId: metadata.messageId,
+        recovered: payload.recoveredFrom === 'failed',
+      };
+      this.eventEmitter.emit('dump.processed', event);
+    } catch (error) {
+      // The dump was trashed or purged while it waited: nothing to process
+      // and no one to tell
+      if (error instanceof NotFoundException) {
+        this.logger.warn(`Dropping job ${job.id}: dump ${job.dumpId} is gone`);
+        await this.dumpQueueService.complete(job);
+        return;
+      }
+
+      const message = (error as Error).message;
+      // Retry from the step that failed; attempts are counted per step
+      const failedStep =
+        error instanceof DumpPipelineError ? error.step : job.step;
+      const retryJob =
+        failedStep === job.step
+          ? job
+          : { ...job, step: failedStep, attempts: 0 };
+
+      // An AI service is down: wait for its breaker instead of using up attempts
+      const outage =
+        error instanceof DumpPipelineError ? error.serviceUnavailable : null;
+      if (outage) {
+        await this.dumpService.deferDump(job.dumpId, outage);
+        await this.dumpQueueService.postpone(retryJob, outage.retryAt, message);
+        return;
+      }
+
+      const willRetry = await this.dumpQueueService.retry(retryJob, message);
+      if (willRetry) {
+        return;
+      }
+
+      let failedDump: Dump;
+      try {
+        failedDump = await this.dumpService.markDumpFailed(job.dumpId, message);
+      } catch (markError) {
+        // Trashed since the attempt began; the job is already dead-lettered
+        this.logger.warn(
+          `Could not mark dump ${job.dumpId} failed: ${(markError as Error).message}`,
+        );
+        return;
+      }
+      // The user was already told about the first failure
+      if (payload.reprocess || payload.recoveredFrom === 'failed') {
+        return;
+      }
+      const metadata = failedDump.extracted_entities?.metadata || {};
+      const event: DumpFailedEvent = {
+        dump: failedDump,
+        error: message,
+        userId: failedDump.user_id,
+        source: metadata.source,
+        chatId: metadata.chatId,
+        messageId: metadata.messageId,
+      };
+      this.eventEmitter.emit('dump.failed', event);
+    }
+  }
+}
@@ -0,0 +1,429 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThanOrEqual, Repository } from 'typeorm';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
+import {
+  DumpJob,
+  DumpJobStatus,
+  type DumpJobPayload,
+} from '../../../entities/dump-job.entity';
+import { Dump } from '../../../entities/dump.entity';
+import { RedisService } from '../../../shared/redis.service';
+
+export type DumpPipelineStep =
+  | 'extract'
+  | 'analyze'
+  | 'entities'
+  | 'categorize'
+  | 'embed';
+
+export const DUMP_PIPELINE_STEPS: DumpPipelineStep[] = [
+  'extract',
+  'analyze',
+  'entities',
+  'categorize',
+  'embed',
+];
+
+export interface QueuedDumpJob {
+  id: string;
+  dumpId: string;
+  step: DumpPipelineStep;
+  attempts: number;
+  runAt: number;
+  // When the job was added to the queue; missing on Redis jobs queued
+  // before it was recorded
+  queuedAt?: number;
+  lastError?: string;
+  backend: 'redis' | 'postgres';
+  payload?: DumpJobPayload;
+  // Entry as claimed into the Redis processing list, to release it by
+  claimedEntry?: string;
+}
+
+const READY_KEY = 'dump-queue:ready';
+const DELAYED_KEY = 'dump-queue:delayed';
+const DEAD_KEY = 'dump-queue:dead';
+// Claimed jobs stay here, with a lease in LEASES_KEY, until they finish
+const PROCESSING_KEY = 'dump-queue:processing';
+const LEASES_KEY = 'dump-queue:leases';
+
+/**
+ * DumpQueueService
+ * Persistent job queue for the dump processing pipeline.
+ *
+ * Jobs go to Redis when it is available (ready list + delayed sorted set for
+ * retries) and to the dump_jobs table otherwise. Workers drain both, so jobs
+ * queued during a Redis outage are still picked up. A claimed job is only
+ * removed once it finishes; if its worker dies, the job is queued again when
+ * the visibility timeout passes.
+ */
+@Injectable()
+export class DumpQueueService {
+  private readonly logger = new Logger(DumpQueueService.name);
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly visibilityTimeoutMs: number;
+
+  constructor(
+    @InjectRepository(DumpJob)
+    private readonly jobRepository: Repository<DumpJob>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly configService: ConfigService,
+    private readonly redisService?: RedisService,
+  ) {
+    this.maxAttempts = Number.parseInt(
+      this.configService.get<string>('DUMP_QUEUE_MAX_ATTEMPTS') || '3',
+      10,
+    );
+    this.backoffBaseMs = Number.parseInt(
+      this.configService.get<string>('DUMP_QUEUE_BACKOFF_MS') || '5000',
+      10,
+    );
+    this.visibilityTimeoutMs = Number.parseInt(
+      this.configService.get<string>('DUMP_QUEUE_VISIBILITY_TIMEOUT_MS') ||
+        '900000',
+      10,
+    );
+  }
+
+  /**
+   * Add a dump to the queue, starting at the given pipeline step
+   */
+  async enqueue(
+    dumpId: string,
+    step: DumpPipelineStep = 'extract',
+    payload?: DumpJobPayload,
+  ): Promise<QueuedDumpJob> {
+    if (this.redisService && this.redisService.isAvailable()) {
+      const now = Date.now();
+      const job: QueuedDumpJob = {
+        id: randomUUID(),
+        dumpId,
+        step,
+        attempts: 0,
+        runAt: now,
+        queuedAt: now,
+        backend: 'redis',
+        payload,
+      };
+      const pushed = await this.redisService.lPush(
+        READY_KEY,
+        JSON.stringify(job),
+      );
+      if (pushed !== null) {
+        await this.markQueued(dumpId, new Date(now));
+        this.logger.log(`Queued dump ${dumpId} at step ${step} (redis)`);
+        return job;
+      }
+      this.logger.warn('Redis enqueue failed, falling back to Postgres');
+    }
+
+    const saved = await this.jobRepository.save(
+      this.jobRepository.create({
+        dump_id: dumpId,
+        step,
+        status: DumpJobStatus.PENDING,
+        attempts: 0,
+        run_at: new Date(),
+        payload: payload || null,
+      }),
+    );
+    await this.markQueued(dumpId, saved.created_at);
+    this.logger.log(`Queued dump ${dumpId} at step ${step} (postgres)`);
+
+    return this.toQueuedJob(saved);
+  }
+
+  /**
+   * Claim the next due job, preferring Redis over the Postgres fallback
+   */
+  async claimNext(): Promise<QueuedDumpJob | null> {
+    const redisJob = await this.claimFromRedis();
+    if (redisJob) {
+      return redisJob;
+    }
+    return this.claimFromPostgres();
+  }
+
+  async complete(job: QueuedDumpJob): Promise<void> {
+    if (job.backend === 'postgres') {
+      await this.jobRepository.update(job.id, {
+        status: DumpJobStatus.COMPLETED,
+        step: job.step,
+        last_error: null,
+      });
+    } else {
+      await this.release(job);
+    }
+    await this.clearQueued(job);
+  }
+
+  /**
+   * Schedule another attempt of the job's current step with exponential backoff.
+   * Returns false when the job ran out of attempts and was dead-lettered.
+   */
+  async retry(job: QueuedDumpJob, error: string): Promise<boolean> {
+    const attempts = job.attempts + 1;
+
+    if (attempts >= this.maxAttempts) {
+      await this.deadLetter({ ...job, attempts }, error);
+      return false;
+    }
+
+    const delayMs = this.backoffBaseMs * 2 ** (attempts - 1);
+    const next: QueuedDumpJob = {
+      ...job,
+      attempts,
+      lastError: error,
+      runAt: Date.now() + delayMs,
+    };
+
+    if (job.backend === 'redis') {
+      await this.redisService?.zAdd(
+        DELAYED_KEY,
+        next.runAt,
+        this.serialize(next),
+      );
+      await this.release(job);
+    } else {
+      await this.jobRepository.update(job.id, {
+        status: DumpJobStatus.PENDING,
+        step: job.step,
+        attempts,
+        last_error: error,
+        run_at: new Date(next.runAt),
+      });
+    }
+
+    this.logger.warn(
+      `Dump ${job.dumpId} step ${job.step} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${delayMs}ms: ${error}`,
+    );
+    return true;
+  }
+
+  /**
+   * Put the job back until runAt without using up an attempt, for outages
+   * that retrying sooner cannot fix (an AI service with its breaker open)
+   */
+  async postpone(
+    job: QueuedDumpJob,
+    runAt: Date,
+    reason: string,
+  ): Promise<void> {
+    const next: QueuedDumpJob = {
+      ...job,
+      lastError: reason,
+      runAt: runAt.getTime(),
+    };
+
+    if (job.backend === 'redis') {
+      await this.redisService?.zAdd(
+        DELAYED_KEY,
+        next.runAt,
+        this.serialize(next),
+      );
+      await this.release(job);
+    } else {
+      await this.jobRepository.update(job.id, {
+        status: DumpJobStatus.PENDING,
+        step: job.step,
+        last_error: reason,
+        run_at: runAt,
+      });
+    }
+
+    this.logger.warn(
+      `Dump ${job.dumpId} step ${job.step} postponed until ${runAt.toISOString()}: ${reason}`,
+    );
+  }
+
+  private async deadLetter(job: QueuedDumpJob, error: string): Promise<void> {
+    if (job.backend === 'redis') {
+      await this.redisService?.lPush(
+        DEAD_KEY,
+        JSON.stringify({
+          ...job,
+          claimedEntry: undefined,
+          lastError: error,
+          failedAt: Date.now(),
+        }),
+      );
+      await this.release(job);
+    } else {
+      await this.jobRepository.update(job.id, {
+        status: DumpJobStatus.DEAD,
+        step: job.step,
+        attempts: job.attempts,
+        last_error: error,
+      });
+    }
+
+    await this.clearQueued(job);
+
+    this.logger.error(
+      `Dump ${job.dumpId} dead-lettered at step ${job.step} after ${job.attempts} attempts: ${error}`,
+    );
+  }
+
+  private async claimFromRedis(): Promise<QueuedDumpJob | null> {
+    if (!this.redisService || !this.redisService.isAvailable()) {
+      return null;
+    }
+
+    await this.requeueExpiredClaims();
+
+    // Promote delayed retries that are due. zRem decides which worker wins.
+    const due = await this.redisService.zRangeByScore(
+      DELAYED_KEY,
+      0,
+      Date.now(),
+    );
+    for (const raw of due) {
+      if ((await this.redisService.zRem(DELAYED_KEY, raw)) === 1) {
+        await this.redisService.lPush(READY_KEY, raw);
+      }
+    }
+
+    const raw = await this.redisService.lMove(READY_KEY, PROCESSING_KEY);
+    if (!raw) {
+      return null;
+    }
+
+    try {
+      const job = JSON.parse(raw) as QueuedDumpJob;
+      await this.redisService.zAdd(
+        LEASES_KEY,
+        Date.now() + this.visibilityTimeoutMs,
+        raw,
+      );
+      return { ...job, claimedEntry: raw };
+    } catch (error) {
+      this.logger.error(`Discarding malformed queue entry: ${raw}`, error);
+      await this.redisService.lRem(PROCESSING_KEY, 1, raw);
+      return null;
+    }
+  }
+
+  /**
+   * Put jobs whose worker did not finish within the visibility timeout back
+   * on the ready list. zRem decides which worker requeues an entry.
+   */
+  private async requeueExpiredClaims(): Promise<void> {
+    if (!this.redisService) {
+      return;
+    }
+
+    const expired = await this.redisService.zRangeByScore(
+      LEASES_KEY,
+      0,
+      Date.now(),
+    );
+    for (const raw of expired) {
+      if (
+        (await this.redisService.zRem(LEASES_KEY, raw)) === 1 &&
+        (await this.redisService.lRem(PROCESSING_KEY, 1, raw)) > 0
+      ) {
+        await this.redisService.lPush(READY_KEY, raw);
+        this.logger.warn(`Requeued abandoned job: ${raw.substring(0, 200)}`);
+      }
+    }
+  }
+
+  /**
+   * Drop a finished Redis job from the processing list and its lease
+   */
+  private async release(job: QueuedDumpJob): Promise<void> {
+    if (!this.redisService || !job.claimedEntry) {
+      return;
+    }
+    await this.redisService.lRem(PROCESSING_KEY, 1, job.claimedEntry);
+    await this.redisService.zRem(LEASES_KEY, job.claimedEntry);
+  }
+
+  /**
+   * Record on the dump that a job for it is in the queue, which the
+   * recovery job cannot see for Redis jobs
+   */
+  private async markQueued(dumpId: string, queuedAt: Date): Promise<void> {
+    await this.dumpRepository.update(dumpId, { queued_at: queuedAt });
+  }
+
+  /**
+   * Clear the dump's queued_at once its job is done, unless a job queued
+   * after this one is still waiting
+   */
+  private async clearQueued(job: QueuedDumpJob): Promise<void> {
+    await this.dumpRepository.update(
+      job.queuedAt
+        ? { id: job.dumpId, queued_at: LessThanOrEqual(new Date(job.queuedAt)) }
+        : { id: job.dumpId },
+      { queued_at: null },
+    );
+  }
+
+  /**
+   * Claims older than this were abandoned by a worker that died
+   */
+  staleClaimCutoff(): Date {
+    return new Date(Date.now() - this.visibilityTimeoutMs);
+  }
+
+  private serialize(job: QueuedDumpJob): string {
+    return JSON.stringify({ ...job, claimedEntry: undefined });
+  }
+
+  private async claimFromPostgres(): Promise<QueuedDumpJob | null> {
+    // Jobs left running by a worker that died go back to pending
+    const reset = await this.jobRepository
+      .createQueryBuilder()
+      .update(DumpJob)
+      .set({ status: DumpJobStatus.PENDING })
+      .where('status = :running', { running: DumpJobStatus.RUNNING })
+      .andWhere('updated_at < :staleBefore', {
+        staleBefore: this.staleClaimCutoff(),
+      })
+      .execute();
+    if (reset.affected) {
+      this.logger.warn(`Reset ${reset.affected} abandoned running job(s)`);
+    }
+
+    return this.jobRepository.manager.transaction(async (manager) => {
+      const job = await manager
+        .getRepository(DumpJob)
+        .createQueryBuilder('job')
+        .where('job.status = :status', { status: DumpJobStatus.PENDING })
+        .andWhere('job.run_at <= :now', { now: new Date() })
+        .orderBy('job.run_at', 'ASC')
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getOne();
+
+      if (!job) {
+        return null;
+      }
+
+      await manager
+        .getRepository(DumpJob)
+        .update(job.id, { status: DumpJobStatus.RUNNING });
+
+      return this.toQueuedJob(job);
+    });
+  }
+
+  private toQueuedJob(job: DumpJob): QueuedDumpJob {
+    return {
+      id: job.id,
+      dumpId: job.dump_id,
+      step: job.step as DumpPipelineStep,
+      attempts: job.attempts,
+      runAt: job.run_at.getTime(),
+      queuedAt: job.created_at.getTime(),
+      lastError: job.last_error || undefined,
+      backend: 'postgres',
+      payload: job.payload || undefined,
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Brackets, Repository, SelectQueryBuilder } from 'typeorm';
+import { Dump, ProcessingStatus } from '../../../entities/dump.entity';
+import {
+  DumpQueueService,
+  DUMP_PIPELINE_STEPS,
+  type DumpPipelineStep,
+} from './dump-queue.service';
+
+export interface RecoverableDump {
+  id: string;
+  userId: string;
+  status: ProcessingStatus;
+  resumeStep: DumpPipelineStep;
+  recoveryAttempts: number;
+  lastRecoveryAt: Date | null;
+  error?: string;
+  createdAt: Date;
+}
+
+export interface DumpRecoveryResult {
+  queued: string[];
+  skipped: string[];
+}
+
+/**
+ * DumpRecoveryService
+ * Reconciles dumps the queue lost track of and re-runs their missing steps.
+ *
+ * A dump is stuck when it stayed RECEIVED or PROCESSING past the stale
+ * threshold with no queued job (enqueueing failed after the dump was saved,
+ * or the job was lost with Redis), or when it FAILED, including fallback
+ * dumps saved while the AI was down. Each recovery is counted and spaced out
+ * with exponential backoff until the attempts run out.
+ */
+@Injectable()
+export class DumpRecoveryService {
+  private readonly logger = new Logger(DumpRecoveryService.name);
+  private readonly staleMinutes: number;
+  private readonly maxAttempts: number;
+  private readonly backoffMinutes: number;
+  private readonly windowDays: number;
+  private readonly batchSize = 50;
+
+  constructor(
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly dumpQueueService: DumpQueueService,
+    private readonly configService: ConfigService,
+  ) {
+    this.staleMinutes = Number(
+      this.configService.get<string>('DUMP_RECOVERY_STALE_MINUTES') || 15,
+    );
+    this.maxAttempts = Number(
+      this.configService.get<string>('DUMP_RECOVERY_MAX_ATTEMPTS') || 5,
+    );
+    this.backoffMinutes = Number(
+      this.configService.get<string>('DUMP_RECOVERY_BACKOFF_MINUTES') || 10,
+    );
+    this.windowDays = Number(
+      this.configService.get<string>('DUMP_RECOVERY_WINDOW_DAYS') || 7,
+    );
+  }
+
+  /**
+   * Re-queue the stuck dumps that are due for another attempt
+   */
+  async recoverStuckDumps(): Promise<DumpRecoveryResult> {
+    const dumps = await this.stuckDumpsQuery(new Date())
+      .andWhere('dump.recovery_attempts < :maxAttempts', {
+        maxAttempts: this.maxAttempts,
+      })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('dump.last_recovery_at IS NULL').orWhere(
+            `dump.last_recovery_at + make_interval(mins => (:backoffMinutes * power(2, GREATEST(dump.recovery_attempts - 1, 0)))::int) <= :now`,
+            { backoffMinutes: this.backoffMinutes },
+          );
+        }),
+      )
+      .orderBy('dump.created_at', 'ASC')
+      .take(this.batchSize)
+      .getMany();
+
+    const result: DumpRecoveryResult = { queued: [], skipped: [] };
+    for (const dump of dumps) {
+      await this.requeue(dump);
+      result.queued.push(dump.id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Stuck dumps for the admin view, including old ones and the ones out of attempts
+   */
+  async listStuckDumps(limit = 100): Promise<RecoverableDump[]> {
+    const dumps = await this.stuckDumpsQuery(new Date(), false)
+      .orderBy('dump.created_at', 'DESC')
+      .take(limit)
+      .getMany();
+
+    return dumps.map((dump) => ({
+      id: dump.id,
+      userId: dump.user_id,
+      status: dump.processing_status,
+      resumeStep: this.getResumeStep(dump),
+      recoveryAttempts: dump.recovery_attempts,
+      lastRecoveryAt: dump.last_recovery_at,
+      error: dump.extracted_entities?.metadata?.error,
+      createdAt: dump.created_at,
+    }));
+  }
+
+  /**
+   * Re-queue the given dumps now, ignoring backoff and the attempt limit.
+   * Dumps that are not stuck (completed, queued or deleted) are skipped.
+   */
+  async retryDumps(dumpIds: string[]): Promise<DumpRecoveryResult> {
+    const dumps = await this.stuckDumpsQuery(new Date(), false)
+      .andWhere('dump.id IN (:...dumpIds)', { dumpIds })
+      .getMany();
+
+    const result: DumpRecoveryResult = { queued: [], skipped: [] };
+    for (const dump of dumps) {
+      await this.requeue(dump);
+      result.queued.push(dump.id);
+    }
+    result.skipped = dumpIds.filter((id) => !result.queued.includes(id));
+
+    this.logger.log(
+      `Manual retry: ${result.queued.length} dumps re-queued, ${result.skipped.length} skipped`,
+    );
+    return result;
+  }
+
+  /**
+   * First step that has not completed yet. The last step is re-run when all
+   * completed, which redoes the cheap wrap-up (tags, tasks, status).
+   */
+  getResumeStep(dump: Dump): DumpPipelineStep {
+    const completed = DUMP_PIPELINE_STEPS.indexOf(
+      dump.pipeline_step as DumpPipelineStep,
+    );
+    return DUMP_PIPELINE_STEPS[
+      Math.min(completed + 1, DUMP_PIPELINE_STEPS.length - 1)
+    ];
+  }
+
+  private async requeue(dump: Dump): Promise<void> {
+    const step = this.getResumeStep(dump);
+    const recoveredFrom =
+      dump.processing_status === ProcessingStatus.FAILED ? 'failed' : 'stuck';
+    const attempt = dump.recovery_attempts + 1;
+
+    await this.dumpRepository.update(dump.id, {
+      processing_status: ProcessingStatus.RECEIVED,
+      recovery_attempts: attempt,
+      last_recovery_at: new Date(),
+      processing_steps: [
+        ...(dump.processing_steps || []),
+        `Recovery attempt ${attempt} from ${step} (was ${recoveredFrom})`,
+      ],
+    });
+
+    await this.dumpQueueService.enqueue(dump.id, step, { recoveredFrom });
+  }
+
+  /**
+   * Dumps that failed, or sat unprocessed past the stale threshold without
+   * a job in the queue. recentOnly limits it to the recovery window.
+   */
+  private stuckDumpsQuery(
+    now: Date,
+    recentOnly = true,
+  ): SelectQueryBuilder<Dump> {
+    const staleBefore = new Date(now.getTime() - this.staleMinutes * 60 * 1000);
+
+    const query = this.dumpRepository
+      .createQueryBuilder('dump')
+      .where('dump.merged_into_id IS NULL')
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('dump.processing_status = :failed', {
+            failed: ProcessingStatus.FAILED,
+          }).orWhere(
+            new Brackets((stale) => {
+              stale
+                .where('dump.processing_status IN (:...pending)', {
+                  pending: [
+                    ProcessingStatus.RECEIVED,
+                    ProcessingStatus.PROCESSING,
+                  ],
+                })
+                // A deferred dump only counts as stale once its deferral is over
+                .andWhere(
+                  'GREATEST(dump.created_at, dump.processing_started_at, dump.last_recovery_at, dump.deferred_until) < :staleBefore',
+                  { staleBefore },
+                );
+            }),
+          );
+        }),
+      )
+      // Imported dumps wait their turn in the import worker
+      .andWhere(
+        'NOT (dump.import_job_id IS NOT NULL AND dump.processing_status = :received)',
+        { received: ProcessingStatus.RECEIVED },
+      )
+      // A queued job, waiting or claimed, still gets to it; the queue itself
+      // takes jobs back from crashed workers
+      .andWhere('dump.queued_at IS NULL')
+      .setParameter('now', now);
+
+    if (recentOnly) {
+      query.andWhere('dump.created_at >= :createdAfter', {
+        createdAfter: new Date(
+          now.getTime() - this.windowDays * 24 * 60 * 60 * 1000,
+        ),
+      });
+    }
+
+    return query;
+  }
+}
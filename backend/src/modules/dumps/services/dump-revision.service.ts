@@ -0,0 +1,231 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Dump } from '../../../entities/dump.entity';
+import {
+  DumpRevision,
+  DumpRevisionSnapshot,
+  RevisionAuthorType,
+} from '../../../entities/dump-revision.entity';
+
+export interface RevisionAuthor {
+  type: RevisionAuthorType;
+  id?: string | null;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionDiff {
+  dumpId: string;
+  fromRevision: number;
+  toRevision: number;
+  changes: RevisionFieldChange[];
+}
+
+const SNAPSHOT_FIELDS: Array<keyof DumpRevisionSnapshot> = [
+  'raw_content',
+  'ai_summary',
+  'category_id',
+  'urgency_level',
+  'ai_confidence',
+  'extracted_entities',
+];
+
+/**
+ * DumpRevisionService
+ * Keeps the revision history of dumps and computes diffs between revisions
+ */
+@Injectable()
+export class DumpRevisionService {
+  private readonly logger = new Logger(DumpRevisionService.name);
+
+  constructor(
+    @InjectRepository(DumpRevision)
+    private readonly revisionRepository: Repository<DumpRevision>,
+  ) {}
+
+  /**
+   * Record the current state of a dump as a new revision.
+   * Nothing is recorded when the state matches the latest revision.
+   */
+  async recordRevision(
+    dump: Dump,
+    author: RevisionAuthor,
+    reason?: string,
+  ): Promise<DumpRevision | null> {
+    const snapshot = this.snapshotOf(dump);
+    const latest = await this.getLatestRevision(dump.id);
+
+    const changedFields = latest
+      ? this.diffSnapshots(latest.snapshot, snapshot).map((c) => c.field)
+      : [];
+    if (latest && changedFields.length === 0) {
+      return null;
+    }
+
+    const revision = await this.revisionRepository.save(
+      this.revisionRepository.create({
+        dump_id: dump.id,
+        revision_number: (latest?.revision_number || 0) + 1,
+        author_type: author.type,
+        author_id: author.id || null,
+        snapshot,
+        changed_fields: changedFields,
+        reason: reason || null,
+      }),
+    );
+
+    this.logger.log(
+      `Recorded revision ${revision.revision_number} of dump ${dump.id} (${author.type})`,
+    );
+    return revision;
+  }
+
+  /**
+   * Record the current state as the first revision if the dump has none yet,
+   * so dumps created before revisions existed keep their original version
+   */
+  async ensureBaseline(dump: Dump): Promise<void> {
+    const count = await this.revisionRepository.count({
+      where: { dump_id: dump.id },
+    });
+    if (count === 0) {
+      await this.recordRevision(
+        dump,
+        { type: RevisionAuthorType.AI },
+        'Original version',
+      );
+    }
+  }
+
+  async listRevisions(dumpId: string): Promise<DumpRevision[]> {
+    return this.revisionRepository.find({
+      where: { dump_id: dumpId },
+      order: { revision_number: 'DESC' },
+    });
+  }
+
+  async getRevision(
+    dumpId: string,
+    revisionNumber: number,
+  ): Promise<DumpRevision> {
+    const revision = await this.revisionRepository.findOne({
+      where: { dump_id: dumpId, revision_number: revisionNumber },
+    });
+    if (!revision) {
+      throw new NotFoundException(
+        `Revision ${revisionNumber} of dump ${dumpId} not found`,
+      );
+    }
+    return revision;
+  }
+
+  async diffRevisions(
+    dumpId: string,
+    fromRevision: number,
+    toRevision: number,
+  ): Promise<RevisionDiff> {
+    const [from, to] = await Promise.all([
+      this.getRevision(dumpId, fromRevision),
+      this.getRevision(dumpId, toRevision),
+    ]);
+
+    return {
+      dumpId,
+      fromRevision,
+      toRevision,
+      changes: this.diffSnapshots(from.snapshot, to.snapshot),
+    };
+  }
+
+  snapshotOf(dump: Dump): DumpRevisionSnapshot {
+    return {
+      raw_content: dump.raw_content,
+      ai_summary: dump.ai_summary ?? null,
+      category_id: dump.category_id ?? null,
+      urgency_level: dump.urgency_level ?? null,
+      ai_confidence: dump.ai_confidence ?? null,
+      extracted_entities: dump.extracted_entities || {},
+    };
+  }
+
+  /**
+   * Field-level changes between two snapshots.
+   * extracted_entities is compared one level deep so the diff stays readable.
+   */
+  private diffSnapshots(
+    before: DumpRevisionSnapshot,
+    after: DumpRevisionSnapshot,
+  ): RevisionFieldChange[] {
+    const changes: RevisionFieldChange[] = [];
+
+    for (const field of SNAPSHOT_FIELDS) {
+      if (field === 'extracted_entities') {
+        const beforeEntities = (before.extracted_entities || {}) as Record<
+          string,
+          unknown
+        >;
+        const afterEntities = (after.extracted_entities || {}) as Record<
+          string,
+          unknown
+        >;
+        const keys = new Set([
+          ...Object.keys(beforeEntities),
+          ...Object.keys(afterEntities),
+        ]);
+        for (const key of keys) {
+          if (!this.isEqual(beforeEntities[key], afterEntities[key])) {
+            changes.push({
+              field: `extracted_entities.${key}`,
+              before: beforeEntities[key] ?? null,
+              after: afterEntities[key] ?? null,
+            });
+          }
+        }
+        continue;
+      }
+
+      if (!this.isEqual(before[field], after[field])) {
+        changes.push({
+          field,
+          before: before[field] ?? null,
+          after: after[field] ?? null,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Deep equality that ignores key order, since jsonb does not preserve it
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    return this.normalize(a) === this.normalize(b);
+  }
+
+  private normalize(value: unknown): string {
+    return JSON.stringify(value ?? null, (_key, val: unknown) =>
+      val && typeof val === 'object' && !Array.isArray(val)
+        ? Object.fromEntries(
+            Object.entries(val as Record<string, unknown>).sort(([a], [b]) =>
+              a.localeCompare(b),
+            ),
+          )
+        : val,
+    );
+  }
+
+  private async getLatestRevision(
+    dumpId: string,
+  ): Promise<DumpRevision | null> {
+    return this.revisionRepository.findOne({
+      where: { dump_id: dumpId },
+      order: { revision_number: 'DESC' },
+    });
+  }
+}
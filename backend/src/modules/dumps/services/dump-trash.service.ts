@@ -0,0 +1,164 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { Dump } from '../../../entities/dump.entity';
+import { Reminder } from '../../../entities/reminder.entity';
+import { TrackableItem } from '../../../entities/trackable-item.entity';
+import { Feedback } from '../../../entities/feedback.entity';
+import { DumpJob } from '../../../entities/dump-job.entity';
+import { Task } from '../../../entities/task.entity';
+import { MediaStorageService } from '../../storage/media-storage.service';
+
+export interface TrashPurgeResult {
+  purged: number;
+  errors: number;
+}
+
+/**
+ * DumpTrashService
+ * Soft delete, restore and permanent deletion of dumps.
+ *
+ * Trashed dumps keep their deleted_at timestamp, so TypeORM leaves them out
+ * of every repository query unless withDeleted is requested. Dumps absorbed
+ * by a merge are soft-deleted too but stay out of the trash while the dump
+ * they were merged into exists.
+ */
+@Injectable()
+export class DumpTrashService {
+  private readonly logger = new Logger(DumpTrashService.name);
+
+  constructor(
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly mediaStorageService: MediaStorageService,
+  ) {}
+
+  async moveToTrash(id: string): Promise<void> {
+    const dump = await this.dumpRepository.findOne({ where: { id } });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${id} not found`);
+    }
+
+    await this.dumpRepository.softDelete(id);
+    this.logger.log(`Moved dump ${id} to trash`);
+  }
+
+  async listTrash(userId: string): Promise<Dump[]> {
+    return this.dumpRepository.find({
+      where: {
+        user_id: userId,
+        deleted_at: Not(IsNull()),
+        merged_into_id: IsNull(),
+      },
+      relations: ['category'],
+      order: { deleted_at: 'DESC' },
+      withDeleted: true,
+    });
+  }
+
+  async restoreFromTrash(id: string): Promise<Dump> {
+    await this.findTrashedDump(id);
+    await this.dumpRepository.restore(id);
+    this.logger.log(`Restored dump ${id} from trash`);
+
+    return (await this.dumpRepository.findOne({
+      where: { id },
+      relations: ['category'],
+    })) as Dump;
+  }
+
+  async deletePermanently(id: string): Promise<void> {
+    const dump = await this.findTrashedDump(id);
+    await this.purgeDump(dump);
+  }
+
+  /**
+   * Permanently delete trashed dumps older than their owner's retention period
+   */
+  async purgeExpiredTrash(): Promise<TrashPurgeResult> {
+    const expired = await this.dumpRepository
+      .createQueryBuilder('dump')
+      .withDeleted()
+      .innerJoin('dump.user', 'user')
+      .where('dump.deleted_at IS NOT NULL')
+      .andWhere('dump.merged_into_id IS NULL')
+      .andWhere(
+        "dump.deleted_at < NOW() - (user.trash_retention_days * INTERVAL '1 day')",
+      )
+      .getMany();
+
+    let purged = 0;
+    let errors = 0;
+
+    for (const dump of expired) {
+      try {
+        await this.purgeDump(dump);
+        purged++;
+      } catch (error) {
+        this.logger.error(`Failed to purge dump ${dump.id}:`, error);
+        errors++;
+      }
+    }
+
+    return { purged, errors };
+  }
+
+  private async findTrashedDump(id: string): Promise<Dump> {
+    const dump = await this.dumpRepository.findOne({
+      where: { id, deleted_at: Not(IsNull()), merged_into_id: IsNull() },
+      withDeleted: true,
+    });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${id} not found in trash`);
+    }
+    return dump;
+  }
+
+  /**
+   * Delete a dump together with the records that reference it and the dumps
+   * merged into it, which would otherwise surface in the trash on their own.
+   * Revisions and task steps cascade in the database; feedback is kept but
+   * detached.
+   */
+  private async purgeDump(dump: Dump): Promise<void> {
+    // A merge points every absorbed dump straight at the dump it was kept in
+    const absorbed = await this.dumpRepository.find({
+      where: { merged_into_id: dump.id },
+      withDeleted: true,
+    });
+    const purgedDumps = [...absorbed, dump];
+
+    await this.dumpRepository.manager.transaction(async (manager) => {
+      for (const { id } of purgedDumps) {
+        await manager.delete(TrackableItem, { dump_id: id });
+        await manager.delete(Reminder, { dump_id: id });
+        await manager.delete(Task, { dump_id: id });
+        await manager.update(
+          Feedback,
+          { dump_id: id },
+          { dump_id: () => 'NULL' },
+        );
+        await manager.delete(DumpJob, { dump_id: id });
+        await manager.delete(Dump, { id });
+      }
+    });
+
+    const mediaKeys = new Set(
+      purgedDumps.flatMap((purged) => [
+        purged.media_url,
+        ...(purged.media_pages || []),
+      ]),
+    );
+    for (const mediaKey of mediaKeys) {
+      if (mediaKey) {
+        await this.mediaStorageService.deleteMedia(mediaKey);
+      }
+    }
+
+    this.logger.log(
+      absorbed.length > 0
+        ? `Permanently deleted dump ${dump.id} and ${absorbed.length} merged into it`
+        : `Permanently deleted dump ${dump.id}`,
+    );
+  }
+}
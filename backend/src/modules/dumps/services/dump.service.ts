@@ -1,6 +1,7 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import {
   Dump,
@@ -15,6 +16,12 @@ import {
 import { SpeechService } from '../../ai/speech.service';
 import { VisionService } from '../../ai/vision.service';
 import { VectorService } from '../../search/vector.service';
+import { AiServiceUnavailableError } from '../../ai/fallback-handler.service';
+import { runWithAiUsageScope } from '../../ai/ai-usage-scope';
+import {
+  AiBudgetExceededError,
+  AiBudgetService,
+} from '../../ai/ai-budget.service';
 import { UserService } from '../../users/user.service';
 import { DatabaseInitService } from '../../../database/database-init.service';
 import {
@@ -24,27 +31,60 @@ import {
 import { ScreenshotProcessorService } from '../../ai/screenshot-processor.service';
 import { DocumentProcessorService } from '../../ai/document-processor.service';
 import { HandwritingService } from '../../ai/handwriting.service';
+import { VideoProcessorService } from '../../ai/video-processor.service';
 import { EntityExtractionService } from '../../ai/extraction.service';
 import { CategorizationService } from './categorization.service';
 import { MetricsService } from '../../metrics/metrics.service';
 import { AIOperationType } from '../../../entities/ai-metric.entity';
 import { FeatureType } from '../../../entities/feature-usage.entity';
+import { MediaStorageService } from '../../storage/media-storage.service';
+import {
+  DumpQueueService,
+  DUMP_PIPELINE_STEPS,
+  type DumpPipelineStep,
+} from './dump-queue.service';
+import type { DumpJobPayload } from '../../../entities/dump-job.entity';
+import {
+  DumpRevisionService,
+  type RevisionAuthor,
+} from './dump-revision.service';
+import { RevisionAuthorType } from '../../../entities/dump-revision.entity';
+import {
+  DumpDuplicateService,
+  DuplicateCandidate,
+} from './dump-duplicate.service';
+import { DumpIdempotencyService } from './dump-idempotency.service';
+import { TagService } from '../../tags/tag.service';
+import { TaskService } from '../../tasks/task.service';
+import { CategoryCorrectionService } from '../../categories/category-correction.service';
+import { CorrectionSource } from '../../../entities/category-correction.entity';
+import {
+  LinkCaptureService,
+  type LinkCapture,
+} from '../../links/link-capture.service';
 
 export interface CreateDumpRequest {
   userId: string;
   content: string;
-  contentType: 'text' | 'voice' | 'image' | 'document';
+  contentType: 'text' | 'voice' | 'image' | 'document' | 'video';
   originalText?: string;
   metadata?: {
     source: 'telegram' | 'whatsapp' | 'email' | 'api';
     messageId?: string;
     fileName?: string;
+    // Position of the attachment in its email; names repeat (image.jpg)
+    attachmentIndex?: number;
     mimeType?: string;
     fileSize?: number;
     chatId?: string;
     language?: string;
+    senderEmail?: string;
+    // Telegram album the pages came from
+    mediaGroupId?: string;
   };
   mediaBuffer?: Buffer;
+  // Pages after mediaBuffer in a multi-page dump (a Telegram album), in order
+  extraPages?: Buffer[];
 }
 
 export interface DumpProcessingResult {
@@ -52,12 +92,65 @@ export interface DumpProcessingResult {
   analysis: ContentAnalysisResponse;
   processingSteps: string[];
   errors?: string[];
+  // Recent dump this one most likely duplicates
+  duplicateOf?: DuplicateCandidate;
+  // The dump was already completed or another worker is processing it
+  skipped?: boolean;
+}
+
+export interface ReceivedDump {
+  dump: Dump;
+  // The message was delivered before and this is the dump it created then
+  redelivered: boolean;
+}
+
+export interface ProcessDumpOptions {
+  fromStep?: DumpPipelineStep;
+  mediaBuffer?: Buffer;
+  extraPages?: Buffer[];
+  // Re-running the pipeline on an edited dump rather than a new one
+  reprocess?: boolean;
+}
+
+interface ExtractedMedia {
+  content: string;
+  confidence: number;
+  routingResult: any;
+}
+
+export interface UpdateDumpOptions {
+  author?: RevisionAuthor;
+  reason?: string;
+  // Re-run analysis, extraction, categorization and embedding if raw_content changed
+  reprocess?: boolean;
+}
+
+/**
+ * Raised when a pipeline step fails fatally, so the queue knows where to resume
+ */
+export class DumpPipelineError extends Error {
+  constructor(
+    public readonly step: DumpPipelineStep,
+    public readonly originalError: Error,
+  ) {
+    super(`${step} step failed: ${originalError?.message}`);
+    this.name = 'DumpPipelineError';
+  }
+
+  /**
+   * The outage that stopped the step, when an AI service's breaker was open
+   */
+  get serviceUnavailable(): AiServiceUnavailableError | null {
+    return this.originalError instanceof AiServiceUnavailableError
+      ? this.originalError
+      : null;
+  }
 }
 
 export interface DumpSearchFilters {
   userId?: string;
   categoryId?: string;
-  contentType?: 'text' | 'voice' | 'image' | 'document';
+  contentType?: 'text' | 'voice' | 'image' | 'document' | 'video' | 'url';
   source?: 'telegram' | 'whatsapp' | 'email' | 'api';
   dateFrom?: Date;
   dateTo?: Date;
@@ -79,8 +172,6 @@ export class DumpService {
   constructor(
     @InjectRepository(Dump)
     private readonly dumpRepository: Repository<Dump>,
-    @InjectRepository(Category)
-    private readonly categoryRepository: Repository<Category>,
     private readonly claudeService: ClaudeService,
     private readonly speechService: SpeechService,
     private readonly visionService: VisionService,
@@ -91,14 +182,26 @@ export class DumpService {
     private readonly screenshotProcessorService: ScreenshotProcessorService,
     private readonly documentProcessorService: DocumentProcessorService,
     private readonly handwritingService: HandwritingService,
+    private readonly videoProcessorService: VideoProcessorService,
     private readonly entityExtractionService: EntityExtractionService,
     private readonly categorizationService: CategorizationService,
     private readonly eventEmitter: EventEmitter2,
     private readonly metricsService: MetricsService,
+    private readonly mediaStorageService: MediaStorageService,
+    private readonly dumpQueueService: DumpQueueService,
+    private readonly dumpRevisionService: DumpRevisionService,
+    private readonly dumpDuplicateService: DumpDuplicateService,
+    private readonly dumpIdempotencyService: DumpIdempotencyService,
+    private readonly tagService: TagService,
+    private readonly categoryCorrectionService: CategoryCorrectionService,
+    private readonly taskService: TaskService,
+    private readonly linkCaptureService: LinkCaptureService,
+    private readonly aiBudgetService: AiBudgetService,
   ) {}
 
   /**
-   * Enhanced version using ContentRouterService for intelligent content processing
+   * Enhanced version using ContentRouterService for intelligent content processing.
+   * Runs the whole pipeline inline; bot and email ingestion use enqueueDump instead.
    */
   async createDumpEnhanced(
     request: CreateDumpRequest,
@@ -107,436 +210,1199 @@ export class DumpService {
       `Processing enhanced dump for user ${request.userId}, type: ${request.contentType}`,
     );
 
-    const processingSteps: string[] = [];
-    const errors: string[] = [];
+    let receivedDump: Dump | null = null;
 
     try {
-      // Step 1: Validate user exists
-      const user = await this.userService.findOne(request.userId);
-      if (!user) {
-        throw new NotFoundException(`User with ID ${request.userId} not found`);
+      const received = await this.receiveDump(request);
+      if (received.redelivered) {
+        return {
+          dump: received.dump,
+          analysis: this.getStoredAnalysis(received.dump),
+          processingSteps: received.dump.processing_steps || [],
+        };
       }
-      processingSteps.push('User validated');
 
-      // Step 2: Analyze content using ContentRouterService if media buffer exists
-      let processedContent: string;
-      let confidence = 0.8;
-      let routingResult: any = null;
+      receivedDump = received.dump;
+      return await this.processDump(receivedDump.id, {
+        mediaBuffer: request.mediaBuffer,
+        extraPages: request.extraPages,
+      });
+    } catch (error) {
+      // An AI service is down: finish the dump once it is back instead of
+      // keeping a placeholder analysis
+      if (
+        receivedDump &&
+        error instanceof DumpPipelineError &&
+        error.serviceUnavailable
+      ) {
+        return this.queueForLaterEnrichment(receivedDump, request, error);
+      }
 
-      if (request.mediaBuffer) {
-        // Use ContentRouterService for intelligent content analysis
-        const contentAnalysis = await this.contentRouterService.analyzeContent(
-          request.mediaBuffer,
-          request.metadata?.mimeType,
-          request.metadata?.fileName,
+      this.logger.error('Error creating enhanced dump:', error);
+      // Keep whatever was received, or create a fallback dump with minimal processing
+      const failedDump = receivedDump
+        ? await this.markDumpFailed(receivedDump.id, error.message)
+        : await this.createFallbackDump(request, error.message);
+
+      return {
+        dump: failedDump,
+        analysis: {
+          summary: 'Failed to process content',
+          category: 'uncategorized',
+          confidence: 0.1,
+          extractedEntities: {},
+          actionItems: [],
+          sentiment: 'neutral',
+          urgency: 'low',
+          categoryConfidence: 0.1,
+        },
+        processingSteps: failedDump.processing_steps || [],
+        errors: [error.message],
+      };
+    }
+  }
+
+  /**
+   * Save a dump as RECEIVED, together with its original media, before any AI processing.
+   * A redelivered channel message returns the dump it created the first time.
+   */
+  async receiveDump(request: CreateDumpRequest): Promise<ReceivedDump> {
+    const ingestionKey = this.dumpIdempotencyService.buildKey(request);
+    if (ingestionKey) {
+      const existing =
+        await this.dumpIdempotencyService.findExisting(ingestionKey);
+      if (existing) {
+        this.logger.log(
+          `Message ${ingestionKey} was already received as dump ${existing.id}`,
         );
+        return { dump: existing, redelivered: true };
+      }
+    }
 
-        const routingDecision =
-          await this.contentRouterService.routeContent(contentAnalysis);
-        routingResult = { analysis: contentAnalysis, routing: routingDecision };
+    const user = await this.userService.findOne(request.userId);
+    if (!user) {
+      throw new NotFoundException(`User with ID ${request.userId} not found`);
+    }
 
-        processingSteps.push(
-          `Content analyzed: ${contentAnalysis.contentType} (confidence: ${Math.round(contentAnalysis.confidence * 100)}%)`,
+    const dump = this.dumpRepository.create({
+      user_id: user.id,
+      ingestion_key: ingestionKey,
+      raw_content: request.content || '',
+      content_type: this.mapContentType(request.contentType),
+      processing_status: ProcessingStatus.RECEIVED,
+      processing_steps: ['User validated', 'Dump received'],
+      extracted_entities: {
+        metadata: {
+          ...request.metadata,
+          // Needed to rebuild the request when the queue resumes processing
+          contentType: request.contentType,
+          originalText: request.originalText,
+          enhancedProcessing: true,
+        },
+      },
+    });
+
+    let savedDump: Dump;
+    try {
+      savedDump = await this.dumpRepository.save(dump);
+    } catch (error) {
+      // A concurrent delivery of the same message saved it first
+      if (
+        ingestionKey &&
+        this.dumpIdempotencyService.isDuplicateKeyError(error)
+      ) {
+        const existing =
+          await this.dumpIdempotencyService.findExisting(ingestionKey);
+        if (existing) {
+          this.logger.log(
+            `Message ${ingestionKey} was received concurrently as dump ${existing.id}`,
+          );
+          return { dump: existing, redelivered: true };
+        }
+      }
+      throw error;
+    }
+
+    if (ingestionKey) {
+      await this.dumpIdempotencyService.remember(ingestionKey, savedDump.id);
+    }
+
+    if (request.mediaBuffer) {
+      await this.persistMedia(
+        savedDump,
+        request,
+        savedDump.processing_steps,
+        [],
+      );
+      await this.dumpRepository.update(savedDump.id, {
+        processing_steps: savedDump.processing_steps,
+      });
+    }
+
+    if (
+      request.metadata?.source === 'telegram' ||
+      request.metadata?.source === 'whatsapp'
+    ) {
+      await this.tagFromHashtags(savedDump, request.content || '');
+    }
+
+    // TRACK DUMP CREATION FEATURE (Fire-and-Forget)
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackFeature({
+        featureType: FeatureType.DUMP_CREATED,
+        detail: request.contentType,
+        userId: request.userId,
+        dumpId: savedDump.id,
+        metadata: {
+          source: request.metadata?.source,
+          hasMedia: !!request.mediaBuffer,
+        },
+      }),
+    );
+
+    return { dump: savedDump, redelivered: false };
+  }
+
+  /**
+   * Receive a dump and queue it for asynchronous processing.
+   * Returns as soon as the dump is saved so webhooks can acknowledge right away.
+   * Redelivered messages return the existing dump without queueing it again.
+   */
+  async enqueueDump(request: CreateDumpRequest): Promise<Dump> {
+    const { dump, redelivered } = await this.receiveDump(request);
+    if (redelivered) {
+      return dump;
+    }
+
+    await this.dumpQueueService.enqueue(
+      dump.id,
+      'extract',
+      this.buildJobPayload(dump, request),
+    );
+    return dump;
+  }
+
+  /**
+   * Put a dump back to RECEIVED while an AI service it needs is down, or its
+   * owner's monthly AI budget is used up; its queued job runs again once the
+   * service's breaker lets calls through or the budget resets
+   */
+  async deferDump(
+    dumpId: string,
+    outage: AiServiceUnavailableError,
+  ): Promise<void> {
+    const dump = await this.dumpRepository.findOne({ where: { id: dumpId } });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${dumpId} not found`);
+    }
+
+    const note =
+      outage instanceof AiBudgetExceededError
+        ? `Monthly AI budget reached, processing resumes on ${outage.retryAt.toISOString().slice(0, 10)}`
+        : `Waiting for ${outage.serviceName} to recover`;
+    const steps = dump.processing_steps || [];
+    await this.dumpRepository.update(dump.id, {
+      processing_status: ProcessingStatus.RECEIVED,
+      processing_steps: steps.at(-1) === note ? steps : [...steps, note],
+      deferred_until: outage.retryAt,
+    });
+  }
+
+  /**
+   * Queue a dump whose inline processing hit an AI outage to resume at the
+   * step that failed
+   */
+  private async queueForLaterEnrichment(
+    dump: Dump,
+    request: CreateDumpRequest,
+    error: DumpPipelineError,
+  ): Promise<DumpProcessingResult> {
+    this.logger.warn(
+      `Dump ${dump.id} queued for later enrichment: ${error.message}`,
+    );
+    await this.deferDump(dump.id, error.serviceUnavailable!);
+    await this.dumpQueueService.enqueue(
+      dump.id,
+      error.step,
+      this.buildJobPayload(dump, request),
+    );
+
+    const queuedDump = await this.dumpRepository.findOne({
+      where: { id: dump.id },
+      relations: ['category'],
+    });
+    return {
+      dump: queuedDump || dump,
+      analysis: {
+        summary:
+          error.serviceUnavailable instanceof AiBudgetExceededError
+            ? 'Content saved. Analysis will finish when your monthly AI allowance resets.'
+            : 'Content saved. Analysis will finish when the AI service is available again.',
+        category: 'uncategorized',
+        confidence: 0,
+        extractedEntities: {},
+        actionItems: [],
+        sentiment: 'neutral',
+        urgency: 'low',
+        categoryConfidence: 0,
+      },
+      processingSteps: queuedDump?.processing_steps || [],
+      errors: [error.message],
+    };
+  }
+
+  /**
+   * If the media could not be stored, the job has to carry it
+   */
+  private buildJobPayload(
+    dump: Dump,
+    request: CreateDumpRequest,
+  ): DumpJobPayload | undefined {
+    const extraPages = request.extraPages || [];
+    if (
+      !request.mediaBuffer ||
+      (dump.media_url && (dump.media_pages?.length || 0) >= extraPages.length)
+    ) {
+      return undefined;
+    }
+
+    return {
+      mediaBase64: request.mediaBuffer.toString('base64'),
+      ...(extraPages.length > 0 && {
+        extraPagesBase64: extraPages.map((page) => page.toString('base64')),
+      }),
+    };
+  }
+
+  /**
+   * Run the processing pipeline for a received dump, starting at options.fromStep.
+   * Results are persisted after every step so a retry resumes where the last
+   * attempt stopped. Fatal steps throw DumpPipelineError; entity extraction,
+   * AI categorization and embedding degrade gracefully.
+   */
+  async processDump(
+    dumpId: string,
+    options: ProcessDumpOptions = {},
+  ): Promise<DumpProcessingResult> {
+    const dump = await this.dumpRepository.findOne({
+      where: { id: dumpId },
+      relations: ['category'],
+    });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${dumpId} not found`);
+    }
+
+    // A duplicate delivery of a job that already went through
+    if (dump.processing_status === ProcessingStatus.COMPLETED) {
+      return this.skipProcessing(dump);
+    }
+
+    // Another worker is running it, or completed it since it was read
+    if (!(await this.claimDump(dump))) {
+      return this.skipProcessing(dump);
+    }
+
+    try {
+      // Past the hard budget limit the dump stays as received until the reset
+      const budget = await this.aiBudgetService.getStatus(dump.user_id);
+      if (budget.level === 'hard') {
+        throw new DumpPipelineError(
+          options.fromStep || 'extract',
+          new AiBudgetExceededError(dump.user_id, budget.resetsAt),
         );
+      }
 
-        // Route to appropriate processor based on content analysis
-        switch (routingDecision.primaryProcessor) {
-          case 'screenshot_processor': {
-            const screenshotResult =
-              await this.screenshotProcessorService.processScreenshot(
-                request.mediaBuffer,
-                request.metadata?.mimeType || 'image/png',
-              );
-            processedContent =
-              screenshotResult.extractedText || 'Screenshot processed';
-            confidence = screenshotResult.confidence;
-            processingSteps.push('Screenshot processed with text extraction');
-            break;
-          }
+      // AI calls made by the pipeline are billed to the dump's owner
+      return await runWithAiUsageScope(
+        { userId: dump.user_id, dumpId: dump.id },
+        () => this.runPipeline(dump, options),
+      );
+    } catch (error) {
+      // Back to waiting, or the retry would take it for a running attempt
+      await this.dumpRepository.update(dump.id, {
+        processing_status: ProcessingStatus.RECEIVED,
+      });
+      throw error;
+    }
+  }
 
-          case 'voice_processor': {
-            // Use speech service with automatic language detection
-            const originalMimeType = request.metadata?.mimeType || 'audio/wav';
-            const fixedMimeType = this.getProperMimeType(
-              contentAnalysis.contentType,
-              originalMimeType,
-              request.metadata?.fileName,
-            );
+  /**
+   * Mark the dump as PROCESSING for this attempt in a single conditional
+   * update, so only one delivery of its job runs the pipeline. A dump left
+   * PROCESSING by a worker that died is taken over once its claim is stale.
+   */
+  private async claimDump(dump: Dump): Promise<boolean> {
+    const startedAt = new Date();
+    const claimed = await this.dumpRepository
+      .createQueryBuilder()
+      .update(Dump)
+      .set({
+        processing_status: ProcessingStatus.PROCESSING,
+        processing_started_at: startedAt,
+        deferred_until: null,
+      })
+      .where('id = :id', { id: dump.id })
+      .andWhere(
+        new Brackets((qb) => {
+          qb.where('processing_status IN (:...waiting)', {
+            waiting: [ProcessingStatus.RECEIVED, ProcessingStatus.FAILED],
+          }).orWhere(
+            '(processing_status = :processing AND (processing_started_at IS NULL OR processing_started_at < :staleBefore))',
+            {
+              processing: ProcessingStatus.PROCESSING,
+              staleBefore: this.dumpQueueService.staleClaimCutoff(),
+            },
+          );
+        }),
+      )
+      .execute();
+    if (!claimed.affected) {
+      return false;
+    }
 
-            const transcriptionResult =
-              await this.speechService.transcribeWithLanguageDetection(
-                request.mediaBuffer,
-                fixedMimeType,
-              );
-            processedContent = transcriptionResult.transcript;
-            confidence = transcriptionResult.confidence;
-            const detectedLang =
-              transcriptionResult.detectedLanguage || 'unknown';
-            processingSteps.push(
-              `Voice message transcribed with language detection (${detectedLang}, confidence: ${Math.round(confidence * 100)}%)`,
-            );
-            break;
-          }
+    dump.processing_status = ProcessingStatus.PROCESSING;
+    dump.processing_started_at = startedAt;
+    dump.deferred_until = null;
+    return true;
+  }
 
-          case 'image_processor': {
-            // Fall back to vision service for image processing
-            const ocrResult = await this.visionService.extractTextFromImage(
-              request.mediaBuffer,
-              request.metadata?.mimeType || 'image/jpeg',
-            );
-            processedContent = ocrResult.text || 'Image processed';
-            confidence = ocrResult.confidence;
-            processingSteps.push('Image processed with advanced analysis');
-            break;
-          }
+  private skipProcessing(dump: Dump): DumpProcessingResult {
+    this.logger.log(
+      `Dump ${dump.id} is already ${dump.processing_status}, skipping`,
+    );
+    return {
+      dump,
+      analysis: this.getStoredAnalysis(dump),
+      processingSteps: dump.processing_steps || [],
+      skipped: true,
+    };
+  }
 
-          case 'handwriting_processor': {
-            const handwritingResult =
-              await this.handwritingService.recognizeHandwriting(
-                request.mediaBuffer,
-                request.metadata?.mimeType || 'image/jpeg',
-              );
-            processedContent =
-              handwritingResult.extractedText || 'Handwriting processed';
-            confidence = handwritingResult.confidence;
-            processingSteps.push('Handwriting extracted and processed');
-            break;
-          }
+  private async runPipeline(
+    dump: Dump,
+    options: ProcessDumpOptions,
+  ): Promise<DumpProcessingResult> {
+    const firstStep = DUMP_PIPELINE_STEPS.indexOf(
+      options.fromStep || 'extract',
+    );
+    const shouldRun = (step: DumpPipelineStep) =>
+      DUMP_PIPELINE_STEPS.indexOf(step) >= firstStep;
 
-          case 'document_processor': {
-            const documentResult =
-              await this.documentProcessorService.processDocument(
-                request.mediaBuffer,
-                request.metadata?.mimeType || 'application/pdf',
-              );
-            processedContent =
-              documentResult.extractedText || 'Document processed';
-            confidence = documentResult.confidence;
-            processingSteps.push(
-              `Document processed (type: ${documentResult.documentType}, confidence: ${Math.round(confidence * 100)}%)`,
-            );
-            // Store structured document data for later use in extracted_entities
-            // This will be merged into the dump's extracted_entities field
-            break;
-          }
+    dump.processing_steps = dump.processing_steps || [];
+    dump.extracted_entities = dump.extracted_entities || {};
+    const errors: string[] = [];
 
-          default:
-            // Fall back to original processing logic
-            processedContent = await this.processContentFallback(
-              request,
-              processingSteps,
-            );
+    // Step 1: Extract text from media (or take the text as-is)
+    if (shouldRun('extract')) {
+      await this.runPipelineStep(dump, 'extract', async () => {
+        let mediaBuffer = options.mediaBuffer;
+        let extraPages = options.extraPages;
+        if (!mediaBuffer && dump.media_url) {
+          mediaBuffer = await this.mediaStorageService.downloadMedia(
+            dump.media_url,
+          );
+          extraPages = await Promise.all(
+            (dump.media_pages || []).map((key) =>
+              this.mediaStorageService.downloadMedia(key),
+            ),
+          );
         }
-      } else {
-        // Process text content directly
-        processedContent = request.content;
-        processingSteps.push('Text content processed');
+        return this.extractContent(
+          dump,
+          this.rebuildRequest(dump, mediaBuffer, extraPages),
+        );
+      });
+    }
+
+    // Step 2: Analyze content with Claude
+    if (shouldRun('analyze')) {
+      await this.runPipelineStep(dump, 'analyze', () =>
+        this.analyzeDumpContent(dump),
+      );
+    }
+
+    const analysis = this.getStoredAnalysis(dump);
+
+    // Step 3: Extract entities from AI summary
+    if (shouldRun('entities')) {
+      await this.runPipelineStep(dump, 'entities', () =>
+        this.extractDumpEntities(dump, analysis, errors),
+      );
+    }
+
+    // Step 4: Categorize content and assign the category
+    if (shouldRun('categorize')) {
+      await this.runPipelineStep(dump, 'categorize', () =>
+        this.categorizeDump(dump, analysis, errors),
+      );
+    }
+
+    // Step 5: Generate content vector for semantic search
+    if (shouldRun('embed')) {
+      await this.runPipelineStep(dump, 'embed', () =>
+        this.embedDump(dump, errors),
+      );
+    }
+
+    // Step 6: Apply AI tag suggestions (non-fatal)
+    await this.tagDump(dump, analysis, errors);
+
+    // Step 7: Turn action items into tasks (non-fatal)
+    await this.createDumpTasks(dump, analysis, errors);
+
+    // Step 8: Update processing status
+    const processedAt = new Date();
+    dump.processing_steps.push('Processing completed');
+    // Only this attempt's own run completes the dump and gets a revision;
+    // an edit that queued re-processing meanwhile leaves it for that job
+    const completed = await this.dumpRepository.update(
+      { id: dump.id, processing_status: ProcessingStatus.PROCESSING },
+      {
+        processing_status: ProcessingStatus.COMPLETED,
+        processed_at: processedAt,
+        processing_steps: dump.processing_steps,
+      },
+    );
+    if (completed.affected) {
+      dump.processing_status = ProcessingStatus.COMPLETED;
+      dump.processed_at = processedAt;
+
+      await this.dumpRevisionService.recordRevision(
+        dump,
+        { type: RevisionAuthorType.AI },
+        options.reprocess ? 'Re-processed after edit' : 'Initial processing',
+      );
+    } else {
+      this.logger.warn(
+        `Dump ${dump.id} changed state while processing, not recording a revision`,
+      );
+    }
+
+    let duplicateOf: DuplicateCandidate | null = null;
+    if (options.reprocess) {
+      this.logger.log(`Dump re-processed successfully: ${dump.id}`);
+    } else if (dump.import_job_id) {
+      // Imported notes are history: reminders derived from them would be
+      // for dates that have already passed
+      this.logger.log(`Imported dump processed successfully: ${dump.id}`);
+    } else {
+      this.logger.log(`Enhanced dump created successfully: ${dump.id}`);
+
+      duplicateOf = await this.dumpDuplicateService.detectDuplicate(dump);
+
+      // Emit event for async tracking detection (non-blocking)
+      this.eventEmitter.emit('dump.created', {
+        dumpId: dump.id,
+        userId: dump.user_id,
+        content: dump.raw_content || '',
+        contentType: dump.content_type,
+      });
+    }
+
+    return {
+      dump,
+      analysis,
+      processingSteps: dump.processing_steps,
+      errors: errors.length > 0 ? errors : undefined,
+      duplicateOf: duplicateOf || undefined,
+    };
+  }
+
+  /**
+   * Tag a dump received from a bot with the #hashtags in its message
+   */
+  private async tagFromHashtags(dump: Dump, content: string): Promise<void> {
+    const hashtags = this.tagService.parseHashtags(content);
+    if (hashtags.length === 0) {
+      return;
+    }
+
+    try {
+      await this.tagService.addTagsToDump(dump, hashtags);
+      dump.processing_steps.push(
+        `Tagged from hashtags: ${hashtags.join(', ')}`,
+      );
+      await this.dumpRepository.update(dump.id, {
+        processing_steps: dump.processing_steps,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to apply hashtags to dump ${dump.id}: ${error.message}`,
+      );
+    }
+  }
+
+  private async tagDump(
+    dump: Dump,
+    analysis: ContentAnalysisResponse,
+    errors: string[],
+  ): Promise<void> {
+    const suggestions = analysis.extractedEntities?.tags || [];
+    if (suggestions.length === 0) {
+      return;
+    }
+
+    try {
+      const { applied } = await this.tagService.applySuggestedTags(
+        dump,
+        suggestions,
+      );
+      if (applied.length > 0) {
+        dump.processing_steps.push(`AI tags applied: ${applied.join(', ')}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Tag suggestion failed for dump ${dump.id}:`, error);
+      errors.push(`Tag suggestion failed: ${error.message}`);
+    }
+  }
+
+  private async createDumpTasks(
+    dump: Dump,
+    analysis: ContentAnalysisResponse,
+    errors: string[],
+  ): Promise<void> {
+    // Action items in someone else's article are not the user's tasks
+    if (dump.content_type === ContentType.URL) {
+      return;
+    }
+    // Action items from imported notes are history, like their reminders
+    if (dump.import_job_id) {
+      return;
+    }
+
+    try {
+      const tasks = await this.taskService.createTasksFromAnalysis(
+        dump,
+        analysis,
+      );
+      if (tasks.length > 0) {
+        dump.processing_steps.push(`Tasks created: ${tasks.length}`);
       }
+    } catch (error) {
+      this.logger.warn(`Task creation failed for dump ${dump.id}:`, error);
+      errors.push(`Task creation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a dump as FAILED once processing has been given up on
+   */
+  async markDumpFailed(dumpId: string, errorMessage: string): Promise<Dump> {
+    const dump = await this.dumpRepository.findOne({
+      where: { id: dumpId },
+      relations: ['category'],
+    });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${dumpId} not found`);
+    }
 
-      // Step 3: Analyze content with Claude
-      const startTimeAnalysis = performance.now();
-      const analysis = await this.claudeService.analyzeContent({
-        content: processedContent,
-        contentType: 'text',
-        context: {
-          source: request.metadata?.source || 'telegram',
-          userId: request.userId,
-          timestamp: new Date(),
+    const changes: Partial<Dump> = {
+      processing_status: ProcessingStatus.FAILED,
+      ai_summary: dump.ai_summary || `Processing failed: ${errorMessage}`,
+      ai_confidence: dump.ai_confidence ?? 0,
+      processing_steps: [
+        ...(dump.processing_steps || []),
+        `Processing failed: ${errorMessage}`,
+      ],
+      extracted_entities: {
+        ...dump.extracted_entities,
+        metadata: {
+          ...dump.extracted_entities?.metadata,
+          error: errorMessage,
         },
-      });
-      const latencyAnalysis = performance.now() - startTimeAnalysis;
-      processingSteps.push('Content analysis completed');
+      },
+    };
 
-      // TRACK CONTENT ANALYSIS (Fire-and-Forget)
-      this.metricsService.fireAndForget(() =>
-        this.metricsService.trackAI({
-          operationType: AIOperationType.CONTENT_ANALYSIS,
-          latencyMs: latencyAnalysis,
-          success: true,
-          userId: request.userId,
-          confidenceScore: Math.round(analysis.confidence * 100),
-        }),
+    await this.dumpRepository.update(
+      dump.id,
+      changes as QueryDeepPartialEntity<Dump>,
+    );
+
+    Object.assign(dump, changes);
+    return dump;
+  }
+
+  /**
+   * Processing status of a dump, for clients polling after ingestion
+   */
+  async getProcessingStatus(id: string): Promise<{
+    dumpId: string;
+    status: ProcessingStatus;
+    processingSteps: string[];
+    error?: string;
+    createdAt: Date;
+    processedAt?: Date;
+  }> {
+    const dump = await this.dumpRepository.findOne({ where: { id } });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${id} not found`);
+    }
+
+    return {
+      dumpId: dump.id,
+      status: dump.processing_status,
+      processingSteps: dump.processing_steps || [],
+      error:
+        dump.processing_status === ProcessingStatus.FAILED
+          ? dump.extracted_entities?.metadata?.error
+          : undefined,
+      createdAt: dump.created_at,
+      processedAt: dump.processed_at || undefined,
+    };
+  }
+
+  /**
+   * Run one pipeline step and persist what it changed along with the step log.
+   * Any error escaping the step is fatal and tagged with the step for retries.
+   */
+  private async runPipelineStep(
+    dump: Dump,
+    step: DumpPipelineStep,
+    run: () => Promise<Partial<Dump>>,
+  ): Promise<void> {
+    let changes: Partial<Dump>;
+    try {
+      changes = await run();
+    } catch (error) {
+      throw new DumpPipelineError(step, error);
+    }
+
+    Object.assign(dump, changes, { pipeline_step: step });
+    await this.dumpRepository.update(dump.id, {
+      ...changes,
+      processing_steps: dump.processing_steps,
+      pipeline_step: step,
+    } as QueryDeepPartialEntity<Dump>);
+  }
+
+  /**
+   * Rebuild the ingestion request from what receiveDump stored on the dump
+   */
+  private rebuildRequest(
+    dump: Dump,
+    mediaBuffer?: Buffer,
+    extraPages?: Buffer[],
+  ): CreateDumpRequest {
+    const metadata = dump.extracted_entities?.metadata || {};
+    return {
+      userId: dump.user_id,
+      content: dump.raw_content,
+      contentType: metadata.contentType || 'text',
+      originalText: metadata.originalText,
+      metadata: metadata as CreateDumpRequest['metadata'],
+      mediaBuffer,
+      extraPages,
+    };
+  }
+
+  private async extractContent(
+    dump: Dump,
+    request: CreateDumpRequest,
+  ): Promise<Partial<Dump>> {
+    const processingSteps = dump.processing_steps;
+    let processedContent: string;
+    let confidence = 0.8;
+    let routingResult: any = null;
+    let linkCapture: LinkCapture | null = null;
+
+    if (request.mediaBuffer) {
+      const pages = [request.mediaBuffer, ...(request.extraPages || [])];
+      const extracted: ExtractedMedia[] = [];
+      for (const page of pages) {
+        extracted.push(
+          await this.extractFromMedia(page, request, processingSteps),
+        );
+      }
+
+      routingResult = extracted[0].routingResult;
+      confidence =
+        extracted.reduce((sum, page) => sum + page.confidence, 0) /
+        extracted.length;
+      if (pages.length === 1) {
+        processedContent = extracted[0].content;
+      } else {
+        // Album pages keep their order so multi-page documents read through
+        processedContent = [
+          request.originalText,
+          ...extracted.map(
+            (page, index) => `--- Page ${index + 1} ---\n${page.content}`,
+          ),
+        ]
+          .filter(Boolean)
+          .join('\n\n');
+        processingSteps.push(`${pages.length} pages extracted in order`);
+      }
+    } else if (this.linkCaptureService.isLinkMessage(request.content)) {
+      // A shared link: the article behind it is what gets analyzed
+      linkCapture = await this.linkCaptureService.capture(request.content);
+      processedContent = linkCapture.content;
+      processingSteps.push(
+        linkCapture.link.fetchError
+          ? `Link could not be fetched: ${linkCapture.link.fetchError}`
+          : `Article extracted: ${linkCapture.link.title || linkCapture.link.url} (${linkCapture.link.wordCount} words)`,
       );
+    } else {
+      // Process text content directly
+      processedContent = request.content;
+      processingSteps.push('Text content processed');
+    }
 
-      // Use AI summary for subsequent processing steps (better quality, standardized format)
-      const contentForProcessing = analysis.summary || processedContent;
+    return {
+      raw_content: processedContent,
+      content_type: linkCapture
+        ? ContentType.URL
+        : this.mapContentType(
+            request.contentType,
+            routingResult?.analysis?.contentType,
+          ),
+      ai_confidence: Math.round(confidence * 100),
+      ...(linkCapture?.readLater && { read_later: true }),
+      extracted_entities: {
+        ...dump.extracted_entities,
+        ...(linkCapture && { link: linkCapture.link }),
+        metadata: {
+          ...dump.extracted_entities.metadata,
+          routingInfo: routingResult,
+          extractionConfidence: confidence,
+        },
+      },
+    };
+  }
 
-      // Step 4: Extract entities from AI summary
-      let entityExtractionResult;
-      try {
-        const startTimeExtraction = performance.now();
-        entityExtractionResult =
-          await this.entityExtractionService.extractEntities({
-            content: contentForProcessing,
-            contentType: request.contentType,
-            context: {
-              source: request.metadata?.source || 'telegram',
-              userId: request.userId,
-              timestamp: new Date(),
-            },
-          });
-        const latencyExtraction = performance.now() - startTimeExtraction;
+  /**
+   * Route one media buffer to the processor that fits it and return its text
+   */
+  private async extractFromMedia(
+    mediaBuffer: Buffer,
+    request: CreateDumpRequest,
+    processingSteps: string[],
+  ): Promise<ExtractedMedia> {
+    // Use ContentRouterService for intelligent content analysis
+    const contentAnalysis = await this.contentRouterService.analyzeContent(
+      mediaBuffer,
+      request.metadata?.mimeType,
+      request.metadata?.fileName,
+    );
+
+    const routingDecision =
+      await this.contentRouterService.routeContent(contentAnalysis);
+    const routingResult = {
+      analysis: contentAnalysis,
+      routing: routingDecision,
+    };
+    let processedContent: string;
+    let confidence = 0.8;
+
+    processingSteps.push(
+      `Content analyzed: ${contentAnalysis.contentType} (confidence: ${Math.round(contentAnalysis.confidence * 100)}%)`,
+    );
+
+    // Route to appropriate processor based on content analysis
+    switch (routingDecision.primaryProcessor) {
+      case 'screenshot_processor': {
+        const screenshotResult =
+          await this.screenshotProcessorService.processScreenshot(
+            mediaBuffer,
+            request.metadata?.mimeType || 'image/png',
+          );
+        processedContent =
+          screenshotResult.extractedText || 'Screenshot processed';
+        confidence = screenshotResult.confidence;
+        processingSteps.push('Screenshot processed with text extraction');
+        break;
+      }
+
+      case 'voice_processor': {
+        // Use speech service with automatic language detection
+        const originalMimeType = request.metadata?.mimeType || 'audio/wav';
+        const fixedMimeType = this.getProperMimeType(
+          contentAnalysis.contentType,
+          originalMimeType,
+          request.metadata?.fileName,
+        );
+
+        const transcriptionResult =
+          await this.speechService.transcribeWithLanguageDetection(
+            mediaBuffer,
+            fixedMimeType,
+          );
+        processedContent = transcriptionResult.transcript;
+        confidence = transcriptionResult.confidence;
+        const detectedLang = transcriptionResult.detectedLanguage || 'unknown';
         processingSteps.push(
-          `Entity extraction completed: ${entityExtractionResult.summary.totalEntities} entities found`,
+          `Voice message transcribed with language detection (${detectedLang}, confidence: ${Math.round(confidence * 100)}%)`,
         );
-        this.logger.debug(
-          `Extracted entities: ${JSON.stringify(entityExtractionResult.structuredData)}`,
+        break;
+      }
+
+      case 'image_processor': {
+        // Fall back to vision service for image processing
+        const ocrResult = await this.visionService.extractTextFromImage(
+          mediaBuffer,
+          request.metadata?.mimeType || 'image/jpeg',
         );
+        processedContent = ocrResult.text || 'Image processed';
+        confidence = ocrResult.confidence;
+        processingSteps.push('Image processed with advanced analysis');
+        break;
+      }
 
-        // TRACK EXTRACTION (Fire-and-Forget)
-        this.metricsService.fireAndForget(() =>
-          this.metricsService.trackAI({
-            operationType: AIOperationType.EXTRACTION,
-            latencyMs: latencyExtraction,
-            success: true,
-            userId: request.userId,
-            metadata: {
-              entitiesExtracted: entityExtractionResult.summary.totalEntities,
-            },
-          }),
+      case 'handwriting_processor': {
+        const handwritingResult =
+          await this.handwritingService.recognizeHandwriting(
+            mediaBuffer,
+            request.metadata?.mimeType || 'image/jpeg',
+          );
+        processedContent =
+          handwritingResult.extractedText || 'Handwriting processed';
+        confidence = handwritingResult.confidence;
+        processingSteps.push('Handwriting extracted and processed');
+        break;
+      }
+
+      case 'document_processor': {
+        const documentResult =
+          await this.documentProcessorService.processDocument(
+            mediaBuffer,
+            request.metadata?.mimeType || 'application/pdf',
+          );
+        processedContent = documentResult.extractedText || 'Document processed';
+        confidence = documentResult.confidence;
+        processingSteps.push(
+          `Document processed (type: ${documentResult.documentType}, confidence: ${Math.round(confidence * 100)}%)`,
         );
-      } catch (error) {
-        this.logger.warn(`Entity extraction failed: ${error.message}`);
-        errors.push(`Entity extraction failed: ${error.message}`);
-        // Continue with empty entity result
-        entityExtractionResult = {
-          entities: [],
-          summary: {
-            totalEntities: 0,
-            entitiesByType: {},
-            averageConfidence: 0,
-          },
-          structuredData: {
-            dates: [],
-            times: [],
-            locations: [],
-            people: [],
-            organizations: [],
-            amounts: [],
-            contacts: { phones: [], emails: [], urls: [] },
-          },
-        };
+        break;
       }
 
-      // Step 5: Categorize content using AI summary
-      let categorizationResult;
-      try {
-        const startTimeCategorization = performance.now();
-        categorizationResult =
-          await this.categorizationService.categorizeContent({
-            content: contentForProcessing,
-            userId: request.userId,
-            contentType: request.contentType,
-            context: {
-              source: request.metadata?.source || 'telegram',
-              timestamp: new Date(),
-            },
-          });
-        const latencyCategorization =
-          performance.now() - startTimeCategorization;
+      case 'media_processor': {
+        const videoResult = await this.videoProcessorService.processVideo(
+          mediaBuffer,
+          request.metadata?.mimeType || 'video/mp4',
+        );
+        processedContent =
+          [request.originalText, videoResult.extractedText]
+            .filter(Boolean)
+            .join('\n\n') || 'Video processed';
+        confidence = videoResult.confidence;
         processingSteps.push(
-          `Categorization completed: ${categorizationResult.primaryCategory.name} (confidence: ${categorizationResult.confidence})`,
+          `Video processed (${videoResult.transcript ? `transcribed in ${videoResult.detectedLanguage || 'unknown'}` : 'no speech'}, ${videoResult.frames.length} keyframes read)`,
         );
-        this.logger.debug(
-          `Categorization result: ${JSON.stringify(categorizationResult)}`,
+        break;
+      }
+
+      default:
+        // Fall back to original processing logic
+        processedContent = await this.processContentFallback(
+          { ...request, mediaBuffer },
+          processingSteps,
         );
+    }
+
+    return { content: processedContent, confidence, routingResult };
+  }
+
+  private async analyzeDumpContent(dump: Dump): Promise<Partial<Dump>> {
+    const metadata = dump.extracted_entities.metadata || {};
+
+    const startTimeAnalysis = performance.now();
+    const analysis = await this.claudeService.analyzeContent({
+      content: dump.raw_content,
+      contentType: 'text',
+      context: {
+        source: metadata.source || 'telegram',
+        userId: dump.user_id,
+        timestamp: new Date(),
+      },
+    });
+    const latencyAnalysis = performance.now() - startTimeAnalysis;
+    dump.processing_steps.push('Content analysis completed');
+
+    // TRACK CONTENT ANALYSIS (Fire-and-Forget)
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.CONTENT_ANALYSIS,
+        latencyMs: latencyAnalysis,
+        success: true,
+        userId: dump.user_id,
+        confidenceScore: Math.round(analysis.confidence * 100),
+        prompt: analysis.prompt,
+      }),
+    );
+
+    const extractionConfidence = metadata.extractionConfidence ?? 0.8;
+
+    return {
+      ai_summary: analysis.summary,
+      ai_confidence: Math.round(
+        Math.min(extractionConfidence, analysis.confidence) * 100,
+      ),
+      urgency_level: this.mapUrgencyToNumber(analysis.urgency || 'low'),
+      extracted_entities: {
+        ...dump.extracted_entities,
+        actionItems: analysis.actionItems || [],
+        sentiment: analysis.sentiment || 'neutral',
+        urgency: analysis.urgency || 'low',
+        metadata: {
+          ...metadata,
+          // Kept so later steps can resume without calling Claude again
+          analysis,
+        },
+      },
+    };
+  }
+
+  /**
+   * Claude's analysis as stored by the analyze step
+   */
+  private getStoredAnalysis(dump: Dump): ContentAnalysisResponse {
+    const stored = dump.extracted_entities.metadata?.analysis;
+    if (stored) {
+      return stored as ContentAnalysisResponse;
+    }
+
+    return {
+      summary: dump.ai_summary || dump.raw_content,
+      category: dump.category?.name || 'uncategorized',
+      categoryConfidence: (dump.ai_confidence || 50) / 100,
+      extractedEntities: {},
+      actionItems: dump.extracted_entities.actionItems || [],
+      sentiment:
+        (dump.extracted_entities
+          .sentiment as ContentAnalysisResponse['sentiment']) || 'neutral',
+      urgency:
+        (dump.extracted_entities
+          .urgency as ContentAnalysisResponse['urgency']) || 'low',
+      confidence: (dump.ai_confidence || 50) / 100,
+    };
+  }
+
+  private async extractDumpEntities(
+    dump: Dump,
+    analysis: ContentAnalysisResponse,
+    errors: string[],
+  ): Promise<Partial<Dump>> {
+    const metadata = dump.extracted_entities.metadata || {};
+    // Use AI summary for subsequent processing steps (better quality, standardized format)
+    const contentForProcessing = analysis.summary || dump.raw_content;
 
-        // TRACK CATEGORIZATION (Fire-and-Forget)
-        this.metricsService.fireAndForget(() =>
-          this.metricsService.trackAI({
-            operationType: AIOperationType.CATEGORIZATION,
-            latencyMs: latencyCategorization,
-            success: true,
-            userId: request.userId,
-            confidenceScore: Math.round(categorizationResult.confidence * 100),
-            metadata: {
-              categoryAssigned: categorizationResult.primaryCategory.name,
-              reasoning: categorizationResult.reasoning,
-            },
-          }),
-        );
-      } catch (error) {
-        this.logger.warn(
-          `Categorization failed: ${error.message}, falling back to Claude category`,
-        );
-        errors.push(`Categorization failed: ${error.message}`);
-        // Fallback to Claude's category
-        categorizationResult = {
-          primaryCategory: {
-            name: analysis.category,
-            confidence: analysis.categoryConfidence || 0.5,
-            reasoning: 'Fallback to Claude categorization',
-            isExisting: false,
+    let entityExtractionResult;
+    try {
+      const startTimeExtraction = performance.now();
+      entityExtractionResult =
+        await this.entityExtractionService.extractEntities({
+          content: contentForProcessing,
+          contentType: metadata.contentType || 'text',
+          context: {
+            source: metadata.source || 'telegram',
+            userId: dump.user_id,
+            timestamp: new Date(),
           },
-          alternativeCategories: [],
-          autoApplied: false,
-          confidence: analysis.categoryConfidence || 0.5,
-          reasoning: 'Fallback to Claude categorization',
-        };
-      }
-
-      // Step 6: Find or create category using categorization service result
-      const category = await this.categorizationService.findOrCreateCategory(
-        categorizationResult.primaryCategory.name,
-        request.userId,
+        });
+      const latencyExtraction = performance.now() - startTimeExtraction;
+      dump.processing_steps.push(
+        `Entity extraction completed: ${entityExtractionResult.summary.totalEntities} entities found`,
       );
-      processingSteps.push(`Category assigned: ${category.name}`);
-
-      // Step 7: Map content type to entity enum
-      const entityContentType = this.mapContentType(
-        request.contentType,
-        routingResult?.analysis?.contentType,
+      this.logger.debug(
+        `Extracted entities: ${JSON.stringify(entityExtractionResult.structuredData)}`,
       );
 
-      // Step 8: Create dump entity with enhanced entity extraction and categorization data
-      const dump = this.dumpRepository.create({
-        user_id: user.id,
-        raw_content: processedContent,
-        content_type: entityContentType,
-        ai_summary: analysis.summary,
-        ai_confidence: Math.round(
-          Math.min(confidence, analysis.confidence) * 100,
-        ),
-        category_id: category.id,
-        urgency_level: this.mapUrgencyToNumber(analysis.urgency || 'low'),
-        processing_status: ProcessingStatus.PROCESSING,
-        extracted_entities: {
-          // Enhanced entity extraction from dedicated service
-          entities: entityExtractionResult.structuredData,
-          entityDetails: entityExtractionResult.entities, // Full entity details with confidence
-          entitySummary: entityExtractionResult.summary,
-          // AI analysis data
-          actionItems: analysis.actionItems || [],
-          sentiment: analysis.sentiment || 'neutral',
-          urgency: analysis.urgency || 'low',
-          // Enhanced categorization data
-          categoryConfidence: Math.round(categorizationResult.confidence * 100), // Use categorization service confidence
-          categoryReasoning: categorizationResult.reasoning,
-          alternativeCategories: categorizationResult.alternativeCategories.map(
-            (c) => c.name,
-          ),
-          autoApplied: categorizationResult.autoApplied,
+      // TRACK EXTRACTION (Fire-and-Forget)
+      this.metricsService.fireAndForget(() =>
+        this.metricsService.trackAI({
+          operationType: AIOperationType.EXTRACTION,
+          latencyMs: latencyExtraction,
+          success: true,
+          userId: dump.user_id,
           metadata: {
-            ...request.metadata,
-            routingInfo: routingResult,
-            enhancedProcessing: true,
+            entitiesExtracted: entityExtractionResult.summary.totalEntities,
           },
+        }),
+      );
+    } catch (error) {
+      this.logger.warn(`Entity extraction failed: ${error.message}`);
+      errors.push(`Entity extraction failed: ${error.message}`);
+      // Continue with empty entity result
+      entityExtractionResult = {
+        entities: [],
+        summary: {
+          totalEntities: 0,
+          entitiesByType: {},
+          averageConfidence: 0,
         },
-      });
+        structuredData: {
+          dates: [],
+          times: [],
+          locations: [],
+          people: [],
+          organizations: [],
+          amounts: [],
+          contacts: { phones: [], emails: [], urls: [] },
+        },
+      };
+    }
+
+    return {
+      extracted_entities: {
+        ...dump.extracted_entities,
+        entities: entityExtractionResult.structuredData,
+        entityDetails: entityExtractionResult.entities, // Full entity details with confidence
+        entitySummary: entityExtractionResult.summary,
+      },
+    };
+  }
+
+  private async categorizeDump(
+    dump: Dump,
+    analysis: ContentAnalysisResponse,
+    errors: string[],
+  ): Promise<Partial<Dump>> {
+    const metadata = dump.extracted_entities.metadata || {};
+    const contentForProcessing = analysis.summary || dump.raw_content;
 
-      const savedDump = await this.dumpRepository.save(dump);
-      savedDump.category = category; // Attach category for return value
-      processingSteps.push('Dump saved to database');
+    let categorizationResult;
+    try {
+      const startTimeCategorization = performance.now();
+      categorizationResult = await this.categorizationService.categorizeContent(
+        {
+          content: contentForProcessing,
+          userId: dump.user_id,
+          contentType: metadata.contentType || 'text',
+          context: {
+            source: metadata.source || 'telegram',
+            timestamp: new Date(),
+            senderEmail: metadata.senderEmail,
+            organizations: analysis.extractedEntities?.organizations,
+          },
+        },
+      );
+      const latencyCategorization = performance.now() - startTimeCategorization;
+      dump.processing_steps.push(
+        `Categorization completed: ${categorizationResult.primaryCategory.name} (confidence: ${categorizationResult.confidence})`,
+      );
+      this.logger.debug(
+        `Categorization result: ${JSON.stringify(categorizationResult)}`,
+      );
 
-      // TRACK DUMP CREATION FEATURE (Fire-and-Forget)
+      // TRACK CATEGORIZATION (Fire-and-Forget)
       this.metricsService.fireAndForget(() =>
-        this.metricsService.trackFeature({
-          featureType: FeatureType.DUMP_CREATED,
-          detail: request.contentType,
-          userId: request.userId,
-          dumpId: savedDump.id,
+        this.metricsService.trackAI({
+          operationType: AIOperationType.CATEGORIZATION,
+          latencyMs: latencyCategorization,
+          success: true,
+          userId: dump.user_id,
+          dumpId: dump.id, // Joined with later corrections for accuracy
+          confidenceScore: Math.round(categorizationResult.confidence * 100),
+          prompt: categorizationResult.prompt,
           metadata: {
-            source: request.metadata?.source,
-            hasMedia: !!request.mediaBuffer,
+            categoryAssigned: categorizationResult.primaryCategory.name,
+            reasoning: categorizationResult.reasoning,
+            fewShotExamples: categorizationResult.fewShotExamples ?? 0,
           },
         }),
       );
+    } catch (error) {
+      // An outage defers the dump rather than settle for Claude's category
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
+      this.logger.warn(
+        `Categorization failed: ${error.message}, falling back to Claude category`,
+      );
+      errors.push(`Categorization failed: ${error.message}`);
+      // Fallback to Claude's category
+      categorizationResult = {
+        primaryCategory: {
+          name: analysis.category,
+          confidence: analysis.categoryConfidence || 0.5,
+          reasoning: 'Fallback to Claude categorization',
+          isExisting: false,
+        },
+        alternativeCategories: [],
+        autoApplied: false,
+        confidence: analysis.categoryConfidence || 0.5,
+        reasoning: 'Fallback to Claude categorization',
+      };
+    }
 
-      // Step 9: Generate content vector for semantic search
-      try {
-        const contentToEmbed = savedDump.ai_summary || savedDump.raw_content;
-        if (contentToEmbed) {
-          this.logger.debug(`Generating embedding for dump ${savedDump.id}`);
-          const embeddingResponse = await this.vectorService.generateEmbedding({
-            text: contentToEmbed,
-          });
-
-          // Update the dump with the generated vector
-          await this.dumpRepository.update(savedDump.id, {
-            content_vector: embeddingResponse.embedding,
-          });
+    // A rule or the user's category list may already have resolved the category
+    const category =
+      categorizationResult.primaryCategory.existingCategory ??
+      (await this.categorizationService.findOrCreateCategory(
+        categorizationResult.primaryCategory.name,
+        dump.user_id,
+      ));
+    dump.processing_steps.push(`Category assigned: ${category.name}`);
+    dump.category = category; // Attach category for return value
 
-          processingSteps.push('Content vector generated');
-          this.logger.debug(
-            `Vector generated successfully for dump ${savedDump.id}`,
-          );
+    return {
+      category_id: category.id,
+      extracted_entities: {
+        ...dump.extracted_entities,
+        categoryConfidence: Math.round(categorizationResult.confidence * 100), // Use categorization service confidence
+        categoryReasoning: categorizationResult.reasoning,
+        alternativeCategories: categorizationResult.alternativeCategories.map(
+          (c) => c.name,
+        ),
+        autoApplied: categorizationResult.autoApplied,
+      },
+    };
+  }
 
-          // Trigger vector index creation if it doesn't exist
-          try {
-            await this.databaseInitService.ensureVectorIndex();
-            this.logger.debug(
-              'Vector index ensured after embedding generation',
-            );
-          } catch (error) {
-            this.logger.warn('Failed to ensure vector index:', error.message);
-            // Try to recreate index as fallback
-            try {
-              this.logger.log('Attempting to recreate vector index...');
-              await this.databaseInitService.recreateVectorIndex();
-              this.logger.log('✅ Vector index recreated successfully');
-            } catch (recreateError) {
-              this.logger.error(
-                '❌ Failed to recreate vector index:',
-                recreateError.message,
-              );
-            }
-          }
-        }
-      } catch (error) {
-        this.logger.error(
-          `Failed to generate vector for dump ${savedDump.id}:`,
-          error,
-        );
-        errors.push(`Vector generation failed: ${error.message}`);
-        // Continue processing even if vector generation fails
+  private async embedDump(
+    dump: Dump,
+    errors: string[],
+  ): Promise<Partial<Dump>> {
+    try {
+      const contentToEmbed = dump.ai_summary || dump.raw_content;
+      if (!contentToEmbed) {
+        return {};
       }
 
-      // Step 10: Update processing status
-      await this.dumpRepository.update(savedDump.id, {
-        processing_status: ProcessingStatus.COMPLETED,
-        processed_at: new Date(),
+      this.logger.debug(`Generating embedding for dump ${dump.id}`);
+      const embeddingResponse = await this.vectorService.generateEmbedding({
+        text: contentToEmbed,
       });
 
-      this.logger.log(`Enhanced dump created successfully: ${savedDump.id}`);
-
-      // Emit event for async tracking detection (non-blocking)
-      this.eventEmitter.emit('dump.created', {
-        dumpId: savedDump.id,
-        userId: savedDump.user_id,
-        content: savedDump.raw_content || '',
-        contentType: savedDump.content_type,
+      // Update the dump with the generated vector
+      await this.dumpRepository.update(dump.id, {
+        content_vector: embeddingResponse.embedding,
       });
 
-      return {
-        dump: savedDump,
-        analysis,
-        processingSteps,
-        errors: errors.length > 0 ? errors : undefined,
-      };
+      dump.processing_steps.push('Content vector generated');
+      this.logger.debug(`Vector generated successfully for dump ${dump.id}`);
+
+      // Trigger vector index creation if it doesn't exist
+      try {
+        await this.databaseInitService.ensureVectorIndex();
+        this.logger.debug('Vector index ensured after embedding generation');
+      } catch (error) {
+        this.logger.warn('Failed to ensure vector index:', error.message);
+        // Try to recreate index as fallback
+        try {
+          this.logger.log('Attempting to recreate vector index...');
+          await this.databaseInitService.recreateVectorIndex();
+          this.logger.log('✅ Vector index recreated successfully');
+        } catch (recreateError) {
+          this.logger.error(
+            '❌ Failed to recreate vector index:',
+            recreateError.message,
+          );
+        }
+      }
     } catch (error) {
-      this.logger.error('Error creating enhanced dump:', error);
-      // Create a fallback dump with minimal processing
-      const fallbackDump = await this.createFallbackDump(
-        request,
-        error.message,
+      // Deferred so the dump is embedded once the service is back
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
+      this.logger.error(
+        `Failed to generate vector for dump ${dump.id}:`,
+        error,
       );
-
-      return {
-        dump: fallbackDump,
-        analysis: {
-          summary: 'Failed to process content',
-          category: 'uncategorized',
-          confidence: 0.1,
-          extractedEntities: {},
-          actionItems: [],
-          sentiment: 'neutral',
-          urgency: 'low',
-          categoryConfidence: 0.1,
-        },
-        processingSteps,
-        errors: [...errors, error.message],
-      };
+      errors.push(`Vector generation failed: ${error.message}`);
+      // Continue processing even if vector generation fails
     }
+
+    return {};
   }
 
   /**
@@ -581,6 +1447,15 @@ export class DumpService {
         return ocrResult.text || 'Image with no readable text';
       }
 
+      case 'video': {
+        const videoResult = await this.videoProcessorService.processVideo(
+          request.mediaBuffer,
+          request.metadata?.mimeType || 'video/mp4',
+        );
+        processingSteps.push('Video processed (fallback)');
+        return videoResult.extractedText || 'Video with no speech or text';
+      }
+
       default:
         return request.content;
     }
@@ -603,6 +1478,8 @@ export class DumpService {
           return ContentType.IMAGE;
         case RouterContentType.DOCUMENT:
           return ContentType.EMAIL; // Using EMAIL as closest match
+        case RouterContentType.VIDEO:
+          return ContentType.VIDEO;
         case RouterContentType.TEXT:
         default:
           return ContentType.TEXT;
@@ -617,71 +1494,14 @@ export class DumpService {
         return ContentType.IMAGE;
       case 'document':
         return ContentType.EMAIL;
+      case 'video':
+        return ContentType.VIDEO;
       case 'text':
       default:
         return ContentType.TEXT;
     }
   }
 
-  /**
-   * Generate content vector for semantic search
-   */
-  private async generateContentVector(
-    dump: Dump,
-    processingSteps: string[],
-    errors: string[],
-  ): Promise<void> {
-    try {
-      const contentToEmbed = dump.ai_summary || dump.raw_content;
-      if (contentToEmbed) {
-        this.logger.debug(`Generating embedding for dump ${dump.id}`);
-        const embeddingResponse = await this.vectorService.generateEmbedding({
-          text: contentToEmbed,
-        });
-
-        await this.dumpRepository.update(dump.id, {
-          content_vector: embeddingResponse.embedding,
-        });
-
-        processingSteps.push('Content vector generated');
-        this.logger.debug(`Vector generated successfully for dump ${dump.id}`);
-
-        await this.databaseInitService.ensureVectorIndex();
-      }
-    } catch (error) {
-      this.logger.error(
-        `Failed to generate vector for dump ${dump.id}:`,
-        error,
-      );
-      errors.push(`Vector generation failed: ${error.message}`);
-    }
-  }
-
-  private async findOrCreateCategory(
-    categoryName: string,
-    userId?: string,
-  ): Promise<Category> {
-    // First try to find an existing category by name
-    let category = await this.categoryRepository.findOne({
-      where: { name: categoryName.toLowerCase() },
-    });
-
-    if (!category) {
-      // Create new category
-      category = this.categoryRepository.create({
-        name: categoryName.toLowerCase(),
-        description: `Auto-generated category for ${categoryName}`,
-        color: this.generateRandomColor(),
-        is_active: true,
-        sort_order: 0,
-      });
-      category = await this.categoryRepository.save(category);
-      this.logger.log(`Created new category: ${category.name}`);
-    }
-
-    return category;
-  }
-
   private async createFallbackDump(
     request: CreateDumpRequest,
     errorMessage: string,
@@ -702,6 +1522,9 @@ export class DumpService {
         case 'document':
           entityContentType = ContentType.EMAIL;
           break;
+        case 'video':
+          entityContentType = ContentType.VIDEO;
+          break;
         default:
           entityContentType = ContentType.TEXT;
       }
@@ -730,18 +1553,131 @@ export class DumpService {
           },
           metadata: {
             ...request.metadata,
+            // Lets the recovery job rebuild the request later
+            contentType: request.contentType,
+            originalText: request.originalText,
             error: errorMessage,
           },
         },
       });
 
-      return this.dumpRepository.save(fallbackDump);
+      const savedFallback = await this.dumpRepository.save(fallbackDump);
+      // Media is kept even when processing failed, it may be all the user has
+      await this.persistMedia(savedFallback, request, [], []);
+      return savedFallback;
     } catch (fallbackError) {
       this.logger.error('Failed to create fallback dump:', fallbackError);
       throw fallbackError;
     }
   }
 
+  /**
+   * Upload the request's media buffer and record its storage key in media_url.
+   * Storage failures are reported in errors but never abort dump creation.
+   */
+  private async persistMedia(
+    dump: Dump,
+    request: CreateDumpRequest,
+    processingSteps: string[],
+    errors: string[],
+  ): Promise<void> {
+    if (!request.mediaBuffer) {
+      return;
+    }
+
+    try {
+      const mediaKey = await this.mediaStorageService.storeDumpMedia(
+        dump.user_id,
+        dump.id,
+        request.mediaBuffer,
+        {
+          mimeType: request.metadata?.mimeType,
+          fileName: request.metadata?.fileName,
+        },
+      );
+
+      await this.dumpRepository.update(dump.id, { media_url: mediaKey });
+      dump.media_url = mediaKey;
+
+      if (request.extraPages?.length) {
+        const pageKeys: string[] = [];
+        for (const [index, page] of request.extraPages.entries()) {
+          pageKeys.push(
+            await this.mediaStorageService.storeDumpMedia(
+              dump.user_id,
+              dump.id,
+              page,
+              {
+                mimeType: request.metadata?.mimeType,
+                fileName: request.metadata?.fileName,
+                page: index + 2,
+              },
+            ),
+          );
+        }
+        await this.dumpRepository.update(dump.id, { media_pages: pageKeys });
+        dump.media_pages = pageKeys;
+      }
+      processingSteps.push(
+        request.extraPages?.length
+          ? `Original media stored (${request.extraPages.length + 1} pages)`
+          : 'Original media stored',
+      );
+    } catch (error) {
+      this.logger.error(`Failed to store media for dump ${dump.id}:`, error);
+      errors.push(`Media storage failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a short-lived signed URL for the original media of a dump.
+   * Multi-page dumps take a 1-based page; the first page is the default.
+   */
+  async getMediaUrl(
+    id: string,
+    expiresIn?: number,
+    page = 1,
+  ): Promise<{
+    dumpId: string;
+    url: string;
+    expiresIn: number;
+    expiresAt: Date;
+    mimeType?: string;
+    fileName?: string;
+    page: number;
+    pageCount: number;
+  }> {
+    const dump = await this.dumpRepository.findOne({ where: { id } });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${id} not found`);
+    }
+    if (!dump.media_url) {
+      throw new NotFoundException(`Dump ${id} has no stored media`);
+    }
+
+    const mediaKeys = [dump.media_url, ...(dump.media_pages || [])];
+    const mediaKey = mediaKeys[page - 1];
+    if (!mediaKey) {
+      throw new NotFoundException(
+        `Dump ${id} has ${mediaKeys.length} page(s); page ${page} does not exist`,
+      );
+    }
+
+    const signed = await this.mediaStorageService.getSignedUrl(
+      mediaKey,
+      expiresIn,
+    );
+
+    return {
+      dumpId: dump.id,
+      ...signed,
+      mimeType: dump.extracted_entities?.metadata?.mimeType,
+      fileName: dump.extracted_entities?.metadata?.fileName,
+      page,
+      pageCount: mediaKeys.length,
+    };
+  }
+
   async findById(id: string): Promise<Dump | null> {
     return this.dumpRepository.findOne({
       where: { id },
@@ -793,6 +1729,20 @@ export class DumpService {
           minConfidence: filters.minConfidence,
         });
       }
+
+      const tagNames = (filters.tags || [])
+        .map((tag) => this.tagService.normalizeName(tag))
+        .filter(Boolean);
+      if (tagNames.length > 0) {
+        queryBuilder.andWhere(
+          `EXISTS (
+            SELECT 1 FROM dump_tags dt
+            INNER JOIN tags t ON t.id = dt.tag_id
+            WHERE dt.dump_id = dump.id AND t.name IN (:...tagNames)
+          )`,
+          { tagNames },
+        );
+      }
     }
 
     // Order by creation date (newest first)
@@ -878,25 +1828,148 @@ export class DumpService {
     };
   }
 
-  async updateDump(id: string, updates: Partial<Dump>): Promise<Dump> {
+  /**
+   * Apply an edit to a dump and record it as a revision.
+   * With options.reprocess, a content change queues the pipeline again from analysis.
+   */
+  async updateDump(
+    id: string,
+    updates: Partial<Dump>,
+    options: UpdateDumpOptions = {},
+  ): Promise<Dump> {
     const dump = await this.findById(id);
     if (!dump) {
       throw new NotFoundException(`Dump with ID ${id} not found`);
     }
 
+    await this.dumpRevisionService.ensureBaseline(dump);
+
     await this.dumpRepository.update(id, updates);
     const updatedDump = await this.findById(id);
     if (!updatedDump) {
       throw new Error('Failed to retrieve updated dump');
     }
+
+    const author = options.author || {
+      type: RevisionAuthorType.USER,
+      id: dump.user_id,
+    };
+    await this.dumpRevisionService.recordRevision(
+      updatedDump,
+      author,
+      options.reason,
+    );
+
+    if (
+      updatedDump.category &&
+      updatedDump.category_id !== dump.category_id &&
+      author.type !== RevisionAuthorType.AI
+    ) {
+      await this.recordCategoryCorrection(
+        dump,
+        updatedDump.category,
+        author.type === RevisionAuthorType.ADMIN
+          ? CorrectionSource.ADMIN
+          : CorrectionSource.USER,
+      );
+    }
+
+    const contentChanged =
+      updates.raw_content !== undefined &&
+      updates.raw_content !== dump.raw_content;
+    if (options.reprocess && contentChanged) {
+      await this.queueReprocessing(updatedDump);
+    }
+
     return updatedDump;
   }
 
-  async deleteDump(id: string): Promise<void> {
-    const result = await this.dumpRepository.delete(id);
-    if (result.affected === 0) {
+  /**
+   * Keep a manual recategorization as an example for future categorization.
+   * Non-fatal: the edit itself has already been saved.
+   */
+  private async recordCategoryCorrection(
+    dump: Dump,
+    category: Category,
+    source: CorrectionSource,
+  ): Promise<void> {
+    try {
+      await this.categoryCorrectionService.recordCorrection(
+        dump,
+        category,
+        source,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record category correction for dump ${dump.id}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Restore the editable state of a dump from an earlier revision.
+   * The restore itself is recorded as a new revision.
+   */
+  async restoreRevision(
+    id: string,
+    revisionNumber: number,
+    author: RevisionAuthor,
+  ): Promise<Dump> {
+    const dump = await this.findById(id);
+    if (!dump) {
       throw new NotFoundException(`Dump with ID ${id} not found`);
     }
+
+    const revision = await this.dumpRevisionService.getRevision(
+      id,
+      revisionNumber,
+    );
+    await this.dumpRevisionService.ensureBaseline(dump);
+
+    await this.dumpRepository.update(id, {
+      ...revision.snapshot,
+    } as QueryDeepPartialEntity<Dump>);
+
+    // Keep semantic search in line with the restored content
+    try {
+      await this.vectorService.updateDumpVector(
+        id,
+        revision.snapshot.ai_summary || revision.snapshot.raw_content,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to refresh vector for restored dump ${id}: ${error.message}`,
+      );
+    }
+
+    const restoredDump = await this.findById(id);
+    if (!restoredDump) {
+      throw new Error('Failed to retrieve restored dump');
+    }
+
+    await this.dumpRevisionService.recordRevision(
+      restoredDump,
+      author,
+      `Restored revision ${revisionNumber}`,
+    );
+
+    return restoredDump;
+  }
+
+  private async queueReprocessing(dump: Dump): Promise<void> {
+    dump.processing_status = ProcessingStatus.RECEIVED;
+    dump.processing_steps = [
+      ...(dump.processing_steps || []),
+      'Re-processing requested after edit',
+    ];
+    await this.dumpRepository.update(dump.id, {
+      processing_status: dump.processing_status,
+      processing_steps: dump.processing_steps,
+    });
+
+    await this.dumpQueueService.enqueue(dump.id, 'analyze', {
+      reprocess: true,
+    });
   }
 
   async getDumpStatistics(userId?: string): Promise<{
@@ -956,6 +2029,10 @@ export class DumpService {
         return ContentType.IMAGE;
       case 'document':
         return ContentType.EMAIL;
+      case 'video':
+        return ContentType.VIDEO;
+      case 'url':
+        return ContentType.URL;
       default:
         return ContentType.TEXT;
     }
@@ -1034,19 +2111,6 @@ export class DumpService {
     });
   }
 
-  private generateRandomColor(): string {
-    const colors = [
-      '#FF6B6B',
-      '#4ECDC4',
-      '#45B7D1',
-      '#96CEB4',
-      '#FFEAA7',
-      '#DDA0DD',
-      '#98D8C8',
-    ];
-    return colors[Math.floor(Math.random() * colors.length)];
-  }
-
   private mapUrgencyToNumber(urgency: 'low' | 'medium' | 'high'): number {
     switch (urgency) {
       case 'low':
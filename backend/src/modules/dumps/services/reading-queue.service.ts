@@ -0,0 +1,74 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { Dump, ProcessingStatus } from '../../../entities/dump.entity';
+
+export interface ReadingQueueItem {
+  dumpId: string;
+  url: string | null;
+  title: string;
+  siteName: string | null;
+  readingMinutes: number | null;
+  publishedAt: string | null;
+  savedAt: Date;
+}
+
+/**
+ * ReadingQueueService
+ * Links saved with "read later" (or flagged through the API), oldest first,
+ * until the user marks them as read.
+ */
+@Injectable()
+export class ReadingQueueService {
+  private readonly logger = new Logger(ReadingQueueService.name);
+
+  constructor(
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+  ) {}
+
+  async getQueue(userId: string, limit = 20): Promise<ReadingQueueItem[]> {
+    const dumps = await this.dumpRepository.find({
+      where: {
+        user_id: userId,
+        read_later: true,
+        merged_into_id: IsNull(),
+        processing_status: ProcessingStatus.COMPLETED,
+      },
+      order: { created_at: 'ASC' },
+      take: limit,
+    });
+
+    return dumps.map((dump) => this.toItem(dump));
+  }
+
+  async setReadLater(dumpId: string, readLater: boolean): Promise<Dump> {
+    const dump = await this.dumpRepository.findOne({ where: { id: dumpId } });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${dumpId} not found`);
+    }
+
+    await this.dumpRepository.update(dumpId, { read_later: readLater });
+    dump.read_later = readLater;
+    this.logger.log(
+      `Dump ${dumpId} ${readLater ? 'added to' : 'removed from'} the reading queue`,
+    );
+
+    return dump;
+  }
+
+  private toItem(dump: Dump): ReadingQueueItem {
+    const link = dump.extracted_entities?.link;
+
+    return {
+      dumpId: dump.id,
+      url: link ? link.finalUrl || link.url : null,
+      title:
+        link?.title || dump.ai_summary || dump.raw_content.substring(0, 80),
+      siteName: link?.siteName || null,
+      readingMinutes: link?.readingMinutes ?? null,
+      publishedAt: link?.publishedAt || null,
+      savedAt: dump.created_at,
+    };
+  }
+}
@@ -1,26 +1,25 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Dump, ProcessingStatus } from '../../../entities/dump.entity';
-
-export enum ReviewFlag {
-  INCORRECT_CATEGORY = 'incorrect_category',
-  INCORRECT_SUMMARY = 'incorrect_summary',
-  MISSING_ENTITIES = 'missing_entities',
-  WRONG_URGENCY = 'wrong_urgency',
-  CONTENT_QUALITY = 'content_quality',
-  PROCESSING_ERROR = 'processing_error',
-  FALSE_POSITIVE = 'false_positive',
-  SPAM = 'spam',
-  OTHER = 'other',
-}
-
-export enum ReviewPriority {
-  LOW = 'low',
-  MEDIUM = 'medium',
-  HIGH = 'high',
-  CRITICAL = 'critical',
-}
+import { OnEvent } from '@nestjs/event-emitter';
+import { In, Repository } from 'typeorm';
+import { Dump } from '../../../entities/dump.entity';
+import { User, UserRole } from '../../../entities/user.entity';
+import {
+  ReviewItem,
+  ReviewFlag,
+  ReviewPriority,
+  ReviewReporter,
+  ReviewStatus,
+} from '../../../entities/review-item.entity';
+import { ReviewStatusChange } from '../../../entities/review-status-change.entity';
+import { CorrectionSource } from '../../../entities/category-correction.entity';
+import { CategorizationService } from './categorization.service';
+import { CategoryCorrectionService } from '../../categories/category-correction.service';
 
 export interface ReviewRequest {
   dumpId: string;
@@ -30,38 +29,72 @@ export interface ReviewRequest {
   description?: string;
   suggestedCategory?: string;
   suggestedSummary?: string;
-  reportedBy?: 'user' | 'system' | 'confidence_check';
+  reportedBy?: ReviewReporter;
 }
 
-export interface ReviewItem {
-  id: string;
-  dumpId: string;
-  userId: string;
-  flag: ReviewFlag;
-  priority: ReviewPriority;
-  description?: string;
-  suggestedCategory?: string;
-  suggestedSummary?: string;
-  reportedBy: 'user' | 'system' | 'confidence_check';
-  createdAt: Date;
-  resolvedAt?: Date;
-  resolvedBy?: string;
-  resolution?: string;
-  status: 'pending' | 'in_progress' | 'resolved' | 'dismissed';
+export interface ReviewFilters {
+  status?: ReviewStatus[];
+  dumpId?: string;
+  priority?: ReviewPriority;
+  flag?: ReviewFlag;
+  userId?: string;
+  assignedTo?: string;
+  olderThanHours?: number;
+  newerThanHours?: number;
+  limit?: number;
+  offset?: number;
 }
 
+export interface ReviewListResult {
+  items: ReviewItem[];
+  total: number;
+}
+
+export interface ReviewStats {
+  pending: number;
+  inProgress: number;
+  resolved: number;
+  dismissed: number;
+  byFlag: Record<ReviewFlag, number>;
+  byPriority: Record<ReviewPriority, number>;
+}
+
+export const OPEN_REVIEW_STATUSES = [
+  ReviewStatus.PENDING,
+  ReviewStatus.IN_PROGRESS,
+];
+
+// Dumps below this AI confidence (0-100) are queued for review
+const CONFIDENCE_THRESHOLD = 70;
+
+/**
+ * ReviewService
+ * Persistent queue of dumps flagged for manual review. Every status change
+ * and reassignment is recorded in review_status_changes.
+ *
+ * Lifecycle: pending -> in_progress (assigned) -> resolved | dismissed.
+ * Resolved and dismissed items are final.
+ */
 @Injectable()
 export class ReviewService {
   private readonly logger = new Logger(ReviewService.name);
-  private readonly reviewItems: Map<string, ReviewItem> = new Map();
 
   constructor(
+    @InjectRepository(ReviewItem)
+    private readonly reviewRepository: Repository<ReviewItem>,
+    @InjectRepository(ReviewStatusChange)
+    private readonly statusChangeRepository: Repository<ReviewStatusChange>,
     @InjectRepository(Dump)
     private readonly dumpRepository: Repository<Dump>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly categorizationService: CategorizationService,
+    private readonly categoryCorrectionService: CategoryCorrectionService,
   ) {}
 
   /**
-   * Flag a dump for manual review
+   * Flag a dump for manual review. An open item with the same flag is
+   * reused, so repeated checks do not pile up duplicates.
    */
   async flagForReview(request: ReviewRequest): Promise<string> {
     try {
@@ -71,44 +104,50 @@ export class ReviewService {
           id: request.dumpId,
           user_id: request.userId,
         },
-        relations: ['user', 'category'],
       });
 
       if (!dump) {
         throw new Error('Dump not found or access denied');
       }
 
-      // Create review item
-      const reviewId = this.generateReviewId();
-      const reviewItem: ReviewItem = {
-        id: reviewId,
-        dumpId: request.dumpId,
-        userId: request.userId,
-        flag: request.flag,
-        priority: request.priority || this.determinePriority(request.flag),
-        description: request.description,
-        suggestedCategory: request.suggestedCategory,
-        suggestedSummary: request.suggestedSummary,
-        reportedBy: request.reportedBy || 'user',
-        createdAt: new Date(),
-        status: 'pending',
-      };
-
-      // Store review item (in a real implementation, this would go to a database)
-      this.reviewItems.set(reviewId, reviewItem);
-
-      // Update dump status if needed
-      if (dump.processing_status === ProcessingStatus.COMPLETED) {
-        await this.dumpRepository.update(dump.id, {
-          processing_status: ProcessingStatus.PROCESSING, // Mark as needs attention
-        });
+      const existing = await this.reviewRepository.findOne({
+        where: {
+          dump_id: request.dumpId,
+          flag: request.flag,
+          status: In(OPEN_REVIEW_STATUSES),
+        },
+      });
+      if (existing) {
+        return existing.id;
       }
 
+      const reportedBy = request.reportedBy || ReviewReporter.USER;
+      const reviewItem = await this.reviewRepository.save(
+        this.reviewRepository.create({
+          dump_id: request.dumpId,
+          user_id: request.userId,
+          flag: request.flag,
+          priority: request.priority || this.determinePriority(request.flag),
+          status: ReviewStatus.PENDING,
+          description: request.description ?? null,
+          suggested_category: request.suggestedCategory ?? null,
+          suggested_summary: request.suggestedSummary ?? null,
+          reported_by: reportedBy,
+        }),
+      );
+
+      await this.recordStatusChange(
+        reviewItem,
+        null,
+        reportedBy === ReviewReporter.USER ? request.userId : null,
+        `Flagged by ${reportedBy}`,
+      );
+
       this.logger.log(
-        `Review flagged: ${reviewId} for dump ${request.dumpId} by ${request.reportedBy}`,
+        `Review flagged: ${reviewItem.id} for dump ${request.dumpId} by ${reportedBy}`,
       );
 
-      return reviewId;
+      return reviewItem.id;
     } catch (error) {
       this.logger.error('Error flagging dump for review:', error);
       throw error;
@@ -116,40 +155,75 @@ export class ReviewService {
   }
 
   /**
-   * Get pending review items for a user
+   * Get review items for a user, newest first
    */
   async getUserReviews(userId: string): Promise<ReviewItem[]> {
-    const userReviews = Array.from(this.reviewItems.values())
-      .filter((item) => item.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-    return userReviews;
+    return this.reviewRepository.find({
+      where: { user_id: userId },
+      order: { created_at: 'DESC' },
+    });
   }
 
   /**
-   * Get all pending review items (admin function)
+   * Review items matching the filters (admin function), highest priority
+   * first, then newest first. Without a status filter only open items are
+   * listed.
    */
-  async getPendingReviews(): Promise<ReviewItem[]> {
-    const pendingReviews = Array.from(this.reviewItems.values())
-      .filter((item) => item.status === 'pending')
-      .sort((a, b) => {
-        // Sort by priority first, then by creation time
-        const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-        const aPriority = priorityOrder[a.priority];
-        const bPriority = priorityOrder[b.priority];
-
-        if (aPriority !== bPriority) {
-          return bPriority - aPriority;
-        }
+  async listReviews(filters: ReviewFilters = {}): Promise<ReviewListResult> {
+    const query = this.reviewRepository
+      .createQueryBuilder('review')
+      .leftJoinAndSelect('review.dump', 'dump')
+      .leftJoinAndSelect('dump.category', 'category')
+      .leftJoinAndSelect('review.user', 'user')
+      .where('review.status IN (:...statuses)', {
+        statuses: filters.status?.length
+          ? filters.status
+          : OPEN_REVIEW_STATUSES,
+      });
 
-        return b.createdAt.getTime() - a.createdAt.getTime();
+    if (filters.priority) {
+      query.andWhere('review.priority = :priority', {
+        priority: filters.priority,
       });
+    }
+    if (filters.flag) {
+      query.andWhere('review.flag = :flag', { flag: filters.flag });
+    }
+    if (filters.dumpId) {
+      query.andWhere('review.dump_id = :dumpId', { dumpId: filters.dumpId });
+    }
+    if (filters.userId) {
+      query.andWhere('review.user_id = :userId', { userId: filters.userId });
+    }
+    if (filters.assignedTo) {
+      query.andWhere('review.assigned_to = :assignedTo', {
+        assignedTo: filters.assignedTo,
+      });
+    }
+    if (filters.olderThanHours !== undefined) {
+      query.andWhere('review.created_at <= :olderThan', {
+        olderThan: this.hoursAgo(filters.olderThanHours),
+      });
+    }
+    if (filters.newerThanHours !== undefined) {
+      query.andWhere('review.created_at >= :newerThan', {
+        newerThan: this.hoursAgo(filters.newerThanHours),
+      });
+    }
+
+    // Enum order is low < medium < high < critical
+    const [items, total] = await query
+      .orderBy('review.priority', 'DESC')
+      .addOrderBy('review.created_at', 'DESC')
+      .take(filters.limit ?? 50)
+      .skip(filters.offset ?? 0)
+      .getManyAndCount();
 
-    return pendingReviews;
+    return { items, total };
   }
 
   /**
-   * Resolve a review item
+   * Resolve a review item and apply its suggested category and summary
    */
   async resolveReview(
     reviewId: string,
@@ -157,16 +231,13 @@ export class ReviewService {
     resolvedBy: string,
   ): Promise<boolean> {
     try {
-      const reviewItem = this.reviewItems.get(reviewId);
-      if (!reviewItem) {
-        throw new Error('Review item not found');
-      }
-
-      // Update review item
-      reviewItem.status = 'resolved';
-      reviewItem.resolvedAt = new Date();
-      reviewItem.resolvedBy = resolvedBy;
-      reviewItem.resolution = resolution;
+      const reviewItem = await this.findReview(reviewId);
+      await this.closeReview(
+        reviewItem,
+        ReviewStatus.RESOLVED,
+        resolvedBy,
+        resolution,
+      );
 
       // Apply any suggested changes to the dump
       await this.applyResolution(reviewItem);
@@ -180,6 +251,111 @@ export class ReviewService {
     }
   }
 
+  /**
+   * Close a review item without changing the dump
+   */
+  async dismissReview(
+    reviewId: string,
+    resolution: string,
+    dismissedBy: string,
+  ): Promise<ReviewItem> {
+    const reviewItem = await this.findReview(reviewId);
+    await this.closeReview(
+      reviewItem,
+      ReviewStatus.DISMISSED,
+      dismissedBy,
+      resolution,
+    );
+
+    this.logger.log(`Review dismissed: ${reviewId} by ${dismissedBy}`);
+    return reviewItem;
+  }
+
+  /**
+   * Resolve every open review item of a dump, e.g. once an admin approved it.
+   * Returns the number of items resolved.
+   */
+  async resolveOpenReviewsForDump(
+    dumpId: string,
+    resolution: string,
+    resolvedBy?: string,
+  ): Promise<number> {
+    const openItems = await this.reviewRepository.find({
+      where: { dump_id: dumpId, status: In(OPEN_REVIEW_STATUSES) },
+    });
+
+    for (const reviewItem of openItems) {
+      await this.closeReview(
+        reviewItem,
+        ReviewStatus.RESOLVED,
+        resolvedBy ?? null,
+        resolution,
+      );
+    }
+
+    return openItems.length;
+  }
+
+  /**
+   * Assign a review item to an admin reviewer, or unassign it with null.
+   * Assigning starts the review; unassigning puts it back in the queue.
+   */
+  async assignReview(
+    reviewId: string,
+    assigneeId: string | null,
+    assignedBy: string,
+  ): Promise<ReviewItem> {
+    const reviewItem = await this.findReview(reviewId);
+    this.assertOpen(reviewItem);
+
+    if (assigneeId) {
+      const assignee = await this.userRepository.findOne({
+        where: { id: assigneeId },
+      });
+      if (assignee?.role !== UserRole.ADMIN) {
+        throw new BadRequestException(
+          'Reviews can only be assigned to admin users',
+        );
+      }
+    }
+
+    const fromStatus = reviewItem.status;
+    reviewItem.assigned_to = assigneeId;
+    reviewItem.status = assigneeId
+      ? ReviewStatus.IN_PROGRESS
+      : ReviewStatus.PENDING;
+    await this.reviewRepository.save(reviewItem);
+
+    await this.recordStatusChange(
+      reviewItem,
+      fromStatus,
+      assignedBy,
+      assigneeId ? `Assigned to ${assigneeId}` : 'Unassigned',
+    );
+
+    return reviewItem;
+  }
+
+  /**
+   * Audit trail of a review item, oldest first
+   */
+  async getReviewHistory(reviewId: string): Promise<ReviewStatusChange[]> {
+    await this.findReview(reviewId);
+
+    return this.statusChangeRepository.find({
+      where: { review_item_id: reviewId },
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  /**
+   * Queue newly processed dumps with low AI confidence for review
+   */
+  @OnEvent('dump.created', { async: true })
+  async handleDumpCreated(event: { dumpId: string }): Promise<void> {
+    await this.checkConfidenceThreshold(event.dumpId);
+  }
+
   /**
    * Automatically flag dumps with low confidence scores for review
    */
@@ -187,7 +363,6 @@ export class ReviewService {
     try {
       const dump = await this.dumpRepository.findOne({
         where: { id: dumpId },
-        relations: ['user', 'category'],
       });
 
       if (!dump?.ai_confidence) {
@@ -195,15 +370,14 @@ export class ReviewService {
       }
 
       // Flag for review if confidence is too low
-      const confidenceThreshold = 0.6; // 60%
-      if (dump.ai_confidence < confidenceThreshold) {
+      if (dump.ai_confidence < CONFIDENCE_THRESHOLD) {
         const reviewId = await this.flagForReview({
           dumpId: dump.id,
           userId: dump.user_id,
           flag: ReviewFlag.CONTENT_QUALITY,
-          priority: ReviewPriority.MEDIUM,
-          description: `Low AI confidence score: ${Math.round(dump.ai_confidence * 100)}%`,
-          reportedBy: 'confidence_check',
+          priority: this.priorityForConfidence(dump.ai_confidence),
+          description: `Low AI confidence score: ${dump.ai_confidence}%`,
+          reportedBy: ReviewReporter.CONFIDENCE_CHECK,
         });
 
         this.logger.log(
@@ -223,19 +397,12 @@ export class ReviewService {
   /**
    * Get review statistics
    */
-  async getReviewStats(): Promise<{
-    pending: number;
-    inProgress: number;
-    resolved: number;
-    byFlag: Record<ReviewFlag, number>;
-    byPriority: Record<ReviewPriority, number>;
-  }> {
-    const allReviews = Array.from(this.reviewItems.values());
-
-    const stats = {
+  async getReviewStats(): Promise<ReviewStats> {
+    const stats: ReviewStats = {
       pending: 0,
       inProgress: 0,
       resolved: 0,
+      dismissed: 0,
       byFlag: {} as Record<ReviewFlag, number>,
       byPriority: {} as Record<ReviewPriority, number>,
     };
@@ -248,21 +415,94 @@ export class ReviewService {
       stats.byPriority[priority] = 0;
     }
 
-    // Count reviews
-    for (const review of allReviews) {
-      if (review.status === 'pending') stats.pending++;
-      else if (review.status === 'in_progress') stats.inProgress++;
-      else if (review.status === 'resolved') stats.resolved++;
+    const rows: Array<{
+      status: ReviewStatus;
+      flag: ReviewFlag;
+      priority: ReviewPriority;
+      count: string;
+    }> = await this.reviewRepository
+      .createQueryBuilder('review')
+      .select('review.status', 'status')
+      .addSelect('review.flag', 'flag')
+      .addSelect('review.priority', 'priority')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('review.status')
+      .addGroupBy('review.flag')
+      .addGroupBy('review.priority')
+      .getRawMany();
 
-      stats.byFlag[review.flag]++;
-      stats.byPriority[review.priority]++;
+    // Count reviews
+    for (const row of rows) {
+      const count = Number.parseInt(row.count, 10);
+      if (row.status === ReviewStatus.PENDING) stats.pending += count;
+      else if (row.status === ReviewStatus.IN_PROGRESS)
+        stats.inProgress += count;
+      else if (row.status === ReviewStatus.RESOLVED) stats.resolved += count;
+      else if (row.status === ReviewStatus.DISMISSED) stats.dismissed += count;
+
+      stats.byFlag[row.flag] += count;
+      stats.byPriority[row.priority] += count;
     }
 
     return stats;
   }
 
-  private generateReviewId(): string {
-    return `REV_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  private async findReview(reviewId: string): Promise<ReviewItem> {
+    const reviewItem = await this.reviewRepository.findOne({
+      where: { id: reviewId },
+    });
+    if (!reviewItem) {
+      throw new NotFoundException('Review item not found');
+    }
+    return reviewItem;
+  }
+
+  private assertOpen(reviewItem: ReviewItem): void {
+    if (!OPEN_REVIEW_STATUSES.includes(reviewItem.status)) {
+      throw new BadRequestException(
+        `Review item is already ${reviewItem.status}`,
+      );
+    }
+  }
+
+  private async closeReview(
+    reviewItem: ReviewItem,
+    status: ReviewStatus.RESOLVED | ReviewStatus.DISMISSED,
+    closedBy: string | null,
+    resolution: string,
+  ): Promise<void> {
+    this.assertOpen(reviewItem);
+
+    const fromStatus = reviewItem.status;
+    reviewItem.status = status;
+    reviewItem.resolved_at = new Date();
+    reviewItem.resolved_by = closedBy;
+    reviewItem.resolution = resolution;
+    await this.reviewRepository.save(reviewItem);
+
+    await this.recordStatusChange(reviewItem, fromStatus, closedBy, resolution);
+  }
+
+  private async recordStatusChange(
+    reviewItem: ReviewItem,
+    fromStatus: ReviewStatus | null,
+    changedBy: string | null,
+    note?: string,
+  ): Promise<void> {
+    await this.statusChangeRepository.save(
+      this.statusChangeRepository.create({
+        review_item_id: reviewItem.id,
+        from_status: fromStatus,
+        to_status: reviewItem.status,
+        assigned_to: reviewItem.assigned_to ?? null,
+        changed_by: changedBy,
+        note: note ?? null,
+      }),
+    );
+  }
+
+  private hoursAgo(hours: number): Date {
+    return new Date(Date.now() - hours * 60 * 60 * 1000);
   }
 
   private determinePriority(flag: ReviewFlag): ReviewPriority {
@@ -281,30 +521,51 @@ export class ReviewService {
     return priorityMap[flag] || ReviewPriority.LOW;
   }
 
+  /**
+   * Priority of a low-confidence dump (0-100 scale)
+   */
+  private priorityForConfidence(confidence: number): ReviewPriority {
+    if (confidence < 30) return ReviewPriority.CRITICAL;
+    if (confidence < 50) return ReviewPriority.HIGH;
+    if (confidence < 60) return ReviewPriority.MEDIUM;
+    return ReviewPriority.LOW;
+  }
+
   private async applyResolution(reviewItem: ReviewItem): Promise<void> {
     try {
       const updates: Partial<Dump> = {};
 
       // Apply suggested changes based on the review
-      if (reviewItem.suggestedCategory) {
-        // In a real implementation, we'd look up the category ID
-        // For now, just log the suggestion
-        this.logger.log(
-          `Suggested category change for dump ${reviewItem.dumpId}: ${reviewItem.suggestedCategory}`,
-        );
-      }
+      if (reviewItem.suggested_category) {
+        const dump = await this.dumpRepository.findOne({
+          where: { id: reviewItem.dump_id },
+          relations: ['category'],
+        });
 
-      if (reviewItem.suggestedSummary) {
-        updates.ai_summary = reviewItem.suggestedSummary;
+        if (dump) {
+          const category =
+            await this.categorizationService.findOrCreateCategory(
+              reviewItem.suggested_category,
+              dump.user_id,
+            );
+          // Recorded while the dump still holds its previous category
+          await this.categoryCorrectionService.recordCorrection(
+            dump,
+            category,
+            CorrectionSource.REVIEW,
+          );
+          updates.category_id = category.id;
+        }
       }
 
-      // Mark as completed if resolution was successful
-      updates.processing_status = ProcessingStatus.COMPLETED;
+      if (reviewItem.suggested_summary) {
+        updates.ai_summary = reviewItem.suggested_summary;
+      }
 
       if (Object.keys(updates).length > 0) {
-        await this.dumpRepository.update(reviewItem.dumpId, updates);
+        await this.dumpRepository.update(reviewItem.dump_id, updates);
         this.logger.log(
-          `Applied resolution changes to dump ${reviewItem.dumpId}`,
+          `Applied resolution changes to dump ${reviewItem.dump_id}`,
         );
       }
     } catch (error) {
@@ -359,7 +359,10 @@ export class EmailController {
 
     // If email has attachments, create one dump per attachment
     if (processedEmail.attachments && processedEmail.attachments.length > 0) {
-      for (const attachment of processedEmail.attachments) {
+      for (const [
+        attachmentIndex,
+        attachment,
+      ] of processedEmail.attachments.entries()) {
         try {
           // Determine content type based on MIME type
           const contentType = this.mapMimeTypeToContentType(
@@ -371,7 +374,7 @@ export class EmailController {
             ? `${processedEmail.extractedText}\n\n---\nAttachment: ${attachment.filename}`
             : `Email attachment: ${attachment.filename}`;
 
-          const attachmentDump = await this.dumpService.createDumpEnhanced({
+          const attachmentDump = await this.dumpService.enqueueDump({
             userId,
             content,
             contentType,
@@ -380,15 +383,17 @@ export class EmailController {
               source: 'email',
               messageId: processedEmail.metadata.messageId,
               fileName: attachment.filename,
+              attachmentIndex,
               mimeType: attachment.contentType,
               fileSize: attachment.size,
               chatId: processedEmail.metadata.sender,
+              senderEmail: processedEmail.metadata.sender,
             },
           });
 
-          dumps.push(attachmentDump.dump);
+          dumps.push(attachmentDump);
           this.logger.log(
-            `Created ${contentType} dump from attachment: ${attachmentDump.dump.id}`,
+            `Created ${contentType} dump from attachment: ${attachmentDump.id}`,
           );
         } catch (error) {
           this.logger.error(
@@ -399,7 +404,7 @@ export class EmailController {
     } else if (processedEmail.extractedText?.trim()) {
       // No attachments but has text content - create text dump
       try {
-        const textDump = await this.dumpService.createDumpEnhanced({
+        const textDump = await this.dumpService.enqueueDump({
           userId,
           content: processedEmail.extractedText,
           contentType: 'text',
@@ -407,13 +412,12 @@ export class EmailController {
             source: 'email',
             messageId: processedEmail.metadata.messageId,
             chatId: processedEmail.metadata.sender,
+            senderEmail: processedEmail.metadata.sender,
           },
         });
 
-        dumps.push(textDump.dump);
-        this.logger.log(
-          `Created text dump from email body: ${textDump.dump.id}`,
-        );
+        dumps.push(textDump);
+        this.logger.log(`Created text dump from email body: ${textDump.id}`);
       } catch (error) {
         this.logger.error(
           `Failed to process email body text: ${error.message}`,
@@ -433,9 +437,10 @@ export class EmailController {
    */
   private mapMimeTypeToContentType(
     mimeType: string,
-  ): 'text' | 'voice' | 'image' | 'document' {
+  ): 'text' | 'voice' | 'image' | 'document' | 'video' {
     if (mimeType.startsWith('image/')) return 'image';
     if (mimeType.startsWith('audio/')) return 'voice';
+    if (mimeType.startsWith('video/')) return 'video';
     if (
       mimeType === 'application/pdf' ||
       mimeType.includes('word') ||
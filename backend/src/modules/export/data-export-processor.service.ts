@@ -0,0 +1,189 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, Interval } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import {
+  DataExport,
+  DataExportStatus,
+} from '../../entities/data-export.entity';
+import { MediaStorageService } from '../storage/media-storage.service';
+import {
+  DeliveryService,
+  NotificationType,
+} from '../notifications/delivery.service';
+import { DataExportService } from './data-export.service';
+import { ExportArchiveService } from './export-archive.service';
+
+// A PROCESSING export untouched this long was left by a crashed worker
+const STALE_MINUTES = 60;
+
+/**
+ * DataExportProcessorService
+ * Worker that builds requested exports one at a time, stores the archive
+ * and sends the user the download link through their preferred channel.
+ * Archives are deleted once their link expires.
+ */
+@Injectable()
+export class DataExportProcessorService {
+  private readonly logger = new Logger(DataExportProcessorService.name);
+  private readonly linkTtlHours: number;
+  private readonly publicUrl: string;
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(DataExport)
+    private readonly dataExportRepository: Repository<DataExport>,
+    private readonly dataExportService: DataExportService,
+    private readonly exportArchiveService: ExportArchiveService,
+    private readonly mediaStorageService: MediaStorageService,
+    private readonly deliveryService: DeliveryService,
+    private readonly configService: ConfigService,
+  ) {
+    this.linkTtlHours = Number(
+      this.configService.get<string>('DATA_EXPORT_LINK_TTL_HOURS') || 72,
+    );
+    this.publicUrl = (
+      this.configService.get<string>('PUBLIC_API_URL') ||
+      `http://localhost:${this.configService.get<string>('PORT') || 3000}`
+    ).replace(/\/$/, '');
+  }
+
+  @Interval('data-export-worker', 15000)
+  async processExports(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const dataExport = await this.claimNext();
+      if (dataExport) {
+        await this.processExport(dataExport);
+      }
+    } catch (error) {
+      this.logger.error('Data export worker failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async processExport(dataExport: DataExport): Promise<DataExport> {
+    try {
+      const archive = await this.exportArchiveService.buildArchive(
+        dataExport.user_id,
+      );
+      const fileKey = await this.mediaStorageService.storeDataExport(
+        dataExport.user_id,
+        dataExport.id,
+        archive.buffer,
+      );
+      const { token, hash } = this.dataExportService.createDownloadToken();
+
+      Object.assign(dataExport, {
+        status: DataExportStatus.COMPLETED,
+        file_key: fileKey,
+        file_size: archive.buffer.length,
+        download_token_hash: hash,
+        expires_at: new Date(Date.now() + this.linkTtlHours * 60 * 60 * 1000),
+        error: archive.missingMedia.length
+          ? `${archive.missingMedia.length} media files could not be read`
+          : null,
+        completed_at: new Date(),
+      });
+      await this.dataExportRepository.save(dataExport);
+      this.logger.log(
+        `Data export ${dataExport.id} built: ${JSON.stringify(archive.counts)}, ${archive.buffer.length} bytes`,
+      );
+
+      await this.deliveryService.deliver({
+        userId: dataExport.user_id,
+        type: NotificationType.UPDATE,
+        priority: 'high',
+        message: `Your data export is ready: ${this.downloadUrl(dataExport.id, token)}`,
+        messageDetails: `The link expires on ${dataExport.expires_at!.toISOString().slice(0, 16).replace('T', ' ')} UTC.`,
+      });
+    } catch (error) {
+      this.logger.error(`Data export ${dataExport.id} failed:`, error);
+      dataExport.status = DataExportStatus.FAILED;
+      dataExport.error = error.message;
+      await this.dataExportRepository.save(dataExport);
+
+      await this.deliveryService.deliver({
+        userId: dataExport.user_id,
+        type: NotificationType.UPDATE,
+        message:
+          'Your data export could not be prepared. Please request it again.',
+      });
+    }
+
+    return dataExport;
+  }
+
+  /**
+   * Delete the archives of expired exports
+   */
+  @Cron('0 4 * * *', {
+    name: 'data-export-cleanup',
+    timeZone: 'UTC',
+  })
+  async purgeExpired(): Promise<number> {
+    const expired = await this.dataExportRepository.find({
+      where: {
+        status: DataExportStatus.COMPLETED,
+        expires_at: LessThan(new Date()),
+      },
+    });
+
+    for (const dataExport of expired) {
+      if (dataExport.file_key) {
+        await this.mediaStorageService.deleteMedia(dataExport.file_key);
+      }
+      await this.dataExportRepository.update(dataExport.id, {
+        status: DataExportStatus.EXPIRED,
+        file_key: null,
+        download_token_hash: null,
+      });
+    }
+
+    if (expired.length > 0) {
+      this.logger.log(`Deleted ${expired.length} expired data exports`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Take the oldest pending export, or one a crashed worker left behind
+   */
+  private async claimNext(): Promise<DataExport | null> {
+    const staleBefore = new Date(Date.now() - STALE_MINUTES * 60 * 1000);
+    const dataExport = await this.dataExportRepository
+      .createQueryBuilder('export')
+      .where('export.status = :pending', { pending: DataExportStatus.PENDING })
+      .orWhere(
+        'export.status = :processing AND export.updated_at < :staleBefore',
+        { processing: DataExportStatus.PROCESSING, staleBefore },
+      )
+      .orderBy('export.created_at', 'ASC')
+      .getOne();
+    if (!dataExport) {
+      return null;
+    }
+
+    // Another instance may have claimed it in the meantime
+    const claimed = await this.dataExportRepository.update(
+      { id: dataExport.id, status: dataExport.status },
+      { status: DataExportStatus.PROCESSING },
+    );
+    if (!claimed.affected) {
+      return null;
+    }
+
+    dataExport.status = DataExportStatus.PROCESSING;
+    return dataExport;
+  }
+
+  private downloadUrl(exportId: string, token: string): string {
+    return `${this.publicUrl}/api/me/export/${exportId}/download?token=${token}`;
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Redirect,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import { DataExport } from '../../entities/data-export.entity';
+import { DataExportService } from './data-export.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+@Controller('api/me/export')
+export class DataExportController {
+  constructor(private readonly dataExportService: DataExportService) {}
+
+  /**
+   * Request a copy of all the user's data
+   * POST /api/me/export
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async requestExport(@GetUser() user: User): Promise<ApiResponse<DataExport>> {
+    const dataExport = await this.dataExportService.requestExport(user.id);
+
+    return {
+      success: true,
+      data: dataExport,
+      message:
+        'Export started. You will receive a download link when it is ready',
+    };
+  }
+
+  /**
+   * List the user's exports, newest first
+   * GET /api/me/export
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  async listExports(@GetUser() user: User): Promise<ApiResponse<DataExport[]>> {
+    const exports = await this.dataExportService.listExports(user.id);
+
+    return {
+      success: true,
+      data: exports,
+      message: `Found ${exports.length} exports`,
+    };
+  }
+
+  /**
+   * Export status
+   * GET /api/me/export/:id
+   */
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  async getExport(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<DataExport>> {
+    const dataExport = await this.dataExportService.getExport(user.id, id);
+
+    return {
+      success: true,
+      data: dataExport,
+      message: `Export ${dataExport.status}`,
+    };
+  }
+
+  /**
+   * Download link sent to the user; the token stands in for the login,
+   * so it opens from a chat or mail app
+   * GET /api/me/export/:id/download?token=
+   */
+  @Get(':id/download')
+  @Redirect()
+  async download(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('token') token: string,
+  ): Promise<{ url: string; statusCode: number }> {
+    const url = await this.dataExportService.getDownloadUrl(id, token);
+    return { url, statusCode: HttpStatus.FOUND };
+  }
+}
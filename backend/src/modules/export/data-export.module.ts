@@ -0,0 +1,53 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataExport } from '../../entities/data-export.entity';
+import { User } from '../../entities/user.entity';
+import { Dump } from '../../entities/dump.entity';
+import { Reminder } from '../../entities/reminder.entity';
+import { TrackableItem } from '../../entities/trackable-item.entity';
+import { Feedback } from '../../entities/feedback.entity';
+import { Category } from '../../entities/category.entity';
+import { Task } from '../../entities/task.entity';
+import { Tag } from '../../entities/tag.entity';
+import { StorageModule } from '../storage/storage.module';
+import { NotificationModule } from '../notifications/notification.module';
+import { DataExportService } from './data-export.service';
+import { DataExportProcessorService } from './data-export-processor.service';
+import { ExportArchiveService } from './export-archive.service';
+import { DataExportController } from './data-export.controller';
+
+/**
+ * Module for personal data exports
+ *
+ * Provides:
+ * - DataExportService: Export requests and download links
+ * - DataExportProcessorService: Background worker building the archives
+ * - ExportArchiveService: Collects the user's records and media into a zip
+ * - DataExportController: REST API endpoints
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      DataExport,
+      User,
+      Dump,
+      Reminder,
+      TrackableItem,
+      Feedback,
+      Category,
+      Task,
+      Tag,
+    ]),
+    ConfigModule,
+    StorageModule,
+    NotificationModule, // DeliveryService sends the download link
+  ],
+  providers: [
+    DataExportService,
+    DataExportProcessorService,
+    ExportArchiveService,
+  ],
+  controllers: [DataExportController],
+})
+export class DataExportModule {}
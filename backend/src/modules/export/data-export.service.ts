@@ -0,0 +1,131 @@
+import {
+  GoneException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import * as crypto from 'node:crypto';
+import {
+  DataExport,
+  DataExportStatus,
+} from '../../entities/data-export.entity';
+import { MediaStorageService } from '../storage/media-storage.service';
+
+// The download link only redirects; the storage link it hands out is short-lived
+const STORAGE_LINK_TTL_SECONDS = 300;
+
+/**
+ * DataExportService
+ * Personal data export requests: at most one export is in progress per
+ * user, and a finished archive is downloaded through a tokenized link
+ * that stops working when the export expires.
+ */
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+
+  constructor(
+    @InjectRepository(DataExport)
+    private readonly dataExportRepository: Repository<DataExport>,
+    private readonly mediaStorageService: MediaStorageService,
+  ) {}
+
+  /**
+   * Queue an export of the user's data. An export already pending or in
+   * progress is returned instead of starting another.
+   */
+  async requestExport(userId: string): Promise<DataExport> {
+    const inProgress = await this.dataExportRepository.findOne({
+      where: {
+        user_id: userId,
+        status: In([DataExportStatus.PENDING, DataExportStatus.PROCESSING]),
+      },
+    });
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const dataExport = await this.dataExportRepository.save(
+      this.dataExportRepository.create({ user_id: userId }),
+    );
+    this.logger.log(`Data export ${dataExport.id} requested by ${userId}`);
+    return dataExport;
+  }
+
+  async getExport(userId: string, exportId: string): Promise<DataExport> {
+    const dataExport = await this.dataExportRepository.findOne({
+      where: { id: exportId, user_id: userId },
+    });
+    if (!dataExport) {
+      throw new NotFoundException(`Data export with ID ${exportId} not found`);
+    }
+    return dataExport;
+  }
+
+  async listExports(userId: string): Promise<DataExport[]> {
+    return this.dataExportRepository.find({
+      where: { user_id: userId },
+      order: { created_at: 'DESC' },
+      take: 20,
+    });
+  }
+
+  /**
+   * Resolve a download link to a short-lived storage URL of the archive
+   */
+  async getDownloadUrl(exportId: string, token: string): Promise<string> {
+    const dataExport = await this.dataExportRepository
+      .createQueryBuilder('export')
+      .addSelect('export.download_token_hash')
+      .where('export.id = :exportId', { exportId })
+      .getOne();
+
+    // Unknown exports and wrong tokens look the same to the caller
+    if (
+      !dataExport?.download_token_hash ||
+      !this.matchesToken(dataExport.download_token_hash, token)
+    ) {
+      throw new NotFoundException('Download link not found');
+    }
+
+    if (
+      dataExport.status !== DataExportStatus.COMPLETED ||
+      !dataExport.file_key ||
+      !dataExport.expires_at ||
+      dataExport.expires_at.getTime() < Date.now()
+    ) {
+      throw new GoneException(
+        'This download link has expired. Request a new export.',
+      );
+    }
+
+    const { url } = await this.mediaStorageService.getSignedUrl(
+      dataExport.file_key,
+      STORAGE_LINK_TTL_SECONDS,
+    );
+    return url;
+  }
+
+  /**
+   * A new download token and the hash stored for it
+   */
+  createDownloadToken(): { token: string; hash: string } {
+    const token = crypto.randomBytes(32).toString('hex');
+    return { token, hash: this.hashToken(token) };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private matchesToken(hash: string, token: string): boolean {
+    const expected = Buffer.from(hash);
+    const provided = Buffer.from(this.hashToken(token || ''));
+    return (
+      expected.length === provided.length &&
+      crypto.timingSafeEqual(expected, provided)
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import * as path from 'node:path';
+import JSZip from 'jszip';
+import { User } from '../../entities/user.entity';
+import { Dump } from '../../entities/dump.entity';
+import { Reminder } from '../../entities/reminder.entity';
+import { TrackableItem } from '../../entities/trackable-item.entity';
+import { Feedback } from '../../entities/feedback.entity';
+import { Category } from '../../entities/category.entity';
+import { Task } from '../../entities/task.entity';
+import { Tag } from '../../entities/tag.entity';
+import { MediaStorageService } from '../storage/media-storage.service';
+import { DumpMarkdownHelper } from './helpers/dump-markdown.helper';
+
+export interface ExportArchive {
+  buffer: Buffer;
+  counts: Record<string, number>;
+  // Media that could not be read from storage and is missing from the archive
+  missingMedia: string[];
+}
+
+const README = `# Your data export
+
+- profile.json: your account and preferences
+- dumps.json: everything you sent, with the text, summary and details extracted from it
+- dumps/: one Markdown note per dump
+- media/: the original voice notes, photos, videos and documents
+- reminders.json, tasks.json: your reminders and tasks
+- tracking.json: tracked items (packages, applications, ...) with their checkpoints
+- categories.json, tags.json: the categories and tags your dumps are filed under
+- feedback.json: the feedback you sent us
+
+Dates are in UTC (ISO 8601).
+`;
+
+/**
+ * ExportArchiveService
+ * Collects everything stored for a user into a zip archive: JSON files
+ * for each kind of record, a Markdown rendition of every dump and the
+ * original media files. Dumps in the trash are included.
+ */
+@Injectable()
+export class ExportArchiveService {
+  private readonly logger = new Logger(ExportArchiveService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    @InjectRepository(Reminder)
+    private readonly reminderRepository: Repository<Reminder>,
+    @InjectRepository(TrackableItem)
+    private readonly trackableItemRepository: Repository<TrackableItem>,
+    @InjectRepository(Feedback)
+    private readonly feedbackRepository: Repository<Feedback>,
+    @InjectRepository(Category)
+    private readonly categoryRepository: Repository<Category>,
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    private readonly mediaStorageService: MediaStorageService,
+  ) {}
+
+  async buildArchive(userId: string): Promise<ExportArchive> {
+    const byUser = { where: { user_id: userId } };
+    const [user, dumps, reminders, trackableItems, feedback, tasks, tags] =
+      await Promise.all([
+        this.userRepository.findOne({ where: { id: userId } }),
+        this.dumpRepository.find({
+          ...byUser,
+          relations: ['category', 'dump_tags', 'dump_tags.tag'],
+          order: { created_at: 'ASC' },
+          withDeleted: true,
+        }),
+        this.reminderRepository.find({
+          ...byUser,
+          order: { created_at: 'ASC' },
+        }),
+        this.trackableItemRepository.find({
+          ...byUser,
+          order: { created_at: 'ASC' },
+        }),
+        this.feedbackRepository.find({
+          ...byUser,
+          order: { created_at: 'ASC' },
+        }),
+        this.taskRepository.find({ ...byUser, order: { created_at: 'ASC' } }),
+        this.tagRepository.find({ ...byUser, order: { name: 'ASC' } }),
+      ]);
+
+    const usedCategoryIds = [
+      ...new Set(dumps.map((dump) => dump.category_id).filter(Boolean)),
+    ];
+    const categories = await this.categoryRepository.find({
+      where: [{ user_id: userId }, { id: In(usedCategoryIds) }],
+      order: { name: 'ASC' },
+    });
+
+    const zip = new JSZip();
+    const missingMedia: string[] = [];
+    zip.file('README.md', README);
+    zip.file('profile.json', this.toJson(user));
+    zip.file('reminders.json', this.toJson(reminders));
+    zip.file('tracking.json', this.toJson(trackableItems));
+    zip.file('feedback.json', this.toJson(feedback));
+    zip.file('categories.json', this.toJson(categories));
+    zip.file('tasks.json', this.toJson(tasks));
+    zip.file('tags.json', this.toJson(tags));
+
+    const dumpRecords: Array<Record<string, unknown>> = [];
+    for (const dump of dumps) {
+      const mediaPaths: string[] = [];
+      for (const key of [dump.media_url, ...(dump.media_pages || [])]) {
+        if (!key) {
+          continue;
+        }
+        const archivePath = `media/${path.basename(key)}`;
+        try {
+          const media = await this.mediaStorageService.downloadMedia(key);
+          // Media is already compressed; storing it as-is saves the CPU
+          zip.file(archivePath, media, { compression: 'STORE' });
+          mediaPaths.push(archivePath);
+        } catch (error) {
+          this.logger.warn(
+            `Media ${key} of dump ${dump.id} left out of the export: ${error.message}`,
+          );
+          missingMedia.push(key);
+        }
+      }
+
+      const tagNames = (dump.dump_tags || [])
+        .map((dumpTag) => dumpTag.tag?.name)
+        .filter(Boolean);
+      zip.file(
+        `dumps/${DumpMarkdownHelper.fileName(dump)}`,
+        DumpMarkdownHelper.render(dump, {
+          categoryName: dump.category?.name,
+          tags: tagNames,
+          mediaPaths: mediaPaths.map((mediaPath) => `../${mediaPath}`),
+        }),
+      );
+
+      // The embedding vector is internal and only bloats the file
+      const {
+        content_vector: _vector,
+        category,
+        dump_tags: _dumpTags,
+        ...record
+      } = dump;
+      dumpRecords.push({
+        ...record,
+        category: category?.name || null,
+        tags: tagNames,
+        media_files: mediaPaths,
+      });
+    }
+    zip.file('dumps.json', this.toJson(dumpRecords));
+
+    const buffer = await zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+    });
+
+    return {
+      buffer,
+      counts: {
+        dumps: dumps.length,
+        reminders: reminders.length,
+        trackingItems: trackableItems.length,
+        feedback: feedback.length,
+        categories: categories.length,
+        tasks: tasks.length,
+        tags: tags.length,
+      },
+      missingMedia,
+    };
+  }
+
+  private toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+  }
+}
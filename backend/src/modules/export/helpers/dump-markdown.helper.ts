@@ -0,0 +1,112 @@
+import { Dump, ExtractedEntitiesData } from '../../../entities/dump.entity';
+
+export interface DumpMarkdownContext {
+  categoryName?: string | null;
+  tags: string[];
+  // Archive paths of the dump's original media, relative to the Markdown file
+  mediaPaths: string[];
+}
+
+type EntityListKey = Exclude<
+  keyof NonNullable<ExtractedEntitiesData['entities']>,
+  'contacts'
+>;
+
+const ENTITY_LABELS: Array<[EntityListKey, string]> = [
+  ['dates', 'Dates'],
+  ['times', 'Times'],
+  ['locations', 'Places'],
+  ['people', 'People'],
+  ['organizations', 'Organizations'],
+  ['amounts', 'Amounts'],
+];
+
+/**
+ * Renders a dump as a standalone Markdown note for the data export, so the
+ * archive is readable without any tooling
+ */
+export class DumpMarkdownHelper {
+  /**
+   * File name sorting the notes by date: 2026-03-02-1a2b3c4d.md
+   */
+  static fileName(dump: Dump): string {
+    const date = new Date(dump.created_at).toISOString().slice(0, 10);
+    return `${date}-${dump.id.slice(0, 8)}.md`;
+  }
+
+  static render(dump: Dump, context: DumpMarkdownContext): string {
+    const entities = dump.extracted_entities || {};
+    const link = entities.link;
+    const lines: string[] = [`# ${this.title(dump)}`, ''];
+
+    const details: Array<[string, string | null | undefined]> = [
+      ['Date', new Date(dump.created_at).toISOString()],
+      ['Type', dump.content_type],
+      ['Source', entities.metadata?.importSource || entities.metadata?.source],
+      ['Category', context.categoryName],
+      ['Tags', context.tags.map((tag) => `#${tag}`).join(' ')],
+      ['Link', link?.url],
+      ['Deleted', dump.deleted_at && new Date(dump.deleted_at).toISOString()],
+    ];
+    for (const [label, value] of details) {
+      if (value) {
+        lines.push(`- **${label}:** ${value}`);
+      }
+    }
+    lines.push('');
+
+    if (dump.ai_summary) {
+      lines.push('## Summary', '', dump.ai_summary, '');
+    }
+
+    lines.push('## Content', '', dump.raw_content || '_(empty)_', '');
+
+    if (entities.actionItems?.length) {
+      lines.push(
+        '## Action items',
+        '',
+        ...entities.actionItems.map((item) => `- ${item}`),
+        '',
+      );
+    }
+
+    const found = ENTITY_LABELS.map(([key, label]): [string, string[]] => [
+      label,
+      entities.entities?.[key] || [],
+    ]).filter(([, values]) => values.length > 0);
+    if (found.length > 0) {
+      lines.push(
+        '## Details',
+        '',
+        ...found.map(
+          ([label, values]) => `- **${label}:** ${values.join(', ')}`,
+        ),
+        '',
+      );
+    }
+
+    if (context.mediaPaths.length > 0) {
+      lines.push(
+        '## Media',
+        '',
+        ...context.mediaPaths.map(
+          (mediaPath, index) => `- [Original ${index + 1}](${mediaPath})`,
+        ),
+        '',
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  private static title(dump: Dump): string {
+    const source =
+      dump.extracted_entities?.link?.title ||
+      dump.extracted_entities?.metadata?.title ||
+      dump.ai_summary ||
+      dump.raw_content ||
+      'Untitled';
+    const firstLine = source.trim().split('\n')[0];
+    return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+  }
+}
@@ -0,0 +1,189 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImportJob, ImportJobStatus } from '../../entities/import-job.entity';
+import { Dump, ProcessingStatus } from '../../entities/dump.entity';
+import { DumpService, DumpPipelineError } from '../dumps/services/dump.service';
+
+// A PROCESSING import dump untouched this long was left by a crashed worker
+const STALE_MINUTES = 30;
+
+/**
+ * ImportProcessorService
+ * Worker that runs imported dumps through the pipeline a few at a time, so
+ * a large import does not crowd out live messages or burst the AI quota.
+ * Jobs are worked oldest first and completed once none of their dumps is
+ * waiting.
+ */
+@Injectable()
+export class ImportProcessorService {
+  private readonly logger = new Logger(ImportProcessorService.name);
+  private readonly batchSize: number;
+  private isRunning = false;
+
+  constructor(
+    @InjectRepository(ImportJob)
+    private readonly importJobRepository: Repository<ImportJob>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly dumpService: DumpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.batchSize = Number(
+      this.configService.get<string>('IMPORT_BATCH_SIZE') || 5,
+    );
+  }
+
+  @Interval('import-worker', 10000)
+  async processImports(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      const jobs = await this.importJobRepository.find({
+        where: { status: ImportJobStatus.PROCESSING },
+        order: { created_at: 'ASC' },
+      });
+      // A paused job, or one whose dumps all wait for an outage to end, does
+      // not hold up the imports behind it
+      for (const job of jobs) {
+        if ((await this.processBatch(job)) > 0) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Import worker failed:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Process the next batch of a job's dumps, oldest note first, then update
+   * its counters. Returns how many dumps the batch processed; a job that is
+   * or gets paused counts as no work.
+   */
+  async processBatch(job: ImportJob): Promise<number> {
+    if (job.paused_until) {
+      if (job.paused_until > new Date()) {
+        return 0;
+      }
+      job.paused_until = null;
+    }
+
+    await this.resetStaleDumps(job.id);
+
+    const dumps = await this.pendingDumps(job.id)
+      .orderBy('dump.created_at', 'ASC')
+      .take(this.batchSize)
+      .getMany();
+
+    for (const dump of dumps) {
+      try {
+        await this.dumpService.processDump(dump.id);
+      } catch (error) {
+        // An AI outage or the user's used-up budget: the dump is back to
+        // RECEIVED and the whole import waits until it is over
+        const outage =
+          error instanceof DumpPipelineError ? error.serviceUnavailable : null;
+        if (outage) {
+          this.logger.warn(`Import ${job.id} paused: ${error.message}`);
+          await this.dumpService.deferDump(dump.id, outage);
+          job.paused_until = outage.retryAt;
+          break;
+        }
+
+        // Trashed since the batch was picked
+        if (error instanceof NotFoundException) {
+          continue;
+        }
+
+        this.logger.warn(
+          `Imported dump ${dump.id} failed: ${error.message || error}`,
+        );
+        try {
+          await this.dumpService.markDumpFailed(dump.id, error.message);
+        } catch (markError) {
+          this.logger.warn(
+            `Could not mark imported dump ${dump.id} failed: ${markError.message}`,
+          );
+        }
+      }
+    }
+
+    await this.refreshJob(job);
+    return job.paused_until ? 0 : dumps.length;
+  }
+
+  private async refreshJob(job: ImportJob): Promise<ImportJob> {
+    const counts = await this.dumpRepository
+      .createQueryBuilder('dump')
+      .select('dump.processing_status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('dump.import_job_id = :jobId', { jobId: job.id })
+      .groupBy('dump.processing_status')
+      .getRawMany<{ status: ProcessingStatus; count: string }>();
+    const count = (status: ProcessingStatus) =>
+      Number(counts.find((row) => row.status === status)?.count || 0);
+
+    job.processed_items = count(ProcessingStatus.COMPLETED);
+    job.failed_items = count(ProcessingStatus.FAILED);
+
+    if (
+      count(ProcessingStatus.RECEIVED) + count(ProcessingStatus.PROCESSING) ===
+      0
+    ) {
+      job.status = ImportJobStatus.COMPLETED;
+      job.completed_at = new Date();
+      this.logger.log(
+        `Import ${job.id} completed: ${job.processed_items} processed, ${job.failed_items} failed`,
+      );
+    }
+
+    return this.importJobRepository.save(job);
+  }
+
+  /**
+   * Put dumps left PROCESSING by a crashed worker back to RECEIVED.
+   * processDump skips PROCESSING dumps, and being the oldest they would
+   * otherwise take up every batch.
+   */
+  private async resetStaleDumps(jobId: string): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_MINUTES * 60 * 1000);
+    const reset = await this.dumpRepository
+      .createQueryBuilder()
+      .update(Dump)
+      .set({ processing_status: ProcessingStatus.RECEIVED })
+      .where('import_job_id = :jobId', { jobId })
+      .andWhere('processing_status = :processing', {
+        processing: ProcessingStatus.PROCESSING,
+      })
+      .andWhere(
+        '(processing_started_at IS NULL OR processing_started_at < :staleBefore)',
+        { staleBefore },
+      )
+      .execute();
+    if (reset.affected) {
+      this.logger.warn(
+        `Reset ${reset.affected} stale dump(s) of import ${jobId}`,
+      );
+    }
+  }
+
+  private pendingDumps(jobId: string) {
+    return this.dumpRepository
+      .createQueryBuilder('dump')
+      .where('dump.import_job_id = :jobId', { jobId })
+      .andWhere('dump.processing_status = :received', {
+        received: ProcessingStatus.RECEIVED,
+      })
+      .andWhere(
+        '(dump.deferred_until IS NULL OR dump.deferred_until <= :now)',
+        { now: new Date() },
+      );
+  }
+}
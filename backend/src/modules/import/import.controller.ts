@@ -0,0 +1,104 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  ValidationPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { IsEnum, IsOptional } from 'class-validator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import { ImportJob, ImportSource } from '../../entities/import-job.entity';
+import { ImportService, ImportJobProgress } from './import.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+// Takeout and vault zips get large; the notes inside are what is kept
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export class StartImportDto {
+  @IsOptional()
+  @IsEnum(ImportSource)
+  source?: ImportSource; // Detected from the files when omitted
+}
+
+@Controller('api/import')
+@UseGuards(JwtAuthGuard)
+export class ImportController {
+  constructor(private readonly importService: ImportService) {}
+
+  /**
+   * Import an export from another note-taking tool
+   * POST /api/import (multipart: file, optional source)
+   */
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }),
+  )
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startImport(
+    @GetUser() user: User,
+    @UploadedFile() file: any,
+    @Body(ValidationPipe) startImportDto: StartImportDto,
+  ): Promise<ApiResponse<ImportJob>> {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('An export file is required');
+    }
+
+    const job = await this.importService.startImport(
+      user.id,
+      file,
+      startImportDto.source,
+    );
+
+    return {
+      success: true,
+      data: job,
+      message: `Importing ${job.total_items - job.skipped_items} items from ${job.source}`,
+    };
+  }
+
+  /**
+   * List the user's imports, newest first
+   * GET /api/import
+   */
+  @Get()
+  async listImports(
+    @GetUser() user: User,
+  ): Promise<ApiResponse<ImportJobProgress[]>> {
+    const jobs = await this.importService.listJobs(user.id);
+
+    return {
+      success: true,
+      data: jobs,
+      message: `Found ${jobs.length} imports`,
+    };
+  }
+
+  /**
+   * Import progress
+   * GET /api/import/:id
+   */
+  @Get(':id')
+  async getImport(
+    @GetUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiResponse<ImportJobProgress>> {
+    const job = await this.importService.getJob(user.id, id);
+
+    return {
+      success: true,
+      data: job,
+      message: `Import ${job.status}: ${job.progress}%`,
+    };
+  }
+}
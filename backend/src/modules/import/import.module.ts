@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ImportJob } from '../../entities/import-job.entity';
+import { Dump } from '../../entities/dump.entity';
+import { DumpModule } from '../dumps/dump.module';
+import { TagModule } from '../tags/tag.module';
+import { LinksModule } from '../links/links.module';
+import { GoogleKeepParser } from './parsers/google-keep.parser';
+import { EvernoteParser } from './parsers/evernote.parser';
+import { MarkdownParser } from './parsers/markdown.parser';
+import { WhatsAppChatParser } from './parsers/whatsapp-chat.parser';
+import { TelegramExportParser } from './parsers/telegram-export.parser';
+import { ImportService } from './import.service';
+import { ImportProcessorService } from './import-processor.service';
+import { ImportController } from './import.controller';
+
+/**
+ * Module for bulk import from other note-taking tools
+ *
+ * Provides:
+ * - ImportService: Parses exports and saves their items as dumps
+ * - ImportProcessorService: Throttled worker running imported dumps through the pipeline
+ * - ImportController: REST API endpoints
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ImportJob, Dump]),
+    ConfigModule,
+    DumpModule,
+    TagModule,
+    LinksModule,
+  ],
+  providers: [
+    GoogleKeepParser,
+    EvernoteParser,
+    MarkdownParser,
+    WhatsAppChatParser,
+    TelegramExportParser,
+    ImportService,
+    ImportProcessorService,
+  ],
+  controllers: [ImportController],
+})
+export class ImportModule {}
@@ -0,0 +1,283 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import * as path from 'node:path';
+import JSZip from 'jszip';
+import {
+  ImportJob,
+  ImportJobStatus,
+  ImportSource,
+} from '../../entities/import-job.entity';
+import {
+  ContentType,
+  Dump,
+  ProcessingStatus,
+} from '../../entities/dump.entity';
+import { TagService } from '../tags/tag.service';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+  ImportParseError,
+} from './parsers/import-parser.interface';
+import { GoogleKeepParser } from './parsers/google-keep.parser';
+import { EvernoteParser } from './parsers/evernote.parser';
+import { MarkdownParser } from './parsers/markdown.parser';
+import { WhatsAppChatParser } from './parsers/whatsapp-chat.parser';
+import { TelegramExportParser } from './parsers/telegram-export.parser';
+
+export interface ImportUpload {
+  originalname?: string;
+  buffer: Buffer;
+}
+
+export interface ImportJobProgress extends ImportJob {
+  // Share of the imported items that went through the pipeline, 0-100
+  progress: number;
+}
+
+// Only these archive entries can hold notes; attachments are not unpacked
+const NOTE_EXTENSIONS = ['.json', '.enex', '.md', '.markdown', '.txt'];
+// Bounds what a zip may unpack to, so a small upload cannot exhaust memory
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * ImportService
+ * Turns an export from another note-taking tool into dumps. Items are saved
+ * with their original dates and left RECEIVED for ImportProcessorService to
+ * run through the pipeline; uploading the same export again only adds the
+ * items that are new.
+ */
+@Injectable()
+export class ImportService {
+  private readonly logger = new Logger(ImportService.name);
+  // Most specific first: Keep and Telegram both ship JSON
+  private readonly parsers: ImportParser[];
+
+  constructor(
+    @InjectRepository(ImportJob)
+    private readonly importJobRepository: Repository<ImportJob>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly tagService: TagService,
+    googleKeepParser: GoogleKeepParser,
+    evernoteParser: EvernoteParser,
+    telegramExportParser: TelegramExportParser,
+    whatsAppChatParser: WhatsAppChatParser,
+    markdownParser: MarkdownParser,
+  ) {
+    this.parsers = [
+      googleKeepParser,
+      evernoteParser,
+      telegramExportParser,
+      whatsAppChatParser,
+      markdownParser,
+    ];
+  }
+
+  /**
+   * Save the items of an export as dumps and start an import job for them.
+   * The source is detected from the files unless given.
+   */
+  async startImport(
+    userId: string,
+    upload: ImportUpload,
+    source?: ImportSource,
+  ): Promise<ImportJob> {
+    const files = await this.readUpload(upload);
+    const parser = source
+      ? this.parsers.find((candidate) => candidate.source === source)
+      : this.parsers.find((candidate) => candidate.detect(files));
+    if (!parser) {
+      throw new BadRequestException(
+        'Unrecognized export. Upload a Google Keep, Evernote, Markdown, WhatsApp or Telegram export',
+      );
+    }
+
+    let items: ImportedItem[];
+    try {
+      items = parser.parse(files);
+    } catch (error) {
+      if (error instanceof ImportParseError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+    if (items.length === 0) {
+      throw new BadRequestException(
+        `No notes found in the ${parser.source} export`,
+      );
+    }
+
+    const job = await this.importJobRepository.save(
+      this.importJobRepository.create({
+        user_id: userId,
+        source: parser.source,
+        file_name: upload.originalname?.slice(0, 255) || null,
+        total_items: items.length,
+      }),
+    );
+
+    let inserted = 0;
+    for (let start = 0; start < items.length; start += INSERT_CHUNK_SIZE) {
+      inserted += await this.insertDumps(
+        job,
+        items.slice(start, start + INSERT_CHUNK_SIZE),
+      );
+    }
+
+    job.skipped_items = items.length - inserted;
+    if (inserted === 0) {
+      job.status = ImportJobStatus.COMPLETED;
+      job.completed_at = new Date();
+    }
+    await this.importJobRepository.save(job);
+
+    this.logger.log(
+      `Import ${job.id} (${job.source}) for user ${userId}: ${inserted} items queued, ${job.skipped_items} already imported`,
+    );
+    return job;
+  }
+
+  async getJob(userId: string, jobId: string): Promise<ImportJobProgress> {
+    const job = await this.importJobRepository.findOne({
+      where: { id: jobId, user_id: userId },
+    });
+    if (!job) {
+      throw new NotFoundException(`Import job with ID ${jobId} not found`);
+    }
+    return this.withProgress(job);
+  }
+
+  async listJobs(userId: string): Promise<ImportJobProgress[]> {
+    const jobs = await this.importJobRepository.find({
+      where: { user_id: userId },
+      order: { created_at: 'DESC' },
+      take: 50,
+    });
+    return jobs.map((job) => this.withProgress(job));
+  }
+
+  private withProgress(job: ImportJob): ImportJobProgress {
+    const queued = job.total_items - job.skipped_items;
+    const done = job.processed_items + job.failed_items;
+    return {
+      ...job,
+      progress:
+        job.status === ImportJobStatus.COMPLETED || queued <= 0
+          ? 100
+          : Math.min(99, Math.floor((done / queued) * 100)),
+    };
+  }
+
+  /**
+   * Insert the dumps of a chunk of items, skipping those an earlier import
+   * already saved. Returns how many were inserted.
+   */
+  private async insertDumps(
+    job: ImportJob,
+    items: ImportedItem[],
+  ): Promise<number> {
+    const byKey = new Map(
+      items.map((item) => [this.ingestionKey(job, item), item]),
+    );
+
+    const result = await this.dumpRepository
+      .createQueryBuilder()
+      .insert()
+      .into(Dump)
+      .values(
+        [...byKey].map(([ingestionKey, item]) =>
+          this.dumpRepository.create({
+            user_id: job.user_id,
+            import_job_id: job.id,
+            ingestion_key: ingestionKey,
+            raw_content: item.content,
+            content_type: ContentType.TEXT,
+            processing_status: ProcessingStatus.RECEIVED,
+            processing_steps: [`Imported from ${job.source}`],
+            created_at: item.createdAt,
+            extracted_entities: {
+              metadata: {
+                source: 'api',
+                importSource: job.source,
+                contentType: 'text',
+                title: item.title,
+                sender: item.sender,
+                enhancedProcessing: true,
+              },
+            },
+          }),
+        ),
+      )
+      .orIgnore()
+      .returning(['id', 'ingestion_key'])
+      .execute();
+
+    const rows = result.raw as Array<{ id: string; ingestion_key: string }>;
+    for (const row of rows) {
+      const labels = byKey.get(row.ingestion_key)?.labels;
+      if (labels?.length) {
+        await this.tagService.addTagsToDump(
+          { id: row.id, user_id: job.user_id },
+          labels,
+        );
+      }
+    }
+
+    return rows.length;
+  }
+
+  private ingestionKey(job: ImportJob, item: ImportedItem): string {
+    return `import:${job.user_id}:${job.source}:${item.externalId}`.slice(
+      0,
+      500,
+    );
+  }
+
+  /**
+   * The files of an upload: the note entries of a zip, or the file itself
+   */
+  private async readUpload(upload: ImportUpload): Promise<ImportFile[]> {
+    const name = upload.originalname || 'upload';
+    if (!this.isZip(upload.buffer)) {
+      return [{ path: name, content: upload.buffer }];
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(upload.buffer);
+    } catch (error) {
+      throw new BadRequestException(`Could not open ${name}: ${error.message}`);
+    }
+
+    const files: ImportFile[] = [];
+    let unpackedBytes = 0;
+    for (const entry of Object.values(zip.files)) {
+      const extension = path.extname(entry.name).toLowerCase();
+      if (entry.dir || !NOTE_EXTENSIONS.includes(extension)) {
+        continue;
+      }
+
+      const content = await entry.async('nodebuffer');
+      unpackedBytes += content.length;
+      if (unpackedBytes > MAX_UNPACKED_BYTES) {
+        throw new BadRequestException(
+          `${name} unpacks to more than ${MAX_UNPACKED_BYTES / 1024 / 1024} MB of notes`,
+        );
+      }
+      files.push({ path: entry.name, content, modifiedAt: entry.date });
+    }
+    return files;
+  }
+
+  private isZip(buffer: Buffer): boolean {
+    return buffer.length > 4 && buffer.readUInt32LE(0) === 0x04034b50;
+  }
+}
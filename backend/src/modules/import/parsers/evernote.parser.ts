@@ -0,0 +1,102 @@
+import { Injectable } from '@nestjs/common';
+import { XMLParser } from 'fast-xml-parser';
+import { ImportSource } from '../../../entities/import-job.entity';
+import { ArticleExtractorService } from '../../links/article-extractor.service';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+  ImportParseError,
+} from './import-parser.interface';
+
+interface EnexNote {
+  title?: string;
+  content?: string;
+  created?: string;
+  updated?: string;
+  tag?: string[];
+}
+
+// ENEX timestamps look like 20240131T174500Z
+const ENEX_DATE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/;
+
+/**
+ * Evernote ENEX exports: an XML file of notes whose content is ENML,
+ * Evernote's flavor of XHTML. Attachments are left out.
+ */
+@Injectable()
+export class EvernoteParser implements ImportParser {
+  readonly source = ImportSource.EVERNOTE;
+
+  private readonly xmlParser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    isArray: (name) => name === 'note' || name === 'tag',
+  });
+
+  constructor(private readonly articleExtractor: ArticleExtractorService) {}
+
+  detect(files: ImportFile[]): boolean {
+    return files.some(
+      (file) =>
+        file.path.toLowerCase().endsWith('.enex') ||
+        file.content.subarray(0, 512).toString('utf8').includes('<en-export'),
+    );
+  }
+
+  parse(files: ImportFile[]): ImportedItem[] {
+    const items: ImportedItem[] = [];
+
+    for (const file of files) {
+      if (!this.detect([file])) {
+        continue;
+      }
+
+      let notes: EnexNote[];
+      try {
+        const parsed = this.xmlParser.parse(file.content.toString('utf8'));
+        notes = parsed?.['en-export']?.note || [];
+      } catch (error) {
+        throw new ImportParseError(
+          `${file.path} is not a valid ENEX file: ${error.message}`,
+        );
+      }
+
+      for (const note of notes) {
+        const title = note.title ? String(note.title).trim() : '';
+        const body = note.content
+          ? this.articleExtractor.htmlToText(String(note.content))
+          : '';
+        const content = [title, body].filter(Boolean).join('\n\n');
+        if (!content) {
+          continue;
+        }
+
+        const createdAt =
+          this.parseDate(note.created) ||
+          this.parseDate(note.updated) ||
+          file.modifiedAt ||
+          new Date();
+        items.push({
+          // Notes carry no id; title and creation time survive re-exports
+          externalId: `${note.created || ''}:${title}`,
+          title: title || undefined,
+          content,
+          createdAt,
+          labels: (note.tag || []).map(String),
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private parseDate(value?: string): Date | null {
+    const match = value ? ENEX_DATE.exec(String(value)) : null;
+    if (!match) {
+      return null;
+    }
+    const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+    return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable } from '@nestjs/common';
+import { ImportSource } from '../../../entities/import-job.entity';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+} from './import-parser.interface';
+
+interface KeepNote {
+  title?: string;
+  textContent?: string;
+  listContent?: Array<{ text: string; isChecked: boolean }>;
+  labels?: Array<{ name: string }>;
+  annotations?: Array<{ url?: string; title?: string }>;
+  isTrashed?: boolean;
+  createdTimestampUsec?: number;
+  userEditedTimestampUsec?: number;
+}
+
+/**
+ * Google Keep notes from Google Takeout: one JSON file per note under
+ * Keep/, uploaded as the Takeout zip or as a single note file
+ */
+@Injectable()
+export class GoogleKeepParser implements ImportParser {
+  readonly source = ImportSource.GOOGLE_KEEP;
+
+  detect(files: ImportFile[]): boolean {
+    return files.some(
+      (file) =>
+        file.path.toLowerCase().endsWith('.json') &&
+        (/(^|\/)keep\//i.test(file.path) ||
+          this.isKeepNote(this.readJson(file))),
+    );
+  }
+
+  parse(files: ImportFile[]): ImportedItem[] {
+    const items: ImportedItem[] = [];
+
+    for (const file of files) {
+      if (!file.path.toLowerCase().endsWith('.json')) {
+        continue;
+      }
+
+      const note = this.readJson(file);
+      if (!this.isKeepNote(note) || note.isTrashed) {
+        continue;
+      }
+
+      const content = this.noteText(note);
+      if (!content) {
+        continue;
+      }
+
+      const timestampUsec =
+        note.createdTimestampUsec || note.userEditedTimestampUsec;
+      items.push({
+        externalId: file.path,
+        title: note.title || undefined,
+        content,
+        createdAt: timestampUsec
+          ? new Date(Math.floor(timestampUsec / 1000))
+          : file.modifiedAt || new Date(),
+        labels: (note.labels || []).map((label) => label.name),
+      });
+    }
+
+    return items;
+  }
+
+  private noteText(note: KeepNote): string {
+    const body = note.listContent?.length
+      ? note.listContent
+          .map((entry) => `${entry.isChecked ? '☑' : '☐'} ${entry.text}`)
+          .join('\n')
+      : note.textContent || '';
+    const links = (note.annotations || [])
+      .map((annotation) => annotation.url)
+      .filter(Boolean);
+
+    return [note.title, body.trim(), ...links].filter(Boolean).join('\n\n');
+  }
+
+  private isKeepNote(value: unknown): value is KeepNote {
+    if (!value || typeof value !== 'object') {
+      return false;
+    }
+    const note = value as KeepNote;
+    return (
+      (note.textContent !== undefined || note.listContent !== undefined) &&
+      (note.createdTimestampUsec !== undefined ||
+        note.userEditedTimestampUsec !== undefined)
+    );
+  }
+
+  private readJson(file: ImportFile): unknown {
+    try {
+      return JSON.parse(file.content.toString('utf8'));
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { ImportSource } from '../../../entities/import-job.entity';
+
+/**
+ * A file of the upload; zip archives are unpacked into one per entry
+ */
+export interface ImportFile {
+  path: string;
+  content: Buffer;
+  modifiedAt?: Date;
+}
+
+export interface ImportedItem {
+  // Stable within the export, so uploading it again skips what was imported
+  externalId: string;
+  content: string;
+  createdAt: Date;
+  title?: string;
+  // Author of a chat message
+  sender?: string;
+  // Labels or tags the note had in the other tool
+  labels?: string[];
+}
+
+export interface ImportParser {
+  readonly source: ImportSource;
+  // Whether the upload looks like an export of this tool
+  detect(files: ImportFile[]): boolean;
+  parse(files: ImportFile[]): ImportedItem[];
+}
+
+/**
+ * Raised when an upload cannot be read as the export it claims to be
+ */
+export class ImportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportParseError';
+  }
+}
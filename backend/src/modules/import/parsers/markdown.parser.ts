@@ -0,0 +1,116 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'node:path';
+import { ImportSource } from '../../../entities/import-job.entity';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+} from './import-parser.interface';
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+// Vault settings, trash and macOS zip leftovers
+const IGNORED_PATHS = /(^|\/)(\.obsidian|\.trash|__MACOSX)\//;
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const DATE_KEYS = ['created', 'date', 'created_at', 'creation_date'];
+
+/**
+ * Markdown notes, typically a zipped Obsidian vault: one note per file,
+ * titled by its file name. YAML frontmatter provides the creation date and
+ * tags when present; otherwise the file date is used.
+ */
+@Injectable()
+export class MarkdownParser implements ImportParser {
+  readonly source = ImportSource.MARKDOWN;
+
+  detect(files: ImportFile[]): boolean {
+    return files.some((file) => this.isNote(file));
+  }
+
+  parse(files: ImportFile[]): ImportedItem[] {
+    const items: ImportedItem[] = [];
+
+    for (const file of files) {
+      if (!this.isNote(file)) {
+        continue;
+      }
+
+      const text = file.content.toString('utf8').replace(/^\uFEFF/, '');
+      const frontmatter = FRONTMATTER.exec(text);
+      const fields = frontmatter ? this.readFrontmatter(frontmatter[1]) : {};
+      const body = (frontmatter ? text.slice(frontmatter[0].length) : text)
+        .trim()
+        .replace(/\r\n/g, '\n');
+      if (!body) {
+        continue;
+      }
+
+      const title = path.basename(file.path, path.extname(file.path));
+      const createdAt = DATE_KEYS.map((key) => this.parseDate(fields[key]))
+        .filter(Boolean)
+        .shift();
+
+      items.push({
+        externalId: file.path,
+        title,
+        content: `${title}\n\n${body}`,
+        createdAt: createdAt || file.modifiedAt || new Date(),
+        labels: this.toList(fields.tags),
+      });
+    }
+
+    return items;
+  }
+
+  private isNote(file: ImportFile): boolean {
+    return (
+      MARKDOWN_EXTENSIONS.includes(path.extname(file.path).toLowerCase()) &&
+      !IGNORED_PATHS.test(file.path)
+    );
+  }
+
+  /**
+   * Flat `key: value` pairs and `- item` lists; enough for dates and tags
+   */
+  private readFrontmatter(source: string): Record<string, string | string[]> {
+    const fields: Record<string, string | string[]> = {};
+    let listKey: string | null = null;
+
+    for (const line of source.split(/\r?\n/)) {
+      const item = /^\s+-\s+(.+)$/.exec(line);
+      if (item && listKey) {
+        const list = fields[listKey];
+        fields[listKey] = [...(Array.isArray(list) ? list : []), item[1]];
+        continue;
+      }
+
+      const field = /^([\w-]+):\s*(.*)$/.exec(line);
+      if (field) {
+        const key = field[1].toLowerCase();
+        fields[key] = field[2].trim();
+        listKey = field[2].trim() ? null : key;
+      }
+    }
+
+    return fields;
+  }
+
+  private toList(value?: string | string[]): string[] {
+    if (!value) {
+      return [];
+    }
+    const entries = Array.isArray(value)
+      ? value
+      : value.replace(/^\[|\]$/g, '').split(',');
+    return entries
+      .map((entry) => entry.trim().replace(/^["'#]+|["']+$/g, ''))
+      .filter(Boolean);
+  }
+
+  private parseDate(value?: string | string[]): Date | null {
+    if (!value || Array.isArray(value)) {
+      return null;
+    }
+    const date = new Date(value.replace(/^["']|["']$/g, ''));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'node:path';
+import { ImportSource } from '../../../entities/import-job.entity';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+} from './import-parser.interface';
+
+type TelegramText = string | Array<string | { text?: string }>;
+
+interface TelegramMessage {
+  id: number;
+  type: string;
+  date?: string;
+  date_unixtime?: string;
+  from?: string;
+  text?: TelegramText;
+}
+
+interface TelegramChat {
+  id?: number;
+  name?: string;
+  messages?: TelegramMessage[];
+}
+
+/**
+ * Telegram Desktop "Export chat history" in JSON: result.json holds a single
+ * chat, or every chat under chats.list for a full account export
+ */
+@Injectable()
+export class TelegramExportParser implements ImportParser {
+  readonly source = ImportSource.TELEGRAM;
+
+  detect(files: ImportFile[]): boolean {
+    return files.some(
+      (file) => this.isExportFile(file) && this.readChats(file) !== null,
+    );
+  }
+
+  parse(files: ImportFile[]): ImportedItem[] {
+    const items: ImportedItem[] = [];
+
+    for (const file of files) {
+      const chats = this.isExportFile(file) ? this.readChats(file) : null;
+      for (const chat of chats || []) {
+        for (const message of chat.messages || []) {
+          const content =
+            message.type === 'message' ? this.messageText(message.text) : '';
+          if (!content) {
+            continue;
+          }
+
+          items.push({
+            externalId: `${chat.id ?? chat.name}:${message.id}`,
+            content,
+            createdAt:
+              this.messageDate(message) || file.modifiedAt || new Date(),
+            sender: message.from || undefined,
+          });
+        }
+      }
+    }
+
+    return items;
+  }
+
+  private isExportFile(file: ImportFile): boolean {
+    return path.extname(file.path).toLowerCase() === '.json';
+  }
+
+  private readChats(file: ImportFile): TelegramChat[] | null {
+    let data: { chats?: { list?: TelegramChat[] } } & TelegramChat;
+    try {
+      data = JSON.parse(file.content.toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (Array.isArray(data?.chats?.list)) {
+      return data.chats.list;
+    }
+    return Array.isArray(data?.messages) ? [data] : null;
+  }
+
+  /**
+   * Formatted text comes as a list of plain strings and entity objects
+   */
+  private messageText(text?: TelegramText): string {
+    if (!text) {
+      return '';
+    }
+    if (typeof text === 'string') {
+      return text.trim();
+    }
+    return text
+      .map((part) => (typeof part === 'string' ? part : part.text || ''))
+      .join('')
+      .trim();
+  }
+
+  private messageDate(message: TelegramMessage): Date | null {
+    if (message.date_unixtime) {
+      return new Date(Number(message.date_unixtime) * 1000);
+    }
+    const date = message.date ? new Date(message.date) : null;
+    return date && !Number.isNaN(date.getTime()) ? date : null;
+  }
+}
@@ -0,0 +1,174 @@
+import { Injectable } from '@nestjs/common';
+import * as path from 'node:path';
+import { ImportSource } from '../../../entities/import-job.entity';
+import {
+  ImportFile,
+  ImportedItem,
+  ImportParser,
+} from './import-parser.interface';
+
+/**
+ * Message header of both export flavors:
+ *   Android: 31/12/20, 23:59 - Ana: text
+ *   iOS:     [31/12/2020, 23:59:59] Ana: text
+ */
+const MESSAGE_HEADER =
+  /^\[?(\d{1,2})[/.](\d{1,2})[/.](\d{2,4}),?\s(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[\s\u202f]?([AaPp])\.?[Mm]\.?)?(?:\] | - )(.*)$/;
+
+// Placeholders WhatsApp writes for attachments and removed messages
+const SKIPPED_MESSAGES = [
+  /^<media omitted>$/i,
+  /^(image|video|audio|sticker|gif|document) omitted$/i,
+  /^<attached: .+>$/i,
+  /^this message was deleted$/i,
+  /^you deleted this message$/i,
+];
+
+interface ParsedHeader {
+  first: number;
+  second: number;
+  year: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  meridiem?: string;
+  rest: string;
+}
+
+interface ChatMessage {
+  header: ParsedHeader;
+  sender: string;
+  lines: string[];
+}
+
+/**
+ * WhatsApp "Export chat" text files, one dump per message. The export
+ * carries no time zone, so times are kept as the wall clock they show.
+ */
+@Injectable()
+export class WhatsAppChatParser implements ImportParser {
+  readonly source = ImportSource.WHATSAPP;
+
+  detect(files: ImportFile[]): boolean {
+    return files.some(
+      (file) =>
+        this.isChatFile(file) &&
+        this.readMessages(file.content.subarray(0, 4096).toString('utf8'))
+          .length > 0,
+    );
+  }
+
+  parse(files: ImportFile[]): ImportedItem[] {
+    const items: ImportedItem[] = [];
+
+    for (const file of files) {
+      if (!this.isChatFile(file)) {
+        continue;
+      }
+
+      const messages = this.readMessages(file.content.toString('utf8'));
+      const dayFirst = this.isDayFirst(messages.map((m) => m.header));
+      const chatName = path.basename(file.path, path.extname(file.path));
+
+      messages.forEach((message, index) => {
+        const content = message.lines.join('\n').trim();
+        if (!content || SKIPPED_MESSAGES.some((skip) => skip.test(content))) {
+          return;
+        }
+
+        const createdAt = this.toDate(message.header, dayFirst);
+        items.push({
+          externalId: `${chatName}:${createdAt.toISOString()}:${message.sender}:${index}`,
+          content,
+          createdAt,
+          sender: message.sender,
+        });
+      });
+    }
+
+    return items;
+  }
+
+  private isChatFile(file: ImportFile): boolean {
+    return path.extname(file.path).toLowerCase() === '.txt';
+  }
+
+  /**
+   * Groups lines into messages; lines without a header continue the
+   * previous message, and headers without a sender are system notices
+   */
+  private readMessages(text: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    let current: ChatMessage | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/[\u200e\u200f]/g, '');
+      const header = this.parseHeader(line);
+
+      if (!header) {
+        current?.lines.push(line);
+        continue;
+      }
+
+      const separator = header.rest.indexOf(': ');
+      if (separator === -1) {
+        current = null;
+        continue;
+      }
+
+      current = {
+        header,
+        sender: header.rest.slice(0, separator).trim(),
+        lines: [header.rest.slice(separator + 2)],
+      };
+      messages.push(current);
+    }
+
+    return messages;
+  }
+
+  private parseHeader(line: string): ParsedHeader | null {
+    const match = MESSAGE_HEADER.exec(line);
+    if (!match) {
+      return null;
+    }
+    const [, first, second, year, hours, minutes, seconds, meridiem, rest] =
+      match;
+    return {
+      first: Number(first),
+      second: Number(second),
+      year: Number(year),
+      hours: Number(hours),
+      minutes: Number(minutes),
+      seconds: Number(seconds || 0),
+      meridiem: meridiem?.toLowerCase(),
+      rest,
+    };
+  }
+
+  /**
+   * The date order follows the phone's locale; any number above 12 gives
+   * it away, and day-first is the more common one otherwise
+   */
+  private isDayFirst(headers: ParsedHeader[]): boolean {
+    if (headers.some((header) => header.first > 12)) {
+      return true;
+    }
+    return !headers.some((header) => header.second > 12);
+  }
+
+  private toDate(header: ParsedHeader, dayFirst: boolean): Date {
+    const day = dayFirst ? header.first : header.second;
+    const month = dayFirst ? header.second : header.first;
+    const year = header.year < 100 ? 2000 + header.year : header.year;
+
+    let hours = header.hours % (header.meridiem ? 12 : 24);
+    if (header.meridiem === 'p') {
+      hours += 12;
+    }
+
+    return new Date(
+      Date.UTC(year, month - 1, day, hours, header.minutes, header.seconds),
+    );
+  }
+}
@@ -0,0 +1,272 @@
+import { Injectable } from '@nestjs/common';
+
+export interface ExtractedArticle {
+  title: string | null;
+  siteName: string | null;
+  publishedAt: Date | null;
+  excerpt: string | null;
+  text: string;
+  wordCount: number;
+  readingMinutes: number;
+}
+
+// Average adult silent reading speed
+const WORDS_PER_MINUTE = 230;
+// Paragraphs shorter than this are usually bylines, captions or buttons
+const MIN_PARAGRAPH_CHARS = 40;
+
+const NOISE_TAGS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'form',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'button',
+  'figcaption',
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  euro: '€',
+};
+
+/**
+ * ArticleExtractorService
+ * Pulls the readable article out of an HTML page: title, site name and
+ * publish date from the meta tags, and the body text from the paragraphs
+ * of the <article> (or <main>) element once navigation and other page
+ * chrome are dropped.
+ */
+@Injectable()
+export class ArticleExtractorService {
+  extract(html: string, url: string): ExtractedArticle {
+    const meta = this.readMetaTags(html);
+    const jsonLd = this.readJsonLd(html);
+
+    const text = this.extractText(html);
+    const wordCount = text ? text.split(/\s+/).length : 0;
+
+    return {
+      title:
+        meta['og:title'] ||
+        meta['twitter:title'] ||
+        jsonLd.headline ||
+        this.firstMatch(html, /<title[^>]*>([\s\S]*?)<\/title>/i) ||
+        this.firstMatch(html, /<h1[^>]*>([\s\S]*?)<\/h1>/i),
+      siteName:
+        meta['og:site_name'] || meta['application-name'] || this.hostname(url),
+      publishedAt: this.parseDate(
+        meta['article:published_time'] ||
+          meta['og:published_time'] ||
+          jsonLd.datePublished ||
+          meta['date'] ||
+          meta['pubdate'] ||
+          meta['publish-date'] ||
+          meta['dc.date'] ||
+          meta['datepublished'] ||
+          /<time[^>]*\sdatetime=["']([^"']+)["']/i.exec(html)?.[1],
+      ),
+      excerpt:
+        meta['og:description'] ||
+        meta['description'] ||
+        meta['twitter:description'] ||
+        null,
+      text,
+      wordCount,
+      readingMinutes: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+    };
+  }
+
+  /**
+   * Paragraph text of the main content, one block per line
+   */
+  private extractText(html: string): string {
+    let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+    for (const tag of NOISE_TAGS) {
+      cleaned = cleaned.replace(
+        new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'),
+        ' ',
+      );
+    }
+
+    const container =
+      this.largestMatch(cleaned, /<article\b[^>]*>([\s\S]*?)<\/article>/gi) ||
+      this.largestMatch(cleaned, /<main\b[^>]*>([\s\S]*?)<\/main>/gi) ||
+      this.firstMatch(cleaned, /<body\b[^>]*>([\s\S]*)<\/body>/i, false) ||
+      cleaned;
+
+    const blocks: string[] = [];
+    const blockPattern =
+      /<(p|h[1-6]|li|blockquote|pre)\b[^>]*>([\s\S]*?)<\/\1>/gi;
+    for (const match of container.matchAll(blockPattern)) {
+      const tag = match[1].toLowerCase();
+      const text = this.htmlToText(match[2]);
+      if (!text) {
+        continue;
+      }
+      if (tag === 'p' && text.length < MIN_PARAGRAPH_CHARS) {
+        continue;
+      }
+      blocks.push(text);
+    }
+
+    // Pages without paragraph markup: fall back to all the visible text
+    if (blocks.join(' ').length < MIN_PARAGRAPH_CHARS * 3) {
+      return this.htmlToText(container);
+    }
+    return blocks.join('\n\n');
+  }
+
+  private readMetaTags(html: string): Record<string, string> {
+    const meta: Record<string, string> = {};
+    for (const match of html.matchAll(/<meta\b([^>]*)>/gi)) {
+      const attributes = this.readAttributes(match[1]);
+      const key = (
+        attributes.property ||
+        attributes.name ||
+        attributes.itemprop ||
+        ''
+      ).toLowerCase();
+      const content = attributes.content;
+      if (key && content && !meta[key]) {
+        meta[key] = this.htmlToText(content);
+      }
+    }
+    return meta;
+  }
+
+  private readAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+    for (const match of source.matchAll(pattern)) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4];
+    }
+    return attributes;
+  }
+
+  /**
+   * headline and datePublished from the first schema.org Article block
+   */
+  private readJsonLd(html: string): {
+    headline?: string;
+    datePublished?: string;
+  } {
+    const pattern =
+      /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+    for (const match of html.matchAll(pattern)) {
+      try {
+        const parsed = JSON.parse(match[1]);
+        const nodes: any[] = (
+          Array.isArray(parsed) ? parsed : [parsed, ...(parsed['@graph'] || [])]
+        ).filter(Boolean);
+        const article = nodes.find(
+          (node) => node.datePublished || node.headline,
+        );
+        if (article) {
+          return {
+            headline:
+              typeof article.headline === 'string'
+                ? this.htmlToText(article.headline)
+                : undefined,
+            datePublished: article.datePublished,
+          };
+        }
+      } catch {
+        // Broken JSON-LD is common; the meta tags still apply
+      }
+    }
+    return {};
+  }
+
+  private largestMatch(html: string, pattern: RegExp): string | null {
+    let largest: string | null = null;
+    for (const match of html.matchAll(pattern)) {
+      if (!largest || match[1].length > largest.length) {
+        largest = match[1];
+      }
+    }
+    return largest;
+  }
+
+  private firstMatch(
+    html: string,
+    pattern: RegExp,
+    asText = true,
+  ): string | null {
+    const match = pattern.exec(html)?.[1];
+    if (!match) {
+      return null;
+    }
+    return asText ? this.htmlToText(match) || null : match;
+  }
+
+  /**
+   * Visible text of an HTML fragment, with block elements on their own lines
+   */
+  htmlToText(html: string): string {
+    return this.decodeEntities(
+      html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+        .replace(/<[^>]+>/g, ' '),
+    )
+      .replace(/[ \t\u00a0]+/g, ' ')
+      .replace(/ *\n[\s]*/g, '\n')
+      .trim();
+  }
+
+  private decodeEntities(text: string): string {
+    return text.replace(
+      /&(#x[\da-f]+|#\d+|[a-z]+);/gi,
+      (entity, code: string) => {
+        if (code[0] === '#') {
+          const value =
+            code[1].toLowerCase() === 'x'
+              ? Number.parseInt(code.slice(2), 16)
+              : Number.parseInt(code.slice(1), 10);
+          return value > 0 && value <= 0x10ffff
+            ? String.fromCodePoint(value)
+            : entity;
+        }
+        return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+      },
+    );
+  }
+
+  private parseDate(value?: string): Date | null {
+    if (!value) {
+      return null;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  private hostname(url: string): string | null {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+}
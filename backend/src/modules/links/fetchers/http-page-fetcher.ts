@@ -0,0 +1,173 @@
+import { Logger } from '@nestjs/common';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import {
+  FetchedPage,
+  LinkFetchError,
+  PageFetcher,
+} from './page-fetcher.interface';
+
+export interface HttpPageFetcherOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  userAgent: string;
+  // Lets tests and self-hosted setups fetch from localhost
+  allowPrivateHosts: boolean;
+}
+
+const MAX_REDIRECTS = 5;
+const SUPPORTED_TYPES = ['text/html', 'application/xhtml+xml', 'text/plain'];
+
+// Loopback, private, link-local and unspecified ranges never get fetched
+const PRIVATE_RANGES = new BlockList();
+PRIVATE_RANGES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_RANGES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_RANGES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_RANGES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_RANGES.addAddress('::', 'ipv6');
+PRIVATE_RANGES.addAddress('::1', 'ipv6');
+PRIVATE_RANGES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_RANGES.addSubnet('fe80::', 10, 'ipv6');
+
+/**
+ * HTTP fetcher
+ * Follows redirects by hand so every hop is checked against private
+ * addresses, and stops reading once the page exceeds maxBytes.
+ */
+export class HttpPageFetcher implements PageFetcher {
+  private readonly logger = new Logger(HttpPageFetcher.name);
+
+  constructor(private readonly options: HttpPageFetcherOptions) {}
+
+  async fetch(url: string): Promise<FetchedPage> {
+    let current = url;
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const target = this.parseUrl(current);
+      await this.assertPublicHost(target, url);
+
+      let response: Response;
+      try {
+        response = await fetch(target, {
+          redirect: 'manual',
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+          headers: {
+            'User-Agent': this.options.userAgent,
+            Accept: 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8',
+          },
+        });
+      } catch (error) {
+        throw new LinkFetchError(
+          error.name === 'TimeoutError'
+            ? `Timed out after ${this.options.timeoutMs}ms`
+            : `Request failed: ${error.message}`,
+          url,
+        );
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        current = new URL(location, target).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new LinkFetchError(`Page answered ${response.status}`, url);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const mimeType = contentType.split(';')[0].trim().toLowerCase();
+      if (mimeType && !SUPPORTED_TYPES.includes(mimeType)) {
+        await response.body?.cancel();
+        throw new LinkFetchError(`Unsupported content type ${mimeType}`, url);
+      }
+
+      return {
+        url: target.toString(),
+        status: response.status,
+        contentType: mimeType || 'text/html',
+        body: await this.readBody(response, contentType),
+      };
+    }
+
+    throw new LinkFetchError(`More than ${MAX_REDIRECTS} redirects`, url);
+  }
+
+  private parseUrl(value: string): URL {
+    let parsed: URL;
+    try {
+      parsed = new URL(value);
+    } catch {
+      throw new LinkFetchError('Invalid URL', value);
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new LinkFetchError(
+        `Unsupported protocol ${parsed.protocol}`,
+        value,
+      );
+    }
+    return parsed;
+  }
+
+  private async assertPublicHost(target: URL, url: string): Promise<void> {
+    if (this.options.allowPrivateHosts) {
+      return;
+    }
+
+    const hostname = target.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+      addresses = isIP(hostname)
+        ? [hostname]
+        : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new LinkFetchError(`Could not resolve ${hostname}`, url);
+    }
+
+    const blocked = addresses.some((address) =>
+      PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'),
+    );
+    if (blocked) {
+      this.logger.warn(`Refused to fetch private address for ${url}`);
+      throw new LinkFetchError('Refusing to fetch a private address', url);
+    }
+  }
+
+  /**
+   * Read up to maxBytes and decode with the charset the server announced
+   */
+  private async readBody(
+    response: Response,
+    contentType: string,
+  ): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+
+    if (response.body) {
+      const reader = response.body.getReader();
+      while (size < this.options.maxBytes) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        chunks.push(value);
+        size += value.length;
+      }
+      await reader.cancel();
+    }
+
+    const bytes = Buffer.concat(chunks).subarray(0, this.options.maxBytes);
+    const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+    try {
+      return new TextDecoder(charset || 'utf-8').decode(bytes);
+    } catch {
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+  }
+}
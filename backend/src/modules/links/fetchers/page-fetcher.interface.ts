@@ -0,0 +1,30 @@
+/**
+ * Injection token for the active page fetcher
+ */
+export const PAGE_FETCHER = 'PAGE_FETCHER';
+
+export interface FetchedPage {
+  // Final URL once redirects were followed
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Contract implemented by every page fetcher.
+ * Implementations throw LinkFetchError when the page cannot be used.
+ */
+export interface PageFetcher {
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+export class LinkFetchError extends Error {
+  constructor(
+    message: string,
+    public readonly url: string,
+  ) {
+    super(message);
+    this.name = 'LinkFetchError';
+  }
+}
@@ -0,0 +1,131 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  PAGE_FETCHER,
+  type PageFetcher,
+} from './fetchers/page-fetcher.interface';
+import { ArticleExtractorService } from './article-extractor.service';
+import type { LinkMetadata } from '../../entities/dump.entity';
+
+export interface LinkCapture {
+  link: LinkMetadata;
+  // What the user wrote around the link
+  note: string;
+  readLater: boolean;
+  // Text to analyze, embed and search in place of the bare message
+  content: string;
+}
+
+// Longer messages are notes that happen to contain a link
+const MAX_NOTE_CHARS = 280;
+// Keeps analysis and embedding of long reads affordable
+const MAX_CONTENT_CHARS = 15000;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+const TRAILING_PUNCTUATION = /[).,;:!?'"\]]+$/;
+const READ_LATER_PATTERN =
+  /(#readlater|#toread|#lerdepois|\bread (?:it )?later\b|\bto read\b|\bler (?:depois|mais tarde)\b)/gi;
+
+/**
+ * LinkCaptureService
+ * Recognizes messages that are just a link (with an optional short note),
+ * fetches the page through the configured PageFetcher and turns the
+ * readable article into the dump's content.
+ */
+@Injectable()
+export class LinkCaptureService {
+  private readonly logger = new Logger(LinkCaptureService.name);
+
+  constructor(
+    @Inject(PAGE_FETCHER) private readonly fetcher: PageFetcher,
+    private readonly articleExtractor: ArticleExtractorService,
+  ) {}
+
+  /**
+   * http(s) and www. links in a text, in order of appearance
+   */
+  findUrls(text: string): string[] {
+    return (text.match(URL_PATTERN) || []).map((match) => {
+      const url = match.replace(TRAILING_PUNCTUATION, '');
+      return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+    });
+  }
+
+  /**
+   * Whether the message is a link to capture rather than a note
+   */
+  isLinkMessage(text: string): boolean {
+    return (
+      this.findUrls(text).length > 0 &&
+      this.extractNote(text).length <= MAX_NOTE_CHARS
+    );
+  }
+
+  wantsReadLater(text: string): boolean {
+    return new RegExp(READ_LATER_PATTERN.source, 'i').test(text);
+  }
+
+  /**
+   * Fetch the first link of a message and build the dump content from it.
+   * A page that cannot be fetched leaves the message as the content.
+   */
+  async capture(text: string): Promise<LinkCapture> {
+    const url = this.findUrls(text)[0];
+    const note = this.extractNote(text);
+    const readLater = this.wantsReadLater(text);
+
+    try {
+      const page = await this.fetcher.fetch(url);
+      const article = this.articleExtractor.extract(page.body, page.url);
+
+      return {
+        link: {
+          url,
+          finalUrl: page.url !== url ? page.url : undefined,
+          title: article.title,
+          siteName: article.siteName,
+          publishedAt: article.publishedAt?.toISOString() || null,
+          excerpt: article.excerpt,
+          wordCount: article.wordCount,
+          readingMinutes: article.wordCount ? article.readingMinutes : null,
+        },
+        note,
+        readLater,
+        content: [
+          note,
+          article.title,
+          page.url,
+          article.text || article.excerpt,
+        ]
+          .filter(Boolean)
+          .join('\n\n')
+          .substring(0, MAX_CONTENT_CHARS),
+      };
+    } catch (error) {
+      this.logger.warn(`Failed to capture ${url}: ${error.message}`);
+
+      return {
+        link: {
+          url,
+          title: null,
+          siteName: null,
+          publishedAt: null,
+          excerpt: null,
+          wordCount: 0,
+          readingMinutes: null,
+          fetchError: error.message,
+        },
+        note,
+        readLater,
+        content: text,
+      };
+    }
+  }
+
+  private extractNote(text: string): string {
+    return text
+      .replace(URL_PATTERN, ' ')
+      .replace(READ_LATER_PATTERN, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import {
+  PAGE_FETCHER,
+  type PageFetcher,
+} from './fetchers/page-fetcher.interface';
+import { HttpPageFetcher } from './fetchers/http-page-fetcher';
+import { ArticleExtractorService } from './article-extractor.service';
+import { LinkCaptureService } from './link-capture.service';
+
+/**
+ * Module for web link capture
+ *
+ * Pages are fetched through the PAGE_FETCHER provider; tests can swap in a
+ * stub fetcher, or point the HTTP one at a local server with
+ * LINK_FETCH_ALLOW_PRIVATE=true.
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: PAGE_FETCHER,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): PageFetcher =>
+        new HttpPageFetcher({
+          timeoutMs: Number(
+            config.get<string>('LINK_FETCH_TIMEOUT_MS') || 10000,
+          ),
+          maxBytes: Number(
+            config.get<string>('LINK_FETCH_MAX_BYTES') || 2 * 1024 * 1024,
+          ),
+          userAgent:
+            config.get<string>('LINK_FETCH_USER_AGENT') ||
+            'Mozilla/5.0 (compatible; ClutterBot/1.0; +https://theclutter.app)',
+          allowPrivateHosts:
+            config.get<string>('LINK_FETCH_ALLOW_PRIVATE') === 'true',
+        }),
+    },
+    ArticleExtractorService,
+    LinkCaptureService,
+  ],
+  exports: [LinkCaptureService, ArticleExtractorService],
+})
+export class LinksModule {}
@@ -4,6 +4,15 @@ import { Repository } from 'typeorm';
 import { SearchMetric } from '../../entities/search-metric.entity';
 import { AIMetric, AIOperationType } from '../../entities/ai-metric.entity';
 import { FeatureUsage, FeatureType } from '../../entities/feature-usage.entity';
+import { AIConfig, AiUsageAmounts } from '../../config/ai.config';
+import type { PromptVersionRef } from '../ai/prompts/prompt-registry.service';
+
+/**
+ * What a single billable AI call consumed
+ */
+export interface AIUsage extends AiUsageAmounts {
+  model: string;
+}
 
 /**
  * MetricsService
@@ -25,6 +34,7 @@ export class MetricsService {
     private readonly aiMetricRepo: Repository<AIMetric>,
     @InjectRepository(FeatureUsage)
     private readonly featureUsageRepo: Repository<FeatureUsage>,
+    private readonly aiConfig: AIConfig,
   ) {}
 
   /**
@@ -65,6 +75,8 @@ export class MetricsService {
 
   /**
    * Track AI operation
+   * Pass usage for a single model or API call to store its tokens and cost,
+   * and prompt for results of a registry prompt to compare its versions
    * Fire-and-forget: Caller should NOT await this
    */
   async trackAI(data: {
@@ -74,9 +86,12 @@ export class MetricsService {
     userId?: string;
     dumpId?: string;
     confidenceScore?: number;
+    usage?: AIUsage;
+    prompt?: PromptVersionRef;
     metadata?: Record<string, any>;
   }): Promise<void> {
     try {
+      const usage = data.usage;
       const metric = this.aiMetricRepo.create({
         operation_type: data.operationType,
         latency_ms: Math.round(data.latencyMs),
@@ -84,6 +99,15 @@ export class MetricsService {
         user_id: data.userId || null,
         dump_id: data.dumpId || null,
         confidence_score: data.confidenceScore || null,
+        model: usage?.model || null,
+        input_tokens: usage?.inputTokens ?? null,
+        output_tokens: usage?.outputTokens ?? null,
+        billable_units: usage?.units ?? null,
+        cost_usd: usage
+          ? this.aiConfig.calculateAiCost(usage.model, usage)
+          : null,
+        prompt_key: data.prompt?.key || null,
+        prompt_version: data.prompt?.version ?? null,
         metadata: data.metadata || null,
       });
 
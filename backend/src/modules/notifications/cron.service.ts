@@ -9,6 +9,8 @@ import { Repository } from 'typeorm';
 import { User } from '../../entities/user.entity';
 import { Reminder } from '../../entities/reminder.entity';
 import { TemplateService } from '../bots/template.service';
+import { DumpTrashService } from '../dumps/services/dump-trash.service';
+import { DumpRecoveryService } from '../dumps/services/dump-recovery.service';
 
 @Injectable()
 export class CronService {
@@ -23,6 +25,8 @@ export class CronService {
     private readonly userRepository: Repository<User>,
     private readonly schedulerRegistry: SchedulerRegistry,
     private readonly templateService: TemplateService,
+    private readonly dumpTrashService: DumpTrashService,
+    private readonly dumpRecoveryService: DumpRecoveryService,
   ) {}
 
   /**
@@ -169,6 +173,50 @@ export class CronService {
     }
   }
 
+  /**
+   * Purge expired trash - Daily at 1 AM
+   * Permanently deletes dumps that have been in the trash longer than the
+   * owner's retention period, together with their reminders, tracked items and media
+   */
+  @Cron('0 1 * * *', {
+    name: 'purge-trash',
+  })
+  async handleTrashPurge(): Promise<void> {
+    this.logger.log('Starting trash purge job');
+
+    try {
+      const result = await this.dumpTrashService.purgeExpiredTrash();
+
+      this.logger.log(
+        `Trash purge complete: ${result.purged} dumps deleted, ${result.errors} failed`,
+      );
+    } catch (error) {
+      this.logger.error('Trash purge job failed', error);
+    }
+  }
+
+  /**
+   * Recover stuck dumps - Every 5 minutes
+   * Re-queues dumps left in processing by a crashed worker and failed dumps,
+   * with backoff between attempts
+   */
+  @Cron(CronExpression.EVERY_5_MINUTES, {
+    name: 'recover-stuck-dumps',
+  })
+  async handleDumpRecovery(): Promise<void> {
+    try {
+      const result = await this.dumpRecoveryService.recoverStuckDumps();
+
+      if (result.queued.length > 0) {
+        this.logger.log(
+          `Dump recovery complete: ${result.queued.length} dumps re-queued`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('Dump recovery job failed', error);
+    }
+  }
+
   /**
    * Daily proactive analysis - 3 AM daily
    * Analyzes user data and generates proactive insights and recommendations
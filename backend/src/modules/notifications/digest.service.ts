@@ -6,6 +6,13 @@ import { User } from '../../entities/user.entity';
 import { ReminderService } from '../reminders/reminder.service';
 import { ReminderStatus } from '../../entities/reminder.entity';
 import { TranslationService } from '../ai/translation.service';
+import { AiBudgetService } from '../ai/ai-budget.service';
+import { TaskService, TaskProgress } from '../tasks/task.service';
+import { Task } from '../../entities/task.entity';
+import {
+  ReadingQueueService,
+  ReadingQueueItem,
+} from '../dumps/services/reading-queue.service';
 
 export interface DigestContent {
   userId: string;
@@ -30,7 +37,7 @@ export interface DigestSection {
 
 export interface DigestItem {
   id: string;
-  type: 'dump' | 'reminder';
+  type: 'dump' | 'reminder' | 'task';
   title: string;
   summary: string;
   categoryName?: string;
@@ -50,6 +57,9 @@ export class DigestService {
     private readonly userRepository: Repository<User>,
     private readonly reminderService: ReminderService,
     private readonly translationService: TranslationService,
+    private readonly taskService: TaskService,
+    private readonly readingQueueService: ReadingQueueService,
+    private readonly aiBudgetService: AiBudgetService,
   ) {}
 
   /**
@@ -82,6 +92,16 @@ export class DigestService {
       24,
     );
 
+    // Get open tasks due by the end of today (overdue included)
+    const dueTasks = await this.taskService.getTasksDueBy(userId, todayEnd);
+    const taskProgress = await this.taskService.getProgress(
+      userId,
+      dueTasks.map((task) => task.id),
+    );
+
+    // Get links saved to read later, oldest first
+    const readingQueue = await this.readingQueueService.getQueue(userId, 5);
+
     // Build digest sections
     const sections: DigestSection[] = [];
 
@@ -100,18 +120,34 @@ export class DigestService {
       sections.push(todaySection);
     }
 
-    // Section 3: Recent captures (last 24 hours)
+    // Section 3: Tasks due today
+    const tasksSection = this.buildTasksDueTodaySection(
+      dueTasks,
+      taskProgress,
+      now,
+    );
+    if (tasksSection.items.length > 0) {
+      sections.push(tasksSection);
+    }
+
+    // Section 4: Recent captures (last 24 hours)
     const recentSection = this.buildRecentCapturesSection(recentDumps);
     if (recentSection.items.length > 0) {
       sections.push(recentSection);
     }
 
-    // Section 4: Upcoming items (next 24 hours)
+    // Section 5: Upcoming items (next 24 hours)
     const upcomingSection = this.buildUpcomingSection(upcomingReminders);
     if (upcomingSection.items.length > 0) {
       sections.push(upcomingSection);
     }
 
+    // Section 6: Reading queue
+    const readingSection = this.buildReadingQueueSection(readingQueue);
+    if (readingSection.items.length > 0) {
+      sections.push(readingSection);
+    }
+
     // Build summary
     const summary = this.buildDigestSummary(recentDumps, pendingReminders);
 
@@ -257,9 +293,15 @@ export class DigestService {
 
     const timezone = user?.timezone || 'UTC';
     const language = user?.language || 'en';
+    // Past the soft AI budget limit the labels stay in English
+    const labelLanguage = (await this.aiBudgetService.isOverSoftLimit(
+      digest.userId,
+    ))
+      ? 'en'
+      : language;
 
     // Translate static labels if not English
-    const labels = await this.translateLabels(language);
+    const labels = await this.translateLabels(labelLanguage);
 
     const lines: string[] = [
       '═══════════════════════════════════',
@@ -283,7 +325,7 @@ export class DigestService {
       // Translate section title
       const translatedTitle = await this.translationService.translate({
         text: section.title.replace(/^[^\s]+\s/, ''), // Remove emoji
-        targetLanguage: language,
+        targetLanguage: labelLanguage,
         context: 'Digest section title',
       });
 
@@ -572,6 +614,50 @@ export class DigestService {
     };
   }
 
+  private buildTasksDueTodaySection(
+    tasks: Task[],
+    progress: Map<string, TaskProgress>,
+    now: Date,
+  ): DigestSection {
+    const items: DigestItem[] = tasks.map((task) => {
+      const dueDate = new Date(task.due_date as Date);
+      const details: string[] = [
+        dueDate < now ? 'Overdue' : `Due ${dueDate.toLocaleTimeString()}`,
+      ];
+
+      // Broken-down tasks surface only their next step
+      const steps = progress.get(task.id);
+      const nextStep = steps?.nextStep;
+      if (steps && nextStep) {
+        details.push(
+          `Next step of "${task.title}" (${steps.completed}/${steps.total} done)`,
+        );
+      }
+
+      const minutes = nextStep
+        ? nextStep.estimated_minutes
+        : task.estimated_minutes;
+      if (minutes) {
+        details.push(`~${minutes} min`);
+      }
+
+      return {
+        id: task.id,
+        type: 'task' as const,
+        title: nextStep ? nextStep.title : task.title,
+        summary: details.join(' · '),
+        dueDate,
+        actionRequired: true,
+      };
+    });
+
+    return {
+      title: '✅ Tasks Due Today',
+      priority: 'high',
+      items,
+    };
+  }
+
   private buildRecentCapturesSection(dumps: Dump[]): DigestSection {
     const items: DigestItem[] = dumps.slice(0, 10).map((dump) => ({
       id: dump.id,
@@ -604,6 +690,28 @@ export class DigestService {
     };
   }
 
+  private buildReadingQueueSection(queue: ReadingQueueItem[]): DigestSection {
+    const items: DigestItem[] = queue.map((item) => {
+      const details = [
+        item.siteName,
+        item.readingMinutes ? `~${item.readingMinutes} min read` : null,
+      ].filter(Boolean);
+
+      return {
+        id: item.dumpId,
+        type: 'dump' as const,
+        title: item.title,
+        summary: details.join(' · ') || item.url || 'Saved to read later',
+      };
+    });
+
+    return {
+      title: '📚 Reading Queue',
+      priority: 'low',
+      items,
+    };
+  }
+
   private buildDigestSummary(dumps: Dump[], reminders: any[]): DigestSummary {
     const urgentItems = dumps.filter(
       (d) => d.urgency_level && d.urgency_level >= 8,
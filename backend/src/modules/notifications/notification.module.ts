@@ -14,6 +14,9 @@ import { ReminderModule } from '../reminders/reminder.module';
 import { BotsModule } from '../bots/bots.module';
 import { UserModule } from '../users/user.module';
 import { TrackingModule } from '../tracking/tracking.module';
+import { DumpModule } from '../dumps/dump.module';
+import { TaskModule } from '../tasks/task.module';
+import { MetricsModule } from '../metrics/metrics.module';
 import { ClaudeService } from '../ai/claude.service';
 import { TranslationService } from '../ai/translation.service';
 
@@ -35,7 +38,10 @@ import { TranslationService } from '../ai/translation.service';
     ReminderModule,
     TrackingModule, // For proactive tracking detection
     forwardRef(() => BotsModule), // Circular dependency with bots
+    forwardRef(() => DumpModule), // For the trash purge and dump recovery jobs
     UserModule,
+    TaskModule, // Tasks due today in digests
+    MetricsModule, // AI usage recorded by ClaudeService
   ],
   controllers: [NotificationTestController],
   providers: [
@@ -5,10 +5,20 @@ import { Dump } from '../../entities/dump.entity';
 import { Reminder, ReminderType } from '../../entities/reminder.entity';
 import { User } from '../../entities/user.entity';
 import { ClaudeService } from '../ai/claude.service';
+import { runWithAiUsageScope } from '../ai/ai-usage-scope';
+import { AiBudgetService } from '../ai/ai-budget.service';
+import { PromptRegistryService } from '../ai/prompts/prompt-registry.service';
+import {
+  PROACTIVE_INSIGHTS_SCHEMA,
+  TRACKING_INSIGHTS_SCHEMA,
+} from '../ai/schemas/ai-output.schemas';
 import { ReminderService } from '../reminders/reminder.service';
 import { TrackingService } from '../tracking/tracking.service';
 import { TrackingType } from '../../entities/trackable-item.entity';
 
+// Users past the soft AI budget limit are analyzed on this day only (UTC, Monday)
+const WEEKLY_ANALYSIS_DAY = 1;
+
 /**
  * Confidence level for contextual insights
  */
@@ -37,6 +47,32 @@ interface ContextualInsight {
   reasoning: string;
 }
 
+/**
+ * Insight as PROACTIVE_INSIGHTS_SCHEMA validates it, before dates are parsed
+ */
+interface AiContextualInsight
+  extends Omit<
+    ContextualInsight,
+    'description' | 'suggestedDate' | 'relatedDumpIds' | 'reasoning'
+  > {
+  description?: string;
+  suggestedDate: string;
+  relatedDumpIds?: string[];
+  reasoning?: string;
+}
+
+/**
+ * Trackable item as TRACKING_INSIGHTS_SCHEMA validates it
+ */
+interface AiTrackingInsight {
+  type: string;
+  title: string;
+  description?: string;
+  trackingNumber?: string | null;
+  expectedDate?: string | null;
+  confidence?: ConfidenceLevel;
+}
+
 /**
  * Analysis result from AI
  */
@@ -64,6 +100,8 @@ export class ProactiveService {
     private readonly claudeService: ClaudeService,
     private readonly reminderService: ReminderService,
     private readonly trackingService: TrackingService,
+    private readonly aiBudgetService: AiBudgetService,
+    private readonly promptRegistry: PromptRegistryService,
   ) {}
 
   /**
@@ -272,8 +310,23 @@ export class ProactiveService {
     let suggestionsGenerated = 0;
     let trackingItemsCreated = 0;
 
+    const isWeeklyAnalysisDay = new Date().getUTCDay() === WEEKLY_ANALYSIS_DAY;
+
     for (const user of users) {
       try {
+        // Past the soft budget limit the analysis runs weekly, past the hard
+        // limit not at all; the 7-day lookback still covers the whole week
+        const budget = await this.aiBudgetService.getStatus(user.id);
+        if (
+          budget.level === 'hard' ||
+          (budget.level === 'soft' && !isWeeklyAnalysisDay)
+        ) {
+          this.logger.log(
+            `User ${user.id}: Skipped, AI budget ${budget.level} limit reached`,
+          );
+          continue;
+        }
+
         // Get recent dumps for analysis (last 7 days) - single query
         const cutoffDate = new Date();
         cutoffDate.setDate(cutoffDate.getDate() - 7);
@@ -283,6 +336,8 @@ export class ProactiveService {
           .leftJoinAndSelect('dump.category', 'category')
           .where('dump.user_id = :userId', { userId: user.id })
           .andWhere('dump.created_at > :cutoffDate', { cutoffDate })
+          // Imported notes keep their original dates; they are not new input
+          .andWhere('dump.import_job_id IS NULL')
           .orderBy('dump.created_at', 'DESC')
           .take(50)
           .getMany();
@@ -414,84 +469,32 @@ AI Summary: ${summary}${entitiesInfo}
     contentSummary: string,
     userId: string,
   ): Promise<ContextualInsight[]> {
-    const systemPrompt = `You are a proactive assistant analyzing user content to identify opportunities for helpful reminders.
-
-CRITICAL: You must respond with ONLY a valid JSON array, no other text before or after.
-
-Your task is to identify:
-1. **Follow-ups**: Tasks with specific dates/times that need action (e.g., "Call X tomorrow morning")
-2. **Deadlines**: Projects, bills, appointments with due dates
-3. **Expiration dates**: Passports, licenses, subscriptions, warranties
-4. **Recurring tasks**: Regular activities mentioned multiple times
-5. **Preparation needs**: Events requiring advance preparation
-
-IMPORTANT: Pay special attention to action items with dates and times. These should ALWAYS generate follow-up reminders.
-The current datetime is ${new Date().toISOString()}, use this to interpret relative dates like "next week" or "in 3 days", if a 'suggestedDate' is in the past then set it to tomorrow at 11:00.
-
-For each insight, provide:
-- type: One of [follow-up, deadline, expiration, recurring-task, preparation]
-- title: Short, actionable reminder title (e.g., "Call Gilson about car repair")
-- description: Context and details (e.g., "Scheduled for 2025-12-04 at 09:00")
-- suggestedDate: When to remind in ISO format (e.g., "2025-12-04T09:00:00Z")
-- confidence: high (clear date/time), medium (implied timing), or low (vague)
-- relatedDumpIds: Array of FULL dump IDs from the "ID:" field (e.g., ["3b9384f5-abc1-4567-89ef-0123456789ab"])
-- reasoning: Why this reminder would be helpful (e.g., "Action item with specific date and time")
-
-Example response (ONLY THIS, NO OTHER TEXT):
-[
-  {
-    "type": "follow-up",
-    "title": "Call Gilson about car repair",
-    "description": "Scheduled call tomorrow morning at 09:00",
-    "suggestedDate": "2025-12-04T09:00:00Z",
-    "confidence": "high",
-    "relatedDumpIds": ["3b9384f5-abc1-4567-89ef-0123456789ab"],
-    "reasoning": "Action item with specific date and time extracted from entities"
-  }
-]
-
-If no opportunities found, return empty array: []`;
-
-    const userPrompt = `Analyze this user content and suggest proactive reminders.
-
-${contentSummary}
-
-CRITICAL: Respond with ONLY a JSON array, no other text. Look especially for action items with dates and times in the entities.`;
-
     try {
-      // Use queryWithCustomPrompt for raw JSON response instead of analyzeContent
-      const fullPrompt = `${systemPrompt}
-
-${userPrompt}`;
-
-      const response =
-        await this.claudeService.queryWithCustomPrompt(fullPrompt);
-
-      this.logger.debug(`AI response: ${response.substring(0, 200)}...`);
-
-      // Try to extract JSON array from the response
-      const jsonRegex = /\[[\s\S]*\]/;
-      const jsonMatch = jsonRegex.exec(response);
-      if (!jsonMatch) {
-        this.logger.warn(
-          `AI response did not contain valid JSON array. Response was: ${response.substring(0, 500)}`,
-        );
-        return [];
-      }
+      const prompt = await this.promptRegistry.render(
+        'proactive_insights',
+        { now: new Date().toISOString(), content: contentSummary },
+        userId,
+      );
 
-      const insights = JSON.parse(jsonMatch[0]) as ContextualInsight[];
+      const insights = await runWithAiUsageScope({ userId }, () =>
+        this.claudeService.queryStructured<AiContextualInsight[]>(
+          prompt,
+          'proactive',
+          PROACTIVE_INSIGHTS_SCHEMA,
+        ),
+      );
 
       this.logger.log(
         `Successfully parsed ${insights.length} insights from AI`,
       );
 
-      // Validate and parse dates
-      const validatedInsights = insights.map((insight) => ({
+      return insights.map((insight) => ({
         ...insight,
+        description: insight.description ?? insight.title,
         suggestedDate: new Date(insight.suggestedDate),
+        relatedDumpIds: insight.relatedDumpIds ?? [],
+        reasoning: insight.reasoning ?? '',
       }));
-
-      return validatedInsights;
     } catch (error) {
       this.logger.error(
         `Failed to extract insights with AI: ${error.message}`,
@@ -810,31 +813,26 @@ Return your analysis as a JSON array. If no tracking opportunities found, return
 IMPORTANT: Respond with ONLY valid JSON, no other text.`;
 
     try {
-      const response = await this.claudeService.queryWithCustomPrompt(prompt);
-
-      // Parse AI response
-      const jsonPattern = /\[[\s\S]*\]/;
-      const jsonMatch = jsonPattern.exec(response);
-      if (!jsonMatch) {
-        this.logger.warn('No JSON array found in AI response');
-        return [];
-      }
+      const insights = await runWithAiUsageScope(
+        { userId: dump.user_id, dumpId: dump.id },
+        () =>
+          this.claudeService.queryStructured<AiTrackingInsight[]>(
+            prompt,
+            'proactive',
+            TRACKING_INSIGHTS_SCHEMA,
+          ),
+      );
 
-      const insights = JSON.parse(jsonMatch[0]);
-
-      // Validate and normalize the insights
-      return insights
-        .filter((insight) => insight.type && insight.title)
-        .map((insight) => ({
-          type: this.normalizeTrackingType(insight.type),
-          title: insight.title.substring(0, 100),
-          description: insight.description || insight.title,
-          trackingNumber: insight.trackingNumber || undefined,
-          expectedDate: insight.expectedDate
-            ? new Date(insight.expectedDate)
-            : undefined,
-          confidence: insight.confidence || 'medium',
-        }));
+      return insights.map((insight) => ({
+        type: this.normalizeTrackingType(insight.type),
+        title: insight.title.substring(0, 100),
+        description: insight.description || insight.title,
+        trackingNumber: insight.trackingNumber || undefined,
+        expectedDate: insight.expectedDate
+          ? new Date(insight.expectedDate)
+          : undefined,
+        confidence: insight.confidence || 'medium',
+      }));
     } catch (error) {
       this.logger.error(
         `AI tracking detection failed: ${error.message}`,
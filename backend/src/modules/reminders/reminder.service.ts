@@ -1,6 +1,6 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, LessThan, MoreThan, Between } from 'typeorm';
+import { Repository } from 'typeorm';
 import {
   Reminder,
   ReminderType,
@@ -8,6 +8,10 @@ import {
 } from '../../entities/reminder.entity';
 import { User } from '../../entities/user.entity';
 
+// Reminders of a trashed dump stay quiet, and fire again if it is restored
+const DUMP_NOT_TRASHED =
+  'NOT EXISTS (SELECT 1 FROM dumps trashed WHERE trashed.id = reminder.dump_id AND trashed.deleted_at IS NOT NULL)';
+
 export interface CreateReminderRequest {
   userId: string;
   dumpId?: string;
@@ -145,16 +149,15 @@ export class ReminderService {
   async getPendingReminders(beforeDate?: Date): Promise<Reminder[]> {
     const cutoffDate = beforeDate || new Date();
 
-    const reminders = await this.reminderRepository.find({
-      where: {
-        status: ReminderStatus.PENDING,
-        scheduled_for: LessThan(cutoffDate),
-      },
-      relations: ['user', 'dump'],
-      order: {
-        scheduled_for: 'ASC',
-      },
-    });
+    const reminders = await this.reminderRepository
+      .createQueryBuilder('reminder')
+      .leftJoinAndSelect('reminder.user', 'user')
+      .leftJoinAndSelect('reminder.dump', 'dump')
+      .where('reminder.status = :status', { status: ReminderStatus.PENDING })
+      .andWhere('reminder.scheduled_for < :cutoffDate', { cutoffDate })
+      .andWhere(DUMP_NOT_TRASHED)
+      .orderBy('reminder.scheduled_for', 'ASC')
+      .getMany();
 
     this.logger.log(
       `Found ${reminders.length} pending reminders before ${cutoffDate.toISOString()}`,
@@ -173,17 +176,18 @@ export class ReminderService {
     const now = new Date();
     const futureDate = new Date(now.getTime() + hoursAhead * 60 * 60 * 1000);
 
-    const reminders = await this.reminderRepository.find({
-      where: {
-        user_id: userId,
-        status: ReminderStatus.PENDING,
-        scheduled_for: Between(now, futureDate),
-      },
-      relations: ['dump'],
-      order: {
-        scheduled_for: 'ASC',
-      },
-    });
+    const reminders = await this.reminderRepository
+      .createQueryBuilder('reminder')
+      .leftJoinAndSelect('reminder.dump', 'dump')
+      .where('reminder.user_id = :userId', { userId })
+      .andWhere('reminder.status = :status', { status: ReminderStatus.PENDING })
+      .andWhere('reminder.scheduled_for BETWEEN :now AND :futureDate', {
+        now,
+        futureDate,
+      })
+      .andWhere(DUMP_NOT_TRASHED)
+      .orderBy('reminder.scheduled_for', 'ASC')
+      .getMany();
 
     this.logger.log(
       `Found ${reminders.length} upcoming reminders for user ${userId} in next ${hoursAhead} hours`,
@@ -9,6 +9,14 @@ import {
 } from '@nestjs/common';
 import { AdminService } from '../admin/admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import {
+  ReviewFlag,
+  ReviewPriority,
+  ReviewStatus,
+} from '../../entities/review-item.entity';
+import { ReviewService } from '../dumps/services/review.service';
 
 /**
  * Review Controller
@@ -18,32 +26,57 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 @Controller('review')
 @UseGuards(JwtAuthGuard)
 export class ReviewController {
-  constructor(private readonly adminService: AdminService) {}
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly reviewService: ReviewService,
+  ) {}
 
   /**
-   * Get all flagged content for review
+   * Get flagged content for review
+   * Open items (pending, in_progress) unless status is given; assignedTo=me
+   * lists the caller's own queue
    */
   @Get('flagged')
   async getFlaggedContent(
+    @GetUser() user: User,
     @Query('status') status?: string,
-    @Query('priority') priority?: string,
+    @Query('priority') priority?: ReviewPriority,
+    @Query('flag') flag?: ReviewFlag,
+    @Query('olderThanHours') olderThanHours?: string,
+    @Query('newerThanHours') newerThanHours?: string,
+    @Query('assignedTo') assignedTo?: string,
     @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
     @Query('userId') userId?: string,
   ) {
     const limitNum = limit ? Number.parseInt(limit, 10) : 50;
-    const flagged = await this.adminService.getFlaggedContent(
-      status,
+    const offsetNum = offset ? Number.parseInt(offset, 10) : 0;
+    const flagged = await this.adminService.getFlaggedContent({
+      status: status
+        ?.split(',')
+        .map((value) => value.trim() as ReviewStatus)
+        .filter((value) => Object.values(ReviewStatus).includes(value)),
       priority,
-      limitNum,
+      flag,
+      olderThanHours: olderThanHours
+        ? Number.parseFloat(olderThanHours)
+        : undefined,
+      newerThanHours: newerThanHours
+        ? Number.parseFloat(newerThanHours)
+        : undefined,
+      assignedTo: assignedTo === 'me' ? user.id : assignedTo,
+      limit: limitNum,
+      offset: offsetNum,
       userId,
-    );
+    });
 
     return {
       success: true,
-      data: flagged,
+      data: flagged.items,
       meta: {
-        total: flagged.length,
+        total: flagged.total,
         limit: limitNum,
+        offset: offsetNum,
       },
     };
   }
@@ -53,8 +86,8 @@ export class ReviewController {
    */
   @Get('flagged/:dumpId')
   async getFlaggedItem(@Param('dumpId') dumpId: string) {
-    const flagged = await this.adminService.getFlaggedContent();
-    const item = flagged.find((f) => f.id === dumpId);
+    const flagged = await this.adminService.getFlaggedContent({ dumpId });
+    const item = flagged.items[0];
 
     if (!item) {
       return {
@@ -85,8 +118,9 @@ export class ReviewController {
       category?: string;
       notes?: string;
     },
+    @GetUser() user: User,
   ) {
-    const result = await this.adminService.approveDump(dumpId, body);
+    const result = await this.adminService.approveDump(dumpId, body, user.id);
 
     return {
       success: true,
@@ -94,6 +128,41 @@ export class ReviewController {
     };
   }
 
+  /**
+   * Assign a review item to an admin reviewer (the caller by default),
+   * or unassign it with assigneeId null
+   */
+  @Post('items/:reviewId/assign')
+  async assignReview(
+    @Param('reviewId') reviewId: string,
+    @Body() body: { assigneeId?: string | null },
+    @GetUser() user: User,
+  ) {
+    const reviewItem = await this.reviewService.assignReview(
+      reviewId,
+      body.assigneeId === undefined ? user.id : body.assigneeId,
+      user.id,
+    );
+
+    return {
+      success: true,
+      data: reviewItem,
+    };
+  }
+
+  /**
+   * Status changes and reassignments of a review item
+   */
+  @Get('items/:reviewId/history')
+  async getReviewHistory(@Param('reviewId') reviewId: string) {
+    const history = await this.reviewService.getReviewHistory(reviewId);
+
+    return {
+      success: true,
+      data: history,
+    };
+  }
+
   /**
    * Reject a flagged dump
    */
@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { ReviewController } from './review.controller';
 import { AdminModule } from '../admin/admin.module';
+import { DumpModule } from '../dumps/dump.module';
 import { Dump } from '../../entities/dump.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Dump]), AdminModule],
+  imports: [TypeOrmModule.forFeature([Dump]), AdminModule, DumpModule],
   controllers: [ReviewController],
 })
 export class ReviewModule {}
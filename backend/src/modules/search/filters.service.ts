@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { SelectQueryBuilder } from 'typeorm';
 import { Dump, ContentType } from '../../entities/dump.entity';
 import { SearchFilters } from './search.service';
+import { normalizeTagName } from '../tags/tag.service';
 
 @Injectable()
 export class FiltersService {
@@ -60,6 +61,11 @@ export class FiltersService {
       });
     }
 
+    // Tag filter
+    if (filters.tags && filters.tags.length > 0) {
+      query = this.applyTagFilter(query, filters.tags);
+    }
+
     // Include processing status filter
     if (filters.includeProcessing === false) {
       query = query.andWhere('dump.processing_status = :status', {
@@ -72,6 +78,25 @@ export class FiltersService {
     return query;
   }
 
+  /**
+   * Restrict to dumps carrying any of the given tags
+   */
+  applyTagFilter(
+    queryBuilder: SelectQueryBuilder<Dump>,
+    tags: string[],
+  ): SelectQueryBuilder<Dump> {
+    const tagNames = tags.map((tag) => normalizeTagName(tag)).filter(Boolean);
+
+    return queryBuilder.andWhere(
+      `EXISTS (
+        SELECT 1 FROM dump_tags dt
+        INNER JOIN tags t ON t.id = dt.tag_id
+        WHERE dt.dump_id = dump.id AND t.name IN (:...tagNames)
+      )`,
+      { tagNames: tagNames.length > 0 ? tagNames : [''] },
+    );
+  }
+
   /**
    * Apply advanced filters for power users
    */
@@ -292,7 +317,14 @@ export class FiltersService {
 
     // Validate content types
     if (filters.contentTypes) {
-      const validContentTypes = ['text', 'voice', 'image', 'email'];
+      const validContentTypes = [
+        'text',
+        'voice',
+        'image',
+        'email',
+        'video',
+        'url',
+      ];
       for (const contentType of filters.contentTypes) {
         if (!validContentTypes.includes(contentType)) {
           errors.push(`Invalid content type: ${contentType}`);
@@ -343,7 +375,7 @@ export class FiltersService {
         ? queryParams.contentTypes
         : [queryParams.contentTypes];
       filters.contentTypes = types.filter((t) =>
-        ['text', 'voice', 'image', 'email'].includes(t),
+        ['text', 'voice', 'image', 'email', 'video', 'url'].includes(t),
       );
     }
 
@@ -355,6 +387,14 @@ export class FiltersService {
       filters.categories = cats.filter(Boolean);
     }
 
+    // Tags
+    if (queryParams.tags) {
+      const tags = Array.isArray(queryParams.tags)
+        ? queryParams.tags
+        : String(queryParams.tags).split(',');
+      filters.tags = tags.map((t) => normalizeTagName(t)).filter(Boolean);
+    }
+
     // Date range
     if (queryParams.dateFrom) {
       try {
@@ -411,6 +451,10 @@ export class FiltersService {
         return ContentType.IMAGE;
       case 'email':
         return ContentType.EMAIL;
+      case 'video':
+        return ContentType.VIDEO;
+      case 'url':
+        return ContentType.URL;
       default:
         return ContentType.TEXT;
     }
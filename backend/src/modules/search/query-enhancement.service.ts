@@ -1,5 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ClaudeService } from '../ai/claude.service';
+import { runWithAiUsageScope } from '../ai/ai-usage-scope';
+import { PromptRegistryService } from '../ai/prompts/prompt-registry.service';
+import { QUERY_ENHANCEMENT_SCHEMA } from '../ai/schemas/ai-output.schemas';
 
 export interface QueryEnhancementRequest {
   originalQuery: string;
@@ -23,11 +26,22 @@ export interface QueryEnhancementResponse {
   confidence: number;
 }
 
+// Answer of the query_enhancement prompt, as QUERY_ENHANCEMENT_SCHEMA validates it
+interface AiQueryEnhancement {
+  enhanced: string;
+  intents?: string[];
+  filters?: QueryEnhancementResponse['suggestedFilters'];
+  confidence?: number;
+}
+
 @Injectable()
 export class QueryEnhancementService {
   private readonly logger = new Logger(QueryEnhancementService.name);
 
-  constructor(private readonly claudeService: ClaudeService) {}
+  constructor(
+    private readonly claudeService: ClaudeService,
+    private readonly promptRegistry: PromptRegistryService,
+  ) {}
 
   /**
    * Enhance search query using Claude AI to understand intent and context
@@ -138,64 +152,37 @@ User Context:
 `
       : '';
 
-    const prompt = `You are enhancing search queries for a multilingual personal life inbox system. Users store content in multiple languages (English, Portuguese, Spanish, French, etc.).
-
-Original Query: "${request.originalQuery}"
-${contextInfo}
-
-Your task: Expand this query with synonyms and translations to improve multilingual search coverage.
-
-Instructions:
-1. Keep the original query terms
-2. Add relevant synonyms in the same language
-3. Add key English translations if query is in another language
-4. Add conceptually related terms
-5. Focus on searchable keywords, not full sentences
-
-Examples:
-- "contas de luz" → "contas de luz conta fatura boleto electricity bill power energy"
-- "electricity bill" → "electricity bill electric power energy utility invoice receipt"
-- "rendez-vous médecin" → "rendez-vous médecin appointment doctor medical consultation"
-
-Respond in JSON format:
-{
-  "enhanced": "original query plus expanded synonyms and translations",
-  "intents": ["primary_intent", "secondary_intent"],
-  "filters": {
-    "contentTypes": ["text", "voice", "image", "email"],
-    "dateRange": {"from": "YYYY-MM-DD", "to": "YYYY-MM-DD"},
-    "categories": ["category_name"]
-  },
-  "confidence": 0.95
-}
-
-Keep the enhanced query concise but comprehensive for better semantic search performance.`;
-
     try {
+      const prompt = await this.promptRegistry.render(
+        'query_enhancement',
+        { query: request.originalQuery, context: contextInfo },
+        request.userId,
+      );
+
       this.logger.log(
         `Sending custom prompt to Claude for query: "${request.originalQuery}"`,
       );
-      const rawResponse =
-        await this.claudeService.queryWithCustomPrompt(prompt);
-
-      this.logger.log(`Claude raw response: ${rawResponse}`);
-
-      // Parse Claude's response
-      const aiResponse = this.parseAIResponse(rawResponse);
+      const aiResponse = await runWithAiUsageScope(
+        { userId: request.userId },
+        () =>
+          this.claudeService.queryStructured<AiQueryEnhancement>(
+            prompt,
+            'query_enhancement',
+            QUERY_ENHANCEMENT_SCHEMA,
+          ),
+      );
 
-      // Validate enhanced query
-      const enhancedQuery = aiResponse.enhanced || request.originalQuery;
-      const validEnhanced =
-        enhancedQuery.length > 2 && !enhancedQuery.includes('{')
-          ? enhancedQuery
-          : request.originalQuery;
+      this.logger.log(`Enhanced query: "${aiResponse.enhanced}"`);
 
       return {
         original: request.originalQuery,
-        enhanced: validEnhanced,
-        extractedIntents: aiResponse.intents || [],
-        suggestedFilters: aiResponse.filters || {},
-        confidence: aiResponse.confidence || 0.7,
+        enhanced:
+          aiResponse.enhanced.length > 2
+            ? aiResponse.enhanced
+            : request.originalQuery,
+        extractedIntents: aiResponse.intents ?? [],
+        suggestedFilters: aiResponse.filters ?? {},
+        confidence: aiResponse.confidence ?? 0.7,
       };
     } catch (error) {
       this.logger.error('AI enhancement failed:', error);
@@ -205,54 +192,6 @@ Keep the enhanced query concise but comprehensive for better semantic search per
     }
   }
 
-  /**
-   * Parse AI response from Claude
-   */
-  private parseAIResponse(response: string): any {
-    try {
-      this.logger.log(`=== CLAUDE RESPONSE ANALYSIS ===`);
-      this.logger.log(`Raw response length: ${response?.length || 0} chars`);
-      this.logger.log(`Raw response: "${response}"`);
-
-      // Try to extract JSON from response
-      const jsonRegex = /\{[\s\S]*\}/;
-      const jsonMatch = jsonRegex.exec(response);
-      if (jsonMatch) {
-        const jsonStr = jsonMatch[0];
-        this.logger.log(`Extracted JSON string: "${jsonStr}"`);
-        const parsed = JSON.parse(jsonStr);
-        this.logger.log(
-          `Successfully parsed JSON: ${JSON.stringify(parsed, null, 2)}`,
-        );
-        return parsed;
-      }
-
-      // Fallback parsing
-      this.logger.warn(`❌ NO JSON FOUND in Claude response!`);
-      this.logger.warn(`Will use fallback parsing with first line`);
-      const fallback = {
-        enhanced: response.split('\n')[0] || '',
-        intents: [],
-        filters: {},
-        confidence: 0.6,
-      };
-      this.logger.log(`Fallback result: ${JSON.stringify(fallback)}`);
-      return fallback;
-    } catch (error) {
-      this.logger.error('❌ FAILED TO PARSE Claude response:', error);
-      this.logger.error(`Raw response: "${response}"`);
-      // Return safe fallback
-      const errorFallback = {
-        enhanced: '', // Empty to trigger original query fallback
-        intents: [],
-        filters: {},
-        confidence: 0.5,
-      };
-      this.logger.log(`Error fallback: ${JSON.stringify(errorFallback)}`);
-      return errorFallback;
-    }
-  }
-
   /**
    * Check if query is date-related
    */
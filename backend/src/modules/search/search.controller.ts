@@ -39,13 +39,18 @@ export class SearchQueryDto {
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
-  contentTypes?: ('text' | 'voice' | 'image' | 'email')[];
+  contentTypes?: ('text' | 'voice' | 'image' | 'email' | 'video' | 'url')[];
 
   @IsOptional()
   @IsArray()
   @IsString({ each: true })
   categories?: string[];
 
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
   @IsOptional()
   @IsDateString()
   dateFrom?: string;
@@ -118,7 +123,12 @@ export class SearchController {
         detail: 'api_search',
         userId: searchDto.userId,
         metadata: {
-          hasFilters: !!(searchDto.contentTypes || searchDto.categories || searchDto.dateFrom),
+          hasFilters: !!(
+            searchDto.contentTypes ||
+            searchDto.categories ||
+            searchDto.tags ||
+            searchDto.dateFrom
+          ),
         },
       }),
     );
@@ -134,6 +144,7 @@ export class SearchController {
         minConfidence: searchDto.minConfidence,
         urgencyLevels: searchDto.urgencyLevels,
         includeProcessing: searchDto.includeProcessing,
+        tags: searchDto.tags,
       },
       limit: searchDto.limit || 20,
       offset: searchDto.offset || 0,
@@ -286,7 +297,8 @@ export class SearchController {
 
   @Get('content-types/:contentType')
   async searchByContentType(
-    @Param('contentType') contentType: 'text' | 'voice' | 'image' | 'email',
+    @Param('contentType')
+    contentType: 'text' | 'voice' | 'image' | 'email' | 'video' | 'url',
     @GetUser() user: User,
     @Query('limit') limit?: number,
     @Query('offset') offset?: number,
@@ -22,13 +22,14 @@ export interface SearchRequest {
 }
 
 export interface SearchFilters {
-  contentTypes?: ('text' | 'voice' | 'image' | 'email')[];
+  contentTypes?: ('text' | 'voice' | 'image' | 'email' | 'video' | 'url')[];
   categories?: string[];
   dateFrom?: Date;
   dateTo?: Date;
   minConfidence?: number;
   urgencyLevels?: number[];
   includeProcessing?: boolean;
+  tags?: string[]; // Dumps carrying any of these tags
 }
 
 export interface VectorHealthMetrics {
@@ -176,10 +177,9 @@ export class SearchService {
       ]);
 
       // Step 4: Combine and rank results
-      const combinedResults = this.combineResults(
-        semanticResults,
-        fuzzyResults,
-        exactResults,
+      const combinedResults = await this.restrictToTags(
+        this.combineResults(semanticResults, fuzzyResults, exactResults),
+        request.filters?.tags,
       );
       const rankedResults = await this.rankingService.rankResults(
         combinedResults,
@@ -250,6 +250,30 @@ export class SearchService {
     }
   }
 
+  /**
+   * Keep only results carrying one of the requested tags. Semantic and fuzzy
+   * matching run outside the filtered query, so tags are enforced here.
+   */
+  private async restrictToTags(
+    results: SearchResult[],
+    tags?: string[],
+  ): Promise<SearchResult[]> {
+    if (!tags || tags.length === 0 || results.length === 0) {
+      return results;
+    }
+
+    const tagged = await this.filtersService
+      .applyTagFilter(this.dumpRepository.createQueryBuilder('dump'), tags)
+      .select('dump.id', 'id')
+      .andWhere('dump.id IN (:...dumpIds)', {
+        dumpIds: results.map((result) => result.dump.id),
+      })
+      .getRawMany();
+
+    const taggedIds = new Set(tagged.map((row) => row.id));
+    return results.filter((result) => taggedIds.has(result.dump.id));
+  }
+
   /**
    * Determine the predominant search type based on results
    */
@@ -686,6 +710,7 @@ export class SearchService {
         FROM dumps 
         WHERE user_id = $1 
         AND processing_status = 'completed'
+        AND deleted_at IS NULL
         AND LENGTH(TRIM(raw_content)) > 0
         GROUP BY word
         HAVING LENGTH(TRIM(word)) > 3 AND COUNT(*) > 1
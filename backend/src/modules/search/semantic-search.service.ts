@@ -1,6 +1,6 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, DataSource } from 'typeorm';
+import { Repository, DataSource, In } from 'typeorm';
 import { Dump } from '../../entities/dump.entity';
 import { VectorService } from './vector.service';
 
@@ -16,6 +16,18 @@ export interface SemanticSearchRequest {
   };
 }
 
+export interface NearDuplicateOptions {
+  // Only compare against dumps created on or after this date
+  createdAfter: Date;
+  minSimilarity: number;
+}
+
+export interface NearDuplicate {
+  dumpId: string;
+  summary: string;
+  similarity: number;
+}
+
 export interface SemanticSearchResult {
   dump: Dump;
   similarity: number;
@@ -172,7 +184,7 @@ export class SemanticSearchService {
   }
 
   /**
-   * Find similar dumps to a given dump
+   * Find similar dumps to a given dump, nearest content vector first
    */
   async findSimilarDumps(
     dumpId: string,
@@ -189,24 +201,88 @@ export class SemanticSearchService {
         throw new Error('Source dump not found or has no content vector');
       }
 
-      // Use the dump's content as search query
+      const rows: Array<{ id: string; similarity: string }> =
+        await this.dumpRepository.query(
+          `SELECT d.id, 1 - (d.content_vector <=> s.content_vector) AS similarity
+           FROM dumps d
+           JOIN dumps s ON s.id = $1
+           WHERE d.user_id = $2 AND d.id != $1 AND d.deleted_at IS NULL
+             AND d.content_vector IS NOT NULL
+           ORDER BY d.content_vector <=> s.content_vector
+           LIMIT $3`,
+          [dumpId, userId, limit],
+        );
+      if (rows.length === 0) {
+        return [];
+      }
+
+      const dumps = await this.dumpRepository.find({
+        where: { id: In(rows.map((row) => row.id)) },
+        relations: ['category'],
+      });
       const searchContent =
         sourceDump.ai_summary || sourceDump.raw_content || '';
 
-      const results = await this.search({
-        query: searchContent,
-        userId,
-        limit: limit + 1, // +1 because we'll filter out the source dump
+      return rows.flatMap((row) => {
+        const dump = dumps.find((candidate) => candidate.id === row.id);
+        const similarity = Number.parseFloat(row.similarity);
+        if (!dump || similarity < 0.3) {
+          return [];
+        }
+        return [
+          {
+            dump,
+            similarity,
+            matchReason: this.generateMatchReason(
+              dump,
+              searchContent,
+              similarity,
+            ),
+            confidence: this.calculateConfidence(similarity, dump),
+          },
+        ];
       });
-
-      // Filter out the source dump itself
-      return results.filter((result) => result.dump.id !== dumpId);
     } catch (error) {
       this.logger.error('Find similar dumps failed:', error);
       throw new Error(`Find similar dumps failed: ${error.message}`);
     }
   }
 
+  /**
+   * The user's recent dump closest to the given one, if it is similar enough
+   * to be a duplicate. Reads only the columns the duplicate check needs.
+   */
+  async findNearDuplicate(
+    dumpId: string,
+    userId: string,
+    options: NearDuplicateOptions,
+  ): Promise<NearDuplicate | null> {
+    const [row]: Array<{
+      id: string;
+      summary: string | null;
+      similarity: string;
+    }> = await this.dumpRepository.query(
+      `SELECT d.id, COALESCE(NULLIF(d.ai_summary, ''), d.raw_content) AS summary,
+              1 - (d.content_vector <=> s.content_vector) AS similarity
+       FROM dumps d
+       JOIN dumps s ON s.id = $1 AND s.content_vector IS NOT NULL
+       WHERE d.user_id = $2 AND d.id != $1 AND d.deleted_at IS NULL
+         AND d.content_vector IS NOT NULL AND d.created_at >= $3
+       ORDER BY d.content_vector <=> s.content_vector
+       LIMIT 1`,
+      [dumpId, userId, options.createdAfter],
+    );
+    if (!row) {
+      return null;
+    }
+
+    const similarity = Number.parseFloat(row.similarity);
+    if (similarity < options.minSimilarity) {
+      return null;
+    }
+    return { dumpId: row.id, summary: row.summary || '', similarity };
+  }
+
   /**
    * Generate explanation for why this dump matched
    */
@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { VectorService } from './vector.service';
+import { FallbackHandlerService } from '../ai/fallback-handler.service';
 import { ConfigService } from '@nestjs/config';
 import { DataSource } from 'typeorm';
 
@@ -25,6 +26,7 @@ describe('VectorService', () => {
     module = await Test.createTestingModule({
       providers: [
         VectorService,
+        FallbackHandlerService,
         {
           provide: ConfigService,
           useValue: {
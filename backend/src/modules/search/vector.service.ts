@@ -3,6 +3,10 @@ import { ConfigService } from '@nestjs/config';
 import { InjectDataSource } from '@nestjs/typeorm';
 import { DataSource } from 'typeorm';
 import { pipeline, env } from '@xenova/transformers';
+import {
+  AiServiceUnavailableError,
+  FallbackHandlerService,
+} from '../ai/fallback-handler.service';
 
 export interface EmbeddingGenerationRequest {
   text: string;
@@ -28,6 +32,7 @@ export class VectorService implements OnModuleInit {
     @InjectDataSource()
     private readonly dataSource: DataSource,
     private readonly configService: ConfigService,
+    private readonly fallbackHandler: FallbackHandlerService,
   ) {
     // Configure transformers.js to use local models
     env.allowLocalModels = false;
@@ -111,10 +116,14 @@ export class VectorService implements OnModuleInit {
 
     try {
       // Generate embedding using local model
-      const output = await this.extractor(request.text, {
-        pooling: 'mean',
-        normalize: true,
-      });
+      const output = await this.fallbackHandler.executeAiCall<{
+        data: ArrayLike<number>;
+      }>('embeddings', () =>
+        this.extractor(request.text, {
+          pooling: 'mean',
+          normalize: true,
+        }),
+      );
 
       // Convert tensor to array
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-type-assertion
@@ -137,6 +146,9 @@ export class VectorService implements OnModuleInit {
         model,
       };
     } catch (error) {
+      if (error instanceof AiServiceUnavailableError) {
+        throw error;
+      }
       this.logger.error('Error generating embedding:', error);
       throw new Error(`Embedding generation failed: ${error.message}`);
     }
@@ -0,0 +1,102 @@
+import { Logger } from '@nestjs/common';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import { StorageBackend } from './storage-backend.interface';
+
+export interface LocalStorageOptions {
+  rootDir: string;
+  publicBaseUrl: string;
+  signingSecret: string;
+}
+
+/**
+ * Local filesystem backend
+ * Files are kept under rootDir and served by MediaController through
+ * HMAC-signed, expiring URLs so links behave like the Supabase ones.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'local' as const;
+  private readonly logger = new Logger(LocalStorageBackend.name);
+  private readonly rootDir: string;
+
+  constructor(private readonly options: LocalStorageOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+    this.logger.log(`Local media storage rooted at ${this.rootDir}`);
+  }
+
+  async upload(
+    filePath: string,
+    data: Buffer,
+    _contentType?: string,
+  ): Promise<void> {
+    const target = this.resolvePath(filePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  }
+
+  async download(filePath: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(filePath));
+  }
+
+  async getSignedUrl(
+    filePath: string,
+    expiresInSeconds: number,
+  ): Promise<string> {
+    // Fail early instead of handing out a link to a missing file
+    await fs.access(this.resolvePath(filePath));
+
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = this.sign(filePath, expires);
+    const params = new URLSearchParams({
+      path: filePath,
+      expires: expires.toString(),
+      signature,
+    });
+
+    return `${this.options.publicBaseUrl.replace(/\/$/, '')}/api/media/local?${params.toString()}`;
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await fs.rm(this.resolvePath(filePath), { force: true });
+  }
+
+  /**
+   * Check a signature produced by getSignedUrl
+   */
+  verifySignature(
+    filePath: string,
+    expires: number,
+    signature: string,
+  ): boolean {
+    if (!Number.isFinite(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(filePath, expires));
+    const provided = Buffer.from(signature || '');
+
+    return (
+      expected.length === provided.length &&
+      crypto.timingSafeEqual(expected, provided)
+    );
+  }
+
+  /**
+   * Absolute location of a stored file, rejecting paths that escape rootDir
+   */
+  resolvePath(filePath: string): string {
+    const resolved = path.resolve(this.rootDir, filePath);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage path: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  private sign(filePath: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.options.signingSecret)
+      .update(`${filePath}:${expires}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Injection token for the active storage backend
+ */
+export const STORAGE_BACKEND = 'STORAGE_BACKEND';
+
+/**
+ * Contract implemented by every media storage backend.
+ * Paths are relative object keys inside the configured bucket/root.
+ */
+export interface StorageBackend {
+  readonly name: 'supabase' | 'local';
+
+  upload(path: string, data: Buffer, contentType?: string): Promise<void>;
+
+  download(path: string): Promise<Buffer>;
+
+  getSignedUrl(path: string, expiresInSeconds: number): Promise<string>;
+
+  delete(path: string): Promise<void>;
+}
@@ -0,0 +1,75 @@
+import { Logger } from '@nestjs/common';
+import { StorageConfig } from '../../../config/storage.config';
+import { StorageBackend } from './storage-backend.interface';
+
+/**
+ * Supabase Storage backend
+ * Thin adapter over StorageConfig that turns its { data, error } results into exceptions
+ */
+export class SupabaseStorageBackend implements StorageBackend {
+  readonly name = 'supabase' as const;
+  private readonly logger = new Logger(SupabaseStorageBackend.name);
+
+  constructor(
+    private readonly storageConfig: StorageConfig,
+    private readonly bucket: string,
+  ) {
+    this.logger.log(`Supabase media storage using bucket "${bucket}"`);
+  }
+
+  async upload(
+    path: string,
+    data: Buffer,
+    contentType?: string,
+  ): Promise<void> {
+    const { error } = await this.storageConfig.uploadFile(
+      this.bucket,
+      path,
+      data,
+      { contentType, upsert: true },
+    );
+
+    if (error) {
+      throw new Error(`Supabase upload failed: ${error.message || error}`);
+    }
+  }
+
+  async download(path: string): Promise<Buffer> {
+    const { data, error } = await this.storageConfig.downloadFile(
+      this.bucket,
+      path,
+    );
+
+    if (error || !data) {
+      throw new Error(
+        `Supabase download failed: ${error?.message || 'empty response'}`,
+      );
+    }
+
+    return Buffer.from(await data.arrayBuffer());
+  }
+
+  async getSignedUrl(path: string, expiresInSeconds: number): Promise<string> {
+    const { data, error } = await this.storageConfig.getSignedUrl(
+      this.bucket,
+      path,
+      expiresInSeconds,
+    );
+
+    if (error || !data) {
+      throw new Error(
+        `Supabase signed URL failed: ${error?.message || 'empty response'}`,
+      );
+    }
+
+    return data.signedUrl;
+  }
+
+  async delete(path: string): Promise<void> {
+    const { error } = await this.storageConfig.deleteFile(this.bucket, path);
+
+    if (error) {
+      throw new Error(`Supabase delete failed: ${error.message || error}`);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'node:path';
+import {
+  STORAGE_BACKEND,
+  type StorageBackend,
+} from './backends/storage-backend.interface';
+
+export interface StoreMediaOptions {
+  mimeType?: string;
+  fileName?: string;
+  // 1-based page of a multi-page dump; pages after the first get their own key
+  page?: number;
+}
+
+export interface SignedMediaUrl {
+  url: string;
+  expiresIn: number;
+  expiresAt: Date;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/wav': '.wav',
+  'audio/m4a': '.m4a',
+  'audio/aac': '.aac',
+  'audio/webm': '.webm',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+};
+
+/**
+ * MediaStorageService
+ * Persists the original media of a dump (voice notes, photos, documents)
+ * through the configured StorageBackend and hands out short-lived links.
+ */
+@Injectable()
+export class MediaStorageService {
+  private readonly logger = new Logger(MediaStorageService.name);
+  private readonly defaultTtl: number;
+  private readonly maxTtl = 3600;
+
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly backend: StorageBackend,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultTtl = Number.parseInt(
+      this.configService.get<string>('MEDIA_SIGNED_URL_TTL') || '300',
+      10,
+    );
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * Store the media buffer of a dump and return its storage key (saved as media_url)
+   */
+  async storeDumpMedia(
+    userId: string,
+    dumpId: string,
+    buffer: Buffer,
+    options: StoreMediaOptions = {},
+  ): Promise<string> {
+    const pageSuffix =
+      options.page && options.page > 1 ? `-p${options.page}` : '';
+    const key = `${userId}/${dumpId}${pageSuffix}${this.resolveExtension(options)}`;
+
+    await this.backend.upload(key, buffer, options.mimeType);
+    this.logger.log(
+      `Stored media for dump ${dumpId} (${buffer.length} bytes) via ${this.backend.name}`,
+    );
+
+    return key;
+  }
+
+  /**
+   * Store a personal data export archive and return its storage key
+   */
+  async storeDataExport(
+    userId: string,
+    exportId: string,
+    buffer: Buffer,
+  ): Promise<string> {
+    const key = `exports/${userId}/${exportId}.zip`;
+
+    await this.backend.upload(key, buffer, 'application/zip');
+    this.logger.log(
+      `Stored data export ${exportId} (${buffer.length} bytes) via ${this.backend.name}`,
+    );
+
+    return key;
+  }
+
+  async getSignedUrl(
+    mediaKey: string,
+    expiresIn?: number,
+  ): Promise<SignedMediaUrl> {
+    const ttl = Math.min(
+      Math.max(expiresIn || this.defaultTtl, 1),
+      this.maxTtl,
+    );
+    const url = await this.backend.getSignedUrl(mediaKey, ttl);
+
+    return {
+      url,
+      expiresIn: ttl,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    };
+  }
+
+  async downloadMedia(mediaKey: string): Promise<Buffer> {
+    return this.backend.download(mediaKey);
+  }
+
+  /**
+   * Remove stored media. Failures are logged, never thrown, so deleting
+   * a dump is not blocked by a storage outage.
+   */
+  async deleteMedia(mediaKey: string): Promise<boolean> {
+    try {
+      await this.backend.delete(mediaKey);
+      this.logger.log(`Deleted media ${mediaKey}`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to delete media ${mediaKey}:`, error);
+      return false;
+    }
+  }
+
+  private resolveExtension(options: StoreMediaOptions): string {
+    const fromName = options.fileName
+      ? path.extname(options.fileName).toLowerCase()
+      : '';
+    if (fromName && /^\.[a-z0-9]{1,8}$/.test(fromName)) {
+      return fromName;
+    }
+
+    const mimeType = options.mimeType?.split(';')[0].trim().toLowerCase();
+    return (mimeType && MIME_EXTENSIONS[mimeType]) || '.bin';
+  }
+}
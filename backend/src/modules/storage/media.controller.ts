@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Query,
+  Res,
+  Inject,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import {
+  STORAGE_BACKEND,
+  type StorageBackend,
+} from './backends/storage-backend.interface';
+import { LocalStorageBackend } from './backends/local-storage.backend';
+
+/**
+ * Serves files for the local storage backend.
+ * Supabase links point straight at Supabase, so this is only reachable
+ * when STORAGE_DRIVER=local.
+ */
+@Controller('api/media')
+export class MediaController {
+  constructor(
+    @Inject(STORAGE_BACKEND) private readonly backend: StorageBackend,
+  ) {}
+
+  @Get('local')
+  serveLocal(
+    @Query('path') filePath: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ): void {
+    if (!(this.backend instanceof LocalStorageBackend)) {
+      throw new NotFoundException('Local media storage is not enabled');
+    }
+
+    if (
+      !filePath ||
+      !this.backend.verifySignature(
+        filePath,
+        Number.parseInt(expires, 10),
+        signature,
+      )
+    ) {
+      throw new ForbiddenException('Invalid or expired media link');
+    }
+
+    res.sendFile(this.backend.resolvePath(filePath), (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ success: false, message: 'Media not found' });
+      }
+    });
+  }
+}
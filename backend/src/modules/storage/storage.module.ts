@@ -0,0 +1,67 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { StorageConfig } from '../../config/storage.config';
+import { MediaStorageService } from './media-storage.service';
+import { MediaController } from './media.controller';
+import {
+  STORAGE_BACKEND,
+  type StorageBackend,
+} from './backends/storage-backend.interface';
+import { SupabaseStorageBackend } from './backends/supabase-storage.backend';
+import { LocalStorageBackend } from './backends/local-storage.backend';
+
+/**
+ * Module for original media persistence
+ *
+ * STORAGE_DRIVER selects the backend:
+ * - supabase: Supabase Storage via StorageConfig (default when SUPABASE_URL is set)
+ * - local: files on disk under STORAGE_LOCAL_PATH, served through URLs
+ *   signed with STORAGE_SIGNING_SECRET (or JWT_SECRET)
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: STORAGE_BACKEND,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): StorageBackend => {
+        const driver =
+          config.get<string>('STORAGE_DRIVER') ||
+          (config.get<string>('SUPABASE_URL') &&
+          config.get<string>('SUPABASE_ANON_KEY')
+            ? 'supabase'
+            : 'local');
+
+        if (driver === 'supabase') {
+          return new SupabaseStorageBackend(
+            new StorageConfig(),
+            config.get<string>('STORAGE_BUCKET') || 'media',
+          );
+        }
+
+        // A known secret would let anyone sign media URLs
+        const signingSecret =
+          config.get<string>('STORAGE_SIGNING_SECRET') ||
+          config.get<string>('JWT_SECRET');
+        if (!signingSecret) {
+          throw new Error(
+            'STORAGE_SIGNING_SECRET or JWT_SECRET must be defined for local storage',
+          );
+        }
+
+        return new LocalStorageBackend({
+          rootDir:
+            config.get<string>('STORAGE_LOCAL_PATH') || './storage/media',
+          publicBaseUrl:
+            config.get<string>('STORAGE_PUBLIC_BASE_URL') ||
+            `http://localhost:${config.get<string>('PORT') || 3000}`,
+          signingSecret,
+        });
+      },
+    },
+    MediaStorageService,
+  ],
+  controllers: [MediaController],
+  exports: [MediaStorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,160 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+} from '@nestjs/common';
+import {
+  IsArray,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ArrayNotEmpty,
+} from 'class-validator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import { Tag } from '../../entities/tag.entity';
+import { TagService, TagWithCount, DumpTagsResult } from './tag.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+export class CreateTagDto {
+  @IsString()
+  @MaxLength(50)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  color?: string;
+}
+
+export class UpdateTagDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  color?: string;
+}
+
+export class TagDumpDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  tags: string[]; // Tag names; missing tags are created
+}
+
+@Controller('api/tags')
+@UseGuards(JwtAuthGuard)
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  @Get()
+  async listTags(@GetUser() user: User): Promise<ApiResponse<TagWithCount[]>> {
+    const tags = await this.tagService.listTags(user.id);
+
+    return {
+      success: true,
+      data: tags,
+      message: `Found ${tags.length} tags`,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createTag(
+    @GetUser() user: User,
+    @Body(ValidationPipe) createTagDto: CreateTagDto,
+  ): Promise<ApiResponse<Tag>> {
+    const tag = await this.tagService.createTag(
+      user.id,
+      createTagDto.name,
+      createTagDto.color,
+    );
+
+    return {
+      success: true,
+      data: tag,
+      message: `Tag "${tag.name}" created`,
+    };
+  }
+
+  @Put(':id')
+  async updateTag(
+    @GetUser() user: User,
+    @Param('id') tagId: string,
+    @Body(ValidationPipe) updateTagDto: UpdateTagDto,
+  ): Promise<ApiResponse<Tag>> {
+    const tag = await this.tagService.updateTag(user.id, tagId, updateTagDto);
+
+    return {
+      success: true,
+      data: tag,
+      message: 'Tag updated successfully',
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteTag(
+    @GetUser() user: User,
+    @Param('id') tagId: string,
+  ): Promise<void> {
+    await this.tagService.deleteTag(user.id, tagId);
+  }
+
+  @Get('dumps/:dumpId')
+  async getDumpTags(
+    @GetUser() user: User,
+    @Param('dumpId') dumpId: string,
+  ): Promise<ApiResponse<DumpTagsResult>> {
+    const result = await this.tagService.getDumpTags(user.id, dumpId);
+
+    return {
+      success: true,
+      data: result,
+      message: `Dump has ${result.tags.length} tags`,
+    };
+  }
+
+  @Post('dumps/:dumpId')
+  @HttpCode(HttpStatus.OK)
+  async tagDump(
+    @GetUser() user: User,
+    @Param('dumpId') dumpId: string,
+    @Body(ValidationPipe) tagDumpDto: TagDumpDto,
+  ): Promise<ApiResponse<DumpTagsResult>> {
+    const result = await this.tagService.addTagsToUserDump(
+      user.id,
+      dumpId,
+      tagDumpDto.tags,
+    );
+
+    return {
+      success: true,
+      data: result,
+      message: 'Dump tagged successfully',
+    };
+  }
+
+  @Delete('dumps/:dumpId/:tagId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async untagDump(
+    @GetUser() user: User,
+    @Param('dumpId') dumpId: string,
+    @Param('tagId') tagId: string,
+  ): Promise<void> {
+    await this.tagService.removeTagFromDump(user.id, dumpId, tagId);
+  }
+}
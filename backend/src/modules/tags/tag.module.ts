@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Tag } from '../../entities/tag.entity';
+import { DumpTag } from '../../entities/dump-tag.entity';
+import { Dump } from '../../entities/dump.entity';
+import { TagService } from './tag.service';
+import { TagController } from './tag.controller';
+
+/**
+ * Module for user-defined tags
+ *
+ * Provides:
+ * - TagService: Tag management and tagging of dumps
+ * - TagController: REST API endpoints
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Tag, DumpTag, Dump])],
+  providers: [TagService],
+  controllers: [TagController],
+  exports: [TagService], // Used by the dump pipeline for hashtags and AI tags
+})
+export class TagModule {}
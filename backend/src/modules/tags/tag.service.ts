@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import { Tag } from '../../entities/tag.entity';
+import { DumpTag, TagSource } from '../../entities/dump-tag.entity';
+import { Dump } from '../../entities/dump.entity';
+
+export interface TagWithCount {
+  id: string;
+  name: string;
+  color: string | null;
+  created_at: Date;
+  dumpCount: number;
+}
+
+export interface AppliedTag {
+  id: string;
+  name: string;
+  color: string | null;
+  source: TagSource;
+}
+
+export interface DumpTagsResult {
+  tags: AppliedTag[];
+  suggestedTags: string[];
+}
+
+export interface UpdateTagRequest {
+  name?: string;
+  color?: string | null;
+}
+
+const MAX_TAG_LENGTH = 50;
+const HASHTAG_PATTERN = /(?:^|\s)#([\p{L}\p{N}][\p{L}\p{N}_-]*)/gu;
+
+/**
+ * Normalize a tag name: lowercase, no leading '#', words joined with '-'.
+ * Returns an empty string when nothing usable is left.
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_-]+/gu, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-|-$/g, '')
+    .substring(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * TagService
+ * User-scoped tags and their assignment to dumps
+ */
+@Injectable()
+export class TagService {
+  private readonly logger = new Logger(TagService.name);
+
+  constructor(
+    @InjectRepository(Tag)
+    private readonly tagRepository: Repository<Tag>,
+    @InjectRepository(DumpTag)
+    private readonly dumpTagRepository: Repository<DumpTag>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+  ) {}
+
+  normalizeName(name: string): string {
+    return normalizeTagName(name);
+  }
+
+  /**
+   * Extract normalized #hashtags from message text
+   */
+  parseHashtags(text: string): string[] {
+    const names = Array.from(text.matchAll(HASHTAG_PATTERN), (match) =>
+      this.normalizeName(match[1]),
+    );
+    return [...new Set(names.filter(Boolean))];
+  }
+
+  async listTags(userId: string): Promise<TagWithCount[]> {
+    const rows = await this.tagRepository
+      .createQueryBuilder('tag')
+      .leftJoin('tag.dump_tags', 'dumpTag')
+      .leftJoin('dumpTag.dump', 'dump')
+      .select([
+        'tag.id AS id',
+        'tag.name AS name',
+        'tag.color AS color',
+        'tag.created_at AS created_at',
+      ])
+      .addSelect('COUNT(dump.id)', 'dumpCount')
+      .where('tag.user_id = :userId', { userId })
+      .groupBy('tag.id')
+      .orderBy('tag.name', 'ASC')
+      .getRawMany();
+
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      color: row.color,
+      created_at: row.created_at,
+      dumpCount: Number.parseInt(row.dumpCount, 10) || 0,
+    }));
+  }
+
+  async createTag(
+    userId: string,
+    name: string,
+    color?: string | null,
+  ): Promise<Tag> {
+    const normalized = this.requireName(name);
+
+    const existing = await this.tagRepository.findOne({
+      where: { user_id: userId, name: normalized },
+    });
+    if (existing) {
+      throw new ConflictException(`Tag "${normalized}" already exists`);
+    }
+
+    return this.tagRepository.save(
+      this.tagRepository.create({
+        user_id: userId,
+        name: normalized,
+        color: color || null,
+      }),
+    );
+  }
+
+  async updateTag(
+    userId: string,
+    tagId: string,
+    updates: UpdateTagRequest,
+  ): Promise<Tag> {
+    const tag = await this.findUserTag(userId, tagId);
+
+    if (updates.name !== undefined) {
+      const normalized = this.requireName(updates.name);
+      if (normalized !== tag.name) {
+        const existing = await this.tagRepository.findOne({
+          where: { user_id: userId, name: normalized },
+        });
+        if (existing) {
+          throw new ConflictException(`Tag "${normalized}" already exists`);
+        }
+        tag.name = normalized;
+      }
+    }
+
+    if (updates.color !== undefined) {
+      tag.color = updates.color || null;
+    }
+
+    return this.tagRepository.save(tag);
+  }
+
+  async deleteTag(userId: string, tagId: string): Promise<void> {
+    const tag = await this.findUserTag(userId, tagId);
+    await this.tagRepository.remove(tag);
+  }
+
+  async getDumpTags(userId: string, dumpId: string): Promise<DumpTagsResult> {
+    const dump = await this.findUserDump(userId, dumpId);
+    const dumpTags = await this.dumpTagRepository.find({
+      where: { dump_id: dump.id },
+      relations: ['tag'],
+      order: { created_at: 'ASC' },
+    });
+
+    const tags = dumpTags.map((dumpTag) => ({
+      id: dumpTag.tag.id,
+      name: dumpTag.tag.name,
+      color: dumpTag.tag.color,
+      source: dumpTag.source,
+    }));
+    const applied = new Set(tags.map((tag) => tag.name));
+
+    return {
+      tags,
+      suggestedTags: (dump.extracted_entities?.suggestedTags || []).filter(
+        (name) => !applied.has(name),
+      ),
+    };
+  }
+
+  /**
+   * Tag a dump by name, creating tags the user does not have yet
+   */
+  async addTagsToDump(
+    dump: Pick<Dump, 'id' | 'user_id'>,
+    names: string[],
+    source: TagSource = TagSource.USER,
+  ): Promise<Tag[]> {
+    const tags = await this.findOrCreateTags(dump.user_id, names);
+    if (tags.length === 0) {
+      return [];
+    }
+
+    await this.dumpTagRepository
+      .createQueryBuilder()
+      .insert()
+      .into(DumpTag)
+      .values(tags.map((tag) => ({ dump_id: dump.id, tag_id: tag.id, source })))
+      .orIgnore()
+      .execute();
+
+    this.logger.log(
+      `Tagged dump ${dump.id} with ${tags.map((t) => t.name).join(', ')} (${source})`,
+    );
+    return tags;
+  }
+
+  async addTagsToUserDump(
+    userId: string,
+    dumpId: string,
+    names: string[],
+  ): Promise<DumpTagsResult> {
+    const dump = await this.findUserDump(userId, dumpId);
+    await this.addTagsToDump(dump, names, TagSource.USER);
+    return this.getDumpTags(userId, dumpId);
+  }
+
+  async removeTagFromDump(
+    userId: string,
+    dumpId: string,
+    tagId: string,
+  ): Promise<void> {
+    await this.findUserDump(userId, dumpId);
+    await this.dumpTagRepository.delete({ dump_id: dumpId, tag_id: tagId });
+  }
+
+  /**
+   * Apply AI tag suggestions: suggestions matching a tag the user already has
+   * are applied, the rest are kept on the dump for the user to accept
+   */
+  async applySuggestedTags(
+    dump: Dump,
+    suggestions: string[],
+  ): Promise<{ applied: string[]; suggested: string[] }> {
+    const names = [
+      ...new Set(suggestions.map((s) => this.normalizeName(s)).filter(Boolean)),
+    ];
+    if (names.length === 0) {
+      return { applied: [], suggested: [] };
+    }
+
+    const existing = await this.tagRepository.find({
+      where: { user_id: dump.user_id, name: In(names) },
+    });
+    const applied = existing.map((tag) => tag.name);
+    const suggested = names.filter((name) => !applied.includes(name));
+
+    if (applied.length > 0) {
+      await this.addTagsToDump(dump, applied, TagSource.AI);
+    }
+
+    dump.extracted_entities = {
+      ...dump.extracted_entities,
+      suggestedTags: suggested,
+    };
+    await this.dumpRepository.update(dump.id, {
+      extracted_entities: dump.extracted_entities,
+    } as QueryDeepPartialEntity<Dump>);
+
+    return { applied, suggested };
+  }
+
+  private async findOrCreateTags(
+    userId: string,
+    names: string[],
+  ): Promise<Tag[]> {
+    const normalized = [
+      ...new Set(names.map((name) => this.normalizeName(name)).filter(Boolean)),
+    ];
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    const existing = await this.tagRepository.find({
+      where: { user_id: userId, name: In(normalized) },
+    });
+    const missing = normalized.filter(
+      (name) => !existing.some((tag) => tag.name === name),
+    );
+
+    if (missing.length > 0) {
+      // Ignore conflicts from a concurrent insert of the same tag
+      await this.tagRepository
+        .createQueryBuilder()
+        .insert()
+        .into(Tag)
+        .values(missing.map((name) => ({ user_id: userId, name })))
+        .orIgnore()
+        .execute();
+
+      return this.tagRepository.find({
+        where: { user_id: userId, name: In(normalized) },
+      });
+    }
+
+    return existing;
+  }
+
+  private requireName(name: string): string {
+    const normalized = this.normalizeName(name || '');
+    if (!normalized) {
+      throw new BadRequestException('Tag name must contain letters or digits');
+    }
+    return normalized;
+  }
+
+  private async findUserTag(userId: string, tagId: string): Promise<Tag> {
+    const tag = await this.tagRepository.findOne({
+      where: { id: tagId, user_id: userId },
+    });
+    if (!tag) {
+      throw new NotFoundException(`Tag ${tagId} not found`);
+    }
+    return tag;
+  }
+
+  private async findUserDump(userId: string, dumpId: string): Promise<Dump> {
+    const dump = await this.dumpRepository.findOne({
+      where: { id: dumpId, user_id: userId },
+    });
+    if (!dump) {
+      throw new NotFoundException(`Dump with ID ${dumpId} not found`);
+    }
+    return dump;
+  }
+}
@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { Task, TaskSource, TaskStatus } from '../../entities/task.entity';
+import { Dump } from '../../entities/dump.entity';
+import { ClaudeService } from '../ai/claude.service';
+import { runWithAiUsageScope } from '../ai/ai-usage-scope';
+import { TASK_STEPS_SCHEMA } from '../ai/schemas/ai-output.schemas';
+import { MetricsService } from '../metrics/metrics.service';
+import { AIOperationType } from '../../entities/ai-metric.entity';
+import { TaskService, OPEN_TASK_STATUSES } from './task.service';
+
+export interface TaskBreakdown {
+  task: Task;
+  subtasks: Task[];
+}
+
+interface GeneratedStep {
+  title: string;
+  estimatedMinutes?: number | null;
+}
+
+const MIN_STEPS = 2;
+const MAX_STEPS = 8;
+const MAX_STEP_MINUTES = 240;
+
+/**
+ * TaskDecomposerService
+ * Breaks large or vague tasks into a short, ordered list of small steps
+ */
+@Injectable()
+export class TaskDecomposerService {
+  private readonly logger = new Logger(TaskDecomposerService.name);
+
+  constructor(
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+    @InjectRepository(Dump)
+    private readonly dumpRepository: Repository<Dump>,
+    private readonly taskService: TaskService,
+    private readonly claudeService: ClaudeService,
+    private readonly metricsService: MetricsService,
+  ) {}
+
+  /**
+   * Generate steps for a task and store them as its subtasks.
+   * Re-running replaces the steps not done yet and keeps the completed ones.
+   */
+  async breakDownTask(userId: string, taskId: string): Promise<TaskBreakdown> {
+    const task = await this.taskService.getTaskById(userId, taskId);
+
+    if (task.parent_task_id) {
+      throw new BadRequestException('Steps cannot be broken down further');
+    }
+    if (!OPEN_TASK_STATUSES.includes(task.status)) {
+      throw new BadRequestException(`Task is already ${task.status}`);
+    }
+
+    const existing = await this.taskRepository.find({
+      where: { parent_task_id: task.id },
+      order: { sort_order: 'ASC', created_at: 'ASC' },
+    });
+    const done = existing.filter(
+      (step) => step.status === TaskStatus.COMPLETED,
+    );
+
+    const dump = task.dump_id
+      ? await this.dumpRepository.findOne({ where: { id: task.dump_id } })
+      : null;
+
+    const startTime = performance.now();
+    let steps: GeneratedStep[];
+    try {
+      steps = await this.generateSteps(task, dump, done);
+    } catch (error) {
+      this.trackBreakdown(task, performance.now() - startTime, 0, error);
+      throw error;
+    }
+    this.trackBreakdown(task, performance.now() - startTime, steps.length);
+
+    const stale = existing.filter((step) => !done.includes(step));
+    if (stale.length > 0) {
+      await this.taskRepository.delete({ id: In(stale.map((s) => s.id)) });
+    }
+
+    const subtasks = await this.taskRepository.save(
+      steps.map((step, index) =>
+        this.taskRepository.create({
+          user_id: task.user_id,
+          dump_id: task.dump_id,
+          parent_task_id: task.id,
+          title: step.title,
+          estimated_minutes: step.estimatedMinutes ?? null,
+          priority: task.priority,
+          sort_order: done.length + index,
+          source: TaskSource.BREAKDOWN,
+        }),
+      ),
+    );
+
+    task.needs_breakdown = false;
+    if (task.status === TaskStatus.PENDING) {
+      // Started, so re-processing the dump keeps it and its steps
+      task.status = TaskStatus.IN_PROGRESS;
+    }
+    if (!task.estimated_minutes) {
+      const total = subtasks.reduce(
+        (sum, step) => sum + (step.estimated_minutes || 0),
+        0,
+      );
+      task.estimated_minutes = total > 0 ? total : null;
+    }
+    await this.taskRepository.save(task);
+
+    this.logger.log(`Broke task ${task.id} down into ${subtasks.length} steps`);
+
+    return { task, subtasks: [...done, ...subtasks] };
+  }
+
+  /**
+   * Break down the task extracted from a dump, creating it from the dump's
+   * summary when the dump produced no task
+   */
+  async breakDownDump(userId: string, dumpId: string): Promise<TaskBreakdown> {
+    const candidates = await this.taskRepository.find({
+      where: {
+        user_id: userId,
+        dump_id: dumpId,
+        parent_task_id: IsNull(),
+        status: In(OPEN_TASK_STATUSES),
+      },
+      order: { sort_order: 'ASC', created_at: 'ASC' },
+    });
+
+    let target =
+      candidates.find((task) => task.needs_breakdown) || candidates[0];
+
+    if (!target) {
+      const dump = await this.dumpRepository.findOne({
+        where: { id: dumpId, user_id: userId },
+      });
+      if (!dump) {
+        throw new NotFoundException(`Dump ${dumpId} not found`);
+      }
+
+      target = await this.taskService.createTask(userId, {
+        title: dump.ai_summary || dump.raw_content,
+        dumpId: dump.id,
+      });
+    }
+
+    return this.breakDownTask(userId, target.id);
+  }
+
+  /**
+   * Most recent open task flagged as needing a breakdown, if any
+   */
+  async findLatestFlaggedTask(userId: string): Promise<Task | null> {
+    return this.taskRepository.findOne({
+      where: {
+        user_id: userId,
+        parent_task_id: IsNull(),
+        needs_breakdown: true,
+        status: In(OPEN_TASK_STATUSES),
+      },
+      order: { created_at: 'DESC' },
+    });
+  }
+
+  private async generateSteps(
+    task: Task,
+    dump: Dump | null,
+    done: Task[],
+  ): Promise<GeneratedStep[]> {
+    const generated = await runWithAiUsageScope(
+      { userId: task.user_id, dumpId: task.dump_id || undefined },
+      () =>
+        this.claudeService.queryStructured<GeneratedStep[]>(
+          this.buildPrompt(task, dump, done),
+          'task_breakdown',
+          TASK_STEPS_SCHEMA,
+        ),
+    );
+
+    const steps = generated
+      .filter((step) => step.title.trim().length > 0)
+      .slice(0, MAX_STEPS)
+      .map((step) => ({
+        title: step.title.trim().substring(0, 500),
+        estimatedMinutes: this.normalizeMinutes(step.estimatedMinutes),
+      }));
+
+    if (steps.length < MIN_STEPS) {
+      throw new Error('AI returned too few steps to break the task down');
+    }
+
+    return steps;
+  }
+
+  private buildPrompt(task: Task, dump: Dump | null, done: Task[]): string {
+    let prompt = `Break this task down into ${MIN_STEPS}-${MAX_STEPS} small, concrete steps for someone who struggles to get started.
+
+Task: ${task.title}`;
+
+    if (task.notes) {
+      prompt += `\nNotes: ${task.notes}`;
+    }
+    if (dump?.raw_content && dump.raw_content !== task.title) {
+      prompt += `\nOriginal note: ${dump.raw_content.substring(0, 1000)}`;
+    }
+    if (done.length > 0) {
+      prompt += `\nAlready done: ${done.map((step) => step.title).join('; ')}`;
+    }
+
+    prompt += `
+
+Rules:
+- Order the steps so each one can be started right after the previous one
+- The first step must be doable in under 15 minutes
+- Start each step with a verb and keep it under 80 characters
+- Estimate each step in minutes
+
+Respond with ONLY a JSON array, no other text:
+[{"title": "Find last year's tax return", "estimatedMinutes": 10}]`;
+
+    return prompt;
+  }
+
+  private normalizeMinutes(minutes?: number | null): number | null {
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes)) {
+      return null;
+    }
+    return minutes > 0 ? Math.min(Math.round(minutes), MAX_STEP_MINUTES) : null;
+  }
+
+  private trackBreakdown(
+    task: Task,
+    latencyMs: number,
+    subtaskCount: number,
+    error?: Error,
+  ): void {
+    this.metricsService.fireAndForget(() =>
+      this.metricsService.trackAI({
+        operationType: AIOperationType.TASK_BREAKDOWN,
+        latencyMs,
+        success: !error,
+        userId: task.user_id,
+        dumpId: task.dump_id || undefined,
+        metadata: error ? { error: error.message } : { subtaskCount },
+      }),
+    );
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User } from '../../entities/user.entity';
+import { Task, TaskPriority, TaskStatus } from '../../entities/task.entity';
+import { TaskService, TaskFilters } from './task.service';
+import {
+  TaskDecomposerService,
+  TaskBreakdown,
+} from './task-decomposer.service';
+import type { ApiResponse } from '../../common/interfaces/api-response.interface';
+
+export class CreateTaskDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @IsOptional()
+  @IsUUID()
+  dumpId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  dueDate?: Date;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  estimatedMinutes?: number;
+
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+}
+
+export class UpdateTaskDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string | null;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  dueDate?: Date | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  estimatedMinutes?: number | null;
+
+  @IsOptional()
+  @IsEnum(TaskPriority)
+  priority?: TaskPriority;
+
+  @IsOptional()
+  @IsEnum(TaskStatus)
+  status?: TaskStatus;
+}
+
+export class ReorderTasksDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  taskIds: string[]; // New order, first task on top
+}
+
+@Controller('api/tasks')
+@UseGuards(JwtAuthGuard)
+export class TaskController {
+  constructor(
+    private readonly taskService: TaskService,
+    private readonly taskDecomposerService: TaskDecomposerService,
+  ) {}
+
+  /**
+   * List tasks
+   * GET /api/tasks?status=pending,in_progress&dumpId=&dueBefore=&dueAfter=
+   */
+  @Get()
+  async listTasks(
+    @GetUser() user: User,
+    @Query('status') status?: string,
+    @Query('dumpId') dumpId?: string,
+    @Query('dueBefore') dueBefore?: string,
+    @Query('dueAfter') dueAfter?: string,
+  ): Promise<ApiResponse<Task[]>> {
+    const filters: TaskFilters = {
+      status: this.parseStatuses(status),
+      dumpId,
+      dueBefore: this.parseDate(dueBefore, 'dueBefore'),
+      dueAfter: this.parseDate(dueAfter, 'dueAfter'),
+      parentTaskId: null, // Steps are listed under GET /api/tasks/:id/subtasks
+    };
+
+    const tasks = await this.taskService.getUserTasks(user.id, filters);
+
+    return {
+      success: true,
+      data: tasks,
+      message: `Found ${tasks.length} tasks`,
+    };
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createTask(
+    @GetUser() user: User,
+    @Body(ValidationPipe) createTaskDto: CreateTaskDto,
+  ): Promise<ApiResponse<Task>> {
+    const task = await this.taskService.createTask(user.id, createTaskDto);
+
+    return {
+      success: true,
+      data: task,
+      message: 'Task created successfully',
+    };
+  }
+
+  /**
+   * Reorder tasks
+   * PUT /api/tasks/order
+   */
+  @Put('order')
+  async reorderTasks(
+    @GetUser() user: User,
+    @Body(ValidationPipe) reorderTasksDto: ReorderTasksDto,
+  ): Promise<ApiResponse<Task[]>> {
+    const tasks = await this.taskService.reorderTasks(
+      user.id,
+      reorderTasksDto.taskIds,
+    );
+
+    return {
+      success: true,
+      data: tasks,
+      message: 'Tasks reordered successfully',
+    };
+  }
+
+  @Get(':id')
+  async getTask(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+  ): Promise<ApiResponse<Task>> {
+    const task = await this.taskService.getTaskById(user.id, taskId);
+
+    return {
+      success: true,
+      data: task,
+    };
+  }
+
+  @Put(':id')
+  async updateTask(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+    @Body(ValidationPipe) updateTaskDto: UpdateTaskDto,
+  ): Promise<ApiResponse<Task>> {
+    const task = await this.taskService.updateTask(
+      user.id,
+      taskId,
+      updateTaskDto,
+    );
+
+    return {
+      success: true,
+      data: task,
+      message: 'Task updated successfully',
+    };
+  }
+
+  /**
+   * List the steps of a broken-down task
+   * GET /api/tasks/:id/subtasks
+   */
+  @Get(':id/subtasks')
+  async getSubtasks(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+  ): Promise<ApiResponse<Task[]>> {
+    const subtasks = await this.taskService.getSubtasks(user.id, taskId);
+
+    return {
+      success: true,
+      data: subtasks,
+      message: `Found ${subtasks.length} steps`,
+    };
+  }
+
+  /**
+   * Break a task down into ordered steps
+   * POST /api/tasks/:id/breakdown
+   */
+  @Post(':id/breakdown')
+  async breakDownTask(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+  ): Promise<ApiResponse<TaskBreakdown>> {
+    const breakdown = await this.taskDecomposerService.breakDownTask(
+      user.id,
+      taskId,
+    );
+
+    return {
+      success: true,
+      data: breakdown,
+      message: `Task broken down into ${breakdown.subtasks.length} steps`,
+    };
+  }
+
+  /**
+   * Mark a task as done
+   * POST /api/tasks/:id/complete
+   */
+  @Post(':id/complete')
+  async completeTask(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+  ): Promise<ApiResponse<Task>> {
+    const task = await this.taskService.completeTask(user.id, taskId);
+
+    return {
+      success: true,
+      data: task,
+      message: 'Task completed',
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteTask(
+    @GetUser() user: User,
+    @Param('id') taskId: string,
+  ): Promise<void> {
+    await this.taskService.deleteTask(user.id, taskId);
+  }
+
+  private parseStatuses(status?: string): TaskStatus[] | undefined {
+    if (!status) {
+      return undefined;
+    }
+
+    const statuses = status.split(',').map((value) => value.trim());
+    const valid = Object.values(TaskStatus) as string[];
+    const invalid = statuses.find((value) => !valid.includes(value));
+    if (invalid) {
+      throw new BadRequestException(`Invalid task status: ${invalid}`);
+    }
+
+    return statuses as TaskStatus[];
+  }
+
+  private parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${name} date`);
+    }
+
+    return date;
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Task } from '../../entities/task.entity';
+import { Dump } from '../../entities/dump.entity';
+import { TaskService } from './task.service';
+import { TaskDecomposerService } from './task-decomposer.service';
+import { TaskController } from './task.controller';
+import { MetricsModule } from '../metrics/metrics.module';
+import { ClaudeService } from '../ai/claude.service';
+
+/**
+ * Module for user tasks
+ *
+ * Provides:
+ * - TaskService: Task management and extraction from dump action items
+ * - TaskDecomposerService: AI breakdown of large tasks into ordered steps
+ * - TaskController: REST API endpoints
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([Task, Dump]), MetricsModule],
+  providers: [TaskService, TaskDecomposerService, ClaudeService],
+  controllers: [TaskController],
+  exports: [TaskService, TaskDecomposerService], // Used by the dump pipeline, bots and digests
+})
+export class TaskModule {}
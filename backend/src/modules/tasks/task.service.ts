@@ -0,0 +1,465 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import * as chrono from 'chrono-node';
+import {
+  Task,
+  TaskPriority,
+  TaskSource,
+  TaskStatus,
+} from '../../entities/task.entity';
+import { Dump } from '../../entities/dump.entity';
+import type {
+  ContentAnalysisResponse,
+  ExtractedTask,
+} from '../ai/claude.service';
+
+export interface CreateTaskRequest {
+  title: string;
+  notes?: string;
+  dumpId?: string;
+  dueDate?: Date | null;
+  estimatedMinutes?: number | null;
+  priority?: TaskPriority;
+}
+
+export interface UpdateTaskRequest {
+  title?: string;
+  notes?: string | null;
+  dueDate?: Date | null;
+  estimatedMinutes?: number | null;
+  priority?: TaskPriority;
+  status?: TaskStatus;
+}
+
+export interface TaskFilters {
+  status?: TaskStatus[];
+  dumpId?: string;
+  // Steps of this task; null for top-level tasks only
+  parentTaskId?: string | null;
+  dueBefore?: Date;
+  dueAfter?: Date;
+}
+
+export interface TaskProgress {
+  // First open step in order, null once all steps are done
+  nextStep: Task | null;
+  completed: number;
+  total: number;
+}
+
+export const OPEN_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+const MAX_TITLE_LENGTH = 500;
+
+/**
+ * TaskService
+ * User to-do items and their extraction from the action items of analyzed dumps
+ */
+@Injectable()
+export class TaskService {
+  private readonly logger = new Logger(TaskService.name);
+
+  constructor(
+    @InjectRepository(Task)
+    private readonly taskRepository: Repository<Task>,
+  ) {}
+
+  /**
+   * Create tasks for the action items Claude found in a dump.
+   * Safe to re-run: open tasks from an earlier run are replaced, while tasks the
+   * user already started or finished are kept and not created again.
+   * Dumps flagged as needing a breakdown get their tasks marked for the decomposer.
+   */
+  async createTasksFromAnalysis(
+    dump: Dump,
+    analysis: ContentAnalysisResponse,
+  ): Promise<Task[]> {
+    const extracted = this.getExtractedTasks(analysis);
+    if (extracted.length === 0 && analysis.needsBreakdown && analysis.summary) {
+      // A vague goal without concrete action items is itself the task
+      extracted.push({
+        title: analysis.summary.trim().substring(0, MAX_TITLE_LENGTH),
+      });
+    }
+
+    const existing = await this.taskRepository.find({
+      where: {
+        dump_id: dump.id,
+        source: TaskSource.ACTION_ITEM,
+        parent_task_id: IsNull(),
+      },
+    });
+    const stale = existing.filter((task) => task.status === TaskStatus.PENDING);
+    if (stale.length > 0) {
+      await this.taskRepository.delete({ id: In(stale.map((t) => t.id)) });
+    }
+
+    const kept = new Set(
+      existing
+        .filter((task) => task.status !== TaskStatus.PENDING)
+        .map((task) => task.title.toLowerCase()),
+    );
+    const toCreate = extracted.filter(
+      (item) => !kept.has(item.title.toLowerCase()),
+    );
+    if (toCreate.length === 0) {
+      return [];
+    }
+
+    const referenceDate = dump.created_at || new Date();
+    const defaultPriority = this.mapUrgencyToPriority(analysis.urgency);
+    let sortOrder = await this.getNextSortOrder(dump.user_id);
+
+    const tasks = toCreate.map((item) =>
+      this.taskRepository.create({
+        user_id: dump.user_id,
+        dump_id: dump.id,
+        title: item.title,
+        due_date: this.resolveDueDate(item, referenceDate),
+        estimated_minutes: this.normalizeMinutes(item.estimatedMinutes),
+        priority: this.normalizePriority(item.priority) || defaultPriority,
+        sort_order: sortOrder++,
+        source: TaskSource.ACTION_ITEM,
+        needs_breakdown: analysis.needsBreakdown === true,
+      }),
+    );
+
+    const saved = await this.taskRepository.save(tasks);
+    this.logger.log(`Created ${saved.length} tasks from dump ${dump.id}`);
+
+    return saved;
+  }
+
+  async createTask(userId: string, request: CreateTaskRequest): Promise<Task> {
+    const task = this.taskRepository.create({
+      user_id: userId,
+      dump_id: request.dumpId || null,
+      title: request.title.trim().substring(0, MAX_TITLE_LENGTH),
+      notes: request.notes || null,
+      due_date: request.dueDate || null,
+      estimated_minutes: this.normalizeMinutes(request.estimatedMinutes),
+      priority: request.priority || TaskPriority.MEDIUM,
+      sort_order: await this.getNextSortOrder(userId),
+      source: TaskSource.MANUAL,
+    });
+
+    const saved = await this.taskRepository.save(task);
+    this.logger.log(`Created task ${saved.id} for user ${userId}`);
+
+    return saved;
+  }
+
+  /**
+   * List a user's tasks in list order (sort_order, then creation time)
+   */
+  async getUserTasks(
+    userId: string,
+    filters: TaskFilters = {},
+  ): Promise<Task[]> {
+    const query = this.taskRepository
+      .createQueryBuilder('task')
+      .where('task.user_id = :userId', { userId })
+      // Tasks of a trashed dump come back with it if it is restored
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM dumps dump WHERE dump.id = task.dump_id AND dump.deleted_at IS NOT NULL)',
+      )
+      .orderBy('task.sort_order', 'ASC')
+      .addOrderBy('task.created_at', 'ASC');
+
+    if (filters.status?.length) {
+      query.andWhere('task.status IN (:...statuses)', {
+        statuses: filters.status,
+      });
+    }
+
+    if (filters.dumpId) {
+      query.andWhere('task.dump_id = :dumpId', { dumpId: filters.dumpId });
+    }
+
+    if (filters.parentTaskId === null) {
+      query.andWhere('task.parent_task_id IS NULL');
+    } else if (filters.parentTaskId) {
+      query.andWhere('task.parent_task_id = :parentTaskId', {
+        parentTaskId: filters.parentTaskId,
+      });
+    }
+
+    if (filters.dueBefore) {
+      query.andWhere('task.due_date <= :dueBefore', {
+        dueBefore: filters.dueBefore,
+      });
+    }
+
+    if (filters.dueAfter) {
+      query.andWhere('task.due_date >= :dueAfter', {
+        dueAfter: filters.dueAfter,
+      });
+    }
+
+    return query.getMany();
+  }
+
+  /**
+   * Top-level tasks still to do, numbered by the bots in this order
+   */
+  async getOpenTasks(userId: string): Promise<Task[]> {
+    return this.getUserTasks(userId, {
+      status: OPEN_TASK_STATUSES,
+      parentTaskId: null,
+    });
+  }
+
+  /**
+   * Top-level open tasks due by the given time, overdue ones included
+   */
+  async getTasksDueBy(userId: string, dueBy: Date): Promise<Task[]> {
+    const tasks = await this.getUserTasks(userId, {
+      status: OPEN_TASK_STATUSES,
+      parentTaskId: null,
+      dueBefore: dueBy,
+    });
+
+    return tasks.sort(
+      (a, b) =>
+        new Date(a.due_date as Date).getTime() -
+        new Date(b.due_date as Date).getTime(),
+    );
+  }
+
+  /**
+   * Steps of a broken-down task, in order
+   */
+  async getSubtasks(userId: string, taskId: string): Promise<Task[]> {
+    await this.getTaskById(userId, taskId);
+    return this.getUserTasks(userId, { parentTaskId: taskId });
+  }
+
+  /**
+   * Progress of the given broken-down tasks, keyed by task id.
+   * Tasks without steps are left out.
+   */
+  async getProgress(
+    userId: string,
+    taskIds: string[],
+  ): Promise<Map<string, TaskProgress>> {
+    const progress = new Map<string, TaskProgress>();
+    if (taskIds.length === 0) {
+      return progress;
+    }
+
+    const steps = await this.taskRepository.find({
+      where: { user_id: userId, parent_task_id: In(taskIds) },
+      order: { sort_order: 'ASC', created_at: 'ASC' },
+    });
+
+    for (const step of steps) {
+      const parentId = step.parent_task_id as string;
+      const entry = progress.get(parentId) || {
+        nextStep: null,
+        completed: 0,
+        total: 0,
+      };
+      entry.total++;
+      if (step.status === TaskStatus.COMPLETED) {
+        entry.completed++;
+      } else if (!entry.nextStep && OPEN_TASK_STATUSES.includes(step.status)) {
+        entry.nextStep = step;
+      }
+      progress.set(parentId, entry);
+    }
+
+    return progress;
+  }
+
+  async getTaskById(userId: string, taskId: string): Promise<Task> {
+    const task = await this.taskRepository.findOne({
+      where: { id: taskId, user_id: userId },
+    });
+
+    if (!task) {
+      throw new NotFoundException(`Task ${taskId} not found`);
+    }
+
+    return task;
+  }
+
+  async updateTask(
+    userId: string,
+    taskId: string,
+    updates: UpdateTaskRequest,
+  ): Promise<Task> {
+    const task = await this.getTaskById(userId, taskId);
+
+    if (updates.title !== undefined) {
+      task.title = updates.title.trim().substring(0, MAX_TITLE_LENGTH);
+    }
+    if (updates.notes !== undefined) {
+      task.notes = updates.notes;
+    }
+    if (updates.dueDate !== undefined) {
+      task.due_date = updates.dueDate;
+    }
+    if (updates.estimatedMinutes !== undefined) {
+      task.estimated_minutes = this.normalizeMinutes(updates.estimatedMinutes);
+    }
+    if (updates.priority !== undefined) {
+      task.priority = updates.priority;
+    }
+    const statusChanged =
+      updates.status !== undefined && updates.status !== task.status;
+    if (statusChanged) {
+      task.status = updates.status as TaskStatus;
+      task.completed_at =
+        updates.status === TaskStatus.COMPLETED ? new Date() : null;
+    }
+
+    const saved = await this.taskRepository.save(task);
+
+    if (statusChanged && saved.parent_task_id) {
+      await this.completeParentIfDone(userId, saved.parent_task_id);
+    }
+
+    return saved;
+  }
+
+  async completeTask(userId: string, taskId: string): Promise<Task> {
+    return this.updateTask(userId, taskId, { status: TaskStatus.COMPLETED });
+  }
+
+  async deleteTask(userId: string, taskId: string): Promise<void> {
+    const task = await this.getTaskById(userId, taskId);
+    await this.taskRepository.remove(task);
+    this.logger.log(`Deleted task ${taskId}`);
+  }
+
+  /**
+   * Move the given top-level tasks to the top of the list, in the given order.
+   * Tasks that are not listed keep their relative order after them.
+   */
+  async reorderTasks(userId: string, taskIds: string[]): Promise<Task[]> {
+    const tasks = await this.getUserTasks(userId, { parentTaskId: null });
+    const byId = new Map(tasks.map((task) => [task.id, task]));
+
+    const missing = taskIds.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Task ${missing[0]} not found`);
+    }
+
+    const listed = new Set(taskIds);
+    const ordered = [
+      ...taskIds.map((id) => byId.get(id) as Task),
+      ...tasks.filter((task) => !listed.has(task.id)),
+    ];
+    ordered.forEach((task, index) => {
+      task.sort_order = index;
+    });
+
+    await this.taskRepository.save(ordered);
+    return ordered;
+  }
+
+  /**
+   * Finishing the last open step of a broken-down task finishes the task
+   */
+  private async completeParentIfDone(
+    userId: string,
+    parentId: string,
+  ): Promise<void> {
+    const openSteps = await this.taskRepository.count({
+      where: { parent_task_id: parentId, status: In(OPEN_TASK_STATUSES) },
+    });
+    if (openSteps > 0) {
+      return;
+    }
+
+    const parent = await this.taskRepository.findOne({
+      where: { id: parentId, user_id: userId },
+    });
+    if (parent && OPEN_TASK_STATUSES.includes(parent.status)) {
+      parent.status = TaskStatus.COMPLETED;
+      parent.completed_at = new Date();
+      await this.taskRepository.save(parent);
+      this.logger.log(`Completed task ${parentId}: all steps done`);
+    }
+  }
+
+  /**
+   * Claude's detailed tasks, or the plain action items when it gave none
+   */
+  private getExtractedTasks(
+    analysis: ContentAnalysisResponse,
+  ): ExtractedTask[] {
+    const detailed = (analysis.tasks || []).filter(
+      (item) => typeof item?.title === 'string',
+    );
+    const items: ExtractedTask[] =
+      detailed.length > 0
+        ? detailed
+        : (analysis.actionItems || []).map((title) => ({ title }));
+
+    const seen = new Set<string>();
+    const result: ExtractedTask[] = [];
+    for (const item of items) {
+      const title = item.title.trim().substring(0, MAX_TITLE_LENGTH);
+      if (!title || seen.has(title.toLowerCase())) {
+        continue;
+      }
+      seen.add(title.toLowerCase());
+      result.push({ ...item, title });
+    }
+
+    return result;
+  }
+
+  /**
+   * Use the stated deadline, or a date mentioned in the title ("call mom tomorrow")
+   */
+  private resolveDueDate(
+    item: ExtractedTask,
+    referenceDate: Date,
+  ): Date | null {
+    if (item.dueDate) {
+      const parsed = new Date(item.dueDate);
+      if (!Number.isNaN(parsed.getTime())) {
+        return parsed;
+      }
+
+      const natural = chrono.parseDate(item.dueDate, referenceDate);
+      if (natural) {
+        return natural;
+      }
+    }
+
+    return chrono.parseDate(item.title, referenceDate) || null;
+  }
+
+  private normalizeMinutes(minutes?: number | null): number | null {
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes)) {
+      return null;
+    }
+    return minutes > 0 ? Math.round(minutes) : null;
+  }
+
+  private normalizePriority(priority?: string): TaskPriority | undefined {
+    return Object.values(TaskPriority).find((value) => value === priority);
+  }
+
+  private mapUrgencyToPriority(
+    urgency?: ContentAnalysisResponse['urgency'],
+  ): TaskPriority {
+    return urgency === 'high' ? TaskPriority.HIGH : TaskPriority.MEDIUM;
+  }
+
+  private async getNextSortOrder(userId: string): Promise<number> {
+    const result = await this.taskRepository
+      .createQueryBuilder('task')
+      .select('MAX(task.sort_order)', 'max')
+      .where('task.user_id = :userId', { userId })
+      .getRawOne<{ max: number | null }>();
+
+    return result?.max === null || result?.max === undefined
+      ? 0
+      : Number(result.max) + 1;
+  }
+}
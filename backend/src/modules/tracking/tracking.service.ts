@@ -414,11 +414,14 @@ export class TrackingService {
     let overdueCount = 0;
     let alertsCreated = 0;
 
-    const items = await this.trackableItemRepository.find({
-      where: {
-        status: TrackingStatus.PENDING as any,
-      },
-    });
+    const items = await this.trackableItemRepository
+      .createQueryBuilder('item')
+      .where('item.status = :status', { status: TrackingStatus.PENDING })
+      // Items of a trashed dump are not chased until it is restored
+      .andWhere(
+        'NOT EXISTS (SELECT 1 FROM dumps dump WHERE dump.id = item.dump_id AND dump.deleted_at IS NOT NULL)',
+      )
+      .getMany();
 
     for (const item of items) {
       if (
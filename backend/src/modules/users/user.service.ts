@@ -20,6 +20,7 @@ export interface UpdateUserDto {
   language?: string;
   digest_time?: string;
   notification_preferences?: Record<string, any>;
+  trash_retention_days?: number;
   chat_id_telegram?: string;
   chat_id_whatsapp?: string;
 }
@@ -156,6 +157,18 @@ export class UserService {
   }
 
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
+    const retentionDays = updateUserDto.trash_retention_days;
+    if (
+      retentionDays !== undefined &&
+      (!Number.isInteger(retentionDays) ||
+        retentionDays < 1 ||
+        retentionDays > 365)
+    ) {
+      throw new BadRequestException(
+        'trash_retention_days must be a whole number from 1 to 365',
+      );
+    }
+
     const user = await this.findOne(id);
 
     Object.assign(user, updateUserDto);
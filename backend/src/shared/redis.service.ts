@@ -251,13 +251,79 @@ export class RedisService implements OnModuleDestroy {
     }
   }
 
+  async lPush(key: string, value: string): Promise<number | null> {
+    if (!this.client) return null;
+    try {
+      return await this.client.lPush(key, value);
+    } catch (err) {
+      this.logger.error('Redis lPush error', err);
+      return null;
+    }
+  }
+
+  /**
+   * Move the oldest entry of a list (pushed with lPush) to the head of another
+   */
+  async lMove(source: string, destination: string): Promise<string | null> {
+    if (!this.client) return null;
+    try {
+      return await this.client.lMove(source, destination, 'RIGHT', 'LEFT');
+    } catch (err) {
+      this.logger.error('Redis lMove error', err);
+      return null;
+    }
+  }
+
+  async lRem(key: string, count: number, value: string): Promise<number> {
+    if (!this.client) return 0;
+    try {
+      return await this.client.lRem(key, count, value);
+    } catch (err) {
+      this.logger.error('Redis lRem error', err);
+      return 0;
+    }
+  }
+
+  async zAdd(key: string, score: number, value: string): Promise<void> {
+    if (!this.client) return;
+    try {
+      await this.client.zAdd(key, { score, value });
+    } catch (err) {
+      this.logger.error('Redis zAdd error', err);
+    }
+  }
+
+  async zRangeByScore(
+    key: string,
+    min: number,
+    max: number,
+  ): Promise<string[]> {
+    if (!this.client) return [];
+    try {
+      return await this.client.zRangeByScore(key, min, max);
+    } catch (err) {
+      this.logger.error('Redis zRangeByScore error', err);
+      return [];
+    }
+  }
+
+  async zRem(key: string, value: string): Promise<number> {
+    if (!this.client) return 0;
+    try {
+      return await this.client.zRem(key, value);
+    } catch (err) {
+      this.logger.error('Redis zRem error', err);
+      return 0;
+    }
+  }
+
   async onModuleDestroy() {
     if (this.client) {
       try {
         await this.client.quit();
         this.logger.log('Redis client disconnected');
       } catch (err) {
-        this.logger.error('Error during Redis quit', err as any);
+        this.logger.error('Error during Redis quit', err);
       }
     }
   }
@@ -0,0 +1,103 @@
+// Mock @xenova/transformers before any imports
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {},
+}));
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { AdminService } from '../../../src/modules/admin/admin.service';
+import { DumpRevisionService } from '../../../src/modules/dumps/services/dump-revision.service';
+import { CategoryCorrectionService } from '../../../src/modules/categories/category-correction.service';
+import { ReviewService } from '../../../src/modules/dumps/services/review.service';
+import { FallbackHandlerService } from '../../../src/modules/ai/fallback-handler.service';
+import { AiBudgetService } from '../../../src/modules/ai/ai-budget.service';
+import { Dump } from '../../../src/entities/dump.entity';
+import { User } from '../../../src/entities/user.entity';
+import { Reminder } from '../../../src/entities/reminder.entity';
+import { Category } from '../../../src/entities/category.entity';
+import { SearchMetric } from '../../../src/entities/search-metric.entity';
+import { AIMetric } from '../../../src/entities/ai-metric.entity';
+import { FeatureUsage } from '../../../src/entities/feature-usage.entity';
+import { TrackableItem } from '../../../src/entities/trackable-item.entity';
+
+describe('AdminService', () => {
+  let service: AdminService;
+  let aiMetricQuery: any;
+  let aiMetricRepo: any;
+
+  const queryBuilder = () => {
+    const query: any = {};
+    for (const method of [
+      'select',
+      'addSelect',
+      'where',
+      'andWhere',
+      'leftJoin',
+      'groupBy',
+      'orderBy',
+    ]) {
+      query[method] = jest.fn().mockReturnValue(query);
+    }
+    query.getCount = jest.fn().mockResolvedValue(0);
+    query.getRawOne = jest.fn().mockResolvedValue({ avg: '2500' });
+    query.getRawMany = jest.fn().mockResolvedValue([]);
+    return query;
+  };
+
+  const repository = (query = queryBuilder()) => ({
+    count: jest.fn().mockResolvedValue(0),
+    createQueryBuilder: jest.fn(() => query),
+  });
+
+  beforeEach(async () => {
+    aiMetricQuery = queryBuilder();
+    aiMetricRepo = repository(aiMetricQuery);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminService,
+        { provide: getRepositoryToken(Dump), useValue: repository() },
+        { provide: getRepositoryToken(User), useValue: repository() },
+        { provide: getRepositoryToken(Reminder), useValue: repository() },
+        { provide: getRepositoryToken(Category), useValue: repository() },
+        { provide: getRepositoryToken(SearchMetric), useValue: repository() },
+        { provide: getRepositoryToken(AIMetric), useValue: aiMetricRepo },
+        { provide: getRepositoryToken(FeatureUsage), useValue: repository() },
+        { provide: getRepositoryToken(TrackableItem), useValue: repository() },
+        { provide: DumpRevisionService, useValue: {} },
+        { provide: CategoryCorrectionService, useValue: {} },
+        { provide: ReviewService, useValue: {} },
+        { provide: FallbackHandlerService, useValue: { getStats: jest.fn() } },
+        { provide: AiBudgetService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AdminService>(AdminService);
+  });
+
+  // Single LLM calls share the operation type of the pipeline step that
+  // made them
+  it('should average the processing time over pipeline steps only', async () => {
+    const metrics = await service.getSystemMetrics();
+
+    expect(aiMetricQuery.andWhere).toHaveBeenCalledWith('metric.model IS NULL');
+    expect(metrics.averageProcessingTime).toBe(2.5);
+  });
+
+  it('should count AI operations without the single model calls', async () => {
+    await service.getAIMetrics();
+
+    expect(aiMetricRepo.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ model: IsNull() }),
+    });
+    expect(aiMetricQuery.andWhere).toHaveBeenCalledWith('metric.model IS NULL');
+  });
+
+  it('should measure categorization accuracy over categorized dumps only', async () => {
+    await service.getCategorizationAccuracy();
+
+    expect(aiMetricQuery.andWhere).toHaveBeenCalledWith('metric.model IS NULL');
+  });
+});
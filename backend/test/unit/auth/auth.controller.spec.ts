@@ -0,0 +1,29 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { UpdateProfileDto } from '../../../src/modules/auth/auth.controller';
+
+describe('UpdateProfileDto', () => {
+  const errorsFor = async (body: Record<string, unknown>) =>
+    (await validate(plainToInstance(UpdateProfileDto, body))).map(
+      (error) => error.property,
+    );
+
+  it('should accept a profile update with a retention in range', async () => {
+    await expect(
+      errorsFor({
+        timezone: 'Europe/Lisbon',
+        notification_preferences: { telegram: true },
+        trash_retention_days: 30,
+      }),
+    ).resolves.toEqual([]);
+  });
+
+  it.each([0, -1, 366, 1.5])(
+    'should reject a trash retention of %p days',
+    async (days) => {
+      await expect(errorsFor({ trash_retention_days: days })).resolves.toEqual([
+        'trash_retention_days',
+      ]);
+    },
+  );
+});
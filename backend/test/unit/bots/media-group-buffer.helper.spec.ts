@@ -0,0 +1,55 @@
+import { MediaGroupBuffer } from '../../../src/modules/bots/helpers/media-group-buffer.helper';
+
+describe('MediaGroupBuffer', () => {
+  let onFlush: jest.Mock;
+  let buffer: MediaGroupBuffer<number>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    onFlush = jest.fn().mockResolvedValue(undefined);
+    buffer = new MediaGroupBuffer<number>(1000, onFlush);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hand over an album once no more photos arrive', () => {
+    buffer.add('42:album-1', 1);
+    jest.advanceTimersByTime(800);
+    buffer.add('42:album-1', 2);
+    jest.advanceTimersByTime(800);
+    buffer.add('42:album-1', 3);
+
+    expect(onFlush).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith([1, 2, 3]);
+    expect(buffer.pendingGroups).toBe(0);
+  });
+
+  it('should keep albums from different chats apart', () => {
+    buffer.add('42:album-1', 1);
+    buffer.add('43:album-1', 2);
+    buffer.add('42:album-1', 3);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(onFlush).toHaveBeenCalledWith([1, 3]);
+    expect(onFlush).toHaveBeenCalledWith([2]);
+  });
+
+  it('should flush a full album right away', () => {
+    for (let item = 1; item <= 10; item++) {
+      buffer.add('42:album-1', item);
+    }
+
+    expect(onFlush).toHaveBeenCalledWith([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(buffer.pendingGroups).toBe(0);
+
+    jest.advanceTimersByTime(1000);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CategoryCorrectionService } from '../../../src/modules/categories/category-correction.service';
+import {
+  CategoryCorrection,
+  CorrectionSource,
+} from '../../../src/entities/category-correction.entity';
+import { AIOperationType } from '../../../src/entities/ai-metric.entity';
+import { Category } from '../../../src/entities/category.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+import { MetricsService } from '../../../src/modules/metrics/metrics.service';
+
+describe('CategoryCorrectionService', () => {
+  let service: CategoryCorrectionService;
+  let correctionRepository: any;
+  let metricsService: any;
+
+  const bills = { id: 'cat-bills', name: 'Bills' } as Category;
+  const dump = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    raw_content: 'Fatura EDP março',
+    ai_summary: 'Electricity invoice for March',
+    category_id: 'cat-finance',
+    category: { id: 'cat-finance', name: 'finance' },
+  } as Dump;
+
+  beforeEach(async () => {
+    correctionRepository = {
+      delete: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue([]),
+    };
+    metricsService = {
+      trackAI: jest.fn().mockResolvedValue(undefined),
+      fireAndForget: jest.fn((track) => track()),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoryCorrectionService,
+        {
+          provide: getRepositoryToken(CategoryCorrection),
+          useValue: correctionRepository,
+        },
+        { provide: MetricsService, useValue: metricsService },
+      ],
+    }).compile();
+
+    service = module.get<CategoryCorrectionService>(CategoryCorrectionService);
+  });
+
+  it('should replace earlier corrections of the dump and track the correction', async () => {
+    await service.recordCorrection(dump, bills, CorrectionSource.USER);
+
+    expect(correctionRepository.delete).toHaveBeenCalledWith({
+      dump_id: 'dump-1',
+    });
+    expect(correctionRepository.query).toHaveBeenCalledWith(
+      expect.stringContaining('INSERT INTO category_corrections'),
+      [
+        'dump-1',
+        'Electricity invoice for March',
+        'finance',
+        'cat-bills',
+        CorrectionSource.USER,
+      ],
+    );
+    expect(metricsService.trackAI).toHaveBeenCalledWith(
+      expect.objectContaining({
+        operationType: AIOperationType.CATEGORIZATION_CORRECTION,
+        userId: 'user-1',
+        dumpId: 'dump-1',
+        metadata: {
+          previousCategory: 'finance',
+          correctedCategory: 'Bills',
+          correctionSource: CorrectionSource.USER,
+        },
+      }),
+    );
+  });
+
+  it('should ignore a change to the category the dump already has', async () => {
+    await service.recordCorrection(
+      dump,
+      { id: 'cat-finance', name: 'finance' } as Category,
+      CorrectionSource.REVIEW,
+    );
+
+    expect(correctionRepository.query).not.toHaveBeenCalled();
+    expect(metricsService.trackAI).not.toHaveBeenCalled();
+  });
+
+  it('should only return examples similar enough to the content', async () => {
+    correctionRepository.query.mockResolvedValue([
+      {
+        content: 'Water bill for February',
+        category: 'Bills',
+        previous_category: 'finance',
+        similarity: '0.82',
+      },
+      {
+        content: 'Dinner with friends',
+        category: 'personal',
+        previous_category: null,
+        similarity: '0.31',
+      },
+    ]);
+
+    const examples = await service.findSimilarCorrections('user-1', [0.1, 0.2]);
+
+    expect(correctionRepository.query).toHaveBeenCalledWith(
+      expect.any(String),
+      ['user-1', '[0.1,0.2]', 3],
+    );
+    expect(examples).toEqual([
+      {
+        content: 'Water bill for February',
+        category: 'Bills',
+        previousCategory: 'finance',
+        similarity: 0.82,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { CategoryRuleService } from '../../../src/modules/categories/category-rule.service';
+import { CategoryService } from '../../../src/modules/categories/category.service';
+import {
+  CategoryRule,
+  CategoryRuleStage,
+} from '../../../src/entities/category-rule.entity';
+
+describe('CategoryRuleService', () => {
+  let service: CategoryRuleService;
+  let ruleRepository: any;
+
+  const bills = { id: 'cat-bills', name: 'Bills' };
+  const kids = { id: 'cat-kids', name: 'Kids' };
+
+  const edpRule = {
+    id: 'rule-1',
+    name: 'EDP invoices',
+    category: bills,
+    stage: CategoryRuleStage.BEFORE_AI,
+    conditions: { senderEmail: 'edp.pt' },
+  } as CategoryRule;
+  const schoolRule = {
+    id: 'rule-2',
+    name: 'School',
+    category: kids,
+    stage: CategoryRuleStage.AFTER_AI,
+    conditions: { contentPattern: '\\bschool\\b', sources: ['email'] },
+  } as CategoryRule;
+
+  beforeEach(async () => {
+    ruleRepository = {
+      find: jest.fn(({ where }) =>
+        Promise.resolve(
+          [edpRule, schoolRule].filter((rule) => rule.stage === where.stage),
+        ),
+      ),
+      findOne: jest.fn(),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 'rule-new', ...data })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoryRuleService,
+        { provide: getRepositoryToken(CategoryRule), useValue: ruleRepository },
+        {
+          provide: CategoryService,
+          useValue: { findVisibleCategory: jest.fn().mockResolvedValue(bills) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoryRuleService>(CategoryRuleService);
+  });
+
+  it('should match a sender domain including its subdomains', async () => {
+    const matches = await service.matchRules(
+      'user-1',
+      CategoryRuleStage.BEFORE_AI,
+      { content: 'Your invoice', senderEmail: 'Faturas@Mail.EDP.pt' },
+    );
+    expect(matches).toEqual([
+      { rule: edpRule, reasons: ['sender matches edp.pt'] },
+    ]);
+
+    await expect(
+      service.matchRules('user-1', CategoryRuleStage.BEFORE_AI, {
+        content: 'Your invoice',
+        senderEmail: 'billing@notedp.pt',
+      }),
+    ).resolves.toEqual([]);
+  });
+
+  it('should require every condition of a rule to match', async () => {
+    const input = { content: 'School trip on Friday', source: 'telegram' };
+
+    await expect(
+      service.matchRules('user-1', CategoryRuleStage.AFTER_AI, input),
+    ).resolves.toEqual([]);
+    await expect(
+      service.matchRules('user-1', CategoryRuleStage.AFTER_AI, {
+        ...input,
+        source: 'email',
+      }),
+    ).resolves.toHaveLength(1);
+  });
+
+  it('should report before_ai matches ahead of after_ai ones in a dry run', async () => {
+    const result = await service.testRules('user-1', {
+      content: 'Invoice for the school canteen',
+      source: 'email',
+      senderEmail: 'faturas@edp.pt',
+    });
+
+    expect(result.matches.map((match) => match.rule.id)).toEqual([
+      'rule-1',
+      'rule-2',
+    ]);
+    expect(result.appliedRule).toBe(edpRule);
+  });
+
+  it('should reject rules without conditions or with an invalid pattern', async () => {
+    await expect(
+      service.createRule('user-1', {
+        name: 'Empty',
+        categoryId: 'cat-bills',
+        conditions: {},
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.createRule('user-1', {
+        name: 'Broken',
+        categoryId: 'cat-bills',
+        conditions: { contentPattern: '(unclosed' },
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
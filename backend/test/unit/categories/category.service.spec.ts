@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { CategoryService } from '../../../src/modules/categories/category.service';
+import { Category } from '../../../src/entities/category.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+
+describe('CategoryService', () => {
+  let service: CategoryService;
+  let categoryRepository: any;
+  let manager: any;
+  let conflictLookup: jest.Mock;
+  let updateExecute: jest.Mock;
+
+  const system = { id: 'cat-system', user_id: null, name: 'finance' };
+  const renovation = { id: 'cat-1', user_id: 'user-1', name: 'Renovation' };
+  const house = { id: 'cat-2', user_id: 'user-1', name: 'House' };
+  const foreign = { id: 'cat-3', user_id: 'user-2', name: 'Work' };
+
+  beforeEach(async () => {
+    conflictLookup = jest.fn().mockResolvedValue(null);
+    updateExecute = jest.fn().mockResolvedValue({ affected: 3 });
+
+    const categories = [system, renovation, house, foreign];
+    categoryRepository = {
+      findOne: jest.fn(({ where }) =>
+        Promise.resolve(categories.find((c) => c.id === where.id) || null),
+      ),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 'cat-new', ...data })),
+      createQueryBuilder: jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        getOne: conflictLookup,
+        getRawOne: jest.fn().mockResolvedValue({ maxOrder: 4 }),
+      })),
+    };
+
+    manager = {
+      delete: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => ({
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        andWhere: jest.fn().mockReturnThis(),
+        execute: updateExecute,
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoryService,
+        { provide: getRepositoryToken(Category), useValue: categoryRepository },
+        {
+          provide: getRepositoryToken(Dump),
+          useValue: {
+            manager: { transaction: jest.fn((work) => work(manager)) },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoryService>(CategoryService);
+  });
+
+  it('should create a user-owned category after the existing ones', async () => {
+    const category = await service.createCategory('user-1', {
+      name: '  Garden ',
+    });
+
+    expect(category).toMatchObject({
+      user_id: 'user-1',
+      name: 'Garden',
+      sort_order: 5,
+    });
+  });
+
+  it('should reject a name already used by a system category', async () => {
+    conflictLookup.mockResolvedValue(system);
+
+    await expect(
+      service.createCategory('user-1', { name: 'Finance' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should not let users modify system or foreign categories', async () => {
+    await expect(
+      service.updateCategory('user-1', 'cat-system', { color: '#000' }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(service.setArchived('user-1', 'cat-3', true)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should reassign dumps to the target and delete the merged category', async () => {
+    const result = await service.mergeCategory('user-1', 'cat-1', 'cat-2');
+
+    expect(result).toEqual({ category: house, reassignedDumps: 3 });
+    expect(manager.delete).toHaveBeenCalledWith(Category, 'cat-1');
+  });
+});
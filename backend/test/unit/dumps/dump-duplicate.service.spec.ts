@@ -0,0 +1,191 @@
+// Mock @xenova/transformers before any imports
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {},
+}));
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { DumpDuplicateService } from '../../../src/modules/dumps/services/dump-duplicate.service';
+import { DumpRevisionService } from '../../../src/modules/dumps/services/dump-revision.service';
+import { SemanticSearchService } from '../../../src/modules/search/semantic-search.service';
+import { Dump } from '../../../src/entities/dump.entity';
+import { Reminder } from '../../../src/entities/reminder.entity';
+import { Task } from '../../../src/entities/task.entity';
+import { RevisionAuthorType } from '../../../src/entities/dump-revision.entity';
+
+describe('DumpDuplicateService', () => {
+  let service: DumpDuplicateService;
+  let dumpRepository: any;
+  let manager: any;
+  let semanticSearchService: any;
+  let dumpRevisionService: any;
+
+  const author = { type: RevisionAuthorType.USER, id: 'user-1' };
+
+  const original = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    ai_summary: 'Electricity bill of €45 due March 3',
+    extracted_entities: {
+      entities: {
+        dates: ['March 3'],
+        times: [],
+        locations: [],
+        people: [],
+        organizations: ['EDP'],
+        amounts: ['€45'],
+        contacts: { phones: [], emails: [], urls: [] },
+      },
+      actionItems: ['Pay electricity bill'],
+    },
+  } as unknown as Dump;
+
+  const duplicate = {
+    id: 'dump-2',
+    user_id: 'user-1',
+    media_url: 'media/user-1/dump-2.jpg',
+    content_type: 'image',
+    extracted_entities: {
+      entities: {
+        dates: ['March 3'],
+        times: [],
+        locations: [],
+        people: [],
+        organizations: [],
+        amounts: ['€45', '€9.50'],
+        contacts: { phones: [], emails: [], urls: ['https://edp.pt'] },
+      },
+      actionItems: ['Pay electricity bill'],
+      metadata: { source: 'telegram' },
+    },
+  } as unknown as Dump;
+
+  beforeEach(async () => {
+    manager = {
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      softDelete: jest.fn().mockResolvedValue(undefined),
+      query: jest.fn().mockResolvedValue([]),
+      createQueryBuilder: jest.fn(() => ({
+        update: jest.fn().mockReturnThis(),
+        set: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        execute: jest.fn().mockResolvedValue(undefined),
+      })),
+    };
+
+    dumpRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      update: jest.fn().mockResolvedValue(undefined),
+      manager: {
+        transaction: jest.fn((work) => work(manager)),
+      },
+    };
+
+    semanticSearchService = {
+      findNearDuplicate: jest.fn().mockResolvedValue(null),
+    };
+
+    dumpRevisionService = {
+      ensureBaseline: jest.fn().mockResolvedValue(undefined),
+      recordRevision: jest.fn().mockResolvedValue(null),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpDuplicateService,
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: SemanticSearchService, useValue: semanticSearchService },
+        { provide: DumpRevisionService, useValue: dumpRevisionService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DumpDuplicateService>(DumpDuplicateService);
+  });
+
+  it('should flag a close match as a duplicate', async () => {
+    semanticSearchService.findNearDuplicate.mockResolvedValue({
+      dumpId: 'dump-1',
+      summary: original.ai_summary,
+      similarity: 0.947,
+    });
+    const newDump = { ...duplicate, extracted_entities: {} } as Dump;
+
+    const candidate = await service.detectDuplicate(newDump);
+
+    expect(semanticSearchService.findNearDuplicate).toHaveBeenCalledWith(
+      'dump-2',
+      'user-1',
+      expect.objectContaining({ minSimilarity: 0.9 }),
+    );
+    expect(candidate).toEqual({
+      dumpId: 'dump-1',
+      similarity: 0.95,
+      summary: original.ai_summary,
+    });
+    expect(newDump.extracted_entities.metadata?.duplicateOf).toEqual({
+      dumpId: 'dump-1',
+      similarity: 0.95,
+    });
+  });
+
+  it('should not fail processing when the similarity lookup fails', async () => {
+    semanticSearchService.findNearDuplicate.mockRejectedValue(
+      new Error('connection terminated'),
+    );
+
+    await expect(service.detectDuplicate(duplicate)).resolves.toBeNull();
+    expect(dumpRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to merge a dump into itself', async () => {
+    await expect(
+      service.mergeDumps('dump-1', ['dump-1'], author),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should combine entities, move reminders and tasks and hide the absorbed dump', async () => {
+    dumpRepository.findOne.mockResolvedValue({ ...original });
+    dumpRepository.find.mockResolvedValue([duplicate]);
+
+    const result = await service.mergeDumps('dump-1', ['dump-2'], author);
+
+    const entities = result.dump.extracted_entities;
+    expect(entities.entities?.amounts).toEqual(['€45', '€9.50']);
+    expect(entities.entities?.organizations).toEqual(['EDP']);
+    expect(entities.entities?.contacts.urls).toEqual(['https://edp.pt']);
+    expect(entities.actionItems).toEqual(['Pay electricity bill']);
+    expect(entities.metadata?.mergedFrom).toEqual([
+      expect.objectContaining({
+        dumpId: 'dump-2',
+        mediaUrl: 'media/user-1/dump-2.jpg',
+        source: 'telegram',
+      }),
+    ]);
+
+    expect(manager.update).toHaveBeenCalledWith(Reminder, expect.anything(), {
+      dump_id: 'dump-1',
+    });
+    expect(manager.update).toHaveBeenCalledWith(Task, expect.anything(), {
+      dump_id: 'dump-1',
+    });
+    expect(manager.softDelete).toHaveBeenCalled();
+    expect(result).toMatchObject({
+      mergedDumpIds: ['dump-2'],
+      movedReminders: 1,
+      movedTasks: 1,
+    });
+    expect(dumpRevisionService.recordRevision).toHaveBeenCalledWith(
+      result.dump,
+      author,
+      'Merged 1 duplicate dump',
+    );
+  });
+});
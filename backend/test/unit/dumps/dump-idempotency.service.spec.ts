@@ -0,0 +1,149 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { QueryFailedError } from 'typeorm';
+import { DumpIdempotencyService } from '../../../src/modules/dumps/services/dump-idempotency.service';
+import { Dump } from '../../../src/entities/dump.entity';
+import { RedisService } from '../../../src/shared/redis.service';
+
+describe('DumpIdempotencyService', () => {
+  let service: DumpIdempotencyService;
+  let dumpRepository: any;
+  let redisService: any;
+
+  beforeEach(async () => {
+    dumpRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+    };
+
+    redisService = {
+      isAvailable: jest.fn().mockReturnValue(true),
+      get: jest.fn().mockResolvedValue(null),
+      setEx: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpIdempotencyService,
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<DumpIdempotencyService>(DumpIdempotencyService);
+  });
+
+  it('should key channel messages by source, chat and message id', () => {
+    expect(
+      service.buildKey({
+        userId: 'user-1',
+        content: 'Buy milk',
+        contentType: 'text',
+        metadata: { source: 'telegram', chatId: '42', messageId: '1001' },
+      }),
+    ).toBe('telegram:42:1001');
+
+    // One dump per email attachment
+    expect(
+      service.buildKey({
+        userId: 'user-1',
+        content: 'Invoice',
+        contentType: 'document',
+        metadata: {
+          source: 'email',
+          chatId: 'me@example.com',
+          messageId: 'abc@mail',
+          fileName: 'invoice.pdf',
+          attachmentIndex: 0,
+        },
+      }),
+    ).toBe('email:me@example.com:abc@mail:0-invoice.pdf');
+
+    // Attachments sharing a name still get a dump each
+    expect(
+      service.buildKey({
+        userId: 'user-1',
+        content: 'Photo',
+        contentType: 'image',
+        metadata: {
+          source: 'email',
+          chatId: 'me@example.com',
+          messageId: 'abc@mail',
+          fileName: 'image.jpg',
+          attachmentIndex: 1,
+        },
+      }),
+    ).toBe('email:me@example.com:abc@mail:1-image.jpg');
+
+    // Every photo of a Telegram album maps to the album's dump
+    expect(
+      service.buildKey({
+        userId: 'user-1',
+        content: 'Contract',
+        contentType: 'image',
+        metadata: {
+          source: 'telegram',
+          chatId: '42',
+          messageId: '1003',
+          mediaGroupId: '13722',
+        },
+      }),
+    ).toBe('telegram:42:album-13722');
+
+    expect(
+      service.buildKey({
+        userId: 'user-1',
+        content: 'Uploaded',
+        contentType: 'text',
+        metadata: { source: 'api' },
+      }),
+    ).toBeNull();
+  });
+
+  it('should find the existing dump through the Redis cache first', async () => {
+    redisService.get.mockResolvedValue('dump-1');
+    dumpRepository.findOne.mockResolvedValue({ id: 'dump-1' });
+
+    const dump = await service.findExisting('telegram:42:1001');
+
+    expect(dump).toEqual({ id: 'dump-1' });
+    expect(redisService.get).toHaveBeenCalledWith(
+      'dump-ingest:telegram:42:1001',
+    );
+    expect(dumpRepository.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'dump-1' }, withDeleted: true }),
+    );
+  });
+
+  it('should fall back to the ingestion key column and cache the hit', async () => {
+    dumpRepository.findOne.mockResolvedValue({ id: 'dump-2' });
+
+    const dump = await service.findExisting('whatsapp:+351:SM1');
+
+    expect(dump).toEqual({ id: 'dump-2' });
+    expect(dumpRepository.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { ingestion_key: 'whatsapp:+351:SM1' },
+        withDeleted: true,
+      }),
+    );
+    expect(redisService.setEx).toHaveBeenCalledWith(
+      'dump-ingest:whatsapp:+351:SM1',
+      86400,
+      'dump-2',
+    );
+  });
+
+  it('should only treat ingestion key violations as duplicates', () => {
+    const violation = (constraint: string) =>
+      new QueryFailedError('INSERT', [], {
+        code: '23505',
+        constraint,
+      } as any);
+
+    expect(
+      service.isDuplicateKeyError(violation('UQ_dumps_ingestion_key')),
+    ).toBe(true);
+    expect(service.isDuplicateKeyError(violation('PK_dumps'))).toBe(false);
+    expect(service.isDuplicateKeyError(new Error('boom'))).toBe(false);
+  });
+});
@@ -0,0 +1,253 @@
+// Mock @xenova/transformers before any imports
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {},
+}));
+
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { DumpProcessorService } from '../../../src/modules/dumps/services/dump-processor.service';
+import {
+  DumpService,
+  DumpPipelineError,
+} from '../../../src/modules/dumps/services/dump.service';
+import {
+  DumpQueueService,
+  QueuedDumpJob,
+} from '../../../src/modules/dumps/services/dump-queue.service';
+import { AiServiceUnavailableError } from '../../../src/modules/ai/fallback-handler.service';
+import { Dump, ProcessingStatus } from '../../../src/entities/dump.entity';
+
+describe('DumpProcessorService', () => {
+  let service: DumpProcessorService;
+  let dumpService: {
+    processDump: jest.Mock;
+    deferDump: jest.Mock;
+    markDumpFailed: jest.Mock;
+  };
+  let dumpQueueService: {
+    claimNext: jest.Mock;
+    complete: jest.Mock;
+    retry: jest.Mock;
+    postpone: jest.Mock;
+  };
+  let eventEmitter: { emit: jest.Mock };
+
+  const dump = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    processing_status: ProcessingStatus.COMPLETED,
+    extracted_entities: {
+      metadata: { source: 'telegram', chatId: 'chat-1', messageId: '42' },
+    },
+  } as unknown as Dump;
+
+  const queuedJob = (
+    overrides: Partial<QueuedDumpJob> = {},
+  ): QueuedDumpJob => ({
+    id: 'job-1',
+    dumpId: 'dump-1',
+    step: 'extract',
+    attempts: 0,
+    runAt: Date.now(),
+    backend: 'postgres',
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dumpService = {
+      processDump: jest.fn().mockResolvedValue({
+        dump,
+        analysis: {},
+        processingSteps: [],
+      }),
+      deferDump: jest.fn().mockResolvedValue(undefined),
+      markDumpFailed: jest.fn().mockResolvedValue({
+        ...dump,
+        processing_status: ProcessingStatus.FAILED,
+      }),
+    };
+    dumpQueueService = {
+      claimNext: jest.fn().mockResolvedValue(null),
+      complete: jest.fn().mockResolvedValue(undefined),
+      retry: jest.fn().mockResolvedValue(true),
+      postpone: jest.fn().mockResolvedValue(undefined),
+    };
+    eventEmitter = { emit: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpProcessorService,
+        { provide: DumpService, useValue: dumpService },
+        { provide: DumpQueueService, useValue: dumpQueueService },
+        { provide: EventEmitter2, useValue: eventEmitter },
+      ],
+    }).compile();
+
+    service = module.get<DumpProcessorService>(DumpProcessorService);
+  });
+
+  it('should complete the job and emit dump.processed', async () => {
+    const job = queuedJob();
+
+    await service.processJob(job);
+
+    expect(dumpService.processDump).toHaveBeenCalledWith(
+      'dump-1',
+      expect.objectContaining({ fromStep: 'extract' }),
+    );
+    expect(dumpQueueService.complete).toHaveBeenCalledWith(job);
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'dump.processed',
+      expect.objectContaining({
+        userId: 'user-1',
+        source: 'telegram',
+        chatId: 'chat-1',
+        messageId: '42',
+        recovered: false,
+      }),
+    );
+  });
+
+  it('should decode the media carried in the job payload', async () => {
+    await service.processJob(
+      queuedJob({
+        payload: { mediaBase64: Buffer.from('audio').toString('base64') },
+      }),
+    );
+
+    const options = dumpService.processDump.mock.calls[0][1];
+    expect(options.mediaBuffer.toString()).toBe('audio');
+  });
+
+  it('should not notify the user for skipped or re-processed dumps', async () => {
+    dumpService.processDump.mockResolvedValueOnce({
+      dump,
+      analysis: {},
+      processingSteps: [],
+      skipped: true,
+    });
+    await service.processJob(queuedJob());
+    await service.processJob(queuedJob({ payload: { reprocess: true } }));
+
+    expect(dumpQueueService.complete).toHaveBeenCalledTimes(2);
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should defer the dump and postpone the job during an AI outage', async () => {
+    const retryAt = new Date(Date.now() + 60000);
+    dumpService.processDump.mockRejectedValue(
+      new DumpPipelineError(
+        'analyze',
+        new AiServiceUnavailableError('llm-anthropic', retryAt),
+      ),
+    );
+
+    await service.processJob(queuedJob({ attempts: 1 }));
+
+    expect(dumpService.deferDump).toHaveBeenCalledWith(
+      'dump-1',
+      expect.any(AiServiceUnavailableError),
+    );
+    expect(dumpQueueService.postpone).toHaveBeenCalledWith(
+      expect.objectContaining({ step: 'analyze', attempts: 0 }),
+      retryAt,
+      expect.any(String),
+    );
+    expect(dumpQueueService.retry).not.toHaveBeenCalled();
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should retry from the step that failed with a fresh attempt count', async () => {
+    dumpService.processDump.mockRejectedValue(
+      new DumpPipelineError('categorize', new Error('db down')),
+    );
+
+    await service.processJob(queuedJob({ attempts: 2 }));
+
+    expect(dumpQueueService.retry).toHaveBeenCalledWith(
+      expect.objectContaining({ step: 'categorize', attempts: 0 }),
+      'categorize step failed: db down',
+    );
+    expect(dumpService.markDumpFailed).not.toHaveBeenCalled();
+  });
+
+  it('should mark the dump failed and emit dump.failed once dead-lettered', async () => {
+    dumpService.processDump.mockRejectedValue(new Error('boom'));
+    dumpQueueService.retry.mockResolvedValue(false);
+
+    await service.processJob(queuedJob({ attempts: 2 }));
+
+    expect(dumpQueueService.retry).toHaveBeenCalledWith(
+      expect.objectContaining({ step: 'extract', attempts: 2 }),
+      'boom',
+    );
+    expect(dumpService.markDumpFailed).toHaveBeenCalledWith('dump-1', 'boom');
+    expect(eventEmitter.emit).toHaveBeenCalledWith(
+      'dump.failed',
+      expect.objectContaining({ error: 'boom', chatId: 'chat-1' }),
+    );
+  });
+
+  it('should not report a failure again for a recovered dump', async () => {
+    dumpService.processDump.mockRejectedValue(new Error('boom'));
+    dumpQueueService.retry.mockResolvedValue(false);
+
+    await service.processJob(
+      queuedJob({ payload: { recoveredFrom: 'failed' } }),
+    );
+
+    expect(dumpService.markDumpFailed).toHaveBeenCalled();
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should drop the job of a dump trashed while it was queued', async () => {
+    dumpService.processDump.mockRejectedValue(
+      new NotFoundException('Dump with ID dump-1 not found'),
+    );
+    const job = queuedJob();
+
+    await service.processJob(job);
+
+    expect(dumpQueueService.complete).toHaveBeenCalledWith(job);
+    expect(dumpQueueService.retry).not.toHaveBeenCalled();
+    expect(dumpService.markDumpFailed).not.toHaveBeenCalled();
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+
+  it('should keep draining when a dead-lettered dump is gone', async () => {
+    dumpQueueService.claimNext
+      .mockResolvedValueOnce(queuedJob({ id: 'job-1' }))
+      .mockResolvedValueOnce(queuedJob({ id: 'job-2', dumpId: 'dump-2' }))
+      .mockResolvedValueOnce(null);
+    dumpService.processDump.mockRejectedValueOnce(new Error('boom'));
+    dumpQueueService.retry.mockResolvedValue(false);
+    dumpService.markDumpFailed.mockRejectedValueOnce(
+      new NotFoundException('Dump with ID dump-1 not found'),
+    );
+
+    await service.drainQueue();
+
+    expect(dumpService.processDump).toHaveBeenCalledWith(
+      'dump-2',
+      expect.anything(),
+    );
+    expect(eventEmitter.emit).not.toHaveBeenCalledWith(
+      'dump.failed',
+      expect.anything(),
+    );
+  });
+
+  it('should drain up to a batch of claimed jobs', async () => {
+    dumpQueueService.claimNext
+      .mockResolvedValueOnce(queuedJob({ id: 'job-1' }))
+      .mockResolvedValueOnce(queuedJob({ id: 'job-2' }))
+      .mockResolvedValueOnce(null);
+
+    await service.drainQueue();
+
+    expect(dumpService.processDump).toHaveBeenCalledTimes(2);
+    expect(dumpQueueService.claimNext).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,309 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { LessThanOrEqual } from 'typeorm';
+import {
+  DumpQueueService,
+  QueuedDumpJob,
+} from '../../../src/modules/dumps/services/dump-queue.service';
+import { DumpJob, DumpJobStatus } from '../../../src/entities/dump-job.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+import { RedisService } from '../../../src/shared/redis.service';
+
+describe('DumpQueueService', () => {
+  let service: DumpQueueService;
+  let jobRepository: any;
+  let dumpRepository: { update: jest.Mock };
+  let redisService: any;
+  let staleReset: any;
+
+  const configValues: Record<string, string> = {
+    DUMP_QUEUE_MAX_ATTEMPTS: '3',
+    DUMP_QUEUE_BACKOFF_MS: '1000',
+  };
+
+  beforeEach(async () => {
+    staleReset = {
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+    jobRepository = {
+      create: jest.fn((data) => data),
+      save: jest.fn((data) =>
+        Promise.resolve({
+          id: 'job-1',
+          ...data,
+          last_error: null,
+          created_at: new Date('2026-03-02T09:00:00Z'),
+        }),
+      ),
+      update: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => staleReset),
+      manager: {
+        transaction: jest.fn((work) =>
+          work({
+            getRepository: () => ({
+              createQueryBuilder: () => ({
+                where: jest.fn().mockReturnThis(),
+                andWhere: jest.fn().mockReturnThis(),
+                orderBy: jest.fn().mockReturnThis(),
+                setLock: jest.fn().mockReturnThis(),
+                setOnLocked: jest.fn().mockReturnThis(),
+                getOne: jest.fn().mockResolvedValue(null),
+              }),
+            }),
+          }),
+        ),
+      },
+    };
+
+    dumpRepository = { update: jest.fn().mockResolvedValue(undefined) };
+
+    redisService = {
+      isAvailable: jest.fn().mockReturnValue(false),
+      lPush: jest.fn().mockResolvedValue(1),
+      lMove: jest.fn().mockResolvedValue(null),
+      lRem: jest.fn().mockResolvedValue(1),
+      zAdd: jest.fn().mockResolvedValue(undefined),
+      zRangeByScore: jest.fn().mockResolvedValue([]),
+      zRem: jest.fn().mockResolvedValue(1),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpQueueService,
+        { provide: getRepositoryToken(DumpJob), useValue: jobRepository },
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => configValues[key]) },
+        },
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<DumpQueueService>(DumpQueueService);
+  });
+
+  it('should store jobs in Postgres when Redis is unavailable', async () => {
+    const job = await service.enqueue('dump-1');
+
+    expect(redisService.lPush).not.toHaveBeenCalled();
+    expect(jobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dump_id: 'dump-1',
+        step: 'extract',
+        status: DumpJobStatus.PENDING,
+      }),
+    );
+    expect(job.backend).toBe('postgres');
+    expect(dumpRepository.update).toHaveBeenCalledWith('dump-1', {
+      queued_at: new Date('2026-03-02T09:00:00Z'),
+    });
+  });
+
+  it('should push jobs to the Redis ready list when available', async () => {
+    redisService.isAvailable.mockReturnValue(true);
+
+    const job = await service.enqueue('dump-1', 'analyze');
+
+    expect(redisService.lPush).toHaveBeenCalledWith(
+      'dump-queue:ready',
+      expect.stringContaining('"dumpId":"dump-1"'),
+    );
+    expect(jobRepository.save).not.toHaveBeenCalled();
+    expect(job).toMatchObject({ backend: 'redis', step: 'analyze' });
+    // Recovery cannot see Redis jobs, so the dump records it is queued
+    expect(dumpRepository.update).toHaveBeenCalledWith('dump-1', {
+      queued_at: expect.any(Date),
+    });
+  });
+
+  it('should promote due retries before claiming the next Redis job', async () => {
+    redisService.isAvailable.mockReturnValue(true);
+    const delayed = JSON.stringify({ id: 'job-2', dumpId: 'dump-2' });
+    redisService.zRangeByScore
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([delayed]);
+    redisService.lMove.mockResolvedValue(delayed);
+
+    const job = await service.claimNext();
+
+    expect(redisService.zRem).toHaveBeenCalledWith(
+      'dump-queue:delayed',
+      delayed,
+    );
+    expect(redisService.lPush).toHaveBeenCalledWith(
+      'dump-queue:ready',
+      delayed,
+    );
+    expect(job?.dumpId).toBe('dump-2');
+  });
+
+  it('should keep claimed Redis jobs until they complete', async () => {
+    redisService.isAvailable.mockReturnValue(true);
+    const raw = JSON.stringify({ id: 'job-2', dumpId: 'dump-2' });
+    redisService.lMove.mockResolvedValue(raw);
+    const before = Date.now();
+
+    const job = await service.claimNext();
+
+    expect(redisService.lMove).toHaveBeenCalledWith(
+      'dump-queue:ready',
+      'dump-queue:processing',
+    );
+    const [key, deadline, lease] = redisService.zAdd.mock.calls[0];
+    expect(key).toBe('dump-queue:leases');
+    expect(deadline).toBeGreaterThanOrEqual(before + 900000);
+    expect(lease).toBe(raw);
+
+    await service.complete(job!);
+
+    expect(redisService.lRem).toHaveBeenCalledWith(
+      'dump-queue:processing',
+      1,
+      raw,
+    );
+    expect(redisService.zRem).toHaveBeenCalledWith('dump-queue:leases', raw);
+    expect(dumpRepository.update).toHaveBeenCalledWith(
+      { id: 'dump-2' },
+      { queued_at: null },
+    );
+  });
+
+  it('should leave queued_at to a job queued after the completed one', async () => {
+    const queuedAt = new Date('2026-03-02T09:00:00Z').getTime();
+
+    await service.complete({
+      id: 'job-1',
+      dumpId: 'dump-1',
+      step: 'embed',
+      attempts: 0,
+      runAt: queuedAt,
+      queuedAt,
+      backend: 'postgres',
+    });
+
+    // A newer job stamped the dump later, so the row no longer matches
+    expect(dumpRepository.update).toHaveBeenCalledWith(
+      { id: 'dump-1', queued_at: LessThanOrEqual(new Date(queuedAt)) },
+      { queued_at: null },
+    );
+  });
+
+  it('should requeue jobs whose worker did not finish in time', async () => {
+    redisService.isAvailable.mockReturnValue(true);
+    const abandoned = JSON.stringify({ id: 'job-3', dumpId: 'dump-3' });
+    redisService.zRangeByScore
+      .mockResolvedValueOnce([abandoned])
+      .mockResolvedValueOnce([]);
+
+    await service.claimNext();
+
+    expect(redisService.zRem).toHaveBeenCalledWith(
+      'dump-queue:leases',
+      abandoned,
+    );
+    expect(redisService.lRem).toHaveBeenCalledWith(
+      'dump-queue:processing',
+      1,
+      abandoned,
+    );
+    expect(redisService.lPush).toHaveBeenCalledWith(
+      'dump-queue:ready',
+      abandoned,
+    );
+  });
+
+  it('should reset Postgres jobs left running past the timeout', async () => {
+    const before = Date.now();
+
+    await service.claimNext();
+
+    expect(staleReset.set).toHaveBeenCalledWith({
+      status: DumpJobStatus.PENDING,
+    });
+    expect(staleReset.where).toHaveBeenCalledWith('status = :running', {
+      running: DumpJobStatus.RUNNING,
+    });
+    const [, { staleBefore }] = staleReset.andWhere.mock.calls[0];
+    expect(staleBefore.getTime()).toBeLessThanOrEqual(before - 900000 + 1000);
+  });
+
+  it('should reschedule failed steps with exponential backoff', async () => {
+    const job: QueuedDumpJob = {
+      id: 'job-1',
+      dumpId: 'dump-1',
+      step: 'analyze',
+      attempts: 1,
+      runAt: Date.now(),
+      backend: 'postgres',
+    };
+    const before = Date.now();
+
+    const willRetry = await service.retry(job, 'Claude timeout');
+
+    expect(willRetry).toBe(true);
+    const update = jobRepository.update.mock.calls[0][1];
+    expect(update).toMatchObject({
+      status: DumpJobStatus.PENDING,
+      attempts: 2,
+      last_error: 'Claude timeout',
+    });
+    // Second attempt waits twice the base delay
+    expect(update.run_at.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  it('should dead-letter a job once it runs out of attempts', async () => {
+    const job: QueuedDumpJob = {
+      id: 'job-1',
+      dumpId: 'dump-1',
+      step: 'categorize',
+      attempts: 2,
+      runAt: Date.now(),
+      backend: 'postgres',
+    };
+
+    const willRetry = await service.retry(job, 'Database unavailable');
+
+    expect(willRetry).toBe(false);
+    expect(jobRepository.update).toHaveBeenCalledWith(
+      'job-1',
+      expect.objectContaining({
+        status: DumpJobStatus.DEAD,
+        attempts: 3,
+      }),
+    );
+    expect(dumpRepository.update).toHaveBeenCalledWith(
+      { id: 'dump-1' },
+      { queued_at: null },
+    );
+  });
+
+  it('should postpone a job without using up an attempt', async () => {
+    redisService.isAvailable.mockReturnValue(true);
+    const job: QueuedDumpJob = {
+      id: 'job-1',
+      dumpId: 'dump-1',
+      step: 'analyze',
+      attempts: 2,
+      runAt: Date.now(),
+      backend: 'redis',
+    };
+    const runAt = new Date(Date.now() + 60000);
+
+    await service.postpone(job, runAt, 'llm-anthropic is unavailable');
+
+    const [key, score, raw] = redisService.zAdd.mock.calls[0];
+    expect(key).toBe('dump-queue:delayed');
+    expect(score).toBe(runAt.getTime());
+    expect(JSON.parse(raw)).toMatchObject({
+      step: 'analyze',
+      attempts: 2,
+      lastError: 'llm-anthropic is unavailable',
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DumpRecoveryService } from '../../../src/modules/dumps/services/dump-recovery.service';
+import { DumpQueueService } from '../../../src/modules/dumps/services/dump-queue.service';
+import { Dump, ProcessingStatus } from '../../../src/entities/dump.entity';
+
+describe('DumpRecoveryService', () => {
+  let service: DumpRecoveryService;
+  let dumpRepository: any;
+  let dumpQueueService: { enqueue: jest.Mock };
+  let queryBuilder: any;
+
+  const stuckDump = (overrides: Partial<Dump>): Dump =>
+    ({
+      id: 'dump-1',
+      user_id: 'user-1',
+      processing_status: ProcessingStatus.PROCESSING,
+      pipeline_step: null,
+      recovery_attempts: 0,
+      last_recovery_at: null,
+      processing_steps: ['Dump received'],
+      extracted_entities: {},
+      created_at: new Date(),
+      ...overrides,
+    }) as Dump;
+
+  beforeEach(async () => {
+    queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      setParameter: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+    dumpRepository = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+    dumpQueueService = { enqueue: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpRecoveryService,
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: DumpQueueService, useValue: dumpQueueService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<DumpRecoveryService>(DumpRecoveryService);
+  });
+
+  it('should resume after the last completed pipeline step', () => {
+    expect(service.getResumeStep(stuckDump({ pipeline_step: null }))).toBe(
+      'extract',
+    );
+    expect(service.getResumeStep(stuckDump({ pipeline_step: 'analyze' }))).toBe(
+      'entities',
+    );
+    // Everything ran; redo the last step to finish the wrap-up
+    expect(service.getResumeStep(stuckDump({ pipeline_step: 'embed' }))).toBe(
+      'embed',
+    );
+  });
+
+  it('should re-queue stuck and failed dumps from their missing step', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      stuckDump({ id: 'dump-1', pipeline_step: 'analyze' }),
+      stuckDump({
+        id: 'dump-2',
+        processing_status: ProcessingStatus.FAILED,
+        recovery_attempts: 2,
+      }),
+    ]);
+
+    const result = await service.recoverStuckDumps();
+
+    expect(result.queued).toEqual(['dump-1', 'dump-2']);
+    // Dumps with a job waiting in Redis or Postgres are left to it
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'dump.queued_at IS NULL',
+    );
+    expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+      'dump.recovery_attempts < :maxAttempts',
+      { maxAttempts: 5 },
+    );
+    expect(dumpRepository.update).toHaveBeenCalledWith(
+      'dump-2',
+      expect.objectContaining({
+        processing_status: ProcessingStatus.RECEIVED,
+        recovery_attempts: 3,
+        last_recovery_at: expect.any(Date),
+      }),
+    );
+    expect(dumpQueueService.enqueue).toHaveBeenCalledWith(
+      'dump-1',
+      'entities',
+      { recoveredFrom: 'stuck' },
+    );
+    expect(dumpQueueService.enqueue).toHaveBeenCalledWith('dump-2', 'extract', {
+      recoveredFrom: 'failed',
+    });
+  });
+
+  it('should skip requested dumps that are not stuck', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      stuckDump({ id: 'dump-1', processing_status: ProcessingStatus.FAILED }),
+    ]);
+
+    const result = await service.retryDumps(['dump-1', 'dump-done']);
+
+    expect(result).toEqual({ queued: ['dump-1'], skipped: ['dump-done'] });
+    expect(queryBuilder.andWhere).not.toHaveBeenCalledWith(
+      'dump.recovery_attempts < :maxAttempts',
+      expect.anything(),
+    );
+    expect(dumpQueueService.enqueue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DumpRevisionService } from '../../../src/modules/dumps/services/dump-revision.service';
+import {
+  DumpRevision,
+  RevisionAuthorType,
+} from '../../../src/entities/dump-revision.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+
+describe('DumpRevisionService', () => {
+  let service: DumpRevisionService;
+  let revisionRepository: any;
+
+  const dump = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    raw_content: 'Buy milk',
+    ai_summary: 'Shopping reminder',
+    category_id: 'cat-1',
+    urgency_level: 1,
+    ai_confidence: 90,
+    extracted_entities: { sentiment: 'neutral', actionItems: ['Buy milk'] },
+  } as unknown as Dump;
+
+  const revision = (
+    revisionNumber: number,
+    overrides: Partial<Dump> = {},
+  ): Partial<DumpRevision> => ({
+    dump_id: 'dump-1',
+    revision_number: revisionNumber,
+    snapshot: service.snapshotOf({ ...dump, ...overrides } as Dump),
+  });
+
+  beforeEach(async () => {
+    revisionRepository = {
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 'rev-id', ...data })),
+      findOne: jest.fn().mockResolvedValue(null),
+      find: jest.fn().mockResolvedValue([]),
+      count: jest.fn().mockResolvedValue(0),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpRevisionService,
+        {
+          provide: getRepositoryToken(DumpRevision),
+          useValue: revisionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DumpRevisionService>(DumpRevisionService);
+  });
+
+  it('should record the first revision of a dump', async () => {
+    const result = await service.recordRevision(dump, {
+      type: RevisionAuthorType.AI,
+    });
+
+    expect(result).toMatchObject({
+      revision_number: 1,
+      author_type: RevisionAuthorType.AI,
+      changed_fields: [],
+    });
+  });
+
+  it('should record changed fields against the latest revision', async () => {
+    revisionRepository.findOne.mockResolvedValue(revision(2));
+
+    const result = await service.recordRevision(
+      { ...dump, raw_content: 'Buy oat milk' } as Dump,
+      { type: RevisionAuthorType.USER, id: 'user-1' },
+    );
+
+    expect(result).toMatchObject({
+      revision_number: 3,
+      author_id: 'user-1',
+      changed_fields: ['raw_content'],
+    });
+  });
+
+  it('should skip recording when nothing changed', async () => {
+    // jsonb does not keep key order, which must not count as a change
+    revisionRepository.findOne.mockResolvedValue(
+      revision(1, {
+        extracted_entities: { actionItems: ['Buy milk'], sentiment: 'neutral' },
+      }),
+    );
+
+    const result = await service.recordRevision(dump, {
+      type: RevisionAuthorType.AI,
+    });
+
+    expect(result).toBeNull();
+    expect(revisionRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should diff extracted entities field by field', async () => {
+    revisionRepository.findOne
+      .mockResolvedValueOnce(revision(1))
+      .mockResolvedValueOnce(
+        revision(2, {
+          ai_summary: 'Groceries',
+          extracted_entities: {
+            sentiment: 'positive',
+            actionItems: ['Buy milk'],
+          },
+        }),
+      );
+
+    const diff = await service.diffRevisions('dump-1', 1, 2);
+
+    expect(diff.changes).toEqual([
+      { field: 'ai_summary', before: 'Shopping reminder', after: 'Groceries' },
+      {
+        field: 'extracted_entities.sentiment',
+        before: 'neutral',
+        after: 'positive',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { DumpTrashService } from '../../../src/modules/dumps/services/dump-trash.service';
+import { Dump } from '../../../src/entities/dump.entity';
+import { Reminder } from '../../../src/entities/reminder.entity';
+import { TrackableItem } from '../../../src/entities/trackable-item.entity';
+import { Feedback } from '../../../src/entities/feedback.entity';
+import { DumpJob } from '../../../src/entities/dump-job.entity';
+import { Task } from '../../../src/entities/task.entity';
+import { MediaStorageService } from '../../../src/modules/storage/media-storage.service';
+
+describe('DumpTrashService', () => {
+  let service: DumpTrashService;
+  let dumpRepository: any;
+  let manager: any;
+  let queryBuilder: any;
+  let mediaStorageService: any;
+
+  const trashedDump = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    media_url: 'media/user-1/dump-1.jpg',
+    deleted_at: new Date('2025-01-01T00:00:00Z'),
+  } as Dump;
+
+  beforeEach(async () => {
+    manager = {
+      delete: jest.fn().mockResolvedValue(undefined),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    queryBuilder = {
+      withDeleted: jest.fn().mockReturnThis(),
+      innerJoin: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+
+    dumpRepository = {
+      findOne: jest.fn(),
+      find: jest.fn().mockResolvedValue([]),
+      softDelete: jest.fn().mockResolvedValue(undefined),
+      restore: jest.fn().mockResolvedValue(undefined),
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      manager: {
+        transaction: jest.fn((work) => work(manager)),
+      },
+    };
+
+    mediaStorageService = {
+      deleteMedia: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DumpTrashService,
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: MediaStorageService, useValue: mediaStorageService },
+      ],
+    }).compile();
+
+    service = module.get<DumpTrashService>(DumpTrashService);
+  });
+
+  it('should soft delete dumps moved to the trash', async () => {
+    dumpRepository.findOne.mockResolvedValue({ id: 'dump-1' });
+
+    await service.moveToTrash('dump-1');
+
+    expect(dumpRepository.softDelete).toHaveBeenCalledWith('dump-1');
+    expect(manager.delete).not.toHaveBeenCalled();
+    expect(mediaStorageService.deleteMedia).not.toHaveBeenCalled();
+  });
+
+  it('should only restore dumps that are in the trash', async () => {
+    dumpRepository.findOne.mockResolvedValue(null);
+
+    await expect(service.restoreFromTrash('dump-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(dumpRepository.restore).not.toHaveBeenCalled();
+  });
+
+  it('should cascade a permanent delete to related records and media', async () => {
+    dumpRepository.findOne.mockResolvedValue(trashedDump);
+
+    await service.deletePermanently('dump-1');
+
+    expect(manager.delete).toHaveBeenCalledWith(TrackableItem, {
+      dump_id: 'dump-1',
+    });
+    expect(manager.delete).toHaveBeenCalledWith(Reminder, {
+      dump_id: 'dump-1',
+    });
+    expect(manager.delete).toHaveBeenCalledWith(Task, { dump_id: 'dump-1' });
+    expect(manager.delete).toHaveBeenCalledWith(DumpJob, {
+      dump_id: 'dump-1',
+    });
+    expect(manager.update).toHaveBeenCalledWith(
+      Feedback,
+      { dump_id: 'dump-1' },
+      expect.any(Object),
+    );
+    expect(manager.delete).toHaveBeenCalledWith(Dump, { id: 'dump-1' });
+    expect(mediaStorageService.deleteMedia).toHaveBeenCalledWith(
+      'media/user-1/dump-1.jpg',
+    );
+  });
+
+  it('should purge the dumps merged into a purged dump with their media', async () => {
+    dumpRepository.findOne.mockResolvedValue(trashedDump);
+    dumpRepository.find.mockResolvedValue([
+      {
+        id: 'dump-2',
+        merged_into_id: 'dump-1',
+        media_url: 'media/user-1/dump-2.jpg',
+        media_pages: ['media/user-1/dump-2-p2.jpg'],
+      },
+    ]);
+
+    await service.deletePermanently('dump-1');
+
+    expect(dumpRepository.find).toHaveBeenCalledWith({
+      where: { merged_into_id: 'dump-1' },
+      withDeleted: true,
+    });
+    expect(manager.delete).toHaveBeenCalledWith(DumpJob, {
+      dump_id: 'dump-2',
+    });
+    expect(manager.delete).toHaveBeenCalledWith(Dump, { id: 'dump-2' });
+    expect(manager.delete).toHaveBeenCalledWith(Dump, { id: 'dump-1' });
+    expect(mediaStorageService.deleteMedia.mock.calls).toEqual([
+      ['media/user-1/dump-2.jpg'],
+      ['media/user-1/dump-2-p2.jpg'],
+      ['media/user-1/dump-1.jpg'],
+    ]);
+  });
+
+  it('should purge expired dumps and keep going after a failure', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      trashedDump,
+      { ...trashedDump, id: 'dump-2', media_url: null },
+    ]);
+    manager.delete.mockImplementation((_entity, criteria) =>
+      criteria.dump_id === 'dump-1'
+        ? Promise.reject(new Error('Database unavailable'))
+        : Promise.resolve(undefined),
+    );
+
+    const result = await service.purgeExpiredTrash();
+
+    expect(queryBuilder.withDeleted).toHaveBeenCalled();
+    expect(result).toEqual({ purged: 1, errors: 1 });
+  });
+});
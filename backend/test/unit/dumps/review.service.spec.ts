@@ -0,0 +1,148 @@
+jest.mock('@xenova/transformers', () => ({ pipeline: jest.fn(), env: {} }));
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { ReviewService } from '../../../src/modules/dumps/services/review.service';
+import { CategorizationService } from '../../../src/modules/dumps/services/categorization.service';
+import { CategoryCorrectionService } from '../../../src/modules/categories/category-correction.service';
+import {
+  ReviewItem,
+  ReviewFlag,
+  ReviewPriority,
+  ReviewReporter,
+  ReviewStatus,
+} from '../../../src/entities/review-item.entity';
+import { ReviewStatusChange } from '../../../src/entities/review-status-change.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+import { User, UserRole } from '../../../src/entities/user.entity';
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let reviewRepository: any;
+  let statusChangeRepository: any;
+  let dumpRepository: any;
+  let userRepository: any;
+
+  const dump = { id: 'dump-1', user_id: 'user-1', ai_confidence: 45 };
+
+  beforeEach(async () => {
+    reviewRepository = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 'review-1', ...data })),
+    };
+    statusChangeRepository = {
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve(data)),
+    };
+    dumpRepository = {
+      findOne: jest.fn().mockResolvedValue(dump),
+      update: jest.fn(),
+    };
+    userRepository = { findOne: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewService,
+        { provide: getRepositoryToken(ReviewItem), useValue: reviewRepository },
+        {
+          provide: getRepositoryToken(ReviewStatusChange),
+          useValue: statusChangeRepository,
+        },
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: CategorizationService, useValue: {} },
+        { provide: CategoryCorrectionService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReviewService>(ReviewService);
+  });
+
+  it('should queue low-confidence dumps once and audit the creation', async () => {
+    const reviewId = await service.checkConfidenceThreshold('dump-1');
+
+    expect(reviewId).toBe('review-1');
+    expect(reviewRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        dump_id: 'dump-1',
+        flag: ReviewFlag.CONTENT_QUALITY,
+        priority: ReviewPriority.HIGH,
+        status: ReviewStatus.PENDING,
+        reported_by: ReviewReporter.CONFIDENCE_CHECK,
+      }),
+    );
+    expect(statusChangeRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        review_item_id: 'review-1',
+        from_status: null,
+        to_status: ReviewStatus.PENDING,
+        changed_by: null,
+      }),
+    );
+
+    reviewRepository.findOne.mockResolvedValue({ id: 'review-1' });
+    reviewRepository.save.mockClear();
+
+    await expect(service.checkConfidenceThreshold('dump-1')).resolves.toBe(
+      'review-1',
+    );
+    expect(reviewRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should start the review when it is assigned to an admin', async () => {
+    reviewRepository.findOne.mockResolvedValue({
+      id: 'review-1',
+      status: ReviewStatus.PENDING,
+      assigned_to: null,
+    });
+    userRepository.findOne.mockResolvedValue({
+      id: 'admin-1',
+      role: UserRole.ADMIN,
+    });
+
+    const reviewItem = await service.assignReview(
+      'review-1',
+      'admin-1',
+      'admin-2',
+    );
+
+    expect(reviewItem).toMatchObject({
+      status: ReviewStatus.IN_PROGRESS,
+      assigned_to: 'admin-1',
+    });
+    expect(statusChangeRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from_status: ReviewStatus.PENDING,
+        to_status: ReviewStatus.IN_PROGRESS,
+        assigned_to: 'admin-1',
+        changed_by: 'admin-2',
+      }),
+    );
+  });
+
+  it('should reject assignments to non-admins and changes to closed items', async () => {
+    reviewRepository.findOne.mockResolvedValue({
+      id: 'review-1',
+      status: ReviewStatus.PENDING,
+    });
+    userRepository.findOne.mockResolvedValue({
+      id: 'user-2',
+      role: UserRole.USER,
+    });
+
+    await expect(
+      service.assignReview('review-1', 'user-2', 'admin-1'),
+    ).rejects.toThrow(BadRequestException);
+
+    reviewRepository.findOne.mockResolvedValue({
+      id: 'review-1',
+      status: ReviewStatus.DISMISSED,
+    });
+
+    await expect(
+      service.resolveReview('review-1', 'Fixed', 'admin-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,210 @@
+// Mock @xenova/transformers before any imports
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {},
+}));
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataExportProcessorService } from '../../../src/modules/export/data-export-processor.service';
+import { DataExportService } from '../../../src/modules/export/data-export.service';
+import { ExportArchiveService } from '../../../src/modules/export/export-archive.service';
+import { MediaStorageService } from '../../../src/modules/storage/media-storage.service';
+import { DeliveryService } from '../../../src/modules/notifications/delivery.service';
+import {
+  DataExport,
+  DataExportStatus,
+} from '../../../src/entities/data-export.entity';
+
+describe('DataExportProcessorService', () => {
+  let service: DataExportProcessorService;
+  let dataExportRepository: any;
+  let queryBuilder: any;
+  let exportArchiveService: { buildArchive: jest.Mock };
+  let mediaStorageService: {
+    storeDataExport: jest.Mock;
+    deleteMedia: jest.Mock;
+  };
+  let deliveryService: { deliver: jest.Mock };
+
+  const pendingExport = (overrides: Partial<DataExport> = {}): DataExport =>
+    ({
+      id: 'export-1',
+      user_id: 'user-1',
+      status: DataExportStatus.PENDING,
+      ...overrides,
+    }) as DataExport;
+
+  beforeEach(async () => {
+    queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      orWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getOne: jest.fn().mockResolvedValue(null),
+    };
+    dataExportRepository = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+      update: jest.fn().mockResolvedValue({ affected: 1 }),
+      save: jest.fn((data) => Promise.resolve(data)),
+      find: jest.fn().mockResolvedValue([]),
+    };
+    exportArchiveService = {
+      buildArchive: jest.fn().mockResolvedValue({
+        buffer: Buffer.from('zip'),
+        counts: { dumps: 2 },
+        missingMedia: [],
+      }),
+    };
+    mediaStorageService = {
+      storeDataExport: jest
+        .fn()
+        .mockResolvedValue('exports/user-1/export-1.zip'),
+      deleteMedia: jest.fn().mockResolvedValue(true),
+    };
+    deliveryService = { deliver: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportProcessorService,
+        {
+          provide: getRepositoryToken(DataExport),
+          useValue: dataExportRepository,
+        },
+        {
+          provide: DataExportService,
+          useValue: {
+            createDownloadToken: jest
+              .fn()
+              .mockReturnValue({ token: 'secret', hash: 'hashed' }),
+          },
+        },
+        { provide: ExportArchiveService, useValue: exportArchiveService },
+        { provide: MediaStorageService, useValue: mediaStorageService },
+        { provide: DeliveryService, useValue: deliveryService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'PUBLIC_API_URL' ? 'https://api.example/' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DataExportProcessorService>(
+      DataExportProcessorService,
+    );
+  });
+
+  it('should claim the next export and send the download link', async () => {
+    queryBuilder.getOne.mockResolvedValue(pendingExport());
+
+    await service.processExports();
+
+    expect(dataExportRepository.update).toHaveBeenCalledWith(
+      { id: 'export-1', status: DataExportStatus.PENDING },
+      { status: DataExportStatus.PROCESSING },
+    );
+    expect(exportArchiveService.buildArchive).toHaveBeenCalledWith('user-1');
+    expect(dataExportRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: DataExportStatus.COMPLETED,
+        file_key: 'exports/user-1/export-1.zip',
+        download_token_hash: 'hashed',
+        error: null,
+      }),
+    );
+    // The link carries the token; only its hash is stored
+    expect(deliveryService.deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        message: expect.stringContaining(
+          'https://api.example/api/me/export/export-1/download?token=secret',
+        ),
+      }),
+    );
+  });
+
+  it('should take over an export a crashed worker left processing', async () => {
+    queryBuilder.getOne.mockResolvedValue(
+      pendingExport({ status: DataExportStatus.PROCESSING }),
+    );
+
+    await service.processExports();
+
+    const [, { staleBefore }] = queryBuilder.orWhere.mock.calls[0];
+    expect(staleBefore.getTime()).toBeLessThanOrEqual(
+      Date.now() - 60 * 60 * 1000,
+    );
+    expect(dataExportRepository.update).toHaveBeenCalledWith(
+      { id: 'export-1', status: DataExportStatus.PROCESSING },
+      { status: DataExportStatus.PROCESSING },
+    );
+    expect(exportArchiveService.buildArchive).toHaveBeenCalled();
+  });
+
+  it('should leave an export another worker claimed first', async () => {
+    queryBuilder.getOne.mockResolvedValue(pendingExport());
+    dataExportRepository.update.mockResolvedValue({ affected: 0 });
+
+    await service.processExports();
+
+    expect(exportArchiveService.buildArchive).not.toHaveBeenCalled();
+  });
+
+  it('should note media that is missing from the archive', async () => {
+    exportArchiveService.buildArchive.mockResolvedValue({
+      buffer: Buffer.from('zip'),
+      counts: { dumps: 1 },
+      missingMedia: ['media/user-1/voice-1.ogg'],
+    });
+
+    const result = await service.processExport(pendingExport());
+
+    expect(result.status).toBe(DataExportStatus.COMPLETED);
+    expect(result.error).toBe('1 media files could not be read');
+  });
+
+  it('should mark the export failed and tell the user', async () => {
+    mediaStorageService.storeDataExport.mockRejectedValue(
+      new Error('Bucket unavailable'),
+    );
+
+    const result = await service.processExport(pendingExport());
+
+    expect(result).toMatchObject({
+      status: DataExportStatus.FAILED,
+      error: 'Bucket unavailable',
+    });
+    expect(result.download_token_hash).toBeUndefined();
+    expect(dataExportRepository.save).toHaveBeenCalledWith(result);
+    expect(deliveryService.deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        message: expect.stringContaining('could not be prepared'),
+      }),
+    );
+  });
+
+  it('should delete the archives of expired exports', async () => {
+    dataExportRepository.find.mockResolvedValue([
+      pendingExport({
+        status: DataExportStatus.COMPLETED,
+        file_key: 'exports/user-1/export-1.zip',
+      }),
+    ]);
+
+    await expect(service.purgeExpired()).resolves.toBe(1);
+
+    expect(mediaStorageService.deleteMedia).toHaveBeenCalledWith(
+      'exports/user-1/export-1.zip',
+    );
+    expect(dataExportRepository.update).toHaveBeenCalledWith('export-1', {
+      status: DataExportStatus.EXPIRED,
+      file_key: null,
+      download_token_hash: null,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { createHash } from 'node:crypto';
+import { GoneException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataExportService } from '../../../src/modules/export/data-export.service';
+import { MediaStorageService } from '../../../src/modules/storage/media-storage.service';
+import {
+  DataExport,
+  DataExportStatus,
+} from '../../../src/entities/data-export.entity';
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let dataExportRepository: any;
+  let mediaStorageService: { getSignedUrl: jest.Mock };
+  let storedExport: Partial<DataExport> | null;
+
+  beforeEach(async () => {
+    storedExport = null;
+    dataExportRepository = {
+      findOne: jest.fn(),
+      find: jest.fn(),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 'export-1', ...data })),
+      createQueryBuilder: jest.fn(() => ({
+        addSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getOne: jest.fn(() => Promise.resolve(storedExport)),
+      })),
+    };
+    mediaStorageService = {
+      getSignedUrl: jest.fn().mockResolvedValue({
+        url: 'https://storage.example/exports/user-1/export-1.zip?sig=abc',
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        {
+          provide: getRepositoryToken(DataExport),
+          useValue: dataExportRepository,
+        },
+        { provide: MediaStorageService, useValue: mediaStorageService },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+  });
+
+  const completedExport = (token: string, expiresAt: Date) => {
+    storedExport = {
+      id: 'export-1',
+      status: DataExportStatus.COMPLETED,
+      file_key: 'exports/user-1/export-1.zip',
+      expires_at: expiresAt,
+      download_token_hash: createHash('sha256').update(token).digest('hex'),
+    };
+  };
+
+  it('should return the export in progress instead of starting another', async () => {
+    const inProgress = { id: 'export-0', status: DataExportStatus.PENDING };
+    dataExportRepository.findOne.mockResolvedValue(inProgress);
+
+    await expect(service.requestExport('user-1')).resolves.toBe(inProgress);
+    expect(dataExportRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should resolve a valid download link to a short-lived storage URL', async () => {
+    const { token } = service.createDownloadToken();
+    completedExport(token, new Date(Date.now() + 60 * 60 * 1000));
+
+    await expect(service.getDownloadUrl('export-1', token)).resolves.toBe(
+      'https://storage.example/exports/user-1/export-1.zip?sig=abc',
+    );
+    expect(mediaStorageService.getSignedUrl).toHaveBeenCalledWith(
+      'exports/user-1/export-1.zip',
+      300,
+    );
+  });
+
+  it('should reject a wrong token', async () => {
+    const { token } = service.createDownloadToken();
+    completedExport(token, new Date(Date.now() + 60 * 60 * 1000));
+
+    await expect(
+      service.getDownloadUrl('export-1', 'not-the-token'),
+    ).rejects.toThrow(NotFoundException);
+  });
+
+  it('should refuse links past their expiry', async () => {
+    const { token } = service.createDownloadToken();
+    completedExport(token, new Date(Date.now() - 1000));
+
+    await expect(service.getDownloadUrl('export-1', token)).rejects.toThrow(
+      GoneException,
+    );
+    expect(mediaStorageService.getSignedUrl).not.toHaveBeenCalled();
+  });
+});
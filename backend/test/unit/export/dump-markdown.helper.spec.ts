@@ -0,0 +1,80 @@
+import { DumpMarkdownHelper } from '../../../src/modules/export/helpers/dump-markdown.helper';
+import { ContentType, Dump } from '../../../src/entities/dump.entity';
+
+const dump = (overrides: Partial<Dump> = {}): Dump =>
+  ({
+    id: '1a2b3c4d-0000-4000-8000-000000000000',
+    created_at: new Date('2026-03-02T09:00:00Z'),
+    content_type: ContentType.VOICE,
+    raw_content: 'Call the plumber about the kitchen sink on Friday',
+    ai_summary: 'Call the plumber on Friday',
+    deleted_at: null,
+    extracted_entities: {
+      actionItems: ['Call the plumber'],
+      entities: {
+        dates: ['Friday'],
+        times: [],
+        locations: [],
+        people: ['plumber'],
+        organizations: [],
+        amounts: [],
+        contacts: { phones: [], emails: [], urls: [] },
+      },
+      metadata: { source: 'telegram' },
+    },
+    ...overrides,
+  }) as Dump;
+
+describe('DumpMarkdownHelper', () => {
+  it('should name notes by date so they sort chronologically', () => {
+    expect(DumpMarkdownHelper.fileName(dump())).toBe('2026-03-02-1a2b3c4d.md');
+  });
+
+  it('should render the dump with its details and media', () => {
+    const markdown = DumpMarkdownHelper.render(dump(), {
+      categoryName: 'Home',
+      tags: ['house'],
+      mediaPaths: ['../media/1a2b3c4d.ogg'],
+    });
+
+    expect(markdown).toContain('# Call the plumber on Friday');
+    expect(markdown).toContain('- **Date:** 2026-03-02T09:00:00.000Z');
+    expect(markdown).toContain('- **Source:** telegram');
+    expect(markdown).toContain('- **Category:** Home');
+    expect(markdown).toContain('- **Tags:** #house');
+    expect(markdown).toContain(
+      '## Content\n\nCall the plumber about the kitchen sink on Friday',
+    );
+    expect(markdown).toContain('## Action items\n\n- Call the plumber');
+    expect(markdown).toContain('- **Dates:** Friday');
+    expect(markdown).toContain('- **People:** plumber');
+    expect(markdown).not.toContain('**Places:**');
+    expect(markdown).toContain('- [Original 1](../media/1a2b3c4d.ogg)');
+  });
+
+  it('should title link dumps by the page title and flag trashed ones', () => {
+    const markdown = DumpMarkdownHelper.render(
+      dump({
+        content_type: ContentType.URL,
+        deleted_at: new Date('2026-03-05T10:00:00Z'),
+        extracted_entities: {
+          link: {
+            url: 'https://example.com/slow-reading',
+            title: 'The Case for Slow Reading',
+            siteName: 'Example Journal',
+            publishedAt: null,
+            excerpt: null,
+            wordCount: 1200,
+            readingMinutes: 6,
+          },
+        },
+      }),
+      { tags: [], mediaPaths: [] },
+    );
+
+    expect(markdown.split('\n')[0]).toBe('# The Case for Slow Reading');
+    expect(markdown).toContain('- **Link:** https://example.com/slow-reading');
+    expect(markdown).toContain('- **Deleted:** 2026-03-05T10:00:00.000Z');
+    expect(markdown).not.toContain('## Media');
+  });
+});
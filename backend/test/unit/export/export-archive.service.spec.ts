@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import JSZip from 'jszip';
+import { ExportArchiveService } from '../../../src/modules/export/export-archive.service';
+import { MediaStorageService } from '../../../src/modules/storage/media-storage.service';
+import { User } from '../../../src/entities/user.entity';
+import { Dump, ContentType } from '../../../src/entities/dump.entity';
+import { Reminder } from '../../../src/entities/reminder.entity';
+import { TrackableItem } from '../../../src/entities/trackable-item.entity';
+import { Feedback } from '../../../src/entities/feedback.entity';
+import { Category } from '../../../src/entities/category.entity';
+import { Task } from '../../../src/entities/task.entity';
+import { Tag } from '../../../src/entities/tag.entity';
+
+describe('ExportArchiveService', () => {
+  let service: ExportArchiveService;
+  let repositories: Record<string, { find: jest.Mock; findOne: jest.Mock }>;
+  let mediaStorageService: { downloadMedia: jest.Mock };
+
+  const voiceDump = {
+    id: 'aaaaaaaa-0000-0000-0000-000000000001',
+    user_id: 'user-1',
+    raw_content: 'Call the dentist',
+    ai_summary: 'Dentist appointment to book',
+    content_type: ContentType.VOICE,
+    media_url: 'media/user-1/voice-1.ogg',
+    content_vector: [0.1, 0.2],
+    category_id: 'category-1',
+    category: { id: 'category-1', name: 'Health' },
+    dump_tags: [{ tag: { name: 'health' } }],
+    extracted_entities: {},
+    created_at: new Date('2026-03-02T09:00:00Z'),
+    deleted_at: null,
+  } as unknown as Dump;
+
+  const trashedDump = {
+    id: 'bbbbbbbb-0000-0000-0000-000000000002',
+    user_id: 'user-1',
+    raw_content: 'Old receipt',
+    content_type: ContentType.IMAGE,
+    media_url: 'media/user-1/receipt.jpg',
+    media_pages: ['media/user-1/receipt-p2.jpg'],
+    category_id: null,
+    dump_tags: [],
+    extracted_entities: {},
+    created_at: new Date('2026-01-15T12:00:00Z'),
+    deleted_at: new Date('2026-02-01T08:00:00Z'),
+  } as unknown as Dump;
+
+  const repository = (rows: unknown[] = []) => ({
+    find: jest.fn().mockResolvedValue(rows),
+    findOne: jest.fn().mockResolvedValue(null),
+  });
+
+  const readJson = async (zip: JSZip, name: string) =>
+    JSON.parse(await zip.file(name)!.async('string'));
+
+  beforeEach(async () => {
+    repositories = {
+      user: repository(),
+      dump: repository([voiceDump, trashedDump]),
+      reminder: repository([{ id: 'reminder-1', user_id: 'user-1' }]),
+      trackableItem: repository(),
+      feedback: repository(),
+      category: repository([{ id: 'category-1', name: 'Health' }]),
+      task: repository([{ id: 'task-1', user_id: 'user-1' }]),
+      tag: repository([{ id: 'tag-1', name: 'health' }]),
+    };
+    repositories.user.findOne.mockResolvedValue({
+      id: 'user-1',
+      email: 'ana@example.com',
+    });
+    mediaStorageService = {
+      downloadMedia: jest.fn((key: string) =>
+        key === 'media/user-1/receipt-p2.jpg'
+          ? Promise.reject(new Error('NoSuchKey'))
+          : Promise.resolve(Buffer.from(`content of ${key}`)),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportArchiveService,
+        { provide: getRepositoryToken(User), useValue: repositories.user },
+        { provide: getRepositoryToken(Dump), useValue: repositories.dump },
+        {
+          provide: getRepositoryToken(Reminder),
+          useValue: repositories.reminder,
+        },
+        {
+          provide: getRepositoryToken(TrackableItem),
+          useValue: repositories.trackableItem,
+        },
+        {
+          provide: getRepositoryToken(Feedback),
+          useValue: repositories.feedback,
+        },
+        {
+          provide: getRepositoryToken(Category),
+          useValue: repositories.category,
+        },
+        { provide: getRepositoryToken(Task), useValue: repositories.task },
+        { provide: getRepositoryToken(Tag), useValue: repositories.tag },
+        { provide: MediaStorageService, useValue: mediaStorageService },
+      ],
+    }).compile();
+
+    service = module.get<ExportArchiveService>(ExportArchiveService);
+  });
+
+  it('should include trashed dumps and count every kind of record', async () => {
+    const archive = await service.buildArchive('user-1');
+
+    expect(repositories.dump.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { user_id: 'user-1' },
+        withDeleted: true,
+      }),
+    );
+    expect(archive.counts).toMatchObject({
+      dumps: 2,
+      reminders: 1,
+      tasks: 1,
+      tags: 1,
+      categories: 1,
+    });
+
+    const zip = await JSZip.loadAsync(archive.buffer);
+    const dumps = await readJson(zip, 'dumps.json');
+    expect(dumps.map((dump: Dump) => dump.id)).toEqual([
+      voiceDump.id,
+      trashedDump.id,
+    ]);
+    expect(dumps[0]).toMatchObject({
+      category: 'Health',
+      tags: ['health'],
+      media_files: ['media/voice-1.ogg'],
+    });
+    // The embedding is internal
+    expect(dumps[0].content_vector).toBeUndefined();
+    expect(dumps[1].deleted_at).toBe('2026-02-01T08:00:00.000Z');
+
+    expect(await readJson(zip, 'profile.json')).toMatchObject({
+      email: 'ana@example.com',
+    });
+    expect(await readJson(zip, 'tasks.json')).toEqual([
+      { id: 'task-1', user_id: 'user-1' },
+    ]);
+    expect(zip.file('README.md')).not.toBeNull();
+    expect(zip.file('dumps/2026-03-02-aaaaaaaa.md')).not.toBeNull();
+    expect(
+      await zip.file('dumps/2026-01-15-bbbbbbbb.md')!.async('string'),
+    ).toContain('**Deleted:** 2026-02-01T08:00:00.000Z');
+  });
+
+  it('should store the original media of every dump page', async () => {
+    const archive = await service.buildArchive('user-1');
+
+    const zip = await JSZip.loadAsync(archive.buffer);
+    expect(await zip.file('media/voice-1.ogg')!.async('string')).toBe(
+      'content of media/user-1/voice-1.ogg',
+    );
+    expect(await zip.file('media/receipt.jpg')!.async('string')).toBe(
+      'content of media/user-1/receipt.jpg',
+    );
+    expect(
+      await zip.file('dumps/2026-03-02-aaaaaaaa.md')!.async('string'),
+    ).toContain('../media/voice-1.ogg');
+  });
+
+  it('should report media it could not read instead of failing', async () => {
+    const archive = await service.buildArchive('user-1');
+
+    expect(archive.missingMedia).toEqual(['media/user-1/receipt-p2.jpg']);
+    const zip = await JSZip.loadAsync(archive.buffer);
+    expect(zip.file('media/receipt-p2.jpg')).toBeNull();
+    const dumps = await readJson(zip, 'dumps.json');
+    expect(dumps[1].media_files).toEqual(['media/receipt.jpg']);
+  });
+});
@@ -0,0 +1,185 @@
+import { ArticleExtractorService } from '../../../src/modules/links/article-extractor.service';
+import { GoogleKeepParser } from '../../../src/modules/import/parsers/google-keep.parser';
+import { EvernoteParser } from '../../../src/modules/import/parsers/evernote.parser';
+import { MarkdownParser } from '../../../src/modules/import/parsers/markdown.parser';
+import { WhatsAppChatParser } from '../../../src/modules/import/parsers/whatsapp-chat.parser';
+import { TelegramExportParser } from '../../../src/modules/import/parsers/telegram-export.parser';
+import { ImportFile } from '../../../src/modules/import/parsers/import-parser.interface';
+
+const file = (path: string, content: string | object): ImportFile => ({
+  path,
+  content: Buffer.from(
+    typeof content === 'string' ? content : JSON.stringify(content),
+  ),
+});
+
+describe('Import parsers', () => {
+  describe('GoogleKeepParser', () => {
+    const parser = new GoogleKeepParser();
+
+    it('should read notes and checklists with their dates and labels', () => {
+      const files = [
+        file('Takeout/Keep/Groceries.json', {
+          title: 'Groceries',
+          listContent: [
+            { text: 'Milk', isChecked: true },
+            { text: 'Bread', isChecked: false },
+          ],
+          labels: [{ name: 'home' }],
+          isTrashed: false,
+          createdTimestampUsec: 1577880000000000,
+        }),
+        file('Takeout/Keep/Old.json', {
+          textContent: 'Thrown away',
+          isTrashed: true,
+          createdTimestampUsec: 1577880000000000,
+        }),
+        file('Takeout/Keep/Labels.txt', 'home'),
+      ];
+
+      expect(parser.detect(files)).toBe(true);
+      expect(parser.parse(files)).toEqual([
+        {
+          externalId: 'Takeout/Keep/Groceries.json',
+          title: 'Groceries',
+          content: 'Groceries\n\n☑ Milk\n☐ Bread',
+          createdAt: new Date('2020-01-01T12:00:00Z'),
+          labels: ['home'],
+        },
+      ]);
+    });
+  });
+
+  describe('EvernoteParser', () => {
+    const parser = new EvernoteParser(new ArticleExtractorService());
+
+    it('should read ENML notes with their dates and tags', () => {
+      const enex = `<?xml version="1.0" encoding="UTF-8"?>
+<en-export application="Evernote">
+  <note>
+    <title>Trip ideas</title>
+    <content><![CDATA[<?xml version="1.0" encoding="UTF-8"?><en-note><div>Visit Porto</div><div>Try the francesinha</div></en-note>]]></content>
+    <created>20190315T081500Z</created>
+    <tag>travel</tag>
+  </note>
+</en-export>`;
+      const files = [file('My Notes.enex', enex)];
+
+      expect(parser.detect(files)).toBe(true);
+      const [note] = parser.parse(files);
+      expect(note.title).toBe('Trip ideas');
+      expect(note.content).toContain('Visit Porto');
+      expect(note.content).toContain('Try the francesinha');
+      expect(note.createdAt).toEqual(new Date('2019-03-15T08:15:00Z'));
+      expect(note.labels).toEqual(['travel']);
+    });
+  });
+
+  describe('MarkdownParser', () => {
+    const parser = new MarkdownParser();
+
+    it('should read notes and their frontmatter, skipping vault settings', () => {
+      const files = [
+        file(
+          'vault/Ideas/Book club.md',
+          '---\ncreated: 2021-06-01\ntags:\n  - reading\n  - "#social"\n---\nStart a book club at work',
+        ),
+        file('vault/.obsidian/workspace.md', 'layout'),
+        {
+          ...file('vault/Loose note.md', 'No frontmatter here'),
+          modifiedAt: new Date('2022-02-02T00:00:00Z'),
+        },
+      ];
+
+      const items = parser.parse(files);
+
+      expect(items).toHaveLength(2);
+      expect(items[0]).toMatchObject({
+        externalId: 'vault/Ideas/Book club.md',
+        title: 'Book club',
+        content: 'Book club\n\nStart a book club at work',
+        createdAt: new Date('2021-06-01'),
+        labels: ['reading', 'social'],
+      });
+      expect(items[1].createdAt).toEqual(new Date('2022-02-02T00:00:00Z'));
+    });
+  });
+
+  describe('WhatsAppChatParser', () => {
+    const parser = new WhatsAppChatParser();
+
+    it('should read Android exports, joining multi-line messages', () => {
+      const chat = [
+        '25/12/2023, 09:15 - Messages and calls are end-to-end encrypted.',
+        '25/12/2023, 09:16 - Ana: Remember the gift for Rui',
+        'and the wrapping paper',
+        '25/12/2023, 09:17 - Ana: <Media omitted>',
+        '26/12/2023, 21:03 - Me: Done',
+      ].join('\n');
+      const files = [file('WhatsApp Chat with Ana.txt', chat)];
+
+      expect(parser.detect(files)).toBe(true);
+      const items = parser.parse(files);
+
+      expect(items).toHaveLength(2);
+      expect(items[0]).toMatchObject({
+        content: 'Remember the gift for Rui\nand the wrapping paper',
+        sender: 'Ana',
+        createdAt: new Date('2023-12-25T09:16:00Z'),
+      });
+      expect(items[1].sender).toBe('Me');
+    });
+
+    it('should read iOS exports with month-first dates and AM/PM times', () => {
+      const chat = [
+        '[3/14/24, 1:05:09 PM] Ana: Pi day!',
+        '\u200e[3/14/24, 1:06:00 PM] Ana: \u200eimage omitted',
+      ].join('\n');
+
+      const items = parser.parse([file('_chat.txt', chat)]);
+
+      expect(items).toHaveLength(1);
+      expect(items[0].createdAt).toEqual(new Date('2024-03-14T13:05:09Z'));
+    });
+  });
+
+  describe('TelegramExportParser', () => {
+    const parser = new TelegramExportParser();
+
+    it('should read text messages, including formatted ones', () => {
+      const files = [
+        file('result.json', {
+          name: 'Saved Messages',
+          id: 777,
+          messages: [
+            {
+              id: 1,
+              type: 'message',
+              date_unixtime: '1700000000',
+              from: 'Rui',
+              text: ['Read ', { type: 'bold', text: 'Dune' }, ' again'],
+            },
+            { id: 2, type: 'service', action: 'pin_message', text: '' },
+            { id: 3, type: 'message', date: '2023-11-15T10:00:00', text: '' },
+          ],
+        }),
+      ];
+
+      expect(parser.detect(files)).toBe(true);
+      expect(parser.parse(files)).toEqual([
+        {
+          externalId: '777:1',
+          content: 'Read Dune again',
+          createdAt: new Date(1700000000 * 1000),
+          sender: 'Rui',
+        },
+      ]);
+    });
+
+    it('should not claim Google Keep notes', () => {
+      expect(
+        parser.detect([file('Keep/note.json', { textContent: 'Hi' })]),
+      ).toBe(false);
+    });
+  });
+});
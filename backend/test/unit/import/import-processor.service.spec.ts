@@ -0,0 +1,290 @@
+// Mock @xenova/transformers before any imports
+jest.mock('@xenova/transformers', () => ({
+  pipeline: jest.fn(),
+  env: {},
+}));
+
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { ImportProcessorService } from '../../../src/modules/import/import-processor.service';
+import {
+  DumpService,
+  DumpPipelineError,
+} from '../../../src/modules/dumps/services/dump.service';
+import { AiBudgetExceededError } from '../../../src/modules/ai/ai-budget.service';
+import { AiServiceUnavailableError } from '../../../src/modules/ai/fallback-handler.service';
+import {
+  ImportJob,
+  ImportJobStatus,
+} from '../../../src/entities/import-job.entity';
+import { Dump, ProcessingStatus } from '../../../src/entities/dump.entity';
+
+describe('ImportProcessorService', () => {
+  let service: ImportProcessorService;
+  let importJobRepository: any;
+  let dumpRepository: any;
+  let queryBuilder: any;
+  let dumpService: {
+    processDump: jest.Mock;
+    deferDump: jest.Mock;
+    markDumpFailed: jest.Mock;
+  };
+
+  const importJob = (overrides: Partial<ImportJob> = {}): ImportJob =>
+    ({
+      id: 'job-1',
+      user_id: 'user-1',
+      status: ImportJobStatus.PROCESSING,
+      processed_items: 0,
+      failed_items: 0,
+      ...overrides,
+    }) as ImportJob;
+
+  const statusCounts = (counts: Partial<Record<ProcessingStatus, number>>) =>
+    Object.entries(counts).map(([status, count]) => ({
+      status,
+      count: String(count),
+    }));
+
+  beforeEach(async () => {
+    queryBuilder = {
+      select: jest.fn().mockReturnThis(),
+      addSelect: jest.fn().mockReturnThis(),
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      groupBy: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      take: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+      getRawMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockReturnThis(),
+      set: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue({ affected: 0 }),
+    };
+    importJobRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      save: jest.fn((job) => Promise.resolve(job)),
+    };
+    dumpRepository = {
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    };
+    dumpService = {
+      processDump: jest.fn().mockResolvedValue({}),
+      deferDump: jest.fn().mockResolvedValue(undefined),
+      markDumpFailed: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportProcessorService,
+        {
+          provide: getRepositoryToken(ImportJob),
+          useValue: importJobRepository,
+        },
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+        { provide: DumpService, useValue: dumpService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => '2') },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportProcessorService>(ImportProcessorService);
+  });
+
+  it('should process a batch and complete the job once nothing is waiting', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      { id: 'dump-1' },
+      { id: 'dump-2' },
+    ]);
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({
+        [ProcessingStatus.COMPLETED]: 2,
+        [ProcessingStatus.FAILED]: 1,
+      }),
+    );
+    const job = importJob();
+
+    await expect(service.processBatch(job)).resolves.toBe(2);
+
+    expect(queryBuilder.take).toHaveBeenCalledWith(2);
+    expect(dumpService.processDump).toHaveBeenCalledTimes(2);
+    expect(importJobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: ImportJobStatus.COMPLETED,
+        processed_items: 2,
+        failed_items: 1,
+      }),
+    );
+  });
+
+  it('should put stale processing dumps back before picking the batch', async () => {
+    queryBuilder.execute.mockResolvedValue({ affected: 3 });
+
+    await service.processBatch(importJob());
+
+    expect(queryBuilder.set).toHaveBeenCalledWith({
+      processing_status: ProcessingStatus.RECEIVED,
+    });
+    expect(queryBuilder.where).toHaveBeenCalledWith('import_job_id = :jobId', {
+      jobId: 'job-1',
+    });
+    expect(queryBuilder.execute.mock.invocationCallOrder[0]).toBeLessThan(
+      queryBuilder.getMany.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should mark a dump failed when its processing fails', async () => {
+    queryBuilder.getMany.mockResolvedValue([
+      { id: 'dump-1' },
+      { id: 'dump-2' },
+    ]);
+    dumpService.processDump.mockRejectedValueOnce(
+      new DumpPipelineError('analyze', new Error('bad input')),
+    );
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({ [ProcessingStatus.RECEIVED]: 3 }),
+    );
+
+    await service.processBatch(importJob());
+
+    expect(dumpService.markDumpFailed).toHaveBeenCalledWith(
+      'dump-1',
+      'analyze step failed: bad input',
+    );
+    expect(dumpService.processDump).toHaveBeenCalledWith('dump-2');
+    expect(importJobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: ImportJobStatus.PROCESSING }),
+    );
+  });
+
+  it('should still update the job when a failed dump was trashed meanwhile', async () => {
+    queryBuilder.getMany.mockResolvedValue([{ id: 'dump-1' }]);
+    dumpService.processDump.mockRejectedValue(new Error('bad input'));
+    dumpService.markDumpFailed.mockRejectedValue(
+      new NotFoundException('Dump with ID dump-1 not found'),
+    );
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({ [ProcessingStatus.COMPLETED]: 1 }),
+    );
+
+    await expect(service.processBatch(importJob())).resolves.toBe(1);
+
+    expect(importJobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ status: ImportJobStatus.COMPLETED }),
+    );
+  });
+
+  it.each([
+    [
+      'the budget is used up',
+      new AiBudgetExceededError('user-1', new Date('2026-11-01')),
+    ],
+    [
+      'an AI breaker is open',
+      new AiServiceUnavailableError('llm-anthropic', new Date()),
+    ],
+  ])(
+    'should pause the job until the outage is over when %s',
+    async (_reason, outage) => {
+      queryBuilder.getMany.mockResolvedValue([
+        { id: 'dump-1' },
+        { id: 'dump-2' },
+      ]);
+      dumpService.processDump.mockRejectedValue(
+        new DumpPipelineError('extract', outage),
+      );
+      queryBuilder.getRawMany.mockResolvedValue(
+        statusCounts({ [ProcessingStatus.RECEIVED]: 2 }),
+      );
+
+      await expect(service.processBatch(importJob())).resolves.toBe(0);
+
+      expect(dumpService.processDump).toHaveBeenCalledTimes(1);
+      expect(dumpService.deferDump).toHaveBeenCalledWith('dump-1', outage);
+      expect(dumpService.markDumpFailed).not.toHaveBeenCalled();
+      expect(importJobRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: ImportJobStatus.PROCESSING,
+          paused_until: outage.retryAt,
+        }),
+      );
+    },
+  );
+
+  it('should leave a paused job alone and work the next one', async () => {
+    const pausedJob = importJob({ id: 'job-1' });
+    importJobRepository.find.mockResolvedValue([
+      pausedJob,
+      importJob({ id: 'job-2' }),
+    ]);
+    queryBuilder.getMany.mockResolvedValue([{ id: 'dump-1' }]);
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({ [ProcessingStatus.RECEIVED]: 1 }),
+    );
+    dumpService.processDump.mockRejectedValueOnce(
+      new DumpPipelineError(
+        'analyze',
+        new AiServiceUnavailableError(
+          'llm-anthropic',
+          new Date(Date.now() + 60000),
+        ),
+      ),
+    );
+
+    // The first tick pauses job-1 and goes on to job-2
+    await service.processImports();
+    expect(dumpService.processDump).toHaveBeenCalledTimes(2);
+    expect(pausedJob.paused_until).toBeInstanceOf(Date);
+
+    queryBuilder.getMany.mockClear();
+    dumpService.processDump.mockClear();
+    importJobRepository.save.mockClear();
+
+    // The second tick does not touch job-1 at all
+    await service.processImports();
+    expect(queryBuilder.getMany).toHaveBeenCalledTimes(1);
+    expect(dumpService.processDump).toHaveBeenCalledTimes(1);
+    expect(importJobRepository.save).toHaveBeenCalledTimes(1);
+    expect(importJobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-2' }),
+    );
+  });
+
+  it('should resume a job once its pause is over', async () => {
+    const job = importJob({ paused_until: new Date(Date.now() - 1000) });
+    queryBuilder.getMany.mockResolvedValue([{ id: 'dump-1' }]);
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({ [ProcessingStatus.RECEIVED]: 1 }),
+    );
+
+    await expect(service.processBatch(job)).resolves.toBe(1);
+
+    expect(dumpService.processDump).toHaveBeenCalledWith('dump-1');
+    expect(importJobRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ paused_until: null }),
+    );
+  });
+
+  it('should move on to the next job when a job has no dump due', async () => {
+    importJobRepository.find.mockResolvedValue([
+      importJob({ id: 'job-1' }),
+      importJob({ id: 'job-2' }),
+      importJob({ id: 'job-3' }),
+    ]);
+    queryBuilder.getMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ id: 'dump-2' }]);
+    queryBuilder.getRawMany.mockResolvedValue(
+      statusCounts({ [ProcessingStatus.RECEIVED]: 1 }),
+    );
+
+    await service.processImports();
+
+    expect(dumpService.processDump).toHaveBeenCalledWith('dump-2');
+    expect(queryBuilder.getMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,174 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import JSZip from 'jszip';
+import { ImportService } from '../../../src/modules/import/import.service';
+import { TagService } from '../../../src/modules/tags/tag.service';
+import { ArticleExtractorService } from '../../../src/modules/links/article-extractor.service';
+import { GoogleKeepParser } from '../../../src/modules/import/parsers/google-keep.parser';
+import { EvernoteParser } from '../../../src/modules/import/parsers/evernote.parser';
+import { MarkdownParser } from '../../../src/modules/import/parsers/markdown.parser';
+import { WhatsAppChatParser } from '../../../src/modules/import/parsers/whatsapp-chat.parser';
+import { TelegramExportParser } from '../../../src/modules/import/parsers/telegram-export.parser';
+import {
+  ImportJob,
+  ImportJobStatus,
+  ImportSource,
+} from '../../../src/entities/import-job.entity';
+import { Dump, ProcessingStatus } from '../../../src/entities/dump.entity';
+
+const keepNote = (title: string) => ({
+  title,
+  textContent: `${title} body`,
+  labels: [{ name: 'keep' }],
+  createdTimestampUsec: 1577880000000000,
+});
+
+describe('ImportService', () => {
+  let service: ImportService;
+  let importJobRepository: any;
+  let dumpRepository: any;
+  let tagService: { addTagsToDump: jest.Mock };
+  let insertValues: jest.Mock;
+  let insertedKeys: (keys: string[]) => string[];
+
+  beforeEach(async () => {
+    // By default every item is new
+    insertedKeys = (keys) => keys;
+    insertValues = jest.fn();
+    const insertBuilder = {
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: insertValues.mockImplementation(function (this: unknown) {
+        return this;
+      }),
+      orIgnore: jest.fn().mockReturnThis(),
+      returning: jest.fn().mockReturnThis(),
+      execute: jest.fn(() => {
+        const rows = insertValues.mock.lastCall[0];
+        return Promise.resolve({
+          raw: insertedKeys(rows.map((row: Dump) => row.ingestion_key)).map(
+            (key, index) => ({ id: `dump-${index}`, ingestion_key: key }),
+          ),
+        });
+      }),
+    };
+
+    importJobRepository = {
+      create: jest.fn((job) => ({
+        skipped_items: 0,
+        processed_items: 0,
+        failed_items: 0,
+        status: ImportJobStatus.PROCESSING,
+        ...job,
+      })),
+      save: jest.fn((job) => Promise.resolve({ id: 'job-1', ...job })),
+      findOne: jest.fn(),
+    };
+    dumpRepository = {
+      create: jest.fn((dump) => dump),
+      createQueryBuilder: jest.fn(() => insertBuilder),
+    };
+    tagService = { addTagsToDump: jest.fn().mockResolvedValue([]) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportService,
+        GoogleKeepParser,
+        EvernoteParser,
+        MarkdownParser,
+        WhatsAppChatParser,
+        TelegramExportParser,
+        ArticleExtractorService,
+        { provide: TagService, useValue: tagService },
+        {
+          provide: getRepositoryToken(ImportJob),
+          useValue: importJobRepository,
+        },
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+      ],
+    }).compile();
+
+    service = module.get<ImportService>(ImportService);
+  });
+
+  it('should unpack a Takeout zip into received dumps with original dates', async () => {
+    const zip = new JSZip();
+    zip.file('Takeout/Keep/First.json', JSON.stringify(keepNote('First')));
+    zip.file('Takeout/Keep/Second.json', JSON.stringify(keepNote('Second')));
+    zip.file('Takeout/Keep/photo.png', Buffer.from('not a note'));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const job = await service.startImport('user-1', {
+      originalname: 'takeout.zip',
+      buffer,
+    });
+
+    expect(job).toMatchObject({
+      source: ImportSource.GOOGLE_KEEP,
+      file_name: 'takeout.zip',
+      total_items: 2,
+      skipped_items: 0,
+      status: ImportJobStatus.PROCESSING,
+    });
+    const rows = insertValues.mock.calls[0][0];
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      user_id: 'user-1',
+      import_job_id: 'job-1',
+      ingestion_key: 'import:user-1:google_keep:Takeout/Keep/First.json',
+      processing_status: ProcessingStatus.RECEIVED,
+      created_at: new Date('2020-01-01T12:00:00Z'),
+    });
+    expect(tagService.addTagsToDump).toHaveBeenCalledWith(
+      { id: 'dump-0', user_id: 'user-1' },
+      ['keep'],
+    );
+  });
+
+  it('should skip items imported before and complete a job with nothing new', async () => {
+    insertedKeys = () => [];
+    const buffer = Buffer.from(
+      '12/25/23, 9:16 AM - Ana: Remember the gift\n12/25/23, 9:20 AM - Ana: And the card',
+    );
+
+    const job = await service.startImport('user-1', {
+      originalname: 'WhatsApp Chat with Ana.txt',
+      buffer,
+    });
+
+    expect(job).toMatchObject({
+      source: ImportSource.WHATSAPP,
+      total_items: 2,
+      skipped_items: 2,
+      status: ImportJobStatus.COMPLETED,
+    });
+  });
+
+  it('should reject uploads that are not a known export', async () => {
+    await expect(
+      service.startImport('user-1', {
+        originalname: 'photo.png',
+        buffer: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should report progress of a running import', async () => {
+    importJobRepository.findOne.mockResolvedValue({
+      id: 'job-1',
+      status: ImportJobStatus.PROCESSING,
+      total_items: 10,
+      skipped_items: 2,
+      processed_items: 3,
+      failed_items: 1,
+    });
+
+    const job = await service.getJob('user-1', 'job-1');
+
+    expect(job.progress).toBe(50);
+    expect(importJobRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 'job-1', user_id: 'user-1' },
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LinkCaptureService } from '../../../src/modules/links/link-capture.service';
+import { ArticleExtractorService } from '../../../src/modules/links/article-extractor.service';
+import { HttpPageFetcher } from '../../../src/modules/links/fetchers/http-page-fetcher';
+import { PAGE_FETCHER } from '../../../src/modules/links/fetchers/page-fetcher.interface';
+
+const paragraph =
+  'Slow reading is the habit of giving a single text your full attention, ' +
+  'without skimming or switching tabs halfway through the argument.';
+
+const articleHtml = `<!doctype html>
+<html>
+  <head>
+    <title>Ignored tab title</title>
+    <meta property="og:title" content="The Case for Slow Reading" />
+    <meta property="og:site_name" content="Example Journal" />
+    <meta property="article:published_time" content="2026-03-02T09:00:00Z" />
+    <meta name="description" content="Why reading less, more carefully, pays off." />
+  </head>
+  <body>
+    <nav><a href="/">Home</a><p>Subscribe to our newsletter for weekly updates and more</p></nav>
+    <article>
+      <h1>The Case for Slow Reading</h1>
+      ${Array.from({ length: 60 }, () => `<p>${paragraph}</p>`).join('\n')}
+    </article>
+    <footer><p>Copyright Example Journal, all rights reserved worldwide.</p></footer>
+  </body>
+</html>`;
+
+describe('LinkCaptureService', () => {
+  let service: LinkCaptureService;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/article') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(articleHtml);
+      } else if (req.url === '/moved') {
+        res.writeHead(301, { Location: '/article' });
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LinkCaptureService,
+        ArticleExtractorService,
+        {
+          provide: PAGE_FETCHER,
+          useValue: new HttpPageFetcher({
+            timeoutMs: 2000,
+            maxBytes: 1024 * 1024,
+            userAgent: 'test',
+            allowPrivateHosts: true,
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<LinkCaptureService>(LinkCaptureService);
+  });
+
+  describe('isLinkMessage', () => {
+    it('should accept a link with a short note', () => {
+      expect(service.isLinkMessage('https://example.com/post')).toBe(true);
+      expect(service.isLinkMessage('great thread www.example.com/x')).toBe(
+        true,
+      );
+    });
+
+    it('should treat long notes and plain text as regular dumps', () => {
+      expect(service.isLinkMessage('Buy milk tomorrow')).toBe(false);
+      expect(
+        service.isLinkMessage(`${'a'.repeat(300)} https://example.com/post`),
+      ).toBe(false);
+    });
+  });
+
+  describe('capture', () => {
+    it('should extract the article, title, site name, date and reading time', async () => {
+      const result = await service.capture(`${baseUrl}/article`);
+
+      expect(result.link).toEqual(
+        expect.objectContaining({
+          url: `${baseUrl}/article`,
+          title: 'The Case for Slow Reading',
+          siteName: 'Example Journal',
+          publishedAt: '2026-03-02T09:00:00.000Z',
+          excerpt: 'Why reading less, more carefully, pays off.',
+          readingMinutes: 6,
+        }),
+      );
+      expect(result.link.fetchError).toBeUndefined();
+      expect(result.content).toContain(paragraph);
+      expect(result.content).not.toContain('Subscribe to our newsletter');
+      expect(result.content).not.toContain('all rights reserved');
+    });
+
+    it('should keep the note, follow redirects and flag read later', async () => {
+      const result = await service.capture(
+        `for the weekend ${baseUrl}/moved #readlater`,
+      );
+
+      expect(result.readLater).toBe(true);
+      expect(result.note).toBe('for the weekend');
+      expect(result.link.finalUrl).toBe(`${baseUrl}/article`);
+      expect(result.content.startsWith('for the weekend')).toBe(true);
+    });
+
+    it('should fall back to the message when the page cannot be fetched', async () => {
+      const message = `${baseUrl}/missing read later`;
+
+      const result = await service.capture(message);
+
+      expect(result.link.fetchError).toBe('Page answered 404');
+      expect(result.link.title).toBeNull();
+      expect(result.readLater).toBe(true);
+      expect(result.content).toBe(message);
+    });
+  });
+
+  describe('HttpPageFetcher', () => {
+    it('should refuse private addresses unless allowed', async () => {
+      const fetcher = new HttpPageFetcher({
+        timeoutMs: 2000,
+        maxBytes: 1024,
+        userAgent: 'test',
+        allowPrivateHosts: false,
+      });
+
+      await expect(fetcher.fetch(`${baseUrl}/article`)).rejects.toThrow(
+        'Refusing to fetch a private address',
+      );
+    });
+  });
+});
@@ -11,11 +11,16 @@ import { ReminderService } from '../../../src/modules/reminders/reminder.service
 import { ReminderStatus } from '../../../src/entities/reminder.entity';
 import { Repository } from 'typeorm';
 import { TranslationService } from '../../../src/modules/ai/translation.service';
+import { AiBudgetService } from '../../../src/modules/ai/ai-budget.service';
+import { TaskService } from '../../../src/modules/tasks/task.service';
+import { ReadingQueueService } from '../../../src/modules/dumps/services/reading-queue.service';
 
 describe('DigestService', () => {
   let service: DigestService;
   let dumpRepository: jest.Mocked<Repository<Dump>>;
   let reminderService: jest.Mocked<ReminderService>;
+  let taskService: { getTasksDueBy: jest.Mock; getProgress: jest.Mock };
+  let readingQueueService: { getQueue: jest.Mock };
 
   const mockDump: Partial<Dump> = {
     id: 'dump-123',
@@ -71,6 +76,15 @@ describe('DigestService', () => {
       translateBatch: jest.fn().mockResolvedValue(['Translated text']),
     };
 
+    taskService = {
+      getTasksDueBy: jest.fn().mockResolvedValue([]),
+      getProgress: jest.fn().mockResolvedValue(new Map()),
+    };
+
+    readingQueueService = {
+      getQueue: jest.fn().mockResolvedValue([]),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         DigestService,
@@ -90,6 +104,18 @@ describe('DigestService', () => {
           provide: TranslationService,
           useValue: mockTranslationService,
         },
+        {
+          provide: TaskService,
+          useValue: taskService,
+        },
+        {
+          provide: ReadingQueueService,
+          useValue: readingQueueService,
+        },
+        {
+          provide: AiBudgetService,
+          useValue: { isOverSoftLimit: jest.fn().mockResolvedValue(false) },
+        },
       ],
     }).compile();
 
@@ -143,6 +169,115 @@ describe('DigestService', () => {
       expect(result.sections).toHaveLength(0);
       expect(result.summary.totalItems).toBe(0);
     });
+
+    it('should list open tasks due today, overdue ones included', async () => {
+      dumpRepository.find.mockResolvedValue([]);
+      reminderService.getUserReminders.mockResolvedValue([]);
+      reminderService.getUpcomingReminders.mockResolvedValue([]);
+      taskService.getTasksDueBy.mockResolvedValue([
+        {
+          id: 'task-1',
+          title: 'Pay electricity bill',
+          due_date: new Date(Date.now() - 60 * 60 * 1000),
+          estimated_minutes: 10,
+        },
+      ]);
+
+      const result = await service.generateDailyDigest('user-123');
+
+      expect(taskService.getTasksDueBy).toHaveBeenCalledWith(
+        'user-123',
+        expect.any(Date),
+      );
+      const tasksSection = result.sections.find(
+        (section) => section.title === '✅ Tasks Due Today',
+      );
+      expect(tasksSection?.items).toEqual([
+        expect.objectContaining({
+          id: 'task-1',
+          type: 'task',
+          title: 'Pay electricity bill',
+          summary: 'Overdue · ~10 min',
+        }),
+      ]);
+    });
+
+    it('should show only the next step of a broken-down task', async () => {
+      dumpRepository.find.mockResolvedValue([]);
+      reminderService.getUserReminders.mockResolvedValue([]);
+      reminderService.getUpcomingReminders.mockResolvedValue([]);
+      taskService.getTasksDueBy.mockResolvedValue([
+        {
+          id: 'task-1',
+          title: 'Do my taxes',
+          due_date: new Date(Date.now() - 60 * 60 * 1000),
+          estimated_minutes: 120,
+        },
+      ]);
+      taskService.getProgress.mockResolvedValue(
+        new Map([
+          [
+            'task-1',
+            {
+              nextStep: {
+                id: 'step-2',
+                title: 'Download bank statements',
+                estimated_minutes: 15,
+              },
+              completed: 1,
+              total: 4,
+            },
+          ],
+        ]),
+      );
+
+      const result = await service.generateDailyDigest('user-123');
+
+      expect(taskService.getProgress).toHaveBeenCalledWith('user-123', [
+        'task-1',
+      ]);
+      const tasksSection = result.sections.find(
+        (section) => section.title === '✅ Tasks Due Today',
+      );
+      expect(tasksSection?.items).toEqual([
+        expect.objectContaining({
+          id: 'task-1',
+          title: 'Download bank statements',
+          summary: 'Overdue · Next step of "Do my taxes" (1/4 done) · ~15 min',
+        }),
+      ]);
+    });
+
+    it('should list links saved to read later', async () => {
+      dumpRepository.find.mockResolvedValue([]);
+      reminderService.getUserReminders.mockResolvedValue([]);
+      reminderService.getUpcomingReminders.mockResolvedValue([]);
+      readingQueueService.getQueue.mockResolvedValue([
+        {
+          dumpId: 'dump-9',
+          url: 'https://example.com/post',
+          title: 'How to read more',
+          siteName: 'Example Blog',
+          readingMinutes: 7,
+          publishedAt: null,
+          savedAt: new Date(),
+        },
+      ]);
+
+      const result = await service.generateDailyDigest('user-123');
+
+      expect(readingQueueService.getQueue).toHaveBeenCalledWith('user-123', 5);
+      const readingSection = result.sections.find(
+        (section) => section.title === '📚 Reading Queue',
+      );
+      expect(readingSection?.items).toEqual([
+        expect.objectContaining({
+          id: 'dump-9',
+          title: 'How to read more',
+          summary: 'Example Blog · ~7 min read',
+        }),
+      ]);
+    });
   });
 
   describe('generateMorningDigest', () => {
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ProactiveService } from '../../../src/modules/notifications/proactive.service';
 import { ReminderService } from '../../../src/modules/reminders/reminder.service';
 import { ClaudeService } from '../../../src/modules/ai/claude.service';
+import { AiBudgetService } from '../../../src/modules/ai/ai-budget.service';
+import { PromptRegistryService } from '../../../src/modules/ai/prompts/prompt-registry.service';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import {
   Dump,
@@ -66,6 +68,22 @@ describe('ProactiveService', () => {
           provide: ClaudeService,
           useValue: mockClaudeService,
         },
+        {
+          provide: AiBudgetService,
+          useValue: {
+            getStatus: jest.fn().mockResolvedValue({ level: 'ok' }),
+          },
+        },
+        {
+          provide: PromptRegistryService,
+          useValue: {
+            render: jest.fn(async (key: string) => ({
+              key,
+              version: 1,
+              text: 'prompt',
+            })),
+          },
+        },
         {
           provide: getRepositoryToken(Dump),
           useValue: mockDumpRepo,
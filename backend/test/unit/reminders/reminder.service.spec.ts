@@ -22,6 +22,20 @@ describe('ReminderService', () => {
     created_at: new Date(),
   };
 
+  const mockDueQuery = (reminders: Partial<Reminder>[]) => {
+    const queryBuilder = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      leftJoinAndSelect: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue(reminders),
+    };
+    (reminderRepository.createQueryBuilder as jest.Mock).mockReturnValue(
+      queryBuilder,
+    );
+    return queryBuilder;
+  };
+
   beforeEach(async () => {
     const mockRepository = {
       create: jest.fn(),
@@ -138,21 +152,33 @@ describe('ReminderService', () => {
         { ...mockReminder, scheduled_for: new Date(now.getTime() - 2000) },
       ];
 
-      reminderRepository.find.mockResolvedValue(pendingReminders as any);
+      const queryBuilder = mockDueQuery(pendingReminders);
 
       const result = await service.getPendingReminders(now);
 
       expect(result).toHaveLength(2);
-      expect(reminderRepository.find).toHaveBeenCalledWith({
-        where: {
-          status: ReminderStatus.PENDING,
-          scheduled_for: expect.any(Object), // LessThan matcher
-        },
-        relations: ['user', 'dump'],
-        order: {
-          scheduled_for: 'ASC',
-        },
-      });
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'reminder.status = :status',
+        { status: ReminderStatus.PENDING },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'reminder.scheduled_for < :cutoffDate',
+        { cutoffDate: now },
+      );
+      expect(queryBuilder.leftJoinAndSelect).toHaveBeenCalledWith(
+        'reminder.user',
+        'user',
+      );
+    });
+
+    it('should hold back reminders of trashed dumps', async () => {
+      const queryBuilder = mockDueQuery([]);
+
+      await service.getPendingReminders();
+
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('trashed.deleted_at IS NOT NULL'),
+      );
     });
   });
 
@@ -198,22 +224,18 @@ describe('ReminderService', () => {
     it('should return reminders in the next 24 hours', async () => {
       const upcomingReminders = [mockReminder, mockReminder];
 
-      reminderRepository.find.mockResolvedValue(upcomingReminders as any);
+      const queryBuilder = mockDueQuery(upcomingReminders);
 
       const result = await service.getUpcomingReminders('user-123', 24);
 
       expect(result).toHaveLength(2);
-      expect(reminderRepository.find).toHaveBeenCalledWith({
-        where: {
-          user_id: 'user-123',
-          status: ReminderStatus.PENDING,
-          scheduled_for: expect.any(Object), // Between matcher
-        },
-        relations: ['dump'],
-        order: {
-          scheduled_for: 'ASC',
-        },
-      });
+      expect(queryBuilder.where).toHaveBeenCalledWith(
+        'reminder.user_id = :userId',
+        { userId: 'user-123' },
+      );
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        expect.stringContaining('trashed.deleted_at IS NOT NULL'),
+      );
     });
   });
 
@@ -0,0 +1,127 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { ConfigService } from '@nestjs/config';
+import { MediaStorageService } from '../../../src/modules/storage/media-storage.service';
+import { LocalStorageBackend } from '../../../src/modules/storage/backends/local-storage.backend';
+
+describe('MediaStorageService (local backend)', () => {
+  let rootDir: string;
+  let backend: LocalStorageBackend;
+  let service: MediaStorageService;
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'media-storage-'));
+    backend = new LocalStorageBackend({
+      rootDir,
+      publicBaseUrl: 'http://localhost:3000',
+      signingSecret: 'test-secret',
+    });
+    service = new MediaStorageService(backend, {
+      get: jest.fn().mockReturnValue(undefined),
+    } as unknown as ConfigService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store media under the user folder using the file extension', async () => {
+    const key = await service.storeDumpMedia(
+      'user-1',
+      'dump-1',
+      Buffer.from('receipt'),
+      { mimeType: 'application/pdf', fileName: 'Receipt.PDF' },
+    );
+
+    expect(key).toBe('user-1/dump-1.pdf');
+    await expect(service.downloadMedia(key)).resolves.toEqual(
+      Buffer.from('receipt'),
+    );
+  });
+
+  it('should fall back to the MIME type when there is no file name', async () => {
+    const key = await service.storeDumpMedia(
+      'user-1',
+      'dump-2',
+      Buffer.from('voice'),
+      { mimeType: 'audio/ogg; codecs=opus' },
+    );
+
+    expect(key).toBe('user-1/dump-2.ogg');
+  });
+
+  it('should give later pages of a dump their own key', async () => {
+    const first = await service.storeDumpMedia(
+      'user-1',
+      'dump-4',
+      Buffer.from('page 1'),
+      { mimeType: 'image/jpeg', page: 1 },
+    );
+    const second = await service.storeDumpMedia(
+      'user-1',
+      'dump-4',
+      Buffer.from('page 2'),
+      { mimeType: 'image/jpeg', page: 2 },
+    );
+
+    expect(first).toBe('user-1/dump-4.jpg');
+    expect(second).toBe('user-1/dump-4-p2.jpg');
+  });
+
+  it('should generate signed URLs that verify and expire', async () => {
+    const key = await service.storeDumpMedia(
+      'user-1',
+      'dump-3',
+      Buffer.from('photo'),
+      { mimeType: 'image/jpeg' },
+    );
+
+    const signed = await service.getSignedUrl(key, 60);
+    const url = new URL(signed.url);
+
+    expect(signed.expiresIn).toBe(60);
+    expect(url.pathname).toBe('/api/media/local');
+    expect(
+      backend.verifySignature(
+        url.searchParams.get('path')!,
+        Number(url.searchParams.get('expires')),
+        url.searchParams.get('signature')!,
+      ),
+    ).toBe(true);
+    expect(
+      backend.verifySignature(
+        'user-2/dump-3.jpg',
+        Number(url.searchParams.get('expires')),
+        url.searchParams.get('signature')!,
+      ),
+    ).toBe(false);
+    expect(
+      backend.verifySignature(key, Math.floor(Date.now() / 1000) - 1, 'x'),
+    ).toBe(false);
+  });
+
+  it('should cap the signed URL lifetime', async () => {
+    const key = await service.storeDumpMedia(
+      'user-1',
+      'dump-4',
+      Buffer.from('x'),
+    );
+
+    const signed = await service.getSignedUrl(key, 86400);
+
+    expect(signed.expiresIn).toBe(3600);
+  });
+
+  it('should delete media and report failures without throwing', async () => {
+    const key = await service.storeDumpMedia(
+      'user-1',
+      'dump-5',
+      Buffer.from('x'),
+    );
+
+    await expect(service.deleteMedia(key)).resolves.toBe(true);
+    await expect(service.downloadMedia(key)).rejects.toThrow();
+    await expect(service.deleteMedia('../outside.txt')).resolves.toBe(false);
+  });
+});
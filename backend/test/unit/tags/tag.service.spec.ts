@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { TagService } from '../../../src/modules/tags/tag.service';
+import { Tag } from '../../../src/entities/tag.entity';
+import { DumpTag, TagSource } from '../../../src/entities/dump-tag.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+
+describe('TagService', () => {
+  let service: TagService;
+  let tagRepository: any;
+  let dumpTagRepository: any;
+  let dumpRepository: any;
+  let insertValues: jest.Mock;
+
+  beforeEach(async () => {
+    insertValues = jest.fn().mockReturnThis();
+    const insertBuilder = () => ({
+      insert: jest.fn().mockReturnThis(),
+      into: jest.fn().mockReturnThis(),
+      values: insertValues,
+      orIgnore: jest.fn().mockReturnThis(),
+      execute: jest.fn().mockResolvedValue(undefined),
+    });
+
+    tagRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      createQueryBuilder: jest.fn(insertBuilder),
+    };
+    dumpTagRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      createQueryBuilder: jest.fn(insertBuilder),
+    };
+    dumpRepository = {
+      findOne: jest.fn(),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagService,
+        { provide: getRepositoryToken(Tag), useValue: tagRepository },
+        { provide: getRepositoryToken(DumpTag), useValue: dumpTagRepository },
+        { provide: getRepositoryToken(Dump), useValue: dumpRepository },
+      ],
+    }).compile();
+
+    service = module.get<TagService>(TagService);
+  });
+
+  it('should normalize tag names', () => {
+    expect(service.normalizeName('#House Renovation')).toBe('house-renovation');
+    expect(service.normalizeName('  Obras/Casa!  ')).toBe('obras-casa');
+    expect(service.normalizeName('###')).toBe('');
+  });
+
+  it('should parse hashtags from message text', () => {
+    expect(
+      service.parseHashtags(
+        'Tile quote €1200 #house-renovation #Casa #casa, see example.com/#anchor',
+      ),
+    ).toEqual(['house-renovation', 'casa']);
+  });
+
+  it('should apply suggestions matching existing tags and keep the rest', async () => {
+    const renovation = { id: 'tag-1', name: 'house-renovation' };
+    tagRepository.find.mockResolvedValue([renovation]);
+    const dump = {
+      id: 'dump-1',
+      user_id: 'user-1',
+      extracted_entities: { actionItems: ['Call the plumber'] },
+    } as unknown as Dump;
+
+    const result = await service.applySuggestedTags(dump, [
+      'House Renovation',
+      'plumbing',
+    ]);
+
+    expect(result).toEqual({
+      applied: ['house-renovation'],
+      suggested: ['plumbing'],
+    });
+    expect(insertValues).toHaveBeenCalledWith([
+      { dump_id: 'dump-1', tag_id: 'tag-1', source: TagSource.AI },
+    ]);
+    expect(dumpRepository.update).toHaveBeenCalledWith('dump-1', {
+      extracted_entities: {
+        actionItems: ['Call the plumber'],
+        suggestedTags: ['plumbing'],
+      },
+    });
+  });
+});
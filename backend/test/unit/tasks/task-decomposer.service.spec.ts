@@ -0,0 +1,157 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { TaskDecomposerService } from '../../../src/modules/tasks/task-decomposer.service';
+import { TaskService } from '../../../src/modules/tasks/task.service';
+import { ClaudeService } from '../../../src/modules/ai/claude.service';
+import { MetricsService } from '../../../src/modules/metrics/metrics.service';
+import {
+  Task,
+  TaskPriority,
+  TaskSource,
+  TaskStatus,
+} from '../../../src/entities/task.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+
+describe('TaskDecomposerService', () => {
+  let service: TaskDecomposerService;
+  let taskRepository: any;
+  let taskService: { getTaskById: jest.Mock; createTask: jest.Mock };
+  let claudeService: { queryStructured: jest.Mock };
+
+  const parentTask = (overrides: Partial<Task> = {}): Task =>
+    ({
+      id: 'task-1',
+      user_id: 'user-1',
+      dump_id: null,
+      parent_task_id: null,
+      title: 'Do my taxes',
+      notes: null,
+      estimated_minutes: null,
+      status: TaskStatus.PENDING,
+      priority: TaskPriority.HIGH,
+      needs_breakdown: true,
+      ...overrides,
+    }) as Task;
+
+  beforeEach(async () => {
+    taskRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      delete: jest.fn(),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve(data)),
+    };
+    taskService = {
+      getTaskById: jest.fn().mockResolvedValue(parentTask()),
+      createTask: jest.fn(),
+    };
+    claudeService = {
+      queryStructured: jest.fn().mockResolvedValue([
+        { title: "Find last year's tax return", estimatedMinutes: 10 },
+        { title: 'Download bank statements', estimatedMinutes: 20 },
+        { title: 'Fill in the online form', estimatedMinutes: 45 },
+      ]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskDecomposerService,
+        { provide: getRepositoryToken(Task), useValue: taskRepository },
+        { provide: getRepositoryToken(Dump), useValue: { findOne: jest.fn() } },
+        { provide: TaskService, useValue: taskService },
+        { provide: ClaudeService, useValue: claudeService },
+        {
+          provide: MetricsService,
+          useValue: { fireAndForget: jest.fn(), trackAI: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TaskDecomposerService>(TaskDecomposerService);
+  });
+
+  it('should store ordered steps and start the parent task', async () => {
+    const result = await service.breakDownTask('user-1', 'task-1');
+
+    expect(result.subtasks).toEqual([
+      expect.objectContaining({
+        parent_task_id: 'task-1',
+        title: "Find last year's tax return",
+        estimated_minutes: 10,
+        sort_order: 0,
+        priority: TaskPriority.HIGH,
+        source: TaskSource.BREAKDOWN,
+      }),
+      expect.objectContaining({
+        title: 'Download bank statements',
+        sort_order: 1,
+      }),
+      expect.objectContaining({
+        title: 'Fill in the online form',
+        sort_order: 2,
+      }),
+    ]);
+    expect(result.task).toEqual(
+      expect.objectContaining({
+        status: TaskStatus.IN_PROGRESS,
+        needs_breakdown: false,
+        estimated_minutes: 75,
+      }),
+    );
+  });
+
+  it('should keep completed steps and replace the rest when re-run', async () => {
+    taskService.getTaskById.mockResolvedValue(
+      parentTask({ status: TaskStatus.IN_PROGRESS, estimated_minutes: 90 }),
+    );
+    taskRepository.find.mockResolvedValue([
+      {
+        id: 'step-1',
+        parent_task_id: 'task-1',
+        title: "Find last year's tax return",
+        status: TaskStatus.COMPLETED,
+      },
+      {
+        id: 'step-2',
+        parent_task_id: 'task-1',
+        title: 'Ask the accountant',
+        status: TaskStatus.PENDING,
+      },
+    ]);
+
+    const result = await service.breakDownTask('user-1', 'task-1');
+
+    expect(taskRepository.delete).toHaveBeenCalledTimes(1);
+    expect(claudeService.queryStructured).toHaveBeenCalledWith(
+      expect.stringContaining("Already done: Find last year's tax return"),
+      'task_breakdown',
+      expect.any(Object),
+    );
+    expect(result.subtasks[0]).toEqual(
+      expect.objectContaining({ id: 'step-1', status: TaskStatus.COMPLETED }),
+    );
+    expect(result.subtasks[1]).toEqual(
+      expect.objectContaining({ sort_order: 1 }),
+    );
+    expect(result.task.estimated_minutes).toBe(90);
+  });
+
+  it('should refuse to break down steps or closed tasks', async () => {
+    taskService.getTaskById.mockResolvedValueOnce(
+      parentTask({ parent_task_id: 'task-0' }),
+    );
+    await expect(service.breakDownTask('user-1', 'task-1')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    taskService.getTaskById.mockResolvedValueOnce(
+      parentTask({ status: TaskStatus.COMPLETED }),
+    );
+    await expect(service.breakDownTask('user-1', 'task-1')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    expect(claudeService.queryStructured).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { In } from 'typeorm';
+import { TaskService } from '../../../src/modules/tasks/task.service';
+import {
+  Task,
+  TaskPriority,
+  TaskSource,
+  TaskStatus,
+} from '../../../src/entities/task.entity';
+import { Dump } from '../../../src/entities/dump.entity';
+import type { ContentAnalysisResponse } from '../../../src/modules/ai/claude.service';
+
+describe('TaskService', () => {
+  let service: TaskService;
+  let taskRepository: any;
+
+  const dump = {
+    id: 'dump-1',
+    user_id: 'user-1',
+    created_at: new Date('2026-03-02T09:00:00Z'),
+  } as Dump;
+
+  const analysis = (
+    overrides: Partial<ContentAnalysisResponse>,
+  ): ContentAnalysisResponse => ({
+    summary: 'Summary',
+    category: 'Home',
+    categoryConfidence: 0.9,
+    extractedEntities: {},
+    urgency: 'low',
+    confidence: 0.9,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    taskRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+      delete: jest.fn(),
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve(data)),
+      createQueryBuilder: jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        getRawOne: jest.fn().mockResolvedValue({ max: 4 }),
+      })),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskService,
+        { provide: getRepositoryToken(Task), useValue: taskRepository },
+      ],
+    }).compile();
+
+    service = module.get<TaskService>(TaskService);
+  });
+
+  it('should create ordered tasks from detailed action items', async () => {
+    const tasks = await service.createTasksFromAnalysis(
+      dump,
+      analysis({
+        urgency: 'high',
+        tasks: [
+          {
+            title: 'Pay the electricity bill',
+            dueDate: '2026-03-05T00:00:00Z',
+            estimatedMinutes: 10,
+          },
+          { title: 'Call the plumber', priority: 'low' },
+        ],
+      }),
+    );
+
+    expect(tasks).toEqual([
+      expect.objectContaining({
+        user_id: 'user-1',
+        dump_id: 'dump-1',
+        title: 'Pay the electricity bill',
+        due_date: new Date('2026-03-05T00:00:00Z'),
+        estimated_minutes: 10,
+        priority: TaskPriority.HIGH,
+        sort_order: 5,
+        source: TaskSource.ACTION_ITEM,
+      }),
+      expect.objectContaining({
+        title: 'Call the plumber',
+        due_date: null,
+        priority: TaskPriority.LOW,
+        sort_order: 6,
+      }),
+    ]);
+  });
+
+  it('should replace open tasks on re-runs and keep finished ones', async () => {
+    taskRepository.find.mockResolvedValue([
+      { id: 'task-1', title: 'Buy paint', status: TaskStatus.PENDING },
+      { id: 'task-2', title: 'Sand the walls', status: TaskStatus.COMPLETED },
+    ]);
+
+    const tasks = await service.createTasksFromAnalysis(
+      dump,
+      analysis({ actionItems: ['Sand the walls', 'Buy paint tomorrow'] }),
+    );
+
+    expect(taskRepository.delete).toHaveBeenCalledWith({
+      id: In(['task-1']),
+    });
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].title).toBe('Buy paint tomorrow');
+    // Dates in the action item text are used when there is no deadline
+    expect(tasks[0].due_date?.getUTCDate()).toBe(3);
+  });
+
+  it('should stamp completion and hide tasks of other users', async () => {
+    taskRepository.findOne.mockResolvedValue({
+      id: 'task-1',
+      user_id: 'user-1',
+      status: TaskStatus.PENDING,
+      completed_at: null,
+    });
+
+    const task = await service.completeTask('user-1', 'task-1');
+
+    expect(task.status).toBe(TaskStatus.COMPLETED);
+    expect(task.completed_at).toBeInstanceOf(Date);
+    expect(taskRepository.findOne).toHaveBeenCalledWith({
+      where: { id: 'task-1', user_id: 'user-1' },
+    });
+
+    taskRepository.findOne.mockResolvedValue(null);
+    await expect(service.completeTask('user-2', 'task-1')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should leave out tasks of trashed dumps', async () => {
+    const query = {
+      where: jest.fn().mockReturnThis(),
+      andWhere: jest.fn().mockReturnThis(),
+      orderBy: jest.fn().mockReturnThis(),
+      addOrderBy: jest.fn().mockReturnThis(),
+      getMany: jest.fn().mockResolvedValue([]),
+    };
+    taskRepository.createQueryBuilder.mockReturnValue(query);
+
+    await service.getOpenTasks('user-1');
+
+    expect(query.andWhere).toHaveBeenCalledWith(
+      expect.stringContaining('dump.deleted_at IS NOT NULL'),
+    );
+  });
+});